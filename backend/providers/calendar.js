@@ -0,0 +1,116 @@
+const fs = require('fs');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Far enough to step over any run of weekends and holidays in the calendar
+const MAX_DAYS_AHEAD = 14;
+
+const minutesOf = (hhmm) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+};
+
+// Wall-clock date (yyyy-mm-dd), minutes since midnight and weekday (0 = Sunday) of `date` in `timeZone`
+function localParts(date, timeZone) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+      .formatToParts(date)
+      .map((p) => [p.type, p.value])
+  );
+  const day = `${parts.year}-${parts.month}-${parts.day}`;
+  return {
+    day,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute) + Number(parts.second) / 60,
+    weekday: new Date(`${day}T00:00:00Z`).getUTCDay(),
+  };
+}
+
+// The instant a wall-clock time on `day` happens in `timeZone`; the second pass settles DST changes
+function zonedTime(day, minutes, timeZone) {
+  const wall = Date.parse(`${day}T00:00:00Z`) + minutes * 60 * 1000;
+  let instant = wall;
+  for (let i = 0; i < 2; i += 1) {
+    const local = localParts(new Date(instant), timeZone);
+    instant = wall - (Date.parse(`${local.day}T00:00:00Z`) + local.minutes * 60 * 1000 - instant);
+  }
+  return new Date(instant);
+}
+
+const addDays = (day, n) => new Date(Date.parse(`${day}T00:00:00Z`) + n * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Trading sessions, holidays and time zones per market (NSE and BSE share one calendar, as do
+ * NASDAQ and NYSE). `status` says whether a market is open, in its pre-open session or closed
+ * and when that next changes, which is what refresh cadence and cache lifetimes key off.
+ */
+function createExchangeCalendar(file) {
+  const calendar = JSON.parse(fs.readFileSync(file, 'utf8'));
+  const markets = Object.entries(calendar.markets || {}).map(([id, m]) => ({
+    id,
+    name: m.name,
+    exchanges: m.exchanges,
+    timeZone: m.timeZone,
+    preOpen: minutesOf(m.sessions.preOpen),
+    open: minutesOf(m.sessions.open),
+    close: minutesOf(m.sessions.close),
+    holidays: new Map((m.holidays || []).map((h) => [h.date, h.name])),
+    earlyCloses: new Map((m.earlyCloses || []).map((e) => [e.date, minutesOf(e.close)])),
+  }));
+  const byExchange = new Map(markets.flatMap((m) => m.exchanges.map((e) => [e, m])));
+
+  const tradingDay = (market, day) => {
+    const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+    return weekday !== 0 && weekday !== 6 && !market.holidays.has(day);
+  };
+
+  const nextTradingDay = (market, day) => {
+    for (let n = 1; n <= MAX_DAYS_AHEAD; n += 1) {
+      const next = addDays(day, n);
+      if (tradingDay(market, next)) return next;
+    }
+    return null;
+  };
+
+  function status(market, now = new Date()) {
+    const { day, minutes, weekday } = localParts(now, market.timeZone);
+    const at = (d, m) => zonedTime(d, m, market.timeZone).toISOString();
+    const base = {
+      market: market.id,
+      name: market.name,
+      exchanges: market.exchanges,
+      timeZone: market.timeZone,
+      holiday: market.holidays.get(day) || null,
+      weekend: weekday === 0 || weekday === 6,
+    };
+    const close = market.earlyCloses.get(day) ?? market.close;
+    if (tradingDay(market, day) && minutes < close) {
+      if (minutes >= market.open) return { ...base, state: 'open', nextChange: at(day, close), closesAt: at(day, close) };
+      if (minutes >= market.preOpen) return { ...base, state: 'pre-open', nextChange: at(day, market.open), opensAt: at(day, market.open) };
+      return { ...base, state: 'closed', nextChange: at(day, market.preOpen), opensAt: at(day, market.open) };
+    }
+    const next = nextTradingDay(market, day);
+    return {
+      ...base,
+      state: 'closed',
+      nextChange: next ? at(next, market.preOpen) : null,
+      opensAt: next ? at(next, market.open) : null,
+    };
+  }
+
+  return {
+    asOf: calendar.asOf || null,
+    statuses: (now) => markets.map((m) => status(m, now)),
+    /** Status of the market an exchange trades on, or null for an exchange outside the calendar */
+    statusFor: (exchange, now) => (byExchange.has(exchange) ? status(byExchange.get(exchange), now) : null),
+  };
+}
+
+module.exports = { createExchangeCalendar };
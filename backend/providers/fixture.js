@@ -0,0 +1,92 @@
+const fs = require('fs');
+const path = require('path');
+const { parseQuotePage, parseChart, parseEarningsHistory, HISTORY_INTERVALS } = require('./yahoo');
+const { parseFinancePage } = require('./google');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RANGE_DAYS = { '1d': 1, '5d': 7, '1mo': 31, '3mo': 92, '6mo': 183, '1y': 366, '2y': 731, '5y': 1827, max: Infinity };
+
+// Index symbols such as ^NSEI and listing keys such as RELIANCE:NSE are not safe file names
+const fixtureName = (symbol, suffix) => `${String(symbol).toUpperCase().replace(/[^A-Z0-9.-]/g, '_')}${suffix}`;
+
+async function readFixture(dir, symbol, suffix) {
+  try {
+    return await fs.promises.readFile(path.join(dir, fixtureName(symbol, suffix)), 'utf8');
+  } catch (err) {
+    if (err.code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+// Saves raw upstream responses so the fixture provider can replay them later; no-op without a directory
+function createRecorder(dir, logger) {
+  if (!dir) return () => undefined;
+  fs.mkdirSync(dir, { recursive: true });
+  return (provider, kind, symbol, ext, body) => {
+    const file = path.join(dir, fixtureName(symbol, `.${provider}-${kind}.${ext}`));
+    fs.promises.writeFile(file, body).catch((err) => logger.warn({ err, file }, 'Fixture recording failed'));
+  };
+}
+
+/**
+ * Replays market data from disk. A curated `<SYMBOL>.json` wins; otherwise raw pages captured
+ * by the recorder (`<SYMBOL>_<EXCHANGE>.yahoo-quote.html`, ...) are run through the live parsers.
+ * Files named for the listing (`RELIANCE_BSE.json`) are tried before the bare symbol.
+ */
+function createFixtureProvider({ dir }) {
+  const read = async (instrument, suffix) =>
+    (await readFixture(dir, instrument.key, suffix)) ??
+    (instrument.key !== instrument.symbol ? readFixture(dir, instrument.symbol, suffix) : null);
+  const curated = async (instrument) => {
+    const raw = await read(instrument, '.json');
+    return raw ? JSON.parse(raw) : null;
+  };
+  const missing = (instrument, what) => new Error(`No ${what} fixture for ${instrument.key}`);
+
+  return {
+    name: 'fixture',
+    async quote(instrument) {
+      const fixture = await curated(instrument);
+      if (fixture && fixture.quote) return fixture.quote;
+      const html = await read(instrument, '.yahoo-quote.html');
+      if (html) return parseQuotePage(html);
+      throw missing(instrument, 'quote');
+    },
+    async fundamentals(instrument) {
+      const fixture = await curated(instrument);
+      if (fixture && fixture.fundamentals) return fixture.fundamentals;
+      const html = await read(instrument, '.google-finance.html');
+      if (!html) throw missing(instrument, 'fundamentals');
+      const { peRatio, eps, marketCap } = parseFinancePage(html);
+      return { peRatio, eps, marketCap };
+    },
+    async earnings(instrument) {
+      const fixture = await curated(instrument);
+      if (fixture && fixture.earnings) return fixture.earnings;
+      const html = await read(instrument, '.google-finance.html');
+      if (!html) throw missing(instrument, 'earnings');
+      return { latestEarnings: parseFinancePage(html).latestEarnings };
+    },
+    async earningsHistory(instrument) {
+      const fixture = await curated(instrument);
+      if (fixture && Array.isArray(fixture.earningsHistory)) return { quarters: fixture.earningsHistory };
+      const raw = await read(instrument, '.yahoo-earnings.json');
+      if (raw) return { quarters: parseEarningsHistory(JSON.parse(raw)) };
+      throw missing(instrument, 'earnings history');
+    },
+    async history(instrument, range) {
+      const fixture = await curated(instrument);
+      if (fixture && Array.isArray(fixture.history) && fixture.history.length) {
+        // Curated history is daily closes; trim it to the range ending at the last recorded bar
+        const last = Date.parse(fixture.history[fixture.history.length - 1].time);
+        const from = last - RANGE_DAYS[range] * DAY_MS;
+        return { interval: '1d', points: fixture.history.filter((p) => Date.parse(p.time) >= from) };
+      }
+      const raw = await read(instrument, `.yahoo-history-${range}.json`);
+      if (raw) return { interval: HISTORY_INTERVALS[range], points: parseChart(JSON.parse(raw)) };
+      throw missing(instrument, 'history');
+    },
+  };
+}
+
+module.exports = { createFixtureProvider, createRecorder };
@@ -0,0 +1,52 @@
+const cheerio = require('cheerio');
+
+const SCALE = { K: 1e3, M: 1e6, B: 1e9, T: 1e12 };
+
+const toNumber = (text) => parseFloat(String(text || '').replace(/[\,\s]/g, ''));
+
+// "2.85T USD" -> 2850000000000
+function parseCompact(text) {
+  const match = String(text || '').trim().match(/^([\d.,]+)\s*([KMBT])?/i);
+  if (!match) return NaN;
+  return toNumber(match[1]) * (match[2] ? SCALE[match[2].toUpperCase()] : 1);
+}
+
+// Google Finance scraping (brittle; replace with a stable API)
+function parseFinancePage(html) {
+  const $ = cheerio.load(html);
+  const labelled = (label) => $(`div:contains("${label}")`).closest('div').next().text() || '';
+  const peRatio = toNumber(labelled('P/E ratio'));
+  const eps = toNumber(labelled('EPS'));
+  const marketCap = parseCompact(labelled('Market cap'));
+  return {
+    peRatio: Number.isFinite(peRatio) ? peRatio : NaN,
+    eps: Number.isFinite(eps) ? eps : NaN,
+    marketCap: Number.isFinite(marketCap) ? marketCap : NaN,
+    latestEarnings: { date: labelled('Earnings date'), eps: Number.isFinite(eps) ? eps : NaN, revenue: NaN },
+  };
+}
+
+function createGoogleProvider({ http, cached, record }) {
+  // P/E and earnings come from the same page, so both share one cached fetch
+  // `google` is the listing's Google Finance id (RELIANCE:NSE, 500325:BOM); the path keeps its colon
+  const loadPage = (instrument) =>
+    cached(`google:${instrument.google}`, async () => {
+      const { data: html } = await http.get(`https://www.google.com/finance/quote/${encodeURI(instrument.google)}`);
+      record('google', 'finance', instrument.key, 'html', html);
+      return parseFinancePage(html);
+    });
+
+  return {
+    name: 'google',
+    async fundamentals(instrument) {
+      const { peRatio, eps, marketCap } = await loadPage(instrument);
+      return { peRatio, eps, marketCap };
+    },
+    async earnings(instrument) {
+      const { latestEarnings } = await loadPage(instrument);
+      return { latestEarnings };
+    },
+  };
+}
+
+module.exports = { createGoogleProvider, parseFinancePage };
@@ -0,0 +1,75 @@
+const { createYahooProvider } = require('./yahoo');
+const { createGoogleProvider } = require('./google');
+const { createFixtureProvider, createRecorder } = require('./fixture');
+
+const FACTORIES = {
+  yahoo: createYahooProvider,
+  google: createGoogleProvider,
+  fixture: createFixtureProvider,
+};
+
+const CAPABILITIES = ['quote', 'fundamentals', 'earnings', 'earningsHistory', 'history'];
+
+// Consecutive failures before a provider is skipped for the cooldown period
+const FAILURE_THRESHOLD = 3;
+
+/**
+ * Build an ordered provider chain. Each capability is served by the first provider that
+ * implements it and succeeds; results are tagged with `source` and `fetchedAt` so callers know
+ * who answered and when. Capabilities take an instrument from ./instruments, which carries
+ * each provider's identifier for the listing.
+ */
+function createProviderChain(names, { http, cached, logger, fixtureDir, recordDir, cooldownMs }) {
+  const unknown = names.filter((n) => !FACTORIES[n]);
+  if (unknown.length) throw new Error(`Unknown market data providers: ${unknown.join(', ')}`);
+  if (names.length === 0) throw new Error('At least one market data provider is required');
+
+  const record = createRecorder(recordDir, logger);
+  const providers = names.map((name) => FACTORIES[name]({ http, cached, record, dir: fixtureDir }));
+  const health = new Map(names.map((name) => [name, { failures: 0, coolingUntil: 0, lastError: null }]));
+
+  async function run(capability, args) {
+    const capable = providers.filter((p) => typeof p[capability] === 'function');
+    if (capable.length === 0) throw new Error(`No configured provider supports ${capability}`);
+    // Providers in cooldown go last rather than being dropped, so a fully degraded chain still tries
+    const now = Date.now();
+    const ordered = [
+      ...capable.filter((p) => health.get(p.name).coolingUntil <= now),
+      ...capable.filter((p) => health.get(p.name).coolingUntil > now),
+    ];
+    const errors = [];
+    for (const provider of ordered) {
+      const state = health.get(provider.name);
+      try {
+        const data = await provider[capability](...args);
+        state.failures = 0;
+        state.coolingUntil = 0;
+        return { ...data, source: provider.name, fetchedAt: new Date().toISOString() };
+      } catch (err) {
+        state.failures += 1;
+        state.lastError = err.message;
+        if (state.failures >= FAILURE_THRESHOLD) state.coolingUntil = Date.now() + cooldownMs;
+        logger.warn({ err: err.message, provider: provider.name, capability, instrument: args[0].key }, 'Provider failed, trying next');
+        errors.push(`${provider.name}: ${err.message}`);
+      }
+    }
+    throw new Error(`All providers failed for ${capability} (${errors.join('; ')})`);
+  }
+
+  return {
+    names,
+    quote: (instrument) => run('quote', [instrument]),
+    fundamentals: (instrument) => run('fundamentals', [instrument]),
+    earnings: (instrument) => run('earnings', [instrument]),
+    earningsHistory: (instrument) => run('earningsHistory', [instrument]),
+    history: (instrument, range) => run('history', [instrument, range]),
+    status: () =>
+      providers.map((p) => ({
+        name: p.name,
+        capabilities: CAPABILITIES.filter((c) => typeof p[c] === 'function'),
+        ...health.get(p.name),
+      })),
+  };
+}
+
+module.exports = { createProviderChain };
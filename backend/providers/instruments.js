@@ -0,0 +1,100 @@
+const fs = require('fs');
+
+// How each exchange's listings are addressed upstream; Google Finance calls BSE "BOM"
+const EXCHANGES = {
+  NSE: { yahooSuffix: '.NS', google: 'NSE', currency: 'INR' },
+  BSE: { yahooSuffix: '.BO', google: 'BOM', currency: 'INR' },
+  NASDAQ: { yahooSuffix: '', google: 'NASDAQ', currency: 'USD' },
+  NYSE: { yahooSuffix: '', google: 'NYSE', currency: 'USD' },
+};
+
+const ISIN_PATTERN = /^[A-Z]{2}[A-Z0-9]{9}[0-9]$/;
+
+const DEFAULT_SEARCH_LIMIT = 10;
+
+/**
+ * Maps (symbol, exchange) to each provider's identifier, e.g. RELIANCE on NSE to
+ * `RELIANCE.NS` for Yahoo and `RELIANCE:NSE` for Google, using the bundled instrument
+ * master for BSE scrip codes and ISINs. Symbols outside the master are mapped by the
+ * exchange's rules alone, and a reference without an exchange is passed through as is.
+ */
+function createInstrumentMaster(file) {
+  const master = JSON.parse(fs.readFileSync(file, 'utf8'));
+  const instruments = master.instruments || [];
+  // One row per exchange listing, which is what resolution and search hand out
+  const listings = instruments.flatMap((i) =>
+    Object.entries(i.listings).map(([exchange, code]) => ({
+      symbol: i.symbol,
+      exchange,
+      code,
+      name: i.name,
+      isin: i.isin,
+      sector: i.sector,
+      currency: EXCHANGES[exchange] ? EXCHANGES[exchange].currency : null,
+    }))
+  );
+  const bySymbol = new Map(listings.map((l) => [`${l.symbol}:${l.exchange}`, l]));
+
+  const describe = (l) => ({
+    symbol: l.symbol,
+    exchange: l.exchange,
+    name: l.name,
+    isin: l.isin,
+    sector: l.sector,
+    currency: l.currency,
+  });
+
+  const byIsin = (isin) => listings.filter((l) => l.isin === String(isin).toUpperCase()).map(describe);
+
+  /**
+   * `ref` is `SYMBOL`, `SYMBOL:EXCHANGE` or an ISIN (which picks the first listed exchange).
+   * Returns null for an exchange this backend does not know or an ISIN not in the master.
+   */
+  function resolve(ref) {
+    const text = String(ref).trim().toUpperCase();
+    if (ISIN_PATTERN.test(text)) {
+      const listing = listings.find((l) => l.isin === text);
+      return listing ? resolve(`${listing.symbol}:${listing.exchange}`) : null;
+    }
+    const split = text.lastIndexOf(':');
+    const symbol = split > 0 ? text.slice(0, split) : text;
+    const exchange = split > 0 ? text.slice(split + 1) : null;
+    if (!exchange) return { key: symbol, symbol, exchange: null, isin: null, yahoo: symbol, google: symbol };
+    const rules = EXCHANGES[exchange];
+    if (!rules) return null;
+    const listing = bySymbol.get(`${symbol}:${exchange}`);
+    return {
+      key: `${symbol}:${exchange}`,
+      symbol,
+      exchange,
+      isin: listing ? listing.isin : null,
+      yahoo: `${symbol}${rules.yahooSuffix}`,
+      google: `${listing ? listing.code : symbol}:${rules.google}`,
+    };
+  }
+
+  // Exact symbol or ISIN first, then symbol prefixes, then words of the name starting with the query
+  function search(query, { exchange, limit = DEFAULT_SEARCH_LIMIT } = {}) {
+    const q = String(query || '').trim().toUpperCase();
+    if (!q) return [];
+    const rank = (l) => {
+      if (l.symbol === q || l.isin === q) return 0;
+      if (l.symbol.startsWith(q)) return 1;
+      const name = l.name.toUpperCase();
+      if (name.startsWith(q)) return 2;
+      if (name.split(/[\s.&-]+/).some((w) => w.startsWith(q))) return 3;
+      return name.includes(q) ? 4 : null;
+    };
+    return listings
+      .filter((l) => !exchange || l.exchange === exchange)
+      .map((l) => ({ l, r: rank(l) }))
+      .filter((m) => m.r !== null)
+      .sort((a, b) => a.r - b.r || a.l.symbol.localeCompare(b.l.symbol))
+      .slice(0, limit)
+      .map((m) => describe(m.l));
+  }
+
+  return { asOf: master.asOf || null, size: instruments.length, resolve, byIsin, search };
+}
+
+module.exports = { createInstrumentMaster, EXCHANGES };
@@ -0,0 +1,89 @@
+const cheerio = require('cheerio');
+
+// Yahoo chart API ranges and the bar interval used for each
+const HISTORY_INTERVALS = {
+  '1d': '5m',
+  '5d': '30m',
+  '1mo': '1d',
+  '3mo': '1d',
+  '6mo': '1d',
+  '1y': '1d',
+  '2y': '1wk',
+  '5y': '1wk',
+  max: '1mo',
+};
+
+const toNumber = (text) => parseFloat(String(text || '').replace(/[\,\s]/g, ''));
+
+// Very brittle selectors; replace with official/unofficial API in production
+function parseQuotePage(html) {
+  const $ = cheerio.load(html);
+  const priceText = $('fin-streamer[data-field="regularMarketPrice"]').first().text() || $('fin-streamer[data-field="regularMarketPreviousClose"]').first().text();
+  const price = toNumber(priceText);
+  const previousClose = toNumber($('td[data-test="PREV_CLOSE-value"]').text());
+  const volume = parseInt(String($('td[data-test="TD_VOLUME-value"]').text()).replace(/[\,\s]/g, ''), 10);
+  const change = price - previousClose;
+  const changePercent = previousClose ? (change / previousClose) * 100 : 0;
+  if (!Number.isFinite(price)) throw new Error('Failed to parse CMP');
+  return { currentPrice: price, previousClose, change, changePercent, volume };
+}
+
+function parseChart(payload) {
+  const result = payload && payload.chart && payload.chart.result && payload.chart.result[0];
+  if (!result || !Array.isArray(result.timestamp)) throw new Error('Unexpected chart payload');
+  const quote = (result.indicators && result.indicators.quote && result.indicators.quote[0]) || {};
+  const points = [];
+  result.timestamp.forEach((ts, i) => {
+    const close = quote.close && quote.close[i];
+    // Yahoo pads halted bars with nulls
+    if (close === null || close === undefined) return;
+    points.push({ time: new Date(ts * 1000).toISOString(), close, volume: (quote.volume && quote.volume[i]) || 0 });
+  });
+  return points;
+}
+
+const raw = (field) => (field && typeof field.raw === 'number' ? field.raw : NaN);
+
+// quoteSummary `earningsHistory` has EPS by fiscal quarter end; `earnings` has revenue for the same quarters, oldest first
+function parseEarningsHistory(payload) {
+  const result = payload && payload.quoteSummary && payload.quoteSummary.result && payload.quoteSummary.result[0];
+  const history = result && result.earningsHistory && result.earningsHistory.history;
+  if (!Array.isArray(history) || history.length === 0) throw new Error('Unexpected earnings payload');
+  const financials = (result.earnings && result.earnings.financialsChart && result.earnings.financialsChart.quarterly) || [];
+  const revenues = financials.map((q) => raw(q.revenue)).slice(-history.length);
+  return history.map((q, i) => ({
+    period: new Date(raw(q.quarter) * 1000).toISOString().slice(0, 7),
+    date: null, // the module does not say when the quarter was reported
+    eps: raw(q.epsActual),
+    epsEstimate: raw(q.epsEstimate),
+    revenue: revenues.length === history.length ? revenues[i] : NaN,
+  }));
+}
+
+// NOTE: Real-world: use yahoo-finance2 for quotes instead of scraping
+// Instruments come from the resolver; `yahoo` is the listing's Yahoo symbol (RELIANCE.NS, RELIANCE.BO, AAPL)
+function createYahooProvider({ http, record }) {
+  return {
+    name: 'yahoo',
+    async quote(instrument) {
+      const { data: html } = await http.get(`https://finance.yahoo.com/quote/${encodeURIComponent(instrument.yahoo)}`);
+      record('yahoo', 'quote', instrument.key, 'html', html);
+      return parseQuotePage(html);
+    },
+    async history(instrument, range) {
+      const interval = HISTORY_INTERVALS[range];
+      const url = `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(instrument.yahoo)}`;
+      const { data } = await http.get(url, { params: { range, interval } });
+      record('yahoo', `history-${range}`, instrument.key, 'json', JSON.stringify(data));
+      return { interval, points: parseChart(data) };
+    },
+    async earningsHistory(instrument) {
+      const url = `https://query2.finance.yahoo.com/v10/finance/quoteSummary/${encodeURIComponent(instrument.yahoo)}`;
+      const { data } = await http.get(url, { params: { modules: 'earningsHistory,earnings' } });
+      record('yahoo', 'earnings', instrument.key, 'json', JSON.stringify(data));
+      return { quarters: parseEarningsHistory(data) };
+    },
+  };
+}
+
+module.exports = { createYahooProvider, parseQuotePage, parseChart, parseEarningsHistory, HISTORY_INTERVALS };
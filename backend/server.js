@@ -1,22 +1,89 @@
 const express = require('express');
 const axios = require('axios');
-const cheerio = require('cheerio');
 const rateLimit = require('express-rate-limit');
 const NodeCache = require('node-cache');
 const cors = require('cors');
 const pino = require('pino');
 const pretty = require('pino-pretty');
 const morgan = require('morgan');
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { createProviderChain } = require('./providers');
+const { createInstrumentMaster, EXCHANGES } = require('./providers/instruments');
+const { createExchangeCalendar } = require('./providers/calendar');
+const { HISTORY_INTERVALS } = require('./providers/yahoo');
 
 const PORT = process.env.PORT || 4000;
-const CACHE_TTL_SEC = parseInt(process.env.CACHE_TTL_SEC || '15', 10); // default 15 seconds
+const CACHE_TTL_SEC = parseInt(process.env.CACHE_TTL_SEC || '15', 10); // default 15 seconds; quotes while a market is open
+const FX_SOURCE = process.env.FX_SOURCE || 'fixture'; // 'fixture' (offline) or 'live'
+const FX_LIVE_URL = process.env.FX_LIVE_URL || 'https://open.er-api.com/v6/latest/USD';
+const FX_FIXTURE_PATH = process.env.FX_FIXTURE_PATH || path.join(__dirname, 'fixtures', 'fx-rates.json');
+const FX_TTL_SEC = 60 * 60;
+// Ordered failover chain, e.g. "yahoo,google,fixture"; use "fixture" alone to run fully offline
+const MARKET_DATA_PROVIDERS = (process.env.MARKET_DATA_PROVIDERS || 'yahoo,google').split(',').map((p) => p.trim()).filter(Boolean);
+const MARKET_DATA_FIXTURE_DIR = process.env.MARKET_DATA_FIXTURE_DIR || path.join(__dirname, 'fixtures', 'market');
+const MARKET_DATA_RECORD_DIR = process.env.MARKET_DATA_RECORD_DIR || ''; // when set, raw upstream responses are saved here
+const PROVIDER_COOLDOWN_SEC = parseInt(process.env.PROVIDER_COOLDOWN_SEC || '60', 10);
+// Past quarters only change when a new one is reported
+const MAX_EARNINGS_QUARTERS = 20;
+// Local corporate actions feed (splits, bonuses, dividends, rights) the frontend imports from
+const CORPORATE_ACTIONS_PATH = process.env.CORPORATE_ACTIONS_PATH || path.join(__dirname, 'fixtures', 'corporate-actions.json');
+const CORPORATE_ACTIONS_TTL_SEC = 60 * 60;
+// Bundled instrument master: names, ISINs and BSE scrip codes used to resolve and search symbols
+const INSTRUMENTS_PATH = process.env.INSTRUMENTS_PATH || path.join(__dirname, 'fixtures', 'instruments.json');
+const MAX_SEARCH_RESULTS = 25;
+
+const EXCHANGE_CALENDAR_PATH = process.env.EXCHANGE_CALENDAR_PATH || path.join(__dirname, 'fixtures', 'exchange-calendar.json');
+
+// Shared with the frontend, which is the only caller meant to reach /api; unset leaves it open (dev only)
+const SERVICE_TOKEN = process.env.SERVICE_TOKEN || '';
+// Browser origins allowed to call the backend directly; the frontend itself calls server-side
+const CORS_ORIGINS = (process.env.CORS_ORIGINS || 'http://localhost:3000').split(',').map((o) => o.trim()).filter(Boolean);
+
+// Cache lifetime per data type, by the listing's market state where that matters. Prices and
+// P/E only move during a session; earnings change quarterly whatever the market is doing.
+const CACHE_TTLS = {
+  cmp: { open: CACHE_TTL_SEC, 'pre-open': CACHE_TTL_SEC, closed: 30 * 60 },
+  fundamentals: { open: 5 * 60, 'pre-open': 5 * 60, closed: 60 * 60 },
+  history: { open: 5 * 60, 'pre-open': 5 * 60, closed: 60 * 60 },
+  earnings: 6 * 60 * 60,
+  'earnings-history': 6 * 60 * 60,
+};
+// Indices the frontend can compare the portfolio against, by id
+const BENCHMARKS = {
+  NIFTY50: { symbol: '^NSEI', name: 'NIFTY 50', currency: 'INR', exchange: 'NSE' },
+  SP500: { symbol: '^GSPC', name: 'S&P 500', currency: 'USD', exchange: 'NYSE' },
+};
 
 const app = express();
-app.use(cors());
+app.use(cors({ origin: CORS_ORIGINS }));
 app.use(express.json());
 app.use(morgan('combined'));
 
 const logger = pino(pretty({ translateTime: 'SYS:standard', ignore: 'pid,hostname' }));
+
+if (!SERVICE_TOKEN) {
+  if (process.env.NODE_ENV === 'production') {
+    logger.error('SERVICE_TOKEN must be set in production');
+    process.exit(1);
+  }
+  logger.warn('SERVICE_TOKEN is not set; /api accepts calls from anyone');
+}
+
+const sameToken = (given, expected) => {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+// Everything under /api wants `Authorization: Bearer <SERVICE_TOKEN>`; /health stays open for probes
+app.use('/api', (req, res, next) => {
+  if (!SERVICE_TOKEN) return next();
+  const [scheme, token] = (req.get('authorization') || '').split(' ');
+  if (scheme === 'Bearer' && token && sameToken(token, SERVICE_TOKEN)) return next();
+  return res.status(401).json({ error: 'Missing or invalid service token' });
+});
 const cache = new NodeCache({ stdTTL: CACHE_TTL_SEC, checkperiod: 2 * CACHE_TTL_SEC });
 
 const limiter = rateLimit({ windowMs: 60 * 1000, max: 300, standardHeaders: true, legacyHeaders: false });
@@ -28,57 +95,125 @@ function cacheKey(type, symbol) {
   return `${type}:${symbol}`.toUpperCase();
 }
 
+// Upstream fetches currently running, by cache key; concurrent callers share one request
+const inflight = new Map();
+
 async function getCachedOrFetch(key, fetcher, ttl = CACHE_TTL_SEC) {
   const hit = cache.get(key);
   if (hit) return hit;
-  const data = await fetcher();
-  cache.set(key, data, ttl);
-  return data;
+  if (inflight.has(key)) return inflight.get(key);
+  const pending = (async () => {
+    try {
+      const data = await fetcher();
+      cache.set(key, data, ttl);
+      return data;
+    } finally {
+      inflight.delete(key);
+    }
+  })();
+  inflight.set(key, pending);
+  return pending;
+}
+
+const marketData = createProviderChain(MARKET_DATA_PROVIDERS, {
+  http,
+  cached: getCachedOrFetch,
+  logger,
+  fixtureDir: MARKET_DATA_FIXTURE_DIR,
+  recordDir: MARKET_DATA_RECORD_DIR,
+  cooldownMs: PROVIDER_COOLDOWN_SEC * 1000,
+});
+
+const instruments = createInstrumentMaster(INSTRUMENTS_PATH);
+const calendar = createExchangeCalendar(EXCHANGE_CALENDAR_PATH);
+
+// Outside a session an entry lives until the market next changes state, so the first pre-open
+// or opening price is fetched fresh; listings without an exchange are treated as always open
+function ttlFor(type, exchange) {
+  const ttl = CACHE_TTLS[type];
+  if (typeof ttl === 'number') return ttl;
+  const status = exchange ? calendar.statusFor(exchange) : null;
+  if (!status) return ttl.open;
+  if (status.state === 'open' || !status.nextChange) return ttl[status.state];
+  const untilChange = Math.ceil((Date.parse(status.nextChange) - Date.now()) / 1000);
+  return Math.max(1, Math.min(ttl[status.state], untilChange));
+}
+
+// FX rates are kept USD-based internally and rebased per request
+function loadFixtureFxRates() {
+  const fixture = JSON.parse(fs.readFileSync(FX_FIXTURE_PATH, 'utf8'));
+  return { rates: fixture.rates, asOf: fixture.asOf, source: 'fixture' };
+}
+
+async function fetchUsdFxRates() {
+  if (FX_SOURCE !== 'live') return loadFixtureFxRates();
+  try {
+    const { data } = await http.get(FX_LIVE_URL);
+    if (!data || !data.rates || !data.rates.INR) throw new Error('Unexpected FX payload');
+    return { rates: { ...data.rates, USD: 1 }, asOf: new Date().toISOString(), source: 'live' };
+  } catch (err) {
+    logger.warn({ err }, 'Live FX fetch failed, using fixture rates');
+    return loadFixtureFxRates();
+  }
 }
 
-// NOTE: Real-world: use yahoo-finance2 for quotes instead of scraping
-async function fetchYahooQuote(symbol) {
-  // Fallback scraping of Yahoo Finance quote page
-  const url = `https://finance.yahoo.com/quote/${encodeURIComponent(symbol)}`;
-  const { data: html } = await http.get(url);
-  const $ = cheerio.load(html);
-  // Very brittle selectors; replace with official/unofficial API in production
-  const priceText = $('fin-streamer[data-field="regularMarketPrice"]').first().text() || $('fin-streamer[data-field="regularMarketPreviousClose"]').first().text();
-  const prevCloseText = $('td[data-test="PREV_CLOSE-value"]').text();
-  const volumeText = $('td[data-test="TD_VOLUME-value"]').text();
-  const price = parseFloat(priceText.replace(/[\,\s]/g, ''));
-  const previousClose = parseFloat(prevCloseText.replace(/[\,\s]/g, ''));
-  const volume = parseInt(volumeText.replace(/[\,\s]/g, ''), 10);
-  const change = price - previousClose;
-  const changePercent = previousClose ? (change / previousClose) * 100 : 0;
-  if (!Number.isFinite(price)) throw new Error('Failed to parse CMP');
-  return { currentPrice: price, previousClose, change, changePercent, volume };
+function rebaseRates(usdRates, base) {
+  const baseRate = usdRates[base];
+  if (!baseRate) return null;
+  const rates = {};
+  for (const [ccy, rate] of Object.entries(usdRates)) rates[ccy] = rate / baseRate;
+  return rates;
 }
 
-// Google Finance scraping for P/E and earnings (brittle; replace with a stable API)
-async function fetchGoogleFinancials(symbol) {
-  const url = `https://www.google.com/finance/quote/${encodeURIComponent(symbol)}`;
-  const { data: html } = await http.get(url);
-  const $ = cheerio.load(html);
-  // Attempt to read P/E (TTM) and recent earnings date
-  const peLabel = $('div:contains("P/E ratio")').closest('div').next().text();
-  const peRatio = parseFloat((peLabel || '').replace(/[\,\s]/g, ''));
-  const earningsDate = $('div:contains("Earnings date")').closest('div').next().text() || '';
-  const epsText = $('div:contains("EPS")').closest('div').next().text() || '';
-  const eps = parseFloat(epsText.replace(/[\,\s]/g, ''));
-  return {
-    peRatio: Number.isFinite(peRatio) ? peRatio : NaN,
-    latestEarnings: { date: earningsDate, eps: Number.isFinite(eps) ? eps : NaN, revenue: NaN },
-  };
+function loadCorporateActions() {
+  const feed = JSON.parse(fs.readFileSync(CORPORATE_ACTIONS_PATH, 'utf8'));
+  return { actions: feed.actions || [], asOf: feed.asOf || null, source: 'fixture' };
 }
 
+// Market data is cached per listing, so RELIANCE on NSE and on BSE are separate entries
+const getQuote = (instrument) =>
+  getCachedOrFetch(cacheKey('cmp', instrument.key), () => marketData.quote(instrument), ttlFor('cmp', instrument.exchange));
+const getFundamentals = (instrument) =>
+  getCachedOrFetch(cacheKey('fundamentals', instrument.key), () => marketData.fundamentals(instrument), ttlFor('fundamentals', instrument.exchange));
+const getEarnings = (instrument) =>
+  getCachedOrFetch(cacheKey('earnings', instrument.key), () => marketData.earnings(instrument), ttlFor('earnings', instrument.exchange));
+const getEarningsHistory = (instrument) =>
+  getCachedOrFetch(cacheKey('earnings-history', instrument.key), () => marketData.earningsHistory(instrument), ttlFor('earnings-history', instrument.exchange));
+const getHistory = (instrument, range) =>
+  getCachedOrFetch(cacheKey(`history:${range}`, instrument.key), () => marketData.history(instrument, range), ttlFor('history', instrument.exchange));
+
+// `:symbol` params and batch entries are instrument references: AAPL, RELIANCE:NSE, RELIANCE:BSE or an ISIN
+const unresolved = (ref) =>
+  `Cannot resolve ${ref}; use SYMBOL, SYMBOL:EXCHANGE (${Object.keys(EXCHANGES).join(', ')}) or a known ISIN`;
+
+// `key` is the cache entry a field is served from, so the batch can report hits and misses
+const QUOTE_FIELDS = {
+  cmp: {
+    key: (instrument) => cacheKey('cmp', instrument.key),
+    load: getQuote,
+    pick: ({ currentPrice, previousClose, change, changePercent, volume }) => ({ currentPrice, previousClose, change, changePercent, volume }),
+    error: 'Failed to fetch CMP',
+  },
+  pe: {
+    key: (instrument) => cacheKey('fundamentals', instrument.key),
+    load: getFundamentals,
+    pick: ({ peRatio, eps, marketCap }) => ({ peRatio, eps, marketCap }),
+    error: 'Failed to fetch P/E ratio',
+  },
+  earnings: { key: (instrument) => cacheKey('earnings', instrument.key), load: getEarnings, pick: (d) => ({ latestEarnings: d.latestEarnings }), error: 'Failed to fetch earnings' },
+};
+const MAX_BATCH_SYMBOLS = 50;
+
 app.get('/health', (_, res) => res.json({ ok: true }));
 
+app.get('/api/providers', (_, res) => res.json({ chain: marketData.names, providers: marketData.status() }));
+
 app.get('/api/cmp/:symbol', async (req, res) => {
   const symbol = req.params.symbol;
+  const instrument = instruments.resolve(symbol);
+  if (!instrument) return res.status(400).json({ error: unresolved(symbol) });
   try {
-    const key = cacheKey('cmp', symbol);
-    const data = await getCachedOrFetch(key, () => fetchYahooQuote(symbol));
+    const data = await getQuote(instrument);
     res.json(data);
   } catch (err) {
     logger.error({ err }, 'CMP fetch failed');
@@ -88,9 +223,10 @@ app.get('/api/cmp/:symbol', async (req, res) => {
 
 app.get('/api/pe/:symbol', async (req, res) => {
   const symbol = req.params.symbol;
+  const instrument = instruments.resolve(symbol);
+  if (!instrument) return res.status(400).json({ error: unresolved(symbol) });
   try {
-    const key = cacheKey('pe', symbol);
-    const data = await getCachedOrFetch(key, () => fetchGoogleFinancials(symbol));
+    const data = await getFundamentals(instrument);
     res.json({ peRatio: data.peRatio });
   } catch (err) {
     logger.error({ err }, 'PE fetch failed');
@@ -100,9 +236,10 @@ app.get('/api/pe/:symbol', async (req, res) => {
 
 app.get('/api/earnings/:symbol', async (req, res) => {
   const symbol = req.params.symbol;
+  const instrument = instruments.resolve(symbol);
+  if (!instrument) return res.status(400).json({ error: unresolved(symbol) });
   try {
-    const key = cacheKey('earnings', symbol);
-    const data = await getCachedOrFetch(key, () => fetchGoogleFinancials(symbol));
+    const data = await getEarnings(instrument);
     res.json({ latestEarnings: data.latestEarnings });
   } catch (err) {
     logger.error({ err }, 'Earnings fetch failed');
@@ -110,6 +247,185 @@ app.get('/api/earnings/:symbol', async (req, res) => {
   }
 });
 
+// P/E, trailing EPS and market cap in one response
+app.get('/api/fundamentals/:symbol', async (req, res) => {
+  const symbol = req.params.symbol;
+  const instrument = instruments.resolve(symbol);
+  if (!instrument) return res.status(400).json({ error: unresolved(symbol) });
+  try {
+    const data = await getFundamentals(instrument);
+    res.json({ symbol, peRatio: data.peRatio, eps: data.eps, marketCap: data.marketCap, source: data.source, fetchedAt: data.fetchedAt });
+  } catch (err) {
+    logger.error({ err }, 'Fundamentals fetch failed');
+    res.status(502).json({ error: 'Failed to fetch fundamentals' });
+  }
+});
+
+// Reported EPS (with the estimate) and revenue per quarter, oldest first: /api/earnings/AAPL/history?quarters=8
+app.get('/api/earnings/:symbol/history', async (req, res) => {
+  const symbol = req.params.symbol;
+  const instrument = instruments.resolve(symbol);
+  if (!instrument) return res.status(400).json({ error: unresolved(symbol) });
+  const quarters = parseInt(String(req.query.quarters || '8'), 10);
+  if (!(quarters >= 1 && quarters <= MAX_EARNINGS_QUARTERS)) {
+    return res.status(400).json({ error: `quarters must be between 1 and ${MAX_EARNINGS_QUARTERS}` });
+  }
+  try {
+    const data = await getEarningsHistory(instrument);
+    const sorted = [...data.quarters].sort((a, b) => a.period.localeCompare(b.period));
+    res.json({ symbol, quarters: sorted.slice(-quarters), source: data.source, fetchedAt: data.fetchedAt });
+  } catch (err) {
+    logger.error({ err }, 'Earnings history fetch failed');
+    res.status(502).json({ error: 'Failed to fetch earnings history' });
+  }
+});
+
+// Daily or intraday closes: /api/history/AAPL?range=1y
+app.get('/api/history/:symbol', async (req, res) => {
+  const symbol = req.params.symbol;
+  const instrument = instruments.resolve(symbol);
+  if (!instrument) return res.status(400).json({ error: unresolved(symbol) });
+  const range = String(req.query.range || '1mo');
+  if (!HISTORY_INTERVALS[range]) return res.status(400).json({ error: `Unsupported range ${range}` });
+  try {
+    const data = await getHistory(instrument, range);
+    res.json({ symbol, range, interval: data.interval, points: data.points, source: data.source });
+  } catch (err) {
+    logger.error({ err }, 'History fetch failed');
+    res.status(502).json({ error: 'Failed to fetch price history' });
+  }
+});
+
+app.get('/api/benchmarks', (_, res) => res.json({ benchmarks: Object.entries(BENCHMARKS).map(([id, b]) => ({ id, ...b })) }));
+
+// Index level and closes through the same provider chain as holdings: /api/benchmark/NIFTY50?range=1y
+app.get('/api/benchmark/:id', async (req, res) => {
+  const id = req.params.id.toUpperCase();
+  const benchmark = BENCHMARKS[id];
+  if (!benchmark) return res.status(404).json({ error: `Unknown benchmark ${id}; use one of ${Object.keys(BENCHMARKS).join(', ')}` });
+  const range = String(req.query.range || '1y');
+  if (!HISTORY_INTERVALS[range]) return res.status(400).json({ error: `Unsupported range ${range}` });
+  try {
+    // Index symbols carry no exchange of their own; the benchmark's market sets its cache lifetimes
+    const instrument = { ...instruments.resolve(benchmark.symbol), exchange: benchmark.exchange };
+    const [quote, history] = await Promise.all([getQuote(instrument), getHistory(instrument, range)]);
+    res.json({
+      id,
+      ...benchmark,
+      currentPrice: quote.currentPrice,
+      changePercent: quote.changePercent,
+      range,
+      interval: history.interval,
+      points: history.points,
+      source: history.source,
+    });
+  } catch (err) {
+    logger.error({ err, benchmark: id }, 'Benchmark fetch failed');
+    res.status(502).json({ error: 'Failed to fetch benchmark' });
+  }
+});
+
+// Batch: /api/quotes?symbols=AAPL,RELIANCE:NSE&fields=cmp,pe,earnings, keyed by the references as sent
+// Responds 200 with per-symbol results; failures are reported per symbol and field under `errors`,
+// and `meta` says where each field came from (provider, fetch time, cache hit or miss, failure reason)
+app.get('/api/quotes', async (req, res) => {
+  const symbols = Array.from(new Set(String(req.query.symbols || '').split(',').map((s) => s.trim()).filter(Boolean)));
+  const fields = String(req.query.fields || 'cmp,pe,earnings').split(',').map((f) => f.trim()).filter(Boolean);
+  if (symbols.length === 0) return res.status(400).json({ error: 'symbols is required' });
+  if (symbols.length > MAX_BATCH_SYMBOLS) return res.status(400).json({ error: `At most ${MAX_BATCH_SYMBOLS} symbols per request` });
+  const unknown = fields.filter((f) => !QUOTE_FIELDS[f]);
+  if (unknown.length) return res.status(400).json({ error: `Unknown fields: ${unknown.join(', ')}` });
+
+  const results = {};
+  await Promise.all(
+    symbols.map(async (symbol) => {
+      const entry = {};
+      const instrument = instruments.resolve(symbol);
+      await Promise.all(
+        fields.map(async (field) => {
+          const spec = QUOTE_FIELDS[field];
+          if (!instrument) {
+            entry.errors = { ...entry.errors, [field]: spec.error };
+            entry.meta = { ...entry.meta, [field]: { source: null, fetchedAt: null, cache: 'miss', error: unresolved(symbol) } };
+            return;
+          }
+          const cached = cache.has(spec.key(instrument));
+          try {
+            const data = await spec.load(instrument);
+            entry[field] = spec.pick(data);
+            entry.meta = { ...entry.meta, [field]: { source: data.source, fetchedAt: data.fetchedAt, cache: cached ? 'hit' : 'miss' } };
+          } catch (err) {
+            logger.error({ err, symbol, field }, 'Batch quote field failed');
+            entry.errors = { ...entry.errors, [field]: spec.error };
+            entry.meta = { ...entry.meta, [field]: { source: null, fetchedAt: null, cache: 'miss', error: err.message } };
+          }
+        })
+      );
+      results[symbol] = entry;
+    })
+  );
+  res.json({ results });
+});
+
+// Instrument master lookups: /api/instruments/search?q=reli&exchange=NSE&limit=10 matches symbols, names and ISINs
+app.get('/api/instruments/search', (req, res) => {
+  const exchange = req.query.exchange ? String(req.query.exchange).toUpperCase() : undefined;
+  if (exchange && !EXCHANGES[exchange]) return res.status(400).json({ error: `Unknown exchange ${exchange}` });
+  const limit = Math.min(parseInt(String(req.query.limit || '10'), 10) || 10, MAX_SEARCH_RESULTS);
+  res.json({ results: instruments.search(req.query.q, { exchange, limit }), asOf: instruments.asOf });
+});
+
+// Every listing of an ISIN, e.g. INE002A01018 -> RELIANCE on NSE and BSE
+app.get('/api/instruments/isin/:isin', (req, res) => {
+  const isin = req.params.isin.toUpperCase();
+  const listings = instruments.byIsin(isin);
+  if (listings.length === 0) return res.status(404).json({ error: `No instrument with ISIN ${isin}` });
+  res.json({ isin, listings });
+});
+
+// The identifier each provider is asked for: /api/instruments/resolve/RELIANCE:BSE
+app.get('/api/instruments/resolve/:ref', (req, res) => {
+  const instrument = instruments.resolve(req.params.ref);
+  if (!instrument) return res.status(400).json({ error: unresolved(req.params.ref) });
+  res.json(instrument);
+});
+
+// Open, pre-open or closed per market, with the next change: /api/market-status?at=2025-01-02T10:00:00Z
+app.get('/api/market-status', (req, res) => {
+  const now = req.query.at ? new Date(String(req.query.at)) : new Date();
+  if (Number.isNaN(now.getTime())) return res.status(400).json({ error: 'at must be an ISO date-time' });
+  res.json({ markets: calendar.statuses(now), at: now.toISOString(), asOf: calendar.asOf });
+});
+
+// /api/corporate-actions?symbols=NVDA,AAPL (all symbols when omitted), oldest first
+app.get('/api/corporate-actions', async (req, res) => {
+  const symbols = String(req.query.symbols || '').split(',').map((s) => s.trim().toUpperCase()).filter(Boolean);
+  try {
+    const feed = await getCachedOrFetch('CORPORATE-ACTIONS', async () => loadCorporateActions(), CORPORATE_ACTIONS_TTL_SEC);
+    const actions = feed.actions
+      .filter((a) => symbols.length === 0 || symbols.includes(a.symbol))
+      .sort((a, b) => a.exDate.localeCompare(b.exDate));
+    res.json({ actions, asOf: feed.asOf, source: feed.source });
+  } catch (err) {
+    logger.error({ err }, 'Corporate actions load failed');
+    res.status(502).json({ error: 'Failed to load corporate actions' });
+  }
+});
+
+// rates[X] = units of X per 1 unit of base
+app.get('/api/fx', async (req, res) => {
+  const base = String(req.query.base || 'USD').toUpperCase();
+  try {
+    const usd = await getCachedOrFetch(cacheKey('fx', 'USD'), fetchUsdFxRates, FX_TTL_SEC);
+    const rates = rebaseRates(usd.rates, base);
+    if (!rates) return res.status(400).json({ error: `Unsupported base currency ${base}` });
+    res.json({ base, rates, asOf: usd.asOf, source: usd.source });
+  } catch (err) {
+    logger.error({ err }, 'FX fetch failed');
+    res.status(502).json({ error: 'Failed to fetch FX rates' });
+  }
+});
+
 app.listen(PORT, () => {
   logger.info(`Backend listening on :${PORT}`);
 });
@@ -0,0 +1,129 @@
+// Local stand-in for an OpenID Connect provider, for trying OIDC sign-in without a real one.
+// The authorize page asks for any username (no password) and signs an id_token for it.
+// Usage: OIDC_PORT=4600 OIDC_CLIENT_ID=portfolio OIDC_CLIENT_SECRET=optional node scripts/oidc-provider.mjs
+import { createServer } from 'http';
+import { createHash, createSign, generateKeyPairSync, randomBytes } from 'crypto';
+
+const port = parseInt(process.env.OIDC_PORT || '4600', 10);
+const issuer = `http://localhost:${port}`;
+const clientId = process.env.OIDC_CLIENT_ID || 'portfolio';
+const clientSecret = process.env.OIDC_CLIENT_SECRET || '';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const kid = randomBytes(4).toString('hex');
+const jwk = { ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', alg: 'RS256' };
+
+// Issued codes, one use each, expiring after a minute
+const codes = new Map();
+
+const b64url = (value) => Buffer.from(typeof value === 'string' ? value : JSON.stringify(value)).toString('base64url');
+const escape = (s) => String(s).replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+function idToken(claims) {
+  const unsigned = `${b64url({ alg: 'RS256', typ: 'JWT', kid })}.${b64url(claims)}`;
+  const signature = createSign('RSA-SHA256').update(unsigned).sign(privateKey).toString('base64url');
+  return `${unsigned}.${signature}`;
+}
+
+function send(res, status, body, type = 'application/json') {
+  res.statusCode = status;
+  res.setHeader('Content-Type', type);
+  res.end(type === 'application/json' ? JSON.stringify(body) : body);
+}
+
+function authorizePage(params) {
+  const hidden = [...params].map(([k, v]) => `<input type="hidden" name="${escape(k)}" value="${escape(v)}">`).join('');
+  return `<!doctype html><title>Local OIDC</title>
+<form method="post" action="/authorize" style="font-family:sans-serif;max-width:20rem;margin:4rem auto;display:grid;gap:.5rem">
+<h1>Local OIDC sign-in</h1>${hidden}
+<label>Username <input name="username" required></label>
+<label>Name <input name="name"></label>
+<button>Sign in</button></form>`;
+}
+
+const readBody = (req) =>
+  new Promise((resolve) => {
+    const chunks = [];
+    req.on('data', (c) => chunks.push(c));
+    req.on('end', () => resolve(new URLSearchParams(Buffer.concat(chunks).toString('utf8'))));
+  });
+
+createServer(async (req, res) => {
+  const url = new URL(req.url, issuer);
+  console.log(`[${new Date().toISOString()}] ${req.method} ${url.pathname}`);
+
+  if (url.pathname === '/.well-known/openid-configuration') {
+    return send(res, 200, {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+    });
+  }
+  if (url.pathname === '/jwks') return send(res, 200, { keys: [jwk] });
+
+  if (url.pathname === '/authorize' && req.method === 'GET') {
+    if (url.searchParams.get('client_id') !== clientId) return send(res, 400, 'Unknown client_id', 'text/plain');
+    return send(res, 200, authorizePage(url.searchParams), 'text/html');
+  }
+  if (url.pathname === '/authorize' && req.method === 'POST') {
+    const form = await readBody(req);
+    const username = (form.get('username') || '').trim();
+    if (!username) return send(res, 400, 'username is required', 'text/plain');
+    const code = randomBytes(16).toString('hex');
+    codes.set(code, {
+      username,
+      name: form.get('name') || username,
+      nonce: form.get('nonce'),
+      redirectUri: form.get('redirect_uri'),
+      challenge: form.get('code_challenge'),
+      expires: Date.now() + 60 * 1000,
+    });
+    const back = new URL(form.get('redirect_uri'));
+    back.searchParams.set('code', code);
+    if (form.get('state')) back.searchParams.set('state', form.get('state'));
+    res.statusCode = 302;
+    res.setHeader('Location', back.toString());
+    return res.end();
+  }
+
+  if (url.pathname === '/token' && req.method === 'POST') {
+    const form = await readBody(req);
+    const grant = codes.get(form.get('code'));
+    codes.delete(form.get('code'));
+    if (form.get('client_id') !== clientId || (clientSecret && form.get('client_secret') !== clientSecret)) {
+      return send(res, 401, { error: 'invalid_client' });
+    }
+    const verifier = form.get('code_verifier') || '';
+    if (
+      !grant ||
+      grant.expires < Date.now() ||
+      grant.redirectUri !== form.get('redirect_uri') ||
+      (grant.challenge && createHash('sha256').update(verifier).digest('base64url') !== grant.challenge)
+    ) {
+      return send(res, 400, { error: 'invalid_grant' });
+    }
+    const now = Math.floor(Date.now() / 1000);
+    return send(res, 200, {
+      token_type: 'Bearer',
+      access_token: randomBytes(16).toString('hex'),
+      expires_in: 300,
+      id_token: idToken({
+        iss: issuer,
+        sub: `local-${grant.username}`,
+        aud: clientId,
+        iat: now,
+        exp: now + 300,
+        nonce: grant.nonce,
+        preferred_username: grant.username,
+        name: grant.name,
+      }),
+    });
+  }
+
+  send(res, 404, { error: 'not_found' });
+}).listen(port, () => console.log(`Local OIDC provider at ${issuer} (client_id ${clientId})`));
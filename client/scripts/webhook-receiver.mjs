@@ -0,0 +1,27 @@
+// Local stand-in for an alert webhook endpoint: logs every delivery it receives.
+// Usage: WEBHOOK_PORT=4500 WEBHOOK_SECRET=optional node scripts/webhook-receiver.mjs
+import { createServer } from 'http';
+import { createHmac, timingSafeEqual } from 'crypto';
+
+const port = parseInt(process.env.WEBHOOK_PORT || '4500', 10);
+const secret = process.env.WEBHOOK_SECRET || '';
+
+function verify(body, header) {
+  if (!secret) return 'unchecked';
+  const expected = Buffer.from(`sha256=${createHmac('sha256', secret).update(body).digest('hex')}`);
+  const given = Buffer.from(header || '');
+  return given.length === expected.length && timingSafeEqual(given, expected) ? 'valid' : 'INVALID';
+}
+
+createServer((req, res) => {
+  const chunks = [];
+  req.on('data', (c) => chunks.push(c));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    const signature = verify(body, req.headers['x-portfolio-signature']);
+    console.log(`[${new Date().toISOString()}] ${req.method} ${req.url} signature=${signature}`);
+    console.log(body);
+    res.statusCode = signature === 'INVALID' ? 401 : 204;
+    res.end();
+  });
+}).listen(port, () => console.log(`Webhook receiver listening on http://localhost:${port}`));
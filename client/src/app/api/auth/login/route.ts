@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { findUserByUsername, toAccount, verifyPassword } from '@/lib/usersStore';
+import { sessionCookie, signSession } from '@/lib/session';
+
+// Checked when there is no local account, so an unknown username costs the same scrypt run as a wrong password
+const DUMMY_HASH = `scrypt$${Buffer.alloc(16).toString('base64')}$${Buffer.alloc(64).toString('base64')}`;
+
+// { username, password } for a local account; the same 401, after the same work, whether the user or the password is wrong
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const username = typeof body?.username === 'string' ? body.username : '';
+    const password = typeof body?.password === 'string' ? body.password : '';
+    const user = username ? await findUserByUsername(username) : undefined;
+    const matches = await verifyPassword(password, user?.passwordHash || DUMMY_HASH);
+    if (!user?.passwordHash || !matches) {
+      return NextResponse.json({ error: 'Wrong username or password' }, { status: 401 });
+    }
+    const response = NextResponse.json(toAccount(user));
+    response.cookies.set(sessionCookie(await signSession(user)));
+    return response;
+  } catch (error) {
+    console.error('Error signing in:', error);
+    return NextResponse.json({ error: 'Failed to sign in' }, { status: 500 });
+  }
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server';
+import { sessionCookie } from '@/lib/session';
+
+export async function POST() {
+  const response = new NextResponse(null, { status: 204 });
+  response.cookies.set(sessionCookie('', 0));
+  return response;
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { sessionUser } from '@/lib/auth';
+import { toAccount } from '@/lib/usersStore';
+
+// The signed-in account, for the header's user menu
+export async function GET(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  return NextResponse.json(toAccount(user));
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { OIDC_FLOW_COOKIE, completeOidcLogin, decodeFlow, oidcConfig } from '@/lib/oidc';
+import { readCookie } from '@/lib/auth';
+import { sessionCookie, signSession } from '@/lib/session';
+import { findOrCreateOidcUser } from '@/lib/usersStore';
+
+// Where the provider returns the browser; links the identity to an account (creating it on first use)
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const config = oidcConfig();
+  const flow = decodeFlow(readCookie(request, OIDC_FLOW_COOKIE));
+  if (!config || !flow) {
+    return NextResponse.redirect(new URL('/login?error=oidc', url.origin));
+  }
+  try {
+    const identity = await completeOidcLogin(config, url.searchParams, flow);
+    const user = await findOrCreateOidcUser(identity.issuer, identity.subject, identity);
+    const response = NextResponse.redirect(new URL(flow.next, url.origin));
+    response.cookies.set(sessionCookie(await signSession(user)));
+    response.cookies.set({ name: OIDC_FLOW_COOKIE, value: '', path: '/api/auth/oidc', maxAge: 0 });
+    return response;
+  } catch (error) {
+    console.error('Error completing OIDC sign-in:', error);
+    return NextResponse.redirect(new URL('/login?error=oidc', url.origin));
+  }
+}
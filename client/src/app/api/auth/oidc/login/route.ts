@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { OIDC_FLOW_COOKIE, OIDC_FLOW_TTL_SEC, beginOidcLogin, encodeFlow, oidcConfig } from '@/lib/oidc';
+import { safeNext } from '@/lib/session';
+
+// Sends the browser to the provider; ?next= is where to land once signed in
+export async function GET(request: Request) {
+  const config = oidcConfig();
+  if (!config) {
+    return NextResponse.json({ error: 'OIDC sign-in is not configured' }, { status: 404 });
+  }
+  const url = new URL(request.url);
+  const redirectUri = config.redirectUri || `${url.origin}/api/auth/oidc/callback`;
+  try {
+    const { url: authorizeUrl, flow } = await beginOidcLogin(config, redirectUri, safeNext(url.searchParams.get('next')));
+    const response = NextResponse.redirect(authorizeUrl);
+    response.cookies.set({
+      name: OIDC_FLOW_COOKIE,
+      value: encodeFlow(flow),
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/api/auth/oidc',
+      maxAge: OIDC_FLOW_TTL_SEC,
+    });
+    return response;
+  } catch (error) {
+    console.error('Error starting OIDC sign-in:', error);
+    return NextResponse.redirect(new URL('/login?error=provider', url.origin));
+  }
+}
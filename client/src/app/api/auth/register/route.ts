@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { createUser, signupOpen, toAccount, validateRegistration } from '@/lib/usersStore';
+import { sessionCookie, signSession } from '@/lib/session';
+
+// Create a local account and sign it in; open for the first account, then only with AUTH_ALLOW_SIGNUP=true
+export async function POST(request: Request) {
+  try {
+    if (!(await signupOpen())) {
+      return NextResponse.json({ error: 'Sign-up is closed' }, { status: 403 });
+    }
+    const body = await request.json().catch(() => null);
+    const validated = validateRegistration(body);
+    if (!validated.value) {
+      return NextResponse.json({ error: 'Invalid account', details: validated.errors }, { status: 400 });
+    }
+    const user = await createUser(validated.value);
+    if (!user) {
+      return NextResponse.json({ error: `Username ${validated.value.username} is taken` }, { status: 409 });
+    }
+    const response = NextResponse.json(toAccount(user), { status: 201 });
+    response.cookies.set(sessionCookie(await signSession(user)));
+    return response;
+  } catch (error) {
+    console.error('Error registering account:', error);
+    return NextResponse.json({ error: 'Failed to create account' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { BACKEND_URL, searchInstruments } from '@/lib/backend';
+import { EXCHANGES } from '@/lib/holdingsStore';
+import { sessionUser } from '@/lib/auth';
+
+// ?q=<symbol, name or ISIN>&exchange=NSE|BSE|NASDAQ|NYSE, answered from the backend's instrument master
+export async function GET(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const params = new URL(request.url).searchParams;
+  const query = (params.get('q') || '').trim();
+  const exchange = params.get('exchange')?.toUpperCase() || undefined;
+  if (!query) {
+    return NextResponse.json({ error: 'q is required' }, { status: 400 });
+  }
+  if (exchange && !EXCHANGES.includes(exchange)) {
+    return NextResponse.json({ error: `exchange must be one of ${EXCHANGES.join(', ')}` }, { status: 400 });
+  }
+  if (!BACKEND_URL) {
+    return NextResponse.json({ error: 'Instrument search needs the market data backend' }, { status: 503 });
+  }
+  try {
+    return NextResponse.json(await searchInstruments(query, exchange));
+  } catch (error) {
+    console.error('Error searching instruments:', error);
+    return NextResponse.json({ error: 'Failed to search instruments' }, { status: 502 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { BACKEND_URL, fetchMarketStatus } from '@/lib/backend';
+import { sessionUser } from '@/lib/auth';
+
+// Open, pre-open or closed for each market in the backend's exchange calendar
+export async function GET(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  if (!BACKEND_URL) {
+    return NextResponse.json({ error: 'Market status needs the market data backend' }, { status: 503 });
+  }
+  try {
+    return NextResponse.json(await fetchMarketStatus());
+  } catch (error) {
+    console.error('Error fetching market status:', error);
+    return NextResponse.json({ error: 'Failed to fetch market status' }, { status: 502 });
+  }
+}
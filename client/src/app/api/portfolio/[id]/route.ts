@@ -0,0 +1,11 @@
+import { GET as getPortfolioRows } from '@/app/api/portfolio/route';
+
+type Params = { params: Promise<{ id: string }> };
+
+// Path form of /api/portfolio?portfolio=<id>, including `all` for every portfolio of the user's merged by symbol
+export async function GET(request: Request, { params }: Params) {
+  const { id } = await params;
+  const url = new URL(request.url);
+  url.searchParams.set('portfolio', id);
+  return getPortfolioRows(new Request(url, request));
+}
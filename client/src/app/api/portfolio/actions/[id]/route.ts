@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getHolding, withLedgerLock } from '@/lib/holdingsStore';
+import { listTransactions } from '@/lib/transactionsStore';
+import { deleteCorporateAction, listCorporateActions } from '@/lib/corporateActionsStore';
+import { OversellError } from '@/lib/ledger';
+import { requestedPortfolio } from '@/lib/portfoliosStore';
+import { sessionUser } from '@/lib/auth';
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function DELETE(request: Request, { params }: Params) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const { id } = await params;
+  try {
+    const portfolioId = await requestedPortfolio(user.id, new URL(request.url).searchParams);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    const removed = await withLedgerLock(portfolioId, async () => {
+      const target = (await listCorporateActions(portfolioId)).find((a) => a.id === id);
+      return (
+        target &&
+        deleteCorporateAction(portfolioId, id, await getHolding(portfolioId, target.symbol), await listTransactions(portfolioId, target.symbol))
+      );
+    });
+    if (!removed) {
+      return NextResponse.json({ error: `Corporate action ${id} not found` }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof OversellError) {
+      return NextResponse.json({ error: `Removing this action would leave a later sell uncovered: ${error.message}` }, { status: 422 });
+    }
+    console.error('Error deleting corporate action:', error);
+    return NextResponse.json({ error: 'Failed to delete corporate action' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { listHoldings, withLedgerLock } from '@/lib/holdingsStore';
+import { transactionsBySymbol } from '@/lib/transactionsStore';
+import { CorporateActionInput, importCorporateActions, validateCorporateAction } from '@/lib/corporateActionsStore';
+import { BACKEND_URL, fetchCorporateActions } from '@/lib/backend';
+import { requestedPortfolio } from '@/lib/portfoliosStore';
+import { sessionUser } from '@/lib/auth';
+
+// Pulls the backend's corporate-actions feed for every symbol held in the ?portfolio and records what is new
+export async function POST(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  if (!BACKEND_URL) {
+    return NextResponse.json({ error: 'No market data backend configured; add corporate actions manually' }, { status: 503 });
+  }
+  try {
+    const portfolioId = await requestedPortfolio(user.id, new URL(request.url).searchParams);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    const symbols = (await listHoldings(portfolioId)).map((h) => h.symbol);
+    if (symbols.length === 0) return NextResponse.json({ added: [], skipped: [], asOf: null });
+
+    const feed = await fetchCorporateActions(symbols);
+    const inputs: CorporateActionInput[] = [];
+    const invalid: { symbol: string; type: string; exDate: string; reason: string }[] = [];
+    for (const raw of feed.actions) {
+      const validated = validateCorporateAction(raw, 'feed');
+      if (validated.value) inputs.push(validated.value);
+      else invalid.push({ symbol: raw.symbol, type: raw.type, exDate: raw.exDate, reason: validated.errors.join('; ') });
+    }
+
+    // The feed request stays outside the lock; the ledgers are re-read under it
+    const result = await withLedgerLock(portfolioId, async () => {
+      const [holdings, ledgers] = await Promise.all([listHoldings(portfolioId), transactionsBySymbol(portfolioId)]);
+      return importCorporateActions(portfolioId, inputs, new Map(holdings.map((h) => [h.symbol, h])), ledgers);
+    });
+    return NextResponse.json({ ...result, skipped: [...invalid, ...result.skipped], asOf: feed.asOf });
+  } catch (error) {
+    console.error('Error importing corporate actions:', error);
+    return NextResponse.json({ error: 'Failed to import corporate actions', details: [String(error)] }, { status: 502 });
+  }
+}
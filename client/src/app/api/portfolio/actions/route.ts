@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { getHolding, withLedgerLock } from '@/lib/holdingsStore';
+import { listTransactions } from '@/lib/transactionsStore';
+import { createCorporateAction, listCorporateActions, validateCorporateAction } from '@/lib/corporateActionsStore';
+import { OversellError } from '@/lib/ledger';
+import { requestedPortfolio } from '@/lib/portfoliosStore';
+import { sessionUser } from '@/lib/auth';
+
+// ?symbol=X narrows to one holding; otherwise every recorded action, oldest first. ?portfolio=<id> as for transactions
+export async function GET(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const params = new URL(request.url).searchParams;
+  const symbol = params.get('symbol')?.toUpperCase();
+  try {
+    const portfolioId = await requestedPortfolio(user.id, params);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    return NextResponse.json(await listCorporateActions(portfolioId, symbol));
+  } catch (error) {
+    console.error('Error reading corporate actions:', error);
+    return NextResponse.json({ error: 'Failed to read corporate actions' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  try {
+    const portfolioId = await requestedPortfolio(user.id, new URL(request.url).searchParams);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    const body = await request.json().catch(() => null);
+    const validated = validateCorporateAction(body);
+    if (!validated.value) {
+      return NextResponse.json({ error: 'Invalid corporate action', details: validated.errors }, { status: 400 });
+    }
+    const input = validated.value;
+    const created = await withLedgerLock(portfolioId, async () => {
+      const holding = await getHolding(portfolioId, input.symbol);
+      return holding ? createCorporateAction(portfolioId, holding, await listTransactions(portfolioId, holding.symbol), input) : undefined;
+    });
+    if (created === undefined) {
+      return NextResponse.json({ error: `Holding ${input.symbol} not found; add it first` }, { status: 404 });
+    }
+    if (!created) {
+      return NextResponse.json(
+        { error: `A ${input.type} for ${input.symbol} on ${input.exDate} is already recorded` },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    if (error instanceof OversellError) {
+      return NextResponse.json({ error: `This action would leave a later sell uncovered: ${error.message}` }, { status: 422 });
+    }
+    console.error('Error creating corporate action:', error);
+    return NextResponse.json({ error: 'Failed to create corporate action' }, { status: 500 });
+  }
+}
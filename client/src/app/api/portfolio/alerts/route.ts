@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { listAlerts, markAlertsRead } from '@/lib/alertsStore';
+import { sessionUser } from '@/lib/auth';
+
+// Alert center feed, newest first
+export async function GET(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  try {
+    const alerts = await listAlerts(user.id);
+    return NextResponse.json({ alerts, unread: alerts.filter((a) => !a.read).length });
+  } catch (error) {
+    console.error('Error reading alerts:', error);
+    return NextResponse.json({ error: 'Failed to read alerts' }, { status: 500 });
+  }
+}
+
+// { ids: [...] } marks those alerts read; an empty body marks every alert read
+export async function PATCH(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  try {
+    const body = await request.json().catch(() => ({}));
+    const ids = body?.ids;
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some((id) => typeof id !== 'string'))) {
+      return NextResponse.json({ error: 'ids must be an array of alert ids' }, { status: 400 });
+    }
+    return NextResponse.json({ updated: await markAlertsRead(user.id, ids) });
+  } catch (error) {
+    console.error('Error updating alerts:', error);
+    return NextResponse.json({ error: 'Failed to update alerts' }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { deleteRule, updateRule } from '@/lib/alertsStore';
+import { sessionUser } from '@/lib/auth';
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function PUT(request: Request, { params }: Params) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const { id } = await params;
+  try {
+    const body = await request.json().catch(() => null);
+    const result = await updateRule(user.id, id, body);
+    if (!result) {
+      return NextResponse.json({ error: `Alert rule ${id} not found` }, { status: 404 });
+    }
+    if (!result.value) {
+      return NextResponse.json({ error: 'Invalid alert rule', details: result.errors }, { status: 400 });
+    }
+    return NextResponse.json(result.value);
+  } catch (error) {
+    console.error('Error updating alert rule:', error);
+    return NextResponse.json({ error: 'Failed to update alert rule' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const { id } = await params;
+  try {
+    if (!(await deleteRule(user.id, id))) {
+      return NextResponse.json({ error: `Alert rule ${id} not found` }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error deleting alert rule:', error);
+    return NextResponse.json({ error: 'Failed to delete alert rule' }, { status: 500 });
+  }
+}
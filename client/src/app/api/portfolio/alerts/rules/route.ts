@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { createRule, listRules, validateRule } from '@/lib/alertsStore';
+import { aggregateOwner, requestedPortfolio } from '@/lib/portfoliosStore';
+import { AGGREGATE_PORTFOLIO_ID } from '@/lib/portfolioIds';
+import { sessionUser } from '@/lib/auth';
+
+// Rules belong to the portfolio named by ?portfolio=<id> (`all` for the combined view)
+async function rulePortfolio(userId: string, request: Request): Promise<string | undefined> {
+  const portfolioId = await requestedPortfolio(userId, new URL(request.url).searchParams, true);
+  return portfolioId && aggregateOwner(portfolioId) ? AGGREGATE_PORTFOLIO_ID : portfolioId;
+}
+
+export async function GET(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  try {
+    const portfolioId = await rulePortfolio(user.id, request);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    return NextResponse.json(await listRules(user.id, portfolioId));
+  } catch (error) {
+    console.error('Error reading alert rules:', error);
+    return NextResponse.json({ error: 'Failed to read alert rules' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  try {
+    const portfolioId = await rulePortfolio(user.id, request);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    const body = await request.json().catch(() => null);
+    const validated = validateRule(body);
+    if (!validated.value) {
+      return NextResponse.json({ error: 'Invalid alert rule', details: validated.errors }, { status: 400 });
+    }
+    return NextResponse.json(await createRule(user.id, portfolioId, validated.value), { status: 201 });
+  } catch (error) {
+    console.error('Error creating alert rule:', error);
+    return NextResponse.json({ error: 'Failed to create alert rule' }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { deleteWebhook } from '@/lib/alertsStore';
+import { sessionUser } from '@/lib/auth';
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function DELETE(request: Request, { params }: Params) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const { id } = await params;
+  try {
+    if (!(await deleteWebhook(user.id, id))) {
+      return NextResponse.json({ error: `Webhook ${id} not found` }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    return NextResponse.json({ error: 'Failed to delete webhook' }, { status: 500 });
+  }
+}
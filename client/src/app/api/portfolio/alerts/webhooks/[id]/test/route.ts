@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { listWebhooks } from '@/lib/alertsStore';
+import { sendTestWebhook } from '@/lib/alerts';
+import { sessionUser } from '@/lib/auth';
+
+type Params = { params: Promise<{ id: string }> };
+
+// Sends a sample alert and reports the delivery outcome recorded on the webhook
+export async function POST(request: Request, { params }: Params) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const { id } = await params;
+  try {
+    const hook = (await listWebhooks(user.id)).find((w) => w.id === id);
+    if (!hook) {
+      return NextResponse.json({ error: `Webhook ${id} not found` }, { status: 404 });
+    }
+    await sendTestWebhook(user.id, hook);
+    const updated = (await listWebhooks(user.id)).find((w) => w.id === id);
+    return NextResponse.json({ status: updated?.lastStatus ?? null, lastError: updated?.lastError ?? null });
+  } catch (error) {
+    console.error('Error testing webhook:', error);
+    return NextResponse.json({ error: 'Failed to test webhook' }, { status: 500 });
+  }
+}
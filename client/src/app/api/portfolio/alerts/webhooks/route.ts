@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { Webhook } from '@/types/alerts';
+import { createWebhook, listWebhooks, validateWebhook } from '@/lib/alertsStore';
+import { sessionUser } from '@/lib/auth';
+
+// Secrets are write-only; listings only say whether one is set
+const redact = ({ secret, ...hook }: Webhook) => ({ ...hook, hasSecret: !!secret });
+
+export async function GET(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  try {
+    return NextResponse.json((await listWebhooks(user.id)).map(redact));
+  } catch (error) {
+    console.error('Error reading webhooks:', error);
+    return NextResponse.json({ error: 'Failed to read webhooks' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  try {
+    const body = await request.json().catch(() => null);
+    const validated = await validateWebhook(body);
+    if (!validated.value) {
+      return NextResponse.json({ error: 'Invalid webhook', details: validated.errors }, { status: 400 });
+    }
+    return NextResponse.json(redact(await createWebhook(user.id, validated.value)), { status: 201 });
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    return NextResponse.json({ error: 'Failed to create webhook' }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { BACKEND_URL, fetchBenchmarkIndices } from '@/lib/backend';
+import { sessionUser } from '@/lib/auth';
+
+// Indices the backend can benchmark against
+export async function GET(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  if (!BACKEND_URL) return NextResponse.json([]);
+  try {
+    return NextResponse.json(await fetchBenchmarkIndices());
+  } catch (error) {
+    console.error('Error listing benchmarks:', error);
+    return NextResponse.json({ error: 'Failed to list benchmarks' }, { status: 502 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { INVALID_BASE_CURRENCY, requestedBase } from '@/lib/fx';
+import { BACKEND_URL } from '@/lib/backend';
+import { PERFORMANCE_RANGES, compareWithBenchmark } from '@/lib/performance';
+import { PerformanceRange } from '@/types/benchmark';
+import { requestedPortfolio } from '@/lib/portfoliosStore';
+import { sessionUser } from '@/lib/auth';
+
+// ?index=NIFTY50&range=1M|3M|6M|1Y|2Y|5Y&base=INR&portfolio=<id|all>
+export async function GET(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const params = new URL(request.url).searchParams;
+  const index = (params.get('index') || '').toUpperCase();
+  const range = (params.get('range') || '1Y').toUpperCase() as PerformanceRange;
+  const base = requestedBase(params);
+  if (!base) {
+    return NextResponse.json({ error: INVALID_BASE_CURRENCY }, { status: 400 });
+  }
+  if (!index) {
+    return NextResponse.json({ error: 'index is required' }, { status: 400 });
+  }
+  if (!(range in PERFORMANCE_RANGES)) {
+    return NextResponse.json({ error: `range must be one of ${Object.keys(PERFORMANCE_RANGES).join(', ')}` }, { status: 400 });
+  }
+  if (!BACKEND_URL) {
+    return NextResponse.json({ error: 'Benchmark comparison needs the market data backend' }, { status: 503 });
+  }
+  try {
+    const portfolioId = await requestedPortfolio(user.id, params, true);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    return NextResponse.json(await compareWithBenchmark(portfolioId, index, range, base));
+  } catch (error) {
+    console.error('Error comparing with benchmark:', error);
+    return NextResponse.json({ error: `Failed to compare with ${index}` }, { status: 502 });
+  }
+}
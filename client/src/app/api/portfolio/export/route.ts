@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { buildPortfolioRows } from '@/lib/portfolio';
+import { INVALID_BASE_CURRENCY, requestedBase } from '@/lib/fx';
+import { applyView, viewFromParams } from '@/lib/portfolioView';
+import { portfolioCsv, portfolioStatementPdf, portfolioXlsx } from '@/lib/portfolioExport';
+import { DEFAULT_PORTFOLIO_ID } from '@/lib/portfolioIds';
+import { getPortfolio, requestedPortfolio } from '@/lib/portfoliosStore';
+import { sessionUser } from '@/lib/auth';
+
+const CONTENT_TYPES: Record<string, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+};
+
+// ?format=csv|xlsx|pdf&base=INR&portfolio=<id|all>&filter=&sector=&sort=presentValue&dir=desc; the view params mirror the holdings table
+export async function GET(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const params = new URL(request.url).searchParams;
+  const format = (params.get('format') || 'csv').toLowerCase();
+  const base = requestedBase(params);
+  if (!CONTENT_TYPES[format]) {
+    return NextResponse.json({ error: `format must be one of ${Object.keys(CONTENT_TYPES).join(', ')}` }, { status: 400 });
+  }
+  if (!base) {
+    return NextResponse.json({ error: INVALID_BASE_CURRENCY }, { status: 400 });
+  }
+  try {
+    const portfolioId = await requestedPortfolio(user.id, params, true);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    const rows = await buildPortfolioRows(portfolioId, base);
+    const portfolioName = (await getPortfolio(user.id, portfolioId))?.name ?? 'All portfolios';
+    const view = viewFromParams(params);
+    const groups = applyView(rows, view);
+    const body =
+      format === 'pdf'
+        ? await portfolioStatementPdf(groups, rows, base, view, portfolioName)
+        : format === 'xlsx'
+        ? portfolioXlsx(groups, rows, base, view, portfolioName)
+        : portfolioCsv(groups, base);
+    const scope = portfolioId === DEFAULT_PORTFOLIO_ID ? '' : `-${portfolioId}`;
+    const fileName = `${format === 'pdf' ? 'portfolio-statement' : 'portfolio'}${scope}-${new Date().toISOString().slice(0, 10)}.${format}`;
+    return new NextResponse(body as BodyInit, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting portfolio:', error);
+    return NextResponse.json({ error: 'Failed to export portfolio' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { HISTORY_RANGES, listSnapshots } from '@/lib/snapshots';
+import { INVALID_BASE_CURRENCY, requestedBase } from '@/lib/fx';
+import { HistoryRange } from '@/types/history';
+import { requestedPortfolio } from '@/lib/portfoliosStore';
+import { sessionUser } from '@/lib/auth';
+
+// ?range=1D|1W|1M|1Y|ALL&base=INR&portfolio=<id|all>; each portfolio and the aggregate keep their own series
+export async function GET(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const params = new URL(request.url).searchParams;
+  const range = (params.get('range') || '1D').toUpperCase() as HistoryRange;
+  const base = requestedBase(params);
+  if (!base) {
+    return NextResponse.json({ error: INVALID_BASE_CURRENCY }, { status: 400 });
+  }
+  if (!(range in HISTORY_RANGES)) {
+    return NextResponse.json({ error: `range must be one of ${Object.keys(HISTORY_RANGES).join(', ')}` }, { status: 400 });
+  }
+  try {
+    const portfolioId = await requestedPortfolio(user.id, params, true);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    const snapshots = await listSnapshots(portfolioId, base, range);
+    return NextResponse.json({ range, baseCurrency: base, snapshots });
+  } catch (error) {
+    console.error('Error reading portfolio history:', error);
+    return NextResponse.json({ error: 'Failed to read portfolio history' }, { status: 500 });
+  }
+}
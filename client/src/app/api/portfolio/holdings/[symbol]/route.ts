@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { deleteHolding, updateHolding, validateHolding, withLedgerLock } from '@/lib/holdingsStore';
+import { deleteTransactionsForSymbol, listTransactions } from '@/lib/transactionsStore';
+import { deleteCorporateActionsForSymbol, listCorporateActions } from '@/lib/corporateActionsStore';
+import { OversellError, foldPosition } from '@/lib/ledger';
+import { requestedPortfolio } from '@/lib/portfoliosStore';
+import { sessionUser } from '@/lib/auth';
+
+type Params = { params: Promise<{ symbol: string }> };
+
+export async function PUT(request: Request, { params }: Params) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const symbol = (await params).symbol.toUpperCase();
+  try {
+    const portfolioId = await requestedPortfolio(user.id, new URL(request.url).searchParams);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    const body = await request.json().catch(() => null);
+    const result = await withLedgerLock(portfolioId, async () => {
+      const [transactions, actions] = await Promise.all([
+        listTransactions(portfolioId, symbol),
+        listCorporateActions(portfolioId, symbol),
+      ]);
+      return updateHolding(portfolioId, symbol, (existing) => {
+        const validated = validateHolding(body, existing);
+        // A smaller opening lot must still cover the recorded sells
+        if (validated.value) foldPosition(validated.value, transactions, actions);
+        return validated;
+      });
+    });
+    if (!result) {
+      return NextResponse.json({ error: `Holding ${symbol} not found` }, { status: 404 });
+    }
+    if (!result.value) {
+      return NextResponse.json({ error: 'Invalid holding', details: result.errors }, { status: 400 });
+    }
+    return NextResponse.json(result.value);
+  } catch (error) {
+    if (error instanceof OversellError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+    console.error('Error updating holding:', error);
+    return NextResponse.json({ error: 'Failed to update holding' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const symbol = (await params).symbol.toUpperCase();
+  try {
+    const portfolioId = await requestedPortfolio(user.id, new URL(request.url).searchParams);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    const removed = await withLedgerLock(portfolioId, async () => {
+      if (!(await deleteHolding(portfolioId, symbol))) return false;
+      await deleteTransactionsForSymbol(portfolioId, symbol);
+      await deleteCorporateActionsForSymbol(portfolioId, symbol);
+      return true;
+    });
+    if (!removed) {
+      return NextResponse.json({ error: `Holding ${symbol} not found` }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error deleting holding:', error);
+    return NextResponse.json({ error: 'Failed to delete holding' }, { status: 500 });
+  }
+}
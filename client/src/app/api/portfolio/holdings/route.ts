@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { createHolding, listHoldings, validateHolding } from '@/lib/holdingsStore';
+import { requestedPortfolio } from '@/lib/portfoliosStore';
+import { sessionUser } from '@/lib/auth';
+
+// ?portfolio=<id> picks the portfolio (default: the user's oldest portfolio)
+export async function GET(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  try {
+    const portfolioId = await requestedPortfolio(user.id, new URL(request.url).searchParams);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    return NextResponse.json(await listHoldings(portfolioId));
+  } catch (error) {
+    console.error('Error reading holdings:', error);
+    return NextResponse.json({ error: 'Failed to read holdings' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  try {
+    const portfolioId = await requestedPortfolio(user.id, new URL(request.url).searchParams);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    const body = await request.json().catch(() => null);
+    const validated = validateHolding(body);
+    if (!validated.value) {
+      return NextResponse.json({ error: 'Invalid holding', details: validated.errors }, { status: 400 });
+    }
+    const created = await createHolding(portfolioId, validated.value);
+    if (!created) {
+      return NextResponse.json({ error: `Holding ${validated.value.symbol} already exists` }, { status: 409 });
+    }
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error('Error creating holding:', error);
+    return NextResponse.json({ error: 'Failed to create holding' }, { status: 500 });
+  }
+}
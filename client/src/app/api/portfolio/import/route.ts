@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server';
+import { listHoldings, replaceHoldings, upsertHoldings, withLedgerLock } from '@/lib/holdingsStore';
+import { deleteTransactionsForSymbol, transactionsBySymbol } from '@/lib/transactionsStore';
+import { corporateActionsBySymbol, deleteCorporateActionsForSymbol } from '@/lib/corporateActionsStore';
+import { oversoldHoldings } from '@/lib/ledger';
+import { buildImportReport, parseSpreadsheet, suggestMapping } from '@/lib/holdingsImport';
+import { ColumnMapping, ImportMode } from '@/types/import';
+import { requestedPortfolio } from '@/lib/portfoliosStore';
+import { sessionUser } from '@/lib/auth';
+
+const MAX_UPLOAD_BYTES = 2 * 1024 * 1024;
+const ACCEPTED = /\.(csv|xlsx|xls)$/i;
+
+// Multipart fields: file, mapping (JSON, optional), mode (merge|replace), dryRun (default true); ?portfolio=<id> is the target
+export async function POST(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  try {
+    const portfolioId = await requestedPortfolio(user.id, new URL(request.url).searchParams);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    const form = await request.formData().catch(() => null);
+    const file = form?.get('file');
+    if (!form || !(file instanceof File)) {
+      return NextResponse.json({ error: 'Upload a CSV or XLSX file in the "file" field' }, { status: 400 });
+    }
+    if (!ACCEPTED.test(file.name)) {
+      return NextResponse.json({ error: 'Only .csv, .xlsx and .xls files are supported' }, { status: 400 });
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json({ error: 'File is larger than 2 MB' }, { status: 413 });
+    }
+
+    const mode: ImportMode = form.get('mode') === 'replace' ? 'replace' : 'merge';
+    const dryRun = form.get('dryRun') !== 'false';
+    let mapping: ColumnMapping | undefined;
+    const rawMapping = form.get('mapping');
+    if (typeof rawMapping === 'string' && rawMapping) {
+      try {
+        mapping = JSON.parse(rawMapping) as ColumnMapping;
+      } catch {
+        return NextResponse.json({ error: 'mapping must be valid JSON' }, { status: 400 });
+      }
+    }
+
+    const { headers, rows } = parseSpreadsheet(await file.arrayBuffer(), file.name);
+    if (rows.length === 0) {
+      return NextResponse.json({ error: 'The file has no data rows' }, { status: 400 });
+    }
+
+    const existing = await listHoldings(portfolioId);
+    const report = await buildImportReport(headers, rows, mapping || suggestMapping(headers), existing);
+
+    if (dryRun) return NextResponse.json({ ...report, mode, applied: false });
+
+    // Refuse partial imports so a replace can never silently drop positions
+    if (report.summary.invalid > 0) {
+      return NextResponse.json({ ...report, mode, applied: false, error: 'Fix invalid rows before importing' }, { status: 422 });
+    }
+
+    const incoming = report.rows.map((r) => r.holding!);
+    const oversold = await withLedgerLock(portfolioId, async () => {
+      const [ledgers, actions] = await Promise.all([transactionsBySymbol(portfolioId), corporateActionsBySymbol(portfolioId)]);
+      // An imported opening lot must still cover the sells recorded against it, as when editing a holding
+      const conflicts = oversoldHoldings(incoming, ledgers, actions);
+      if (conflicts.length) return conflicts;
+      if (mode === 'replace') {
+        const kept = new Set(incoming.map((h) => h.symbol));
+        const dropped = (await listHoldings(portfolioId)).filter((h) => !kept.has(h.symbol));
+        await replaceHoldings(portfolioId, incoming);
+        // A dropped symbol's ledger goes with it, so re-adding the symbol later starts clean
+        for (const h of dropped) {
+          await deleteTransactionsForSymbol(portfolioId, h.symbol);
+          await deleteCorporateActionsForSymbol(portfolioId, h.symbol);
+        }
+      } else {
+        await upsertHoldings(portfolioId, incoming);
+      }
+      return conflicts;
+    });
+    if (oversold.length) {
+      return NextResponse.json(
+        {
+          ...report,
+          mode,
+          applied: false,
+          error: 'The import would leave recorded sells uncovered',
+          details: oversold.map((e) => e.message),
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ ...report, mode, applied: true });
+  } catch (error) {
+    console.error('Error importing holdings:', error);
+    return NextResponse.json({ error: 'Failed to import holdings' }, { status: 500 });
+  }
+}
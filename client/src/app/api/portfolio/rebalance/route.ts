@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { buildPortfolioRows } from '@/lib/portfolio';
+import { INVALID_BASE_CURRENCY, requestedBase } from '@/lib/fx';
+import { getTargets } from '@/lib/allocationStore';
+import { planRebalance } from '@/lib/rebalance';
+import { requestedPortfolio } from '@/lib/portfoliosStore';
+import { sessionUser } from '@/lib/auth';
+
+const MAX_FEE_PERCENT = 5;
+
+// Body { cash, noSell, feePercent }; nothing is recorded, the plan is an estimate at current prices
+export async function POST(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const params = new URL(request.url).searchParams;
+  const base = requestedBase(params);
+  if (!base) {
+    return NextResponse.json({ error: INVALID_BASE_CURRENCY }, { status: 400 });
+  }
+  try {
+    const portfolioId = await requestedPortfolio(user.id, params);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    const body = (await request.json().catch(() => null)) || {};
+    const cash = Number(body.cash ?? 0);
+    const feePercent = Number(body.feePercent ?? 0);
+    const errors: string[] = [];
+    if (!Number.isFinite(cash) || cash < 0) errors.push('cash must be zero or more');
+    if (!Number.isFinite(feePercent) || feePercent < 0 || feePercent > MAX_FEE_PERCENT) {
+      errors.push(`feePercent must be between 0 and ${MAX_FEE_PERCENT}`);
+    }
+    if (body.noSell !== undefined && typeof body.noSell !== 'boolean') errors.push('noSell must be true or false');
+    if (errors.length) {
+      return NextResponse.json({ error: 'Invalid rebalance request', details: errors }, { status: 400 });
+    }
+    const [rows, targets] = await Promise.all([buildPortfolioRows(portfolioId, base), getTargets(portfolioId)]);
+    return NextResponse.json(planRebalance(rows, targets, { cash, noSell: body.noSell === true, feePercent }));
+  } catch (error) {
+    console.error('Error planning rebalance:', error);
+    return NextResponse.json({ error: 'Failed to plan rebalance' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { INVALID_BASE_CURRENCY, requestedBase } from '@/lib/fx';
+import { BACKEND_URL } from '@/lib/backend';
+import { PERFORMANCE_RANGES } from '@/lib/performance';
+import { buildRiskReport } from '@/lib/risk';
+import { PerformanceRange } from '@/types/benchmark';
+import { requestedPortfolio } from '@/lib/portfoliosStore';
+import { sessionUser } from '@/lib/auth';
+
+// ?index=NIFTY50&range=1M|3M|6M|1Y|2Y|5Y&base=INR&riskFree=0&portfolio=<id|all>; riskFree is an annual percent
+export async function GET(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const params = new URL(request.url).searchParams;
+  const base = requestedBase(params);
+  if (!base) {
+    return NextResponse.json({ error: INVALID_BASE_CURRENCY }, { status: 400 });
+  }
+  const index = (params.get('index') || (base === 'INR' ? 'NIFTY50' : 'SP500')).toUpperCase();
+  const range = (params.get('range') || '1Y').toUpperCase() as PerformanceRange;
+  const riskFree = Number(params.get('riskFree') || 0);
+  if (!(range in PERFORMANCE_RANGES)) {
+    return NextResponse.json({ error: `range must be one of ${Object.keys(PERFORMANCE_RANGES).join(', ')}` }, { status: 400 });
+  }
+  if (!Number.isFinite(riskFree) || riskFree < 0 || riskFree > 50) {
+    return NextResponse.json({ error: 'riskFree must be an annual percent between 0 and 50' }, { status: 400 });
+  }
+  if (!BACKEND_URL) {
+    return NextResponse.json({ error: 'Risk analytics need the market data backend' }, { status: 503 });
+  }
+  try {
+    const portfolioId = await requestedPortfolio(user.id, params, true);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    return NextResponse.json(await buildRiskReport(portfolioId, index, range, base, riskFree));
+  } catch (error) {
+    console.error('Error building risk report:', error);
+    return NextResponse.json({ error: 'Failed to build risk report' }, { status: 502 });
+  }
+}
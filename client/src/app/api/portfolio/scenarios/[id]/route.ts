@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { deleteScenario, updateScenario, validateScenario } from '@/lib/scenariosStore';
+import { requestedPortfolio } from '@/lib/portfoliosStore';
+import { sessionUser } from '@/lib/auth';
+
+type Params = { params: Promise<{ id: string }> };
+
+// Replaces the scenario's name, trades and shocks
+export async function PUT(request: Request, { params }: Params) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const { id } = await params;
+  try {
+    const portfolioId = await requestedPortfolio(user.id, new URL(request.url).searchParams);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    const body = await request.json().catch(() => null);
+    const validated = validateScenario(body);
+    if (!validated.value) {
+      return NextResponse.json({ error: 'Invalid scenario', details: validated.errors }, { status: 400 });
+    }
+    const updated = await updateScenario(portfolioId, id, validated.value);
+    if (!updated) {
+      return NextResponse.json({ error: `Scenario ${id} not found` }, { status: 404 });
+    }
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Error updating scenario:', error);
+    return NextResponse.json({ error: 'Failed to update scenario' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const { id } = await params;
+  try {
+    const portfolioId = await requestedPortfolio(user.id, new URL(request.url).searchParams);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    if (!(await deleteScenario(portfolioId, id))) {
+      return NextResponse.json({ error: `Scenario ${id} not found` }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error deleting scenario:', error);
+    return NextResponse.json({ error: 'Failed to delete scenario' }, { status: 500 });
+  }
+}
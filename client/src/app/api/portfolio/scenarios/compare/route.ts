@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { ScenarioComparison } from '@/types/scenario';
+import { buildPortfolioRows } from '@/lib/portfolio';
+import { INVALID_BASE_CURRENCY, requestedBase } from '@/lib/fx';
+import { comparisonColumn, runScenario } from '@/lib/scenario';
+import { listScenarios } from '@/lib/scenariosStore';
+import { requestedPortfolio } from '@/lib/portfoliosStore';
+import { sessionUser } from '@/lib/auth';
+
+const MAX_COMPARED = 5;
+
+// ?ids=<id>,<id>&base=INR; summary figures and sector weights of saved scenarios beside the current state
+export async function GET(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const params = new URL(request.url).searchParams;
+  const base = requestedBase(params);
+  if (!base) {
+    return NextResponse.json({ error: INVALID_BASE_CURRENCY }, { status: 400 });
+  }
+  const ids = (params.get('ids') || '').split(',').map((id) => id.trim()).filter(Boolean);
+  if (ids.length === 0 || ids.length > MAX_COMPARED) {
+    return NextResponse.json({ error: `ids must name 1 to ${MAX_COMPARED} scenarios` }, { status: 400 });
+  }
+  try {
+    const portfolioId = await requestedPortfolio(user.id, params);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    const saved = await listScenarios(portfolioId);
+    const missing = ids.filter((id) => !saved.some((s) => s.id === id));
+    if (missing.length) {
+      return NextResponse.json({ error: `Scenario ${missing.join(', ')} not found` }, { status: 404 });
+    }
+    const current = await buildPortfolioRows(portfolioId, base);
+    const comparison: ScenarioComparison = { baseCurrency: base, current: comparisonColumn(current), scenarios: [], warnings: [] };
+    // One at a time: each run refetches quotes, which the backend serves from its cache
+    for (const id of ids) {
+      const scenario = saved.find((s) => s.id === id)!;
+      const result = await runScenario(portfolioId, base, current, scenario);
+      if (!result.value) {
+        comparison.warnings.push(`${scenario.name}: ${result.errors.join('; ')}`);
+        continue;
+      }
+      comparison.scenarios.push({ id, name: scenario.name, cash: result.value.cash, ...comparisonColumn(result.value.rows) });
+    }
+    return NextResponse.json(comparison);
+  } catch (error) {
+    console.error('Error comparing scenarios:', error);
+    return NextResponse.json({ error: 'Failed to compare scenarios' }, { status: 500 });
+  }
+}
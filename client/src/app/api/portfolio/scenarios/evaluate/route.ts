@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { buildPortfolioRows } from '@/lib/portfolio';
+import { INVALID_BASE_CURRENCY, requestedBase } from '@/lib/fx';
+import { runScenario } from '@/lib/scenario';
+import { validateScenario } from '@/lib/scenariosStore';
+import { requestedPortfolio } from '@/lib/portfoliosStore';
+import { sessionUser } from '@/lib/auth';
+
+// Body { trades, shocks } (saved or not); returns the portfolio as it would be, next to the current one
+export async function POST(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const params = new URL(request.url).searchParams;
+  const base = requestedBase(params);
+  if (!base) {
+    return NextResponse.json({ error: INVALID_BASE_CURRENCY }, { status: 400 });
+  }
+  try {
+    const portfolioId = await requestedPortfolio(user.id, params);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    const body = await request.json().catch(() => null);
+    // A draft does not need a name until it is saved
+    const validated = validateScenario(body && typeof body === 'object' ? { name: 'Unsaved scenario', ...body } : body);
+    if (!validated.value) {
+      return NextResponse.json({ error: 'Invalid scenario', details: validated.errors }, { status: 400 });
+    }
+    const current = await buildPortfolioRows(portfolioId, base);
+    const result = await runScenario(portfolioId, base, current, validated.value);
+    if (!result.value) {
+      return NextResponse.json({ error: 'Scenario does not fit the holdings', details: result.errors }, { status: 400 });
+    }
+    return NextResponse.json(result.value);
+  } catch (error) {
+    console.error('Error evaluating scenario:', error);
+    return NextResponse.json({ error: 'Failed to evaluate scenario' }, { status: 500 });
+  }
+}
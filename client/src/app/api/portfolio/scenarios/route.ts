@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { createScenario, listScenarios, validateScenario } from '@/lib/scenariosStore';
+import { requestedPortfolio } from '@/lib/portfoliosStore';
+import { sessionUser } from '@/lib/auth';
+
+// Saved what-if scenarios of one portfolio; ?portfolio=<id>
+export async function GET(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  try {
+    const portfolioId = await requestedPortfolio(user.id, new URL(request.url).searchParams);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    return NextResponse.json(await listScenarios(portfolioId));
+  } catch (error) {
+    console.error('Error listing scenarios:', error);
+    return NextResponse.json({ error: 'Failed to list scenarios' }, { status: 500 });
+  }
+}
+
+// Body { name, trades, shocks }; saving only checks the shape, trades are checked against holdings when run
+export async function POST(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  try {
+    const portfolioId = await requestedPortfolio(user.id, new URL(request.url).searchParams);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    const body = await request.json().catch(() => null);
+    const validated = validateScenario(body);
+    if (!validated.value) {
+      return NextResponse.json({ error: 'Invalid scenario', details: validated.errors }, { status: 400 });
+    }
+    return NextResponse.json(await createScenario(portfolioId, validated.value), { status: 201 });
+  } catch (error) {
+    console.error('Error saving scenario:', error);
+    return NextResponse.json({ error: 'Failed to save scenario' }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { INVALID_BASE_CURRENCY, requestedBase } from '@/lib/fx';
+import { subscribeToPortfolio } from '@/lib/portfolioStream';
+import { requestedPortfolio } from '@/lib/portfoliosStore';
+import { sessionUser } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_MS = 15000;
+
+// Server-sent events: `snapshot` with all rows on connect, then `diff` events with changed fields only
+export async function GET(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return Response.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const params = new URL(request.url).searchParams;
+  const base = requestedBase(params);
+  if (!base) {
+    return Response.json({ error: INVALID_BASE_CURRENCY }, { status: 400 });
+  }
+  const portfolioId = await requestedPortfolio(user.id, params, true);
+  if (!portfolioId) {
+    return Response.json({ error: 'Portfolio not found' }, { status: 404 });
+  }
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+
+      write('retry: 3000\n\n');
+      const unsubscribe = subscribeToPortfolio(user.id, portfolioId, base, (event) => {
+        write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+      });
+      // Comment lines keep proxies from closing an idle connection
+      const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // already closed by the runtime
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
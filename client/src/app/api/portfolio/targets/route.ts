@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { getTargets, saveTargets, validateTargets } from '@/lib/allocationStore';
+import { requestedPortfolio } from '@/lib/portfoliosStore';
+import { sessionUser } from '@/lib/auth';
+
+// Target weights belong to one portfolio; ?portfolio=<id> (default: the user's oldest portfolio)
+export async function GET(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  try {
+    const portfolioId = await requestedPortfolio(user.id, new URL(request.url).searchParams);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    return NextResponse.json(await getTargets(portfolioId));
+  } catch (error) {
+    console.error('Error reading allocation targets:', error);
+    return NextResponse.json({ error: 'Failed to read allocation targets' }, { status: 500 });
+  }
+}
+
+// Replaces the whole document: { holdings, sectors, lotSizes, tolerance }
+export async function PUT(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  try {
+    const portfolioId = await requestedPortfolio(user.id, new URL(request.url).searchParams);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    const body = await request.json().catch(() => null);
+    const validated = validateTargets(body);
+    if (!validated.value) {
+      return NextResponse.json({ error: 'Invalid allocation targets', details: validated.errors }, { status: 400 });
+    }
+    return NextResponse.json(await saveTargets(portfolioId, validated.value));
+  } catch (error) {
+    console.error('Error saving allocation targets:', error);
+    return NextResponse.json({ error: 'Failed to save allocation targets' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { FY_PATTERN, buildCapitalGainsReport, reportForYear } from '@/lib/capitalGains';
+import { capitalGainsCsv, capitalGainsPdf } from '@/lib/taxExport';
+import { AGGREGATE_PORTFOLIO_ID, DEFAULT_PORTFOLIO_ID } from '@/lib/portfolioIds';
+import { requestedPortfolio } from '@/lib/portfoliosStore';
+import { sessionUser } from '@/lib/auth';
+
+const FORMATS = ['csv', 'pdf'];
+
+// ?format=csv|pdf&fy=2024-25&portfolio=<id>; downloads the same report the tax page shows
+export async function GET(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const params = new URL(request.url).searchParams;
+  const format = (params.get('format') || 'csv').toLowerCase();
+  const fy = params.get('fy');
+  if (!FORMATS.includes(format)) {
+    return NextResponse.json({ error: `format must be one of ${FORMATS.join(', ')}` }, { status: 400 });
+  }
+  if (fy && !FY_PATTERN.test(fy)) {
+    return NextResponse.json({ error: 'fy must look like 2024-25' }, { status: 400 });
+  }
+  try {
+    if (params.get('portfolio') === AGGREGATE_PORTFOLIO_ID) {
+      return NextResponse.json({ error: 'Capital gains are reported per portfolio' }, { status: 400 });
+    }
+    const portfolioId = await requestedPortfolio(user.id, params);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    const full = await buildCapitalGainsReport(user.id, portfolioId);
+    const report = fy ? reportForYear(full, fy) : full;
+    const scope = portfolioId === DEFAULT_PORTFOLIO_ID ? '' : `-${portfolioId}`;
+    const fileName = `capital-gains${scope}${fy ? `-FY${fy}` : ''}.${format}`;
+    const body = format === 'pdf' ? await capitalGainsPdf(report, fy) : capitalGainsCsv(report);
+    return new NextResponse(body as BodyInit, {
+      headers: {
+        'Content-Type': format === 'pdf' ? 'application/pdf' : 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting capital gains report:', error);
+    return NextResponse.json({ error: 'Failed to export capital gains report' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { listFmv, updateFmv, validateFmv } from '@/lib/taxStore';
+import { sessionUser } from '@/lib/auth';
+
+// 31 Jan 2018 fair market values used to grandfather pre-Feb-2018 lots
+export async function GET(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  try {
+    return NextResponse.json(await listFmv(user.id));
+  } catch (error) {
+    console.error('Error reading FMV table:', error);
+    return NextResponse.json({ error: 'Failed to read FMV table' }, { status: 500 });
+  }
+}
+
+// { "RELIANCE": 1013.9, "TCS": null } sets or clears per-share values
+export async function PUT(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  try {
+    const body = await request.json().catch(() => null);
+    const validated = validateFmv(body);
+    if (!validated.value) {
+      return NextResponse.json({ error: 'Invalid FMV values', details: validated.errors }, { status: 400 });
+    }
+    return NextResponse.json(await updateFmv(user.id, validated.value));
+  } catch (error) {
+    console.error('Error updating FMV table:', error);
+    return NextResponse.json({ error: 'Failed to update FMV table' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { FY_PATTERN, buildCapitalGainsReport, reportForYear } from '@/lib/capitalGains';
+import { AGGREGATE_PORTFOLIO_ID } from '@/lib/portfolioIds';
+import { requestedPortfolio } from '@/lib/portfoliosStore';
+import { sessionUser } from '@/lib/auth';
+
+// ?fy=2024-25 narrows realized gains and summaries to one financial year; ?portfolio picks the account,
+// and there is no aggregate report since each portfolio may belong to a different taxpayer
+export async function GET(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const params = new URL(request.url).searchParams;
+  const fy = params.get('fy');
+  if (fy && !FY_PATTERN.test(fy)) {
+    return NextResponse.json({ error: 'fy must look like 2024-25' }, { status: 400 });
+  }
+  try {
+    if (params.get('portfolio') === AGGREGATE_PORTFOLIO_ID) {
+      return NextResponse.json({ error: 'Capital gains are reported per portfolio' }, { status: 400 });
+    }
+    const portfolioId = await requestedPortfolio(user.id, params);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    const report = await buildCapitalGainsReport(user.id, portfolioId);
+    return NextResponse.json(fy ? reportForYear(report, fy) : report);
+  } catch (error) {
+    console.error('Error building capital gains report:', error);
+    return NextResponse.json({ error: 'Failed to build capital gains report' }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getHolding, withLedgerLock } from '@/lib/holdingsStore';
+import { deleteTransaction, listTransactions } from '@/lib/transactionsStore';
+import { listCorporateActions } from '@/lib/corporateActionsStore';
+import { OversellError } from '@/lib/ledger';
+import { requestedPortfolio } from '@/lib/portfoliosStore';
+import { sessionUser } from '@/lib/auth';
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function DELETE(request: Request, { params }: Params) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const { id } = await params;
+  try {
+    const portfolioId = await requestedPortfolio(user.id, new URL(request.url).searchParams);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    const removed = await withLedgerLock(portfolioId, async () => {
+      const target = (await listTransactions(portfolioId)).find((t) => t.id === id);
+      return (
+        target &&
+        deleteTransaction(portfolioId, id, await getHolding(portfolioId, target.symbol), await listCorporateActions(portfolioId, target.symbol))
+      );
+    });
+    if (!removed) {
+      return NextResponse.json({ error: `Transaction ${id} not found` }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof OversellError) {
+      return NextResponse.json({ error: `Removing this entry would leave a later sell uncovered: ${error.message}` }, { status: 422 });
+    }
+    console.error('Error deleting transaction:', error);
+    return NextResponse.json({ error: 'Failed to delete transaction' }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { getHolding, withLedgerLock } from '@/lib/holdingsStore';
+import { createTransaction, listTransactions, validateTransaction } from '@/lib/transactionsStore';
+import { listCorporateActions } from '@/lib/corporateActionsStore';
+import { OversellError, foldPosition, sortTransactions } from '@/lib/ledger';
+import { requestedPortfolio } from '@/lib/portfoliosStore';
+import { sessionUser } from '@/lib/auth';
+
+// ?symbol=X returns that holding's ledger plus the folded position and derivation steps.
+// Every ledger route works on one portfolio, picked with ?portfolio=<id> (default: the user's oldest portfolio)
+export async function GET(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const params = new URL(request.url).searchParams;
+  const symbol = params.get('symbol')?.toUpperCase();
+  try {
+    const portfolioId = await requestedPortfolio(user.id, params);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    if (!symbol) return NextResponse.json(sortTransactions(await listTransactions(portfolioId)));
+    const holding = await getHolding(portfolioId, symbol);
+    if (!holding) {
+      return NextResponse.json({ error: `Holding ${symbol} not found` }, { status: 404 });
+    }
+    const [transactions, actions] = await Promise.all([
+      listTransactions(portfolioId, symbol),
+      listCorporateActions(portfolioId, symbol),
+    ]);
+    return NextResponse.json({
+      symbol,
+      transactions: sortTransactions(transactions),
+      actions,
+      position: foldPosition(holding, transactions, actions),
+    });
+  } catch (error) {
+    console.error('Error reading transactions:', error);
+    return NextResponse.json({ error: 'Failed to read transactions' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  try {
+    const portfolioId = await requestedPortfolio(user.id, new URL(request.url).searchParams);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    const body = await request.json().catch(() => null);
+    const validated = validateTransaction(body);
+    if (!validated.value) {
+      return NextResponse.json({ error: 'Invalid transaction', details: validated.errors }, { status: 400 });
+    }
+    const input = validated.value;
+    const created = await withLedgerLock(portfolioId, async () => {
+      const holding = await getHolding(portfolioId, input.symbol);
+      return holding && createTransaction(portfolioId, holding, input, await listCorporateActions(portfolioId, holding.symbol));
+    });
+    if (!created) {
+      return NextResponse.json({ error: `Holding ${input.symbol} not found; add it first` }, { status: 404 });
+    }
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    if (error instanceof OversellError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+    console.error('Error creating transaction:', error);
+    return NextResponse.json({ error: 'Failed to create transaction' }, { status: 500 });
+  }
+}
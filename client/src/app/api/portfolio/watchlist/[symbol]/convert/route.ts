@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { createHolding, validateHolding } from '@/lib/holdingsStore';
+import { getWatchlistEntry, removeFromWatchlist } from '@/lib/watchlistStore';
+import { requestedPortfolio } from '@/lib/portfoliosStore';
+import { sessionUser } from '@/lib/auth';
+
+type Params = { params: Promise<{ symbol: string }> };
+
+/**
+ * Buy a watched symbol: body { shares, purchasePrice, purchaseDate? } opens a holding in ?portfolio=<id>
+ * with the entry's company, sector and exchange, then drops the symbol from the watchlist.
+ */
+export async function POST(request: Request, { params }: Params) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const symbol = (await params).symbol.toUpperCase();
+  try {
+    const portfolioId = await requestedPortfolio(user.id, new URL(request.url).searchParams);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+    const entry = await getWatchlistEntry(user.id, symbol);
+    if (!entry) {
+      return NextResponse.json({ error: `${symbol} is not on the watchlist` }, { status: 404 });
+    }
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Invalid holding', details: ['Body must be a JSON object'] }, { status: 400 });
+    }
+    const validated = validateHolding({
+      symbol: entry.symbol,
+      companyName: entry.companyName,
+      sector: entry.sector,
+      exchange: entry.exchange,
+      currency: entry.currency,
+      shares: body.shares,
+      purchasePrice: body.purchasePrice,
+      purchaseDate: body.purchaseDate,
+    });
+    if (!validated.value) {
+      return NextResponse.json({ error: 'Invalid holding', details: validated.errors }, { status: 400 });
+    }
+    const created = await createHolding(portfolioId, validated.value);
+    if (!created) {
+      return NextResponse.json({ error: `Holding ${symbol} already exists` }, { status: 409 });
+    }
+    await removeFromWatchlist(user.id, symbol);
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error('Error converting watchlist entry:', error);
+    return NextResponse.json({ error: 'Failed to convert watchlist entry' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { removeFromWatchlist, updateWatchlistEntry } from '@/lib/watchlistStore';
+import { sessionUser } from '@/lib/auth';
+
+type Params = { params: Promise<{ symbol: string }> };
+
+export async function PUT(request: Request, { params }: Params) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const symbol = (await params).symbol.toUpperCase();
+  try {
+    const body = await request.json().catch(() => null);
+    const result = await updateWatchlistEntry(user.id, symbol, body);
+    if (!result) {
+      return NextResponse.json({ error: `${symbol} is not on the watchlist` }, { status: 404 });
+    }
+    if (!result.value) {
+      return NextResponse.json({ error: 'Invalid watchlist entry', details: result.errors }, { status: 400 });
+    }
+    return NextResponse.json(result.value);
+  } catch (error) {
+    console.error('Error updating watchlist entry:', error);
+    return NextResponse.json({ error: 'Failed to update watchlist entry' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const symbol = (await params).symbol.toUpperCase();
+  try {
+    const removed = await removeFromWatchlist(user.id, symbol);
+    if (!removed) {
+      return NextResponse.json({ error: `${symbol} is not on the watchlist` }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error removing watchlist entry:', error);
+    return NextResponse.json({ error: 'Failed to remove watchlist entry' }, { status: 500 });
+  }
+}
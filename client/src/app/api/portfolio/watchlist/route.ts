@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { addToWatchlist, listWatchlist, validateWatchlistEntry } from '@/lib/watchlistStore';
+import { buildWatchlistRows } from '@/lib/portfolio';
+import { sessionUser } from '@/lib/auth';
+
+// The watchlist is shared by all portfolios; rows carry the same quote fields and meta as holdings
+export async function GET(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  try {
+    return NextResponse.json(await buildWatchlistRows(await listWatchlist(user.id)));
+  } catch (error) {
+    console.error('Error reading watchlist:', error);
+    return NextResponse.json({ error: 'Failed to read watchlist' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  try {
+    const body = await request.json().catch(() => null);
+    const validated = validateWatchlistEntry(body);
+    if (!validated.value) {
+      return NextResponse.json({ error: 'Invalid watchlist entry', details: validated.errors }, { status: 400 });
+    }
+    const created = await addToWatchlist(user.id, validated.value);
+    if (!created) {
+      return NextResponse.json({ error: `${validated.value.symbol} is already on the watchlist` }, { status: 409 });
+    }
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error('Error adding to watchlist:', error);
+    return NextResponse.json({ error: 'Failed to add to watchlist' }, { status: 500 });
+  }
+}
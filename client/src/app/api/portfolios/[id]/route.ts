@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { DEFAULT_PORTFOLIO_ID } from '@/lib/portfolioIds';
+import { deletePortfolio, getPortfolio, listPortfolios, renamePortfolio, validatePortfolio } from '@/lib/portfoliosStore';
+import { sessionUser } from '@/lib/auth';
+
+type Params = { params: Promise<{ id: string }> };
+
+// Rename; the id is fixed once created since it names the portfolio's stores
+export async function PUT(request: Request, { params }: Params) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const { id } = await params;
+  try {
+    const existing = await getPortfolio(user.id, id);
+    if (!existing) {
+      return NextResponse.json({ error: `Portfolio ${id} not found` }, { status: 404 });
+    }
+    const body = await request.json().catch(() => null);
+    const validated = validatePortfolio(body, existing);
+    if (!validated.value) {
+      return NextResponse.json({ error: 'Invalid portfolio', details: validated.errors }, { status: 400 });
+    }
+    const renamed = await renamePortfolio(id, validated.value.name);
+    if (!renamed) {
+      return NextResponse.json({ error: `Portfolio ${id} not found` }, { status: 404 });
+    }
+    return NextResponse.json(renamed);
+  } catch (error) {
+    console.error('Error renaming portfolio:', error);
+    return NextResponse.json({ error: 'Failed to rename portfolio' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const { id } = await params;
+  if (id === DEFAULT_PORTFOLIO_ID) {
+    return NextResponse.json({ error: 'The default portfolio cannot be deleted' }, { status: 400 });
+  }
+  try {
+    const owned = await listPortfolios(user.id);
+    if (!owned.some((p) => p.id === id)) {
+      return NextResponse.json({ error: `Portfolio ${id} not found` }, { status: 404 });
+    }
+    if (owned.length === 1) {
+      return NextResponse.json({ error: 'Your last portfolio cannot be deleted' }, { status: 400 });
+    }
+    const removed = await deletePortfolio(id);
+    if (!removed) {
+      return NextResponse.json({ error: `Portfolio ${id} not found` }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error deleting portfolio:', error);
+    return NextResponse.json({ error: 'Failed to delete portfolio' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { createPortfolio, listPortfolios, validatePortfolio } from '@/lib/portfoliosStore';
+import { sessionUser } from '@/lib/auth';
+
+export async function GET(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  try {
+    return NextResponse.json(await listPortfolios(user.id));
+  } catch (error) {
+    console.error('Error reading portfolios:', error);
+    return NextResponse.json({ error: 'Failed to read portfolios' }, { status: 500 });
+  }
+}
+
+// { name }; the id is generated from the name
+export async function POST(request: Request) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  try {
+    const body = await request.json().catch(() => null);
+    const validated = validatePortfolio(body);
+    if (!validated.value) {
+      return NextResponse.json({ error: 'Invalid portfolio', details: validated.errors }, { status: 400 });
+    }
+    return NextResponse.json(await createPortfolio(user.id, validated.value), { status: 201 });
+  } catch (error) {
+    console.error('Error creating portfolio:', error);
+    return NextResponse.json({ error: 'Failed to create portfolio' }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { BACKEND_URL } from '@/lib/backend';
+import { EXCHANGES, SYMBOL_PATTERN } from '@/lib/holdingsStore';
+import { PRICE_RANGES, buildStockHistory } from '@/lib/stockDetail';
+import { PriceRange } from '@/types/stockDetail';
+import { sessionUser } from '@/lib/auth';
+
+type Params = { params: Promise<{ symbol: string }> };
+
+// ?range=1D|5D|1M|6M|1Y|5Y&exchange=NSE|BSE|NASDAQ|NYSE (the provider's default listing without it)
+export async function GET(request: Request, { params }: Params) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const symbol = (await params).symbol.toUpperCase();
+  const query = new URL(request.url).searchParams;
+  const range = (query.get('range') || '1Y').toUpperCase() as PriceRange;
+  const exchange = query.get('exchange')?.toUpperCase() || null;
+  if (!SYMBOL_PATTERN.test(symbol)) {
+    return NextResponse.json({ error: `Invalid symbol ${symbol}` }, { status: 400 });
+  }
+  if (!(range in PRICE_RANGES)) {
+    return NextResponse.json({ error: `range must be one of ${Object.keys(PRICE_RANGES).join(', ')}` }, { status: 400 });
+  }
+  if (exchange && !EXCHANGES.includes(exchange)) {
+    return NextResponse.json({ error: `exchange must be one of ${EXCHANGES.join(', ')}` }, { status: 400 });
+  }
+  if (!BACKEND_URL) {
+    return NextResponse.json({ error: 'Price history needs the market data backend' }, { status: 503 });
+  }
+  try {
+    return NextResponse.json(await buildStockHistory(symbol, exchange, range));
+  } catch (error) {
+    console.error('Error fetching price history:', error);
+    return NextResponse.json({ error: 'Failed to fetch price history' }, { status: 502 });
+  }
+}
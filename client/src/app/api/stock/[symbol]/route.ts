@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { EXCHANGES, SYMBOL_PATTERN } from '@/lib/holdingsStore';
+import { buildStockDetail } from '@/lib/stockDetail';
+import { sessionUser } from '@/lib/auth';
+
+type Params = { params: Promise<{ symbol: string }> };
+
+// Quote, fundamentals, recent quarters and the lots held in every portfolio; ?exchange=NSE|BSE|... picks the listing
+export async function GET(request: Request, { params }: Params) {
+  const user = await sessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const symbol = (await params).symbol.toUpperCase();
+  const exchange = new URL(request.url).searchParams.get('exchange')?.toUpperCase() || null;
+  if (!SYMBOL_PATTERN.test(symbol)) {
+    return NextResponse.json({ error: `Invalid symbol ${symbol}` }, { status: 400 });
+  }
+  if (exchange && !EXCHANGES.includes(exchange)) {
+    return NextResponse.json({ error: `exchange must be one of ${EXCHANGES.join(', ')}` }, { status: 400 });
+  }
+  try {
+    return NextResponse.json(await buildStockDetail(user.id, symbol, exchange));
+  } catch (error) {
+    console.error('Error loading stock detail:', error);
+    return NextResponse.json({ error: 'Failed to load stock detail' }, { status: 500 });
+  }
+}
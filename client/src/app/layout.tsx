@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import "./globals.css";
+import UserMenu from "@/components/UserMenu";
 
 export const metadata: Metadata = {
   title: "Portfolio Dashboard",
@@ -20,7 +21,10 @@ export default function RootLayout({
               <div className="h-2.5 w-2.5 rounded-full bg-emerald-500"></div>
               <span className="font-semibold tracking-wide">Portfolio</span>
             </div>
-            <div className="text-xs text-gray-400">Real-time | 15s refresh</div>
+            <div className="flex items-center gap-6">
+              <div className="text-xs text-gray-400">Real-time | live updates</div>
+              <UserMenu />
+            </div>
           </div>
         </div>
         {children}
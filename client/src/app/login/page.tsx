@@ -0,0 +1,32 @@
+import LoginForm from "@/components/LoginForm";
+import { oidcConfig } from "@/lib/oidc";
+import { safeNext } from "@/lib/session";
+import { signupOpen } from "@/lib/usersStore";
+
+type Params = {
+  searchParams: Promise<{ next?: string; error?: string }>;
+};
+
+const ERRORS: Record<string, string> = {
+  oidc: "Single sign-on did not complete. Try again.",
+  provider: "The sign-in provider could not be reached.",
+};
+
+export default async function LoginPage({ searchParams }: Params) {
+  const { next, error } = await searchParams;
+  const oidc = oidcConfig();
+  return (
+    <div className="min-h-screen">
+      <div className="max-w-sm mx-auto px-4 py-16">
+        <h1 className="text-3xl font-semibold text-gray-100 mb-2">Sign in</h1>
+        <p className="text-gray-400 text-sm mb-8">Your portfolios, watchlist and alerts are kept per account</p>
+        <LoginForm
+          next={safeNext(next)}
+          signupOpen={await signupOpen()}
+          oidcName={oidc?.name ?? null}
+          initialError={error ? ERRORS[error] ?? "Sign-in failed" : null}
+        />
+      </div>
+    </div>
+  );
+}
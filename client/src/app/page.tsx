@@ -1,44 +1,85 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import Link from "next/link";
 import PortfolioTable from "@/components/PortfolioTable";
 import StockChart from "@/components/StockChart";
+import BenchmarkChart from "@/components/BenchmarkChart";
 import PortfolioSummary from "@/components/PortfolioSummary";
-import { StockData } from "@/types/stock";
+import SectorChart from "@/components/SectorChart";
+import PortfolioHistoryChart from "@/components/PortfolioHistoryChart";
+import HoldingsManager from "@/components/HoldingsManager";
+import HoldingsImport from "@/components/HoldingsImport";
+import AlertCenter from "@/components/AlertCenter";
+import CorporateActions from "@/components/CorporateActions";
+import PortfolioSwitcher from "@/components/PortfolioSwitcher";
+import Watchlist from "@/components/Watchlist";
+import AllocationTargetsEditor from "@/components/AllocationTargetsEditor";
+import RebalancePlanner from "@/components/RebalancePlanner";
+import RiskPanel from "@/components/RiskPanel";
+import ScenarioPanel from "@/components/ScenarioPanel";
+import MarketStatusBar from "@/components/MarketStatusBar";
+import { usePortfolioFeed } from "@/hooks/usePortfolioFeed";
+import { useMarketStatus } from "@/hooks/useMarketStatus";
+import { useBenchmarkComparison } from "@/hooks/useBenchmarkComparison";
+import { usePortfolios } from "@/hooks/usePortfolios";
+import { useAllocationTargets } from "@/hooks/useAllocationTargets";
+import { BASE_CURRENCIES } from "@/lib/format";
+import { AGGREGATE_PORTFOLIO_ID } from "@/lib/portfolioIds";
+
+const BASE_CURRENCY_KEY = "portfolio.baseCurrency";
 
 export default function Home() {
-  const [portfolioData, setPortfolioData] = useState<StockData[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [filter, setFilter] = useState("");
   const [dense, setDense] = useState(false);
+  const [sectorFilter, setSectorFilter] = useState<string | null>(null);
+  const [holdingsVersion, setHoldingsVersion] = useState(0);
+  const [ledgerVersion, setLedgerVersion] = useState(0);
+  const [baseCurrency, setBaseCurrency] = useState("INR");
+  const [unreadAlerts, setUnreadAlerts] = useState(0);
+  const { portfolios, selected: portfolioId, select: selectPortfolio, reload: reloadPortfolios } = usePortfolios();
+  const aggregate = portfolioId === AGGREGATE_PORTFOLIO_ID;
+  const markets = useMarketStatus();
+  const {
+    rows: portfolioData,
+    loading,
+    error,
+    mode: feedMode,
+    lastUpdated,
+    highlights,
+    refresh: fetchPortfolioData,
+  } = usePortfolioFeed(baseCurrency, portfolioId, markets);
 
   useEffect(() => {
-    fetchPortfolioData();
-    const id = setInterval(fetchPortfolioData, 15000);
-    return () => clearInterval(id);
+    const saved = window.localStorage.getItem(BASE_CURRENCY_KEY);
+    if (saved && BASE_CURRENCIES.includes(saved)) setBaseCurrency(saved);
   }, []);
 
-  const fetchPortfolioData = async () => {
-    try {
-      setLoading(true);
-      const response = await fetch("/api/portfolio", { cache: "no-store" });
-      if (!response.ok) {
-        throw new Error("Failed to fetch portfolio data");
-      }
-      const data = await response.json();
-      setPortfolioData(data);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "An error occurred");
-    } finally {
-      setLoading(false);
-    }
+  const changeBaseCurrency = (next: string) => {
+    window.localStorage.setItem(BASE_CURRENCY_KEY, next);
+    setBaseCurrency(next);
   };
 
+  // Amounts arrive in the currency they were requested in; label them by that until a refetch lands
+  const displayCurrency = portfolioData[0]?.baseCurrency || baseCurrency;
+  const benchmark = useBenchmarkComparison(baseCurrency, portfolioId, ledgerVersion);
+  const allocation = useAllocationTargets(portfolioId);
+
   const refreshData = () => {
     fetchPortfolioData();
   };
 
+  // Holdings, ledger or corporate actions changed, so the reconstructed history is out of date
+  const onLedgerChange = () => {
+    setLedgerVersion((v) => v + 1);
+    fetchPortfolioData();
+  };
+
+  const onHoldingsImported = () => {
+    setHoldingsVersion((v) => v + 1);
+    onLedgerChange();
+  };
+
   if (loading && portfolioData.length === 0) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -82,6 +123,17 @@ export default function Home() {
           <p className="text-gray-400 text-sm">
             Real-time insights into your investment portfolio
           </p>
+          <div className="mt-3">
+            <MarketStatusBar markets={markets} />
+          </div>
+          <div className="mt-4 flex justify-center">
+            <PortfolioSwitcher
+              portfolios={portfolios}
+              selected={portfolioId}
+              onSelect={selectPortfolio}
+              onChange={reloadPortfolios}
+            />
+          </div>
         </div>
 
         <div className="card p-4 mb-6">
@@ -101,6 +153,20 @@ export default function Home() {
               </button>
             </div>
             <div className="flex items-center gap-4">
+              <label className="inline-flex items-center gap-2 text-sm text-gray-300">
+                Base currency
+                <select
+                  value={baseCurrency}
+                  onChange={(e) => changeBaseCurrency(e.target.value)}
+                  className="bg-[#0b1220] text-gray-100 border border-white/10 rounded-md px-2 py-1 focus:outline-none focus:border-emerald-600"
+                >
+                  {BASE_CURRENCIES.map((c) => (
+                    <option key={c} value={c}>
+                      {c}
+                    </option>
+                  ))}
+                </select>
+              </label>
               <label className="inline-flex items-center gap-2 text-sm text-gray-300">
                 <input
                   type="checkbox"
@@ -109,35 +175,234 @@ export default function Home() {
                 />
                 Compact rows
               </label>
+              <Link href="/tax" className="text-sm text-gray-400 hover:text-white">
+                Tax report
+              </Link>
+              {!aggregate && (
+                <a href="#scenarios" className="text-sm text-gray-400 hover:text-white">
+                  What-if
+                </a>
+              )}
+              <a
+                href="#alerts"
+                className={`text-sm ${unreadAlerts > 0 ? "text-amber-500" : "text-gray-400"} hover:text-white`}
+              >
+                Alerts{unreadAlerts > 0 ? ` (${unreadAlerts})` : ""}
+              </a>
+              <span
+                className="inline-flex items-center gap-1.5 text-xs text-gray-400"
+                title={
+                  feedMode === "live"
+                    ? "Streaming price updates"
+                    : "Live stream unavailable; polling every 15s"
+                }
+              >
+                <span
+                  className={`h-2 w-2 rounded-full ${
+                    feedMode === "live"
+                      ? "bg-emerald-500"
+                      : feedMode === "polling"
+                      ? "bg-amber-500"
+                      : "bg-gray-500"
+                  }`}
+                ></span>
+                {feedMode === "live"
+                  ? "Live"
+                  : feedMode === "polling"
+                  ? "Polling"
+                  : "Connecting"}
+              </span>
             </div>
           </div>
         </div>
 
-        <PortfolioSummary data={portfolioData} />
+        <PortfolioSummary
+          data={portfolioData}
+          baseCurrency={displayCurrency}
+          benchmark={benchmark.comparison}
+        />
+
+        <div className="card p-6 mb-8">
+          <h3 className="text-lg font-semibold text-gray-100 mb-4">
+            Value Over Time
+          </h3>
+          <PortfolioHistoryChart
+            portfolioId={portfolioId}
+            baseCurrency={displayCurrency}
+            refreshToken={lastUpdated}
+          />
+        </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
           <div className="card p-6">
             <h3 className="text-lg font-semibold text-gray-100 mb-4">
               Portfolio Performance
             </h3>
-            <StockChart data={portfolioData} />
+            <StockChart data={portfolioData} baseCurrency={displayCurrency} />
           </div>
           <div className="card p-6">
+            <h3 className="text-lg font-semibold text-gray-100 mb-4">
+              Portfolio vs Benchmark
+            </h3>
+            <BenchmarkChart
+              comparison={benchmark.comparison}
+              indices={benchmark.indices}
+              index={benchmark.index}
+              range={benchmark.range}
+              loading={benchmark.loading}
+              error={benchmark.error}
+              onIndexChange={benchmark.setIndex}
+              onRangeChange={benchmark.setRange}
+            />
+          </div>
+          <div className="card p-6 lg:col-span-2">
             <h3 className="text-lg font-semibold text-gray-100 mb-4">
               Sector Distribution
             </h3>
-            <div className="h-64 flex items-center justify-center text-gray-500">
-              Chart component will be implemented here
-            </div>
+            <SectorChart
+              data={portfolioData}
+              baseCurrency={displayCurrency}
+              selectedSector={sectorFilter}
+              onSelectSector={setSectorFilter}
+            />
           </div>
         </div>
 
+        <div className="card p-6 mb-8">
+          <h3 className="text-lg font-semibold text-gray-100 mb-4">
+            Risk
+          </h3>
+          <RiskPanel
+            portfolioId={portfolioId}
+            baseCurrency={baseCurrency}
+            index={benchmark.index}
+            range={benchmark.range}
+            version={ledgerVersion}
+          />
+        </div>
+
         <div className="card p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-100">
+              Portfolio Holdings
+            </h3>
+            {sectorFilter && (
+              <button
+                onClick={() => setSectorFilter(null)}
+                className="badge hover:opacity-80"
+              >
+                Sector: {sectorFilter} ✕
+              </button>
+            )}
+          </div>
+          <PortfolioTable
+            data={portfolioData}
+            portfolioId={portfolioId}
+            filter={filter}
+            sectorFilter={sectorFilter}
+            highlights={highlights}
+            dense={dense}
+            targets={allocation.targets}
+            onLedgerChange={onLedgerChange}
+          />
+        </div>
+
+        <div id="alerts" className="card p-6 mt-8">
+          <h3 className="text-lg font-semibold text-gray-100 mb-4">
+            Alerts
+          </h3>
+          <AlertCenter
+            portfolioId={portfolioId}
+            symbols={portfolioData.map((r) => r.symbol)}
+            refreshToken={lastUpdated}
+            onUnreadChange={setUnreadAlerts}
+          />
+        </div>
+
+        <div id="watchlist" className="card p-6 mt-8">
           <h3 className="text-lg font-semibold text-gray-100 mb-4">
-            Portfolio Holdings
+            Watchlist
           </h3>
-          <PortfolioTable data={portfolioData} filter={filter} dense={dense} />
+          <Watchlist
+            portfolioId={portfolioId}
+            refreshToken={lastUpdated}
+            onConverted={onLedgerChange}
+          />
         </div>
+
+        {aggregate ? (
+          <div className="card p-6 mt-8 text-sm text-gray-400">
+            The combined view is read-only. Pick a single portfolio to manage
+            its holdings, allocation targets, corporate actions and imports.
+          </div>
+        ) : (
+          <>
+            <div className="card p-6 mt-8">
+              <h3 className="text-lg font-semibold text-gray-100 mb-4">
+                Manage Holdings
+              </h3>
+              <HoldingsManager
+                portfolioId={portfolioId}
+                onChange={onLedgerChange}
+                version={holdingsVersion}
+              />
+            </div>
+
+            <div className="card p-6 mt-8">
+              <h3 className="text-lg font-semibold text-gray-100 mb-4">
+                Target Allocation
+              </h3>
+              <AllocationTargetsEditor
+                data={portfolioData}
+                targets={allocation.targets}
+                onSave={allocation.save}
+              />
+            </div>
+
+            <div className="card p-6 mt-8">
+              <h3 className="text-lg font-semibold text-gray-100 mb-4">
+                Rebalancing Planner
+              </h3>
+              <RebalancePlanner
+                portfolioId={portfolioId}
+                baseCurrency={baseCurrency}
+                targets={allocation.targets}
+              />
+            </div>
+
+            <div id="scenarios" className="card p-6 mt-8">
+              <h3 className="text-lg font-semibold text-gray-100 mb-4">
+                What-if Scenarios
+              </h3>
+              <ScenarioPanel
+                portfolioId={portfolioId}
+                baseCurrency={baseCurrency}
+                data={portfolioData}
+              />
+            </div>
+
+            <div className="card p-6 mt-8">
+              <h3 className="text-lg font-semibold text-gray-100 mb-4">
+                Corporate Actions
+              </h3>
+              <CorporateActions
+                portfolioId={portfolioId}
+                symbols={portfolioData.map((r) => r.symbol)}
+                onChange={onLedgerChange}
+              />
+            </div>
+
+            <div className="card p-6 mt-8">
+              <h3 className="text-lg font-semibold text-gray-100 mb-4">
+                Import Holdings
+              </h3>
+              <HoldingsImport
+                portfolioId={portfolioId}
+                onImported={onHoldingsImported}
+              />
+            </div>
+          </>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,28 @@
+import Link from "next/link";
+import StockDetailView from "@/components/StockDetailView";
+
+type Params = {
+  params: Promise<{ symbol: string }>;
+  searchParams: Promise<{ exchange?: string }>;
+};
+
+export default async function StockPage({ params, searchParams }: Params) {
+  const symbol = decodeURIComponent((await params).symbol).toUpperCase();
+  const exchange = (await searchParams).exchange?.toUpperCase();
+  return (
+    <div className="min-h-screen">
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        <div className="mb-8 flex items-end justify-between">
+          <div>
+            <h1 className="text-3xl font-semibold text-gray-100 mb-2">Stock Details</h1>
+            <p className="text-gray-400 text-sm">Price history, fundamentals, earnings and your lots</p>
+          </div>
+          <Link href="/" className="text-sm text-gray-400 hover:text-white">
+            ← Dashboard
+          </Link>
+        </div>
+        <StockDetailView symbol={symbol} exchange={exchange} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import Link from "next/link";
+import CapitalGainsReport from "@/components/CapitalGainsReport";
+
+export default function TaxPage() {
+  return (
+    <div className="min-h-screen">
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        <div className="mb-8 flex items-end justify-between">
+          <div>
+            <h1 className="text-3xl font-semibold text-gray-100 mb-2">Capital Gains</h1>
+            <p className="text-gray-400 text-sm">
+              STCG and LTCG on NSE/BSE equity by financial year, with FIFO lot matching
+            </p>
+          </div>
+          <Link href="/" className="text-sm text-gray-400 hover:text-white">
+            ← Dashboard
+          </Link>
+        </div>
+        <CapitalGainsReport />
+      </div>
+    </div>
+  );
+}
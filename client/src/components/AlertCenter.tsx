@@ -0,0 +1,310 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Alert, AlertMetric, AlertOperator, AlertRule, AlertsResponse, Webhook } from "@/types/alerts";
+
+interface AlertCenterProps {
+  portfolioId: string; // rules are checked against this portfolio's rows
+  symbols: string[]; // holdings rules can target
+  refreshToken?: number; // changes after each dashboard refresh, when new alerts may have fired
+  onUnreadChange?: (unread: number) => void;
+}
+
+type WebhookView = Omit<Webhook, "secret"> & { hasSecret: boolean };
+
+const metricLabels: Record<AlertMetric, string> = {
+  price: "CMP",
+  changePercent: "Day change %",
+  gainLossPercent: "Gain/loss % vs cost",
+  weight: "Portfolio weight %",
+};
+
+const emptyRule = {
+  symbol: "",
+  metric: "price" as AlertMetric,
+  operator: "above" as AlertOperator,
+  threshold: "",
+  cooldownMinutes: "60",
+  note: "",
+};
+
+const inputClass =
+  "w-full bg-[#0b1220] text-gray-100 placeholder:text-gray-500 border border-white/10 rounded-md px-3 py-2 focus:outline-none focus:border-emerald-600";
+
+const describeRule = (rule: AlertRule) =>
+  `${rule.symbol} ${metricLabels[rule.metric]} ${rule.operator} ${rule.threshold}`;
+
+const AlertCenter: React.FC<AlertCenterProps> = ({ portfolioId, symbols, refreshToken = 0, onUnreadChange }) => {
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [webhooks, setWebhooks] = useState<WebhookView[]>([]);
+  const [ruleForm, setRuleForm] = useState(emptyRule);
+  const [hookForm, setHookForm] = useState({ url: "", secret: "" });
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const loadAlerts = useCallback(async () => {
+    const response = await fetch("/api/portfolio/alerts", { cache: "no-store" });
+    if (!response.ok) return;
+    const data: AlertsResponse = await response.json();
+    setAlerts(data.alerts);
+    onUnreadChange?.(data.unread);
+  }, [onUnreadChange]);
+
+  const loadConfig = useCallback(async () => {
+    const [rulesRes, hooksRes] = await Promise.all([
+      fetch(`/api/portfolio/alerts/rules?portfolio=${portfolioId}`, { cache: "no-store" }),
+      fetch("/api/portfolio/alerts/webhooks", { cache: "no-store" }),
+    ]);
+    if (rulesRes.ok) setRules(await rulesRes.json());
+    if (hooksRes.ok) setWebhooks(await hooksRes.json());
+  }, [portfolioId]);
+
+  useEffect(() => {
+    loadAlerts();
+  }, [loadAlerts, refreshToken]);
+
+  useEffect(() => {
+    loadConfig();
+  }, [loadConfig]);
+
+  // Shared error handling for the mutations below; returns whether the call succeeded
+  const send = async (url: string, init: RequestInit, fallback: string) => {
+    setErrors([]);
+    const response = await fetch(url, {
+      ...init,
+      headers: init.body ? { "Content-Type": "application/json" } : undefined,
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      setErrors(body.details || [body.error || fallback]);
+      return false;
+    }
+    return true;
+  };
+
+  const addRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const ok = await send(
+      `/api/portfolio/alerts/rules?portfolio=${portfolioId}`,
+      { method: "POST", body: JSON.stringify({ ...ruleForm, symbol: ruleForm.symbol || symbols[0] }) },
+      "Failed to add rule"
+    );
+    if (ok) {
+      setRuleForm({ ...emptyRule, symbol: ruleForm.symbol });
+      await loadConfig();
+    }
+  };
+
+  const toggleRule = async (rule: AlertRule) => {
+    if (await send(`/api/portfolio/alerts/rules/${rule.id}`, { method: "PUT", body: JSON.stringify({ enabled: !rule.enabled }) }, "Failed to update rule")) {
+      await loadConfig();
+    }
+  };
+
+  const removeRule = async (rule: AlertRule) => {
+    if (await send(`/api/portfolio/alerts/rules/${rule.id}`, { method: "DELETE" }, "Failed to remove rule")) {
+      await loadConfig();
+    }
+  };
+
+  const markAllRead = async () => {
+    if (await send("/api/portfolio/alerts", { method: "PATCH", body: "{}" }, "Failed to update alerts")) {
+      await loadAlerts();
+    }
+  };
+
+  const addWebhook = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await send("/api/portfolio/alerts/webhooks", { method: "POST", body: JSON.stringify(hookForm) }, "Failed to add webhook")) {
+      setHookForm({ url: "", secret: "" });
+      await loadConfig();
+    }
+  };
+
+  const testWebhook = async (hook: WebhookView) => {
+    if (await send(`/api/portfolio/alerts/webhooks/${hook.id}/test`, { method: "POST" }, "Failed to test webhook")) {
+      await loadConfig();
+    }
+  };
+
+  const removeWebhook = async (hook: WebhookView) => {
+    if (await send(`/api/portfolio/alerts/webhooks/${hook.id}`, { method: "DELETE" }, "Failed to remove webhook")) {
+      await loadConfig();
+    }
+  };
+
+  const unread = alerts.filter((a) => !a.read).length;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <p className="text-sm text-gray-300">
+            {unread > 0 ? `${unread} unread` : "No unread alerts"}
+          </p>
+          {unread > 0 && (
+            <button onClick={markAllRead} className="text-sm text-emerald-500 hover:text-emerald-400">
+              Mark all read
+            </button>
+          )}
+        </div>
+        <ul className="max-h-64 overflow-y-auto divide-y divide-white/5 text-sm">
+          {alerts.length === 0 && <li className="py-2 text-gray-500">Alerts appear here when a rule fires.</li>}
+          {alerts.map((a) => (
+            <li key={a.id} className={`py-2 flex justify-between gap-4 ${a.read ? "text-gray-400" : "text-gray-100"}`}>
+              <span>
+                {!a.read && <span className="inline-block h-2 w-2 rounded-full bg-amber-500 mr-2"></span>}
+                {a.message}
+              </span>
+              <span className="text-xs text-gray-500 whitespace-nowrap">
+                {new Date(a.triggeredAt).toLocaleString()}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-200 mb-2">Rules</h4>
+        <form onSubmit={addRule} className="grid grid-cols-2 md:grid-cols-7 gap-3 items-end">
+          <select
+            value={ruleForm.symbol || symbols[0] || ""}
+            onChange={(e) => setRuleForm({ ...ruleForm, symbol: e.target.value })}
+            className={inputClass}
+          >
+            {symbols.map((s) => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+          </select>
+          <select
+            value={ruleForm.metric}
+            onChange={(e) => setRuleForm({ ...ruleForm, metric: e.target.value as AlertMetric })}
+            className={inputClass}
+          >
+            {(Object.keys(metricLabels) as AlertMetric[]).map((m) => (
+              <option key={m} value={m}>
+                {metricLabels[m]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={ruleForm.operator}
+            onChange={(e) => setRuleForm({ ...ruleForm, operator: e.target.value as AlertOperator })}
+            className={inputClass}
+          >
+            <option value="above">above</option>
+            <option value="below">below</option>
+          </select>
+          <input
+            type="number"
+            step="any"
+            placeholder="Threshold"
+            value={ruleForm.threshold}
+            onChange={(e) => setRuleForm({ ...ruleForm, threshold: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            type="number"
+            min="0"
+            placeholder="Cooldown (min)"
+            title="Minimum minutes between two alerts from this rule"
+            value={ruleForm.cooldownMinutes}
+            onChange={(e) => setRuleForm({ ...ruleForm, cooldownMinutes: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            placeholder="Note (e.g. stop-loss)"
+            value={ruleForm.note}
+            onChange={(e) => setRuleForm({ ...ruleForm, note: e.target.value })}
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            disabled={symbols.length === 0}
+            className="bg-emerald-600 hover:bg-emerald-500 text-white font-medium px-4 py-2 rounded-md disabled:opacity-50"
+          >
+            Add Rule
+          </button>
+        </form>
+        <table className="w-full text-sm divide-y divide-white/5 mt-3">
+          <tbody className="divide-y divide-white/5">
+            {rules.map((rule) => (
+              <tr key={rule.id} className={rule.enabled ? "text-gray-300" : "text-gray-500"}>
+                <td className="py-2">{describeRule(rule)}</td>
+                <td className="py-2">{rule.note}</td>
+                <td className="py-2">cooldown {rule.cooldownMinutes}m</td>
+                <td className="py-2">
+                  {rule.lastTriggeredAt ? `last fired ${new Date(rule.lastTriggeredAt).toLocaleString()}` : "never fired"}
+                </td>
+                <td className="py-2 text-right space-x-3">
+                  <button onClick={() => toggleRule(rule)} className="text-emerald-500 hover:text-emerald-400">
+                    {rule.enabled ? "Disable" : "Enable"}
+                  </button>
+                  <button onClick={() => removeRule(rule)} className="text-red-500 hover:text-red-400">
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-200 mb-2">Webhooks</h4>
+        <form onSubmit={addWebhook} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+          <input
+            placeholder="https://example.com/hooks/portfolio"
+            value={hookForm.url}
+            onChange={(e) => setHookForm({ ...hookForm, url: e.target.value })}
+            className={`${inputClass} md:col-span-2`}
+          />
+          <input
+            placeholder="Signing secret (optional)"
+            value={hookForm.secret}
+            onChange={(e) => setHookForm({ ...hookForm, secret: e.target.value })}
+            className={inputClass}
+          />
+          <button type="submit" className="bg-emerald-600 hover:bg-emerald-500 text-white font-medium px-4 py-2 rounded-md">
+            Add Webhook
+          </button>
+        </form>
+        <table className="w-full text-sm divide-y divide-white/5 mt-3">
+          <tbody className="divide-y divide-white/5">
+            {webhooks.map((hook) => (
+              <tr key={hook.id} className="text-gray-300">
+                <td className="py-2 break-all">{hook.url}</td>
+                <td className="py-2">{hook.hasSecret ? "signed" : "unsigned"}</td>
+                <td className={`py-2 ${hook.lastError ? "text-red-500" : ""}`}>
+                  {hook.lastDeliveryAt
+                    ? `${hook.lastError || `HTTP ${hook.lastStatus}`} · ${new Date(hook.lastDeliveryAt).toLocaleString()}`
+                    : "not delivered yet"}
+                </td>
+                <td className="py-2 text-right space-x-3">
+                  <button onClick={() => testWebhook(hook)} className="text-emerald-500 hover:text-emerald-400">
+                    Send test
+                  </button>
+                  <button onClick={() => removeWebhook(hook)} className="text-red-500 hover:text-red-400">
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-500 list-disc pl-5">
+          {errors.map((err) => (
+            <li key={err}>{err}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AlertCenter;
@@ -0,0 +1,167 @@
+"use client";
+
+import { Fragment, useEffect, useMemo, useState } from "react";
+import { StockData } from "@/types/stock";
+import { AllocationTargets } from "@/types/allocation";
+import { groupBySector } from "@/lib/sectors";
+
+interface AllocationTargetsEditorProps {
+  data: StockData[];
+  targets: AllocationTargets | null;
+  onSave: (next: AllocationTargets) => Promise<string[]>; // resolves to validation errors
+}
+
+type TextMap = Record<string, string>;
+
+const toText = (m: Record<string, number>): TextMap =>
+  Object.fromEntries(Object.entries(m).map(([k, v]) => [k, String(v)]));
+
+// Blank inputs clear a target, so only filled ones are sent
+const fromText = (m: TextMap): Record<string, number> =>
+  Object.fromEntries(Object.entries(m).filter(([, v]) => v.trim() !== "").map(([k, v]) => [k, Number(v)]));
+
+const inputClass =
+  "w-20 bg-[#0b1220] text-gray-100 placeholder:text-gray-600 border border-white/10 rounded-md px-2 py-1 text-right focus:outline-none focus:border-emerald-600";
+
+const AllocationTargetsEditor: React.FC<AllocationTargetsEditorProps> = ({ data, targets, onSave }) => {
+  const [holdings, setHoldings] = useState<TextMap>({});
+  const [sectors, setSectors] = useState<TextMap>({});
+  const [lotSizes, setLotSizes] = useState<TextMap>({});
+  const [tolerance, setTolerance] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const groups = useMemo(() => groupBySector(data), [data]);
+
+  useEffect(() => {
+    if (!targets) return;
+    setHoldings(toText(targets.holdings));
+    setSectors(toText(targets.sectors));
+    setLotSizes(toText(targets.lotSizes));
+    setTolerance(String(targets.tolerance));
+    setErrors([]);
+  }, [targets]);
+
+  const sum = (m: TextMap) => Object.values(m).reduce((s, v) => s + (Number(v) || 0), 0);
+
+  const save = async () => {
+    setSaving(true);
+    setSaved(false);
+    try {
+      const problems = await onSave({
+        holdings: fromText(holdings),
+        sectors: fromText(sectors),
+        lotSizes: fromText(lotSizes),
+        tolerance: tolerance.trim() === "" ? targets!.tolerance : Number(tolerance),
+      });
+      setErrors(problems);
+      setSaved(problems.length === 0);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!targets) return <p className="text-sm text-gray-400">Loading targets...</p>;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-400">
+        Set a target weight for a sector, a holding, or both. A sector target is shared by its holdings that have no
+        target of their own, in proportion to their value. Holdings with no target are left alone by the planner.
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm divide-y divide-white/5">
+          <thead>
+            <tr className="text-left text-[11px] uppercase tracking-wider text-gray-400">
+              <th className="py-2">Sector / Stock</th>
+              <th className="py-2 text-right">Weight</th>
+              <th className="py-2 text-right">Target %</th>
+              <th className="py-2 text-right">Lot size</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5">
+            {groups.map(({ sector, rows }) => (
+              <Fragment key={sector}>
+                <tr className="bg-[#0e1628] text-gray-100">
+                  <td className="py-2 px-2 font-semibold">{sector}</td>
+                  <td className="py-2 text-right">{rows.reduce((s, r) => s + r.weight, 0).toFixed(2)}%</td>
+                  <td className="py-2 text-right">
+                    <input
+                      type="number"
+                      step="any"
+                      placeholder="—"
+                      value={sectors[sector] ?? ""}
+                      onChange={(e) => setSectors({ ...sectors, [sector]: e.target.value })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="py-2 w-24"></td>
+                </tr>
+                {rows.map((r) => (
+                  <tr key={r.symbol} className="text-gray-300">
+                    <td className="py-2 pl-6">
+                      {r.companyName} <span className="text-xs text-gray-500">{r.symbol}</span>
+                    </td>
+                    <td className="py-2 text-right">{r.weight.toFixed(2)}%</td>
+                    <td className="py-2 text-right">
+                      <input
+                        type="number"
+                        step="any"
+                        placeholder="—"
+                        value={holdings[r.symbol] ?? ""}
+                        onChange={(e) => setHoldings({ ...holdings, [r.symbol]: e.target.value })}
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="py-2 text-right w-24">
+                      <input
+                        type="number"
+                        step="1"
+                        placeholder="1"
+                        value={lotSizes[r.symbol] ?? ""}
+                        onChange={(e) => setLotSizes({ ...lotSizes, [r.symbol]: e.target.value })}
+                        className={inputClass}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-300">
+        <label className="inline-flex items-center gap-2">
+          Tolerance (± pp)
+          <input
+            type="number"
+            step="any"
+            value={tolerance}
+            onChange={(e) => setTolerance(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <span className="text-xs text-gray-500">
+          Sectors {sum(sectors).toFixed(1)}% · Holdings {sum(holdings).toFixed(1)}%
+        </span>
+        <button
+          onClick={save}
+          disabled={saving}
+          className="bg-emerald-600 hover:bg-emerald-500 text-white font-medium px-4 py-2 rounded-md disabled:opacity-50"
+        >
+          Save targets
+        </button>
+        {saved && <span className="text-xs text-emerald-500">Saved</span>}
+      </div>
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-500 list-disc pl-5">
+          {errors.map((err) => (
+            <li key={err}>{err}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AllocationTargetsEditor;
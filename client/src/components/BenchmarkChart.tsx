@@ -0,0 +1,112 @@
+'use client';
+
+import { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { BenchmarkComparison, BenchmarkIndex, PerformanceRange } from '@/types/benchmark';
+
+interface BenchmarkChartProps {
+  comparison: BenchmarkComparison | null;
+  indices: BenchmarkIndex[];
+  index: string;
+  range: PerformanceRange;
+  loading?: boolean;
+  error?: string | null;
+  onIndexChange: (index: string) => void;
+  onRangeChange: (range: PerformanceRange) => void;
+}
+
+const RANGES: PerformanceRange[] = ['1M', '3M', '6M', '1Y', '2Y', '5Y'];
+
+const formatPercentage = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const BenchmarkChart: React.FC<BenchmarkChartProps> = ({ comparison, indices, index, range, loading, error, onIndexChange, onRangeChange }) => {
+  const chartData = useMemo(
+    () =>
+      (comparison?.series || [])
+        .filter((p) => p.portfolio !== null && p.benchmark !== null)
+        .map((p) => ({ time: Date.parse(p.date), portfolio: p.portfolio, benchmark: p.benchmark })),
+    [comparison]
+  );
+  const benchmarkName = comparison?.benchmark.name || indices.find((i) => i.id === index)?.name || index;
+
+  const CustomTooltip = ({ active, payload }: {
+    active?: boolean;
+    payload?: Array<{ payload: { time: number; portfolio: number; benchmark: number } }>;
+  }) => {
+    if (active && payload && payload.length) {
+      const d = payload[0].payload;
+      return (
+        <div className="bg-[#0e1628] text-gray-100 p-3 border border-white/10 rounded-lg shadow-lg">
+          <p className="text-xs text-gray-400">{new Date(d.time).toLocaleDateString()}</p>
+          <p className="text-emerald-500">Portfolio: {formatPercentage(d.portfolio)}</p>
+          <p className="text-sky-400">{benchmarkName}: {formatPercentage(d.benchmark)}</p>
+          <p className="text-gray-300">Difference: {formatPercentage(d.portfolio - d.benchmark)}</p>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-2 mb-2 text-xs">
+        <select
+          value={index}
+          onChange={(e) => onIndexChange(e.target.value)}
+          className="bg-[#0b1220] text-gray-100 border border-white/10 rounded-md px-2 py-1 focus:outline-none focus:border-emerald-600"
+        >
+          {(indices.length ? indices : [{ id: index, name: benchmarkName }]).map((i) => (
+            <option key={i.id} value={i.id}>
+              {i.name}
+            </option>
+          ))}
+        </select>
+        <div className="flex gap-1">
+          {RANGES.map((r) => (
+            <button
+              key={r}
+              onClick={() => onRangeChange(r)}
+              className={`px-2 py-1 rounded-md ${range === r ? 'bg-emerald-600 text-white' : 'text-gray-400 hover:text-white'}`}
+            >
+              {r}
+            </button>
+          ))}
+        </div>
+      </div>
+      {chartData.length < 2 ? (
+        <div className="h-64 flex items-center justify-center text-gray-500 text-sm">
+          {loading ? 'Loading benchmark...' : error || 'No price history for this range yet.'}
+        </div>
+      ) : (
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1f2a44" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={(t) => new Date(t).toLocaleDateString([], { month: 'short', year: '2-digit' })}
+                tick={{ fontSize: 11, fill: '#9aa4b2' }}
+              />
+              <YAxis tick={{ fontSize: 11, fill: '#9aa4b2' }} tickFormatter={(v) => `${v.toFixed(0)}%`} domain={['auto', 'auto']} />
+              <Tooltip content={<CustomTooltip />} />
+              <Legend wrapperStyle={{ fontSize: 12, color: '#9aa4b2' }} />
+              <Line type="monotone" dataKey="portfolio" stroke="#16a34a" dot={false} name="Portfolio (TWR)" />
+              <Line type="monotone" dataKey="benchmark" stroke="#38bdf8" dot={false} name={benchmarkName} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+      {comparison && comparison.warnings.length > 0 && (
+        <p className="text-xs mt-2 text-amber-500" title={comparison.warnings.join('\n')}>
+          {comparison.warnings[0]}
+          {comparison.warnings.length > 1 ? ` (+${comparison.warnings.length - 1} more)` : ''}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default BenchmarkChart;
@@ -0,0 +1,315 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { CapitalGainEntry, CapitalGainsReport as Report, GainTerm } from "@/types/tax";
+import { formatCurrency } from "@/lib/format";
+import { usePortfolios } from "@/hooks/usePortfolios";
+
+const termLabels: Record<GainTerm, string> = { short: "STCG", long: "LTCG", unknown: "Unclassified" };
+
+const inputClass =
+  "w-28 bg-[#0b1220] text-gray-100 placeholder:text-gray-500 border border-white/10 rounded-md px-2 py-1 focus:outline-none focus:border-emerald-600";
+
+const inr = (value: number) => formatCurrency(value, "INR", 0);
+const gainClass = (value: number) => (value >= 0 ? "text-emerald-500" : "text-red-500");
+
+// Pre-Feb-2018 lots are the only ones the 31 Jan 2018 FMV applies to
+const GRANDFATHERING_CUTOFF = "2018-02-01";
+
+const EntryTable: React.FC<{ entries: CapitalGainEntry[]; realized: boolean }> = ({ entries, realized }) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-sm divide-y divide-white/5">
+      <thead>
+        <tr className="text-left text-[11px] uppercase tracking-wider text-gray-400">
+          <th className="py-2">Symbol</th>
+          <th className="py-2 text-right">Qty</th>
+          <th className="py-2">Bought</th>
+          <th className="py-2">{realized ? "Sold" : "Long-term from"}</th>
+          <th className="py-2">Term</th>
+          <th className="py-2 text-right">Cost</th>
+          <th className="py-2 text-right">{realized ? "Proceeds" : "Value"}</th>
+          <th className="py-2 text-right">Gain</th>
+          <th className="py-2 text-right">Rate</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-white/5">
+        {entries.length === 0 && (
+          <tr>
+            <td colSpan={9} className="py-3 text-gray-500">
+              {realized ? "No sales in this period." : "No open lots."}
+            </td>
+          </tr>
+        )}
+        {entries.map((e, i) => (
+          <tr key={`${e.symbol}-${e.buyDate}-${e.sellDate}-${i}`} className="text-gray-300">
+            <td className="py-2 font-medium text-gray-100">{e.symbol}</td>
+            <td className="py-2 text-right">{e.quantity.toLocaleString("en-IN")}</td>
+            <td className="py-2">{e.buyDate || "—"}</td>
+            <td className="py-2">{realized ? e.sellDate : e.term === "short" ? e.longTermFrom : "—"}</td>
+            <td className="py-2">
+              <span className={`badge ${e.term === "unknown" ? "badge-stale" : ""}`}>{termLabels[e.term]}</span>
+            </td>
+            <td className="py-2 text-right" title={e.grandfathered ? `Actual cost ${inr(e.cost)}` : undefined}>
+              {inr(e.taxCost)}
+              {e.grandfathered && <span className="ml-1 text-sky-400">GF</span>}
+            </td>
+            <td className="py-2 text-right">{inr(e.value)}</td>
+            <td className={`py-2 text-right font-medium ${gainClass(e.gain)}`}>{inr(e.gain)}</td>
+            <td className="py-2 text-right">{e.rate === null ? "—" : `${e.rate}%`}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const CapitalGainsReport: React.FC = () => {
+  // One report per portfolio: accounts may belong to different taxpayers, so there is no combined view
+  const { portfolios, selected: portfolioId, select: selectPortfolio } = usePortfolios(false);
+  const [fy, setFy] = useState("");
+  const [years, setYears] = useState<string[]>([]);
+  const [report, setReport] = useState<Report | null>(null);
+  const [fmv, setFmv] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [reportRes, fmvRes] = await Promise.all([
+        fetch(`/api/portfolio/tax?portfolio=${portfolioId}${fy ? `&fy=${fy}` : ""}`, { cache: "no-store" }),
+        fetch("/api/portfolio/tax/fmv", { cache: "no-store" }),
+      ]);
+      if (!reportRes.ok) {
+        setErrors(["Failed to load the capital gains report"]);
+        return;
+      }
+      const data: Report = await reportRes.json();
+      setReport(data);
+      if (!fy) setYears(data.financialYears);
+      if (fmvRes.ok) {
+        const table: Record<string, number> = await fmvRes.json();
+        setFmv(Object.fromEntries(Object.entries(table).map(([s, v]) => [s, String(v)])));
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [fy, portfolioId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const saveFmv = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors([]);
+    const response = await fetch("/api/portfolio/tax/fmv", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(fmv),
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      setErrors(body.details || [body.error || "Failed to save FMV values"]);
+      return;
+    }
+    await load();
+  };
+
+  if (!report) {
+    return <p className="text-sm text-gray-400">{loading ? "Loading capital gains..." : errors[0]}</p>;
+  }
+
+  const grandfatherable = Array.from(
+    new Set(
+      [...report.realized, ...report.unrealized]
+        .filter((e) => e.buyDate && e.buyDate < GRANDFATHERING_CUTOFF)
+        .map((e) => e.symbol)
+    )
+  );
+  const exportQuery = `&portfolio=${portfolioId}${fy ? `&fy=${fy}` : ""}`;
+
+  return (
+    <div className="space-y-8">
+      <div className="card p-4 flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div className="flex flex-wrap items-center gap-4">
+          {portfolios.length > 1 && (
+            <label className="inline-flex items-center gap-2 text-sm text-gray-300">
+              Portfolio
+              <select
+                value={portfolioId}
+                onChange={(e) => {
+                  setFy("");
+                  selectPortfolio(e.target.value);
+                }}
+                className="bg-[#0b1220] text-gray-100 border border-white/10 rounded-md px-2 py-1 focus:outline-none focus:border-emerald-600"
+              >
+                {portfolios.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="inline-flex items-center gap-2 text-sm text-gray-300">
+            Financial year
+            <select
+              value={fy}
+              onChange={(e) => setFy(e.target.value)}
+              className="bg-[#0b1220] text-gray-100 border border-white/10 rounded-md px-2 py-1 focus:outline-none focus:border-emerald-600"
+            >
+              <option value="">All years</option>
+              {years.map((y) => (
+                <option key={y} value={y}>
+                  FY {y}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="flex items-center gap-3">
+          <a
+            href={`/api/portfolio/tax/export?format=csv${exportQuery}`}
+            className="bg-emerald-600 hover:bg-emerald-500 text-white font-medium px-4 py-2 rounded-md text-sm"
+          >
+            Export CSV
+          </a>
+          <a
+            href={`/api/portfolio/tax/export?format=pdf${exportQuery}`}
+            className="bg-emerald-600 hover:bg-emerald-500 text-white font-medium px-4 py-2 rounded-md text-sm"
+          >
+            Export PDF
+          </a>
+        </div>
+      </div>
+
+      {(report.warnings.length > 0 || report.excluded.length > 0) && (
+        <div className="card p-4 border border-amber-500/40 text-sm text-amber-400 space-y-1">
+          {report.warnings.map((w) => (
+            <p key={w}>{w}</p>
+          ))}
+          {report.excluded.length > 0 && (
+            <p className="text-gray-400">
+              Not covered: {report.excluded.map((x) => x.symbol).join(", ")} (only NSE/BSE-listed equity is reported)
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="card p-6">
+        <h3 className="text-lg font-semibold text-gray-100 mb-4">Summary by Financial Year</h3>
+        {report.summaries.length === 0 ? (
+          <p className="text-sm text-gray-500">No realized gains yet. Record sells in a holding&apos;s transaction history.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {report.summaries.map((s) => (
+              <div key={s.financialYear} className="border border-white/5 rounded-xl p-4 text-sm text-gray-300 space-y-1">
+                <p className="font-semibold text-gray-100 mb-2">FY {s.financialYear}</p>
+                <p className="flex justify-between">
+                  <span>Short-term gains / losses</span>
+                  <span>
+                    {inr(s.shortTermGains)} / {inr(-s.shortTermLosses)}
+                  </span>
+                </p>
+                <p className="flex justify-between">
+                  <span>Long-term gains / losses</span>
+                  <span>
+                    {inr(s.longTermGains)} / {inr(-s.longTermLosses)}
+                  </span>
+                </p>
+                {s.lossesBroughtForward.short + s.lossesBroughtForward.long > 0 && (
+                  <p className="flex justify-between">
+                    <span>Losses brought forward</span>
+                    <span>{inr(s.lossesBroughtForward.short + s.lossesBroughtForward.long)}</span>
+                  </p>
+                )}
+                <p className="flex justify-between">
+                  <span>LTCG exemption used</span>
+                  <span>
+                    {inr(s.exemptionUsed)} of {inr(s.exemptionLimit)}
+                  </span>
+                </p>
+                <p className="flex justify-between">
+                  <span>Taxable STCG / LTCG</span>
+                  <span>
+                    {inr(s.taxableShortTerm)} / {inr(s.taxableLongTerm)}
+                  </span>
+                </p>
+                <p className="flex justify-between font-semibold text-gray-100">
+                  <span>Estimated tax (before surcharge and cess)</span>
+                  <span>{inr(s.estimatedTax)}</span>
+                </p>
+                {s.lossesCarriedForward.short + s.lossesCarriedForward.long > 0 && (
+                  <p className="flex justify-between text-amber-400">
+                    <span>Losses carried forward</span>
+                    <span>{inr(s.lossesCarriedForward.short + s.lossesCarriedForward.long)}</span>
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="card p-6">
+        <h3 className="text-lg font-semibold text-gray-100 mb-4">Realized Gains</h3>
+        <EntryTable entries={report.realized} realized />
+      </div>
+
+      <div className="card p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-100">Unrealized Gains</h3>
+          <p className="text-xs text-gray-400 space-x-4">
+            <span>
+              Short-term <strong className={gainClass(report.unrealizedSummary.short)}>{inr(report.unrealizedSummary.short)}</strong>
+            </span>
+            <span>
+              Long-term <strong className={gainClass(report.unrealizedSummary.long)}>{inr(report.unrealizedSummary.long)}</strong>
+            </span>
+          </p>
+        </div>
+        <EntryTable entries={report.unrealized} realized={false} />
+      </div>
+
+      {grandfatherable.length > 0 && (
+        <div className="card p-6">
+          <h3 className="text-lg font-semibold text-gray-100 mb-2">Grandfathering (31 Jan 2018 FMV)</h3>
+          <p className="text-xs text-gray-400 mb-4">
+            Long-term lots bought before 1 Feb 2018 use the higher of actual cost and the lower of this FMV and the sale value.
+            Enter the highest price quoted on 31 Jan 2018.
+          </p>
+          <form onSubmit={saveFmv} className="flex flex-wrap items-end gap-4">
+            {grandfatherable.map((symbol) => (
+              <label key={symbol} className="text-xs text-gray-400 space-y-1">
+                <span className="block">{symbol}</span>
+                <input
+                  type="number"
+                  step="any"
+                  min="0"
+                  placeholder="FMV / share"
+                  value={fmv[symbol] || ""}
+                  onChange={(e) => setFmv({ ...fmv, [symbol]: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+            <button type="submit" className="bg-emerald-600 hover:bg-emerald-500 text-white font-medium px-4 py-2 rounded-md">
+              Save FMV
+            </button>
+          </form>
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-500 list-disc pl-5">
+          {errors.map((err) => (
+            <li key={err}>{err}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CapitalGainsReport;
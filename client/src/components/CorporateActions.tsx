@@ -0,0 +1,232 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { CorporateAction, CorporateActionType } from "@/types/ledger";
+import { describeCorporateAction } from "@/lib/ledger";
+
+interface CorporateActionsProps {
+  portfolioId: string;
+  symbols: string[];
+  onChange?: () => void;
+}
+
+interface ImportResult {
+  added: CorporateAction[];
+  skipped: { symbol: string; type: string; exDate: string; reason: string }[];
+  asOf: string | null;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyForm = { symbol: "", type: "split" as CorporateActionType, exDate: today(), numerator: "", denominator: "", amount: "" };
+
+const inputClass =
+  "w-full bg-[#0b1220] text-gray-100 placeholder:text-gray-500 border border-white/10 rounded-md px-3 py-2 focus:outline-none focus:border-emerald-600 disabled:opacity-50";
+
+const CorporateActions: React.FC<CorporateActionsProps> = ({ portfolioId, symbols, onChange }) => {
+  const [actions, setActions] = useState<CorporateAction[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [imported, setImported] = useState<ImportResult | null>(null);
+
+  const load = useCallback(async () => {
+    const response = await fetch(`/api/portfolio/actions?portfolio=${portfolioId}`, { cache: "no-store" });
+    if (response.ok) setActions(await response.json());
+  }, [portfolioId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const afterMutation = async () => {
+    await load();
+    onChange?.();
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors([]);
+    const response = await fetch(`/api/portfolio/actions?portfolio=${portfolioId}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...form, symbol: form.symbol || symbols[0] }),
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      setErrors(body.details || [body.error || "Failed to record corporate action"]);
+      return;
+    }
+    setForm({ ...emptyForm, symbol: form.symbol, type: form.type });
+    await afterMutation();
+  };
+
+  const remove = async (id: string) => {
+    setErrors([]);
+    const response = await fetch(`/api/portfolio/actions/${id}?portfolio=${portfolioId}`, { method: "DELETE" });
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      setErrors([body.error || "Failed to delete corporate action"]);
+      return;
+    }
+    await afterMutation();
+  };
+
+  const importFeed = async () => {
+    setErrors([]);
+    setImporting(true);
+    try {
+      const response = await fetch(`/api/portfolio/actions/import?portfolio=${portfolioId}`, { method: "POST" });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setErrors([body.error || "Failed to import corporate actions"]);
+        return;
+      }
+      setImported(body);
+      if (body.added.length) await afterMutation();
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const needsRatio = form.type !== "dividend";
+  const needsAmount = form.type === "dividend" || form.type === "rights";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-xs text-gray-400">
+          Splits and bonuses rescale lots from their ex-date; dividends count as income and rights issues as new buys.
+        </p>
+        <button
+          onClick={importFeed}
+          disabled={importing || symbols.length === 0}
+          className="bg-emerald-600 hover:bg-emerald-500 text-white font-medium px-4 py-2 rounded-md disabled:opacity-50"
+        >
+          {importing ? "Importing..." : "Import from feed"}
+        </button>
+      </div>
+
+      {imported && (
+        <div className="text-xs text-gray-300 space-y-1">
+          <p>
+            Added {imported.added.length}, skipped {imported.skipped.length}
+            {imported.asOf ? ` (feed as of ${imported.asOf})` : ""}.
+          </p>
+          {imported.skipped.some((s) => s.reason !== "not held" && s.reason !== "already recorded") && (
+            <ul className="text-amber-500 list-disc pl-5">
+              {imported.skipped
+                .filter((s) => s.reason !== "not held" && s.reason !== "already recorded")
+                .map((s) => (
+                  <li key={`${s.symbol}-${s.type}-${s.exDate}`}>
+                    {s.symbol} {s.type} {s.exDate}: {s.reason}
+                  </li>
+                ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <form onSubmit={submit} className="grid grid-cols-2 md:grid-cols-7 gap-3 items-end">
+        <select value={form.symbol || symbols[0] || ""} onChange={(e) => setForm({ ...form, symbol: e.target.value })} className={inputClass}>
+          {symbols.map((s) => (
+            <option key={s} value={s}>
+              {s}
+            </option>
+          ))}
+        </select>
+        <select
+          value={form.type}
+          onChange={(e) => setForm({ ...form, type: e.target.value as CorporateActionType })}
+          className={inputClass}
+        >
+          <option value="split">Split</option>
+          <option value="bonus">Bonus</option>
+          <option value="rights">Rights</option>
+          <option value="dividend">Dividend</option>
+        </select>
+        <input type="date" value={form.exDate} onChange={(e) => setForm({ ...form, exDate: e.target.value })} className={inputClass} />
+        <input
+          type="number"
+          step="any"
+          placeholder="New"
+          disabled={!needsRatio}
+          value={needsRatio ? form.numerator : ""}
+          onChange={(e) => setForm({ ...form, numerator: e.target.value })}
+          className={inputClass}
+        />
+        <input
+          type="number"
+          step="any"
+          placeholder="Old"
+          disabled={!needsRatio}
+          value={needsRatio ? form.denominator : ""}
+          onChange={(e) => setForm({ ...form, denominator: e.target.value })}
+          className={inputClass}
+        />
+        <input
+          type="number"
+          step="any"
+          placeholder={form.type === "rights" ? "Issue price" : "Per share"}
+          disabled={!needsAmount}
+          value={needsAmount ? form.amount : ""}
+          onChange={(e) => setForm({ ...form, amount: e.target.value })}
+          className={inputClass}
+        />
+        <button
+          type="submit"
+          disabled={symbols.length === 0}
+          className="bg-emerald-600 hover:bg-emerald-500 text-white font-medium px-4 py-2 rounded-md disabled:opacity-50"
+        >
+          Record
+        </button>
+      </form>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-500 list-disc pl-5">
+          {errors.map((err) => (
+            <li key={err}>{err}</li>
+          ))}
+        </ul>
+      )}
+
+      <table className="w-full text-sm divide-y divide-white/5">
+        <thead>
+          <tr className="text-left text-[11px] uppercase tracking-wider text-gray-400">
+            <th className="py-2">Symbol</th>
+            <th className="py-2">Ex-date</th>
+            <th className="py-2">Action</th>
+            <th className="py-2">Source</th>
+            <th className="py-2"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-white/5">
+          {actions.length === 0 && (
+            <tr>
+              <td colSpan={5} className="py-3 text-gray-500">
+                No corporate actions recorded.
+              </td>
+            </tr>
+          )}
+          {actions.map((a) => (
+            <tr key={a.id} className="text-gray-300">
+              <td className="py-2 font-medium text-gray-100">{a.symbol}</td>
+              <td className="py-2">{a.exDate}</td>
+              <td className="py-2">{describeCorporateAction(a)}</td>
+              <td className="py-2">
+                <span className="badge">{a.source}</span>
+              </td>
+              <td className="py-2 text-right">
+                <button onClick={() => remove(a.id)} className="text-red-500 hover:text-red-400">
+                  Delete
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default CorporateActions;
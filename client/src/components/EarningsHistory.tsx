@@ -0,0 +1,90 @@
+'use client';
+
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { EarningsQuarter } from '@/types/stockDetail';
+import { formatCompactCurrency, formatCurrency } from '@/lib/format';
+
+interface EarningsHistoryProps {
+  quarters: EarningsQuarter[]; // oldest first
+  currency: string;
+}
+
+const percent = (n: number | null) =>
+  n === null ? (
+    <span className="text-gray-500">—</span>
+  ) : (
+    <span className={n >= 0 ? 'text-emerald-500' : 'text-red-500'}>
+      {n >= 0 ? '+' : ''}
+      {n.toFixed(1)}%
+    </span>
+  );
+
+// Change against a base that may be missing or not positive (a loss-making quarter)
+const growth = (value: number | null, base: number | null | undefined) =>
+  value === null || base === null || base === undefined || base <= 0 ? null : (value / base - 1) * 100;
+
+const EarningsHistory: React.FC<EarningsHistoryProps> = ({ quarters, currency }) => {
+  if (quarters.length === 0) {
+    return <p className="text-sm text-gray-400">No earnings history available.</p>;
+  }
+
+  const chartData = quarters.map((q) => ({ period: q.period, eps: q.eps, estimate: q.epsEstimate }));
+
+  return (
+    <div className="space-y-4">
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1f2a44" />
+            <XAxis dataKey="period" tick={{ fontSize: 11, fill: '#9aa4b2' }} />
+            <YAxis tick={{ fontSize: 11, fill: '#9aa4b2' }} tickFormatter={(v) => formatCurrency(v, currency)} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#0e1628', border: '1px solid rgba(255,255,255,0.1)', borderRadius: 8 }}
+              labelStyle={{ color: '#9aa4b2' }}
+              formatter={(v) => formatCurrency(Number(v), currency)}
+            />
+            <Legend wrapperStyle={{ fontSize: 11 }} />
+            <Bar dataKey="estimate" fill="#475569" radius={[4, 4, 0, 0]} name="EPS estimate" />
+            <Bar dataKey="eps" fill="#16a34a" radius={[4, 4, 0, 0]} name="EPS reported" />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm divide-y divide-white/5">
+          <thead>
+            <tr className="text-left text-[11px] uppercase tracking-wider text-gray-400">
+              <th className="py-2">Quarter</th>
+              <th className="py-2">Reported</th>
+              <th className="py-2 text-right">EPS</th>
+              <th className="py-2 text-right">Estimate</th>
+              <th className="py-2 text-right">Surprise</th>
+              <th className="py-2 text-right">Revenue</th>
+              <th className="py-2 text-right">Revenue YoY</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5">
+            {[...quarters].reverse().map((q) => {
+              const i = quarters.indexOf(q);
+              const surprise =
+                q.eps === null || !q.epsEstimate ? null : ((q.eps - q.epsEstimate) / Math.abs(q.epsEstimate)) * 100;
+              return (
+                <tr key={q.period} className="text-gray-300">
+                  <td className="py-2">{q.period}</td>
+                  <td className="py-2">{q.date ? new Date(q.date).toLocaleDateString() : '—'}</td>
+                  <td className="py-2 text-right text-gray-100">{q.eps === null ? '—' : formatCurrency(q.eps, currency)}</td>
+                  <td className="py-2 text-right">{q.epsEstimate === null ? '—' : formatCurrency(q.epsEstimate, currency)}</td>
+                  <td className="py-2 text-right">{percent(surprise)}</td>
+                  <td className="py-2 text-right">{q.revenue === null ? '—' : formatCompactCurrency(q.revenue, currency)}</td>
+                  <td className="py-2 text-right">{percent(i >= 4 ? growth(q.revenue, quarters[i - 4].revenue) : null)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default EarningsHistory;
@@ -0,0 +1,184 @@
+"use client";
+
+import { useState } from "react";
+import { ColumnMapping, ImportField, ImportMode, ImportResponse } from "@/types/import";
+
+interface HoldingsImportProps {
+  portfolioId: string;
+  onImported?: () => void;
+}
+
+const fieldLabels: { key: ImportField; label: string; required: boolean }[] = [
+  { key: "symbol", label: "Symbol", required: true },
+  { key: "companyName", label: "Company", required: false },
+  { key: "purchasePrice", label: "Purchase Price", required: true },
+  { key: "shares", label: "Qty", required: true },
+  { key: "exchange", label: "Exchange", required: true },
+  { key: "sector", label: "Sector", required: false },
+  { key: "currency", label: "Currency", required: false },
+  { key: "purchaseDate", label: "Purchase Date", required: false },
+];
+
+const selectClass =
+  "w-full bg-[#0b1220] text-gray-100 border border-white/10 rounded-md px-2 py-2 focus:outline-none focus:border-emerald-600";
+
+const statusClass: Record<string, string> = {
+  new: "text-emerald-500",
+  update: "text-sky-400",
+  error: "text-red-500",
+};
+
+const HoldingsImport: React.FC<HoldingsImportProps> = ({ portfolioId, onImported }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [report, setReport] = useState<ImportResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const send = async (
+    target: File,
+    opts: { dryRun: boolean; mapping: ColumnMapping | null; mode: ImportMode }
+  ) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const body = new FormData();
+      body.append("file", target);
+      body.append("mode", opts.mode);
+      body.append("dryRun", String(opts.dryRun));
+      if (opts.mapping) body.append("mapping", JSON.stringify(opts.mapping));
+      const response = await fetch(`/api/portfolio/import?portfolio=${portfolioId}`, { method: "POST", body });
+      const data = await response.json();
+      if (!response.ok && !data.rows) {
+        setError(data.error || "Import failed");
+        return;
+      }
+      setReport(data);
+      setMapping(data.mapping);
+      if (data.applied) onImported?.();
+      else if (data.error) setError(data.details ? `${data.error}: ${data.details.join("; ")}` : data.error);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onFile = (next: File | null) => {
+    setFile(next);
+    setReport(null);
+    setMapping(null);
+    if (next) send(next, { dryRun: true, mapping: null, mode });
+  };
+
+  const onMappingChange = (field: ImportField, header: string) => {
+    const next = { ...mapping, [field]: header || undefined };
+    setMapping(next);
+    if (file) send(file, { dryRun: true, mapping: next, mode });
+  };
+
+  const canImport = !!report && !report.applied && report.summary.invalid === 0 && report.summary.valid > 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center">
+        <input
+          type="file"
+          accept=".csv,.xlsx,.xls"
+          onChange={(e) => onFile(e.target.files?.[0] || null)}
+          className="text-sm text-gray-300 file:mr-3 file:rounded-md file:border-0 file:bg-[#111a2e] file:px-3 file:py-2 file:text-gray-100"
+        />
+        <label className="inline-flex items-center gap-2 text-sm text-gray-300">
+          Mode
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as ImportMode)}
+            className={selectClass}
+          >
+            <option value="merge">Merge into portfolio</option>
+            <option value="replace">Replace portfolio</option>
+          </select>
+        </label>
+        <button
+          disabled={!canImport || busy}
+          onClick={() => file && send(file, { dryRun: false, mapping, mode })}
+          className="bg-emerald-600 hover:bg-emerald-500 text-white font-medium px-4 py-2 rounded-md disabled:opacity-50"
+        >
+          {report ? `Import ${report.summary.valid} rows` : "Import"}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {report && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-8 gap-3">
+            {fieldLabels.map(({ key, label, required }) => (
+              <label key={key} className="text-xs text-gray-400 space-y-1">
+                <span>
+                  {label}
+                  {required ? " *" : ""}
+                </span>
+                <select
+                  value={mapping?.[key] || ""}
+                  onChange={(e) => onMappingChange(key, e.target.value)}
+                  className={selectClass}
+                >
+                  <option value="">— not mapped —</option>
+                  {report.headers.map((h) => (
+                    <option key={h} value={h}>
+                      {h}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <p className="text-sm text-gray-300">
+            {report.applied ? "Imported" : "Preview"}: {report.summary.total} rows ·{" "}
+            <span className="text-emerald-500">{report.summary.new} new</span> ·{" "}
+            <span className="text-sky-400">{report.summary.updated} updates</span> ·{" "}
+            <span className="text-red-500">{report.summary.invalid} errors</span>
+            {mode === "replace" && !report.applied && " · existing holdings not in the file will be removed"}
+          </p>
+
+          <div className="max-h-80 overflow-y-auto">
+            <table className="w-full text-sm divide-y divide-white/5">
+              <thead>
+                <tr className="text-left text-[11px] uppercase tracking-wider text-gray-400">
+                  <th className="py-2">Row</th>
+                  <th className="py-2">Status</th>
+                  <th className="py-2">Symbol</th>
+                  <th className="py-2">Company</th>
+                  <th className="py-2">Qty</th>
+                  <th className="py-2">Purchase Price</th>
+                  <th className="py-2">Issues</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {report.rows.map((r) => (
+                  <tr key={r.row} className="text-gray-300">
+                    <td className="py-2">{r.row}</td>
+                    <td className={`py-2 font-medium ${statusClass[r.status]}`}>{r.status}</td>
+                    <td className="py-2">{r.symbol || "—"}</td>
+                    <td className="py-2">{r.holding?.companyName || "—"}</td>
+                    <td className="py-2">{r.holding?.shares ?? "—"}</td>
+                    <td className="py-2">{r.holding?.purchasePrice ?? "—"}</td>
+                    <td className="py-2">
+                      <span className="text-red-500">{r.errors.join("; ")}</span>
+                      {r.warnings.length > 0 && <span className="text-amber-500">{r.warnings.join("; ")}</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HoldingsImport;
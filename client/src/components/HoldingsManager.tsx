@@ -0,0 +1,239 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Holding } from "@/types/stock";
+import { Instrument } from "@/types/instrument";
+import SymbolSearch from "@/components/SymbolSearch";
+
+interface HoldingsManagerProps {
+  portfolioId: string;
+  onChange?: () => void;
+  version?: number; // bump to reload after external changes (e.g. an import)
+}
+
+type FormState = Record<keyof Holding, string>;
+
+const emptyForm: FormState = {
+  symbol: "",
+  companyName: "",
+  sector: "",
+  purchasePrice: "",
+  shares: "",
+  exchange: "NASDAQ",
+  currency: "",
+  purchaseDate: "",
+};
+
+const fields: { key: keyof Holding; label: string; type?: string }[] = [
+  { key: "symbol", label: "Symbol" },
+  { key: "companyName", label: "Company" },
+  { key: "sector", label: "Sector" },
+  { key: "exchange", label: "Exchange" },
+  { key: "currency", label: "Currency (auto)" },
+  { key: "purchasePrice", label: "Purchase Price", type: "number" },
+  { key: "shares", label: "Qty", type: "number" },
+  { key: "purchaseDate", label: "Purchase Date", type: "date" },
+];
+
+const inputClass =
+  "w-full bg-[#0b1220] text-gray-100 placeholder:text-gray-500 border border-white/10 rounded-md px-3 py-2 focus:outline-none focus:border-emerald-600 disabled:opacity-50";
+
+const toForm = (h: Holding): FormState => ({
+  symbol: h.symbol,
+  companyName: h.companyName,
+  sector: h.sector,
+  purchasePrice: String(h.purchasePrice),
+  shares: String(h.shares),
+  exchange: h.exchange,
+  currency: h.currency,
+  purchaseDate: h.purchaseDate || "",
+});
+
+const HoldingsManager: React.FC<HoldingsManagerProps> = ({ portfolioId, onChange, version = 0 }) => {
+  const [holdings, setHoldings] = useState<Holding[]>([]);
+  const [form, setForm] = useState<FormState>(emptyForm);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const loadHoldings = useCallback(async () => {
+    const response = await fetch(`/api/portfolio/holdings?portfolio=${portfolioId}`, { cache: "no-store" });
+    if (response.ok) setHoldings(await response.json());
+  }, [portfolioId]);
+
+  useEffect(() => {
+    loadHoldings();
+  }, [loadHoldings, version]);
+
+  // An edit in progress belongs to the portfolio it was started in
+  useEffect(() => {
+    setForm(emptyForm);
+    setEditing(null);
+    setErrors([]);
+  }, [portfolioId]);
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditing(null);
+    setErrors([]);
+  };
+
+  const fillFrom = (instrument: Instrument) =>
+    setForm({
+      ...form,
+      symbol: instrument.symbol,
+      exchange: instrument.exchange,
+      companyName: instrument.name,
+      sector: instrument.sector,
+      currency: instrument.currency,
+    });
+
+  const afterMutation = async () => {
+    await loadHoldings();
+    onChange?.();
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setErrors([]);
+    try {
+      const url = editing
+        ? `/api/portfolio/holdings/${encodeURIComponent(editing)}?portfolio=${portfolioId}`
+        : `/api/portfolio/holdings?portfolio=${portfolioId}`;
+      const response = await fetch(url, {
+        method: editing ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        setErrors(body.details || [body.error || "Failed to save holding"]);
+        return;
+      }
+      resetForm();
+      await afterMutation();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (symbol: string) => {
+    if (!window.confirm(`Remove ${symbol} from the portfolio?`)) return;
+    const response = await fetch(
+      `/api/portfolio/holdings/${encodeURIComponent(symbol)}?portfolio=${portfolioId}`,
+      { method: "DELETE" }
+    );
+    if (!response.ok) {
+      setErrors([`Failed to remove ${symbol}`]);
+      return;
+    }
+    if (editing === symbol) resetForm();
+    await afterMutation();
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={submit} className="grid grid-cols-2 md:grid-cols-8 gap-3">
+        {fields.map(({ key, label, type }) => (
+          <label key={key} className="text-xs text-gray-400 space-y-1">
+            <span>{label}</span>
+            {key === "symbol" ? (
+              <SymbolSearch
+                value={form.symbol}
+                disabled={editing !== null}
+                onChange={(symbol) => setForm({ ...form, symbol })}
+                onSelect={fillFrom}
+                className={inputClass}
+              />
+            ) : (
+              <input
+                type={type || "text"}
+                step={type === "number" ? "any" : undefined}
+                value={form[key]}
+                onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                className={inputClass}
+              />
+            )}
+          </label>
+        ))}
+        <div className="col-span-2 md:col-span-8 flex items-center gap-2">
+          <button
+            type="submit"
+            disabled={saving}
+            className="bg-emerald-600 hover:bg-emerald-500 text-white font-medium px-4 py-2 rounded-md disabled:opacity-50"
+          >
+            {editing ? `Update ${editing}` : "Add Holding"}
+          </button>
+          {editing && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="text-sm text-gray-300 hover:text-white px-3 py-2"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-500 list-disc pl-5">
+          {errors.map((err) => (
+            <li key={err}>{err}</li>
+          ))}
+        </ul>
+      )}
+
+      <table className="w-full text-sm divide-y divide-white/5">
+        <thead>
+          <tr className="text-left text-[11px] uppercase tracking-wider text-gray-400">
+            <th className="py-2">Symbol</th>
+            <th className="py-2">Company</th>
+            <th className="py-2">Sector</th>
+            <th className="py-2">Exchange</th>
+            <th className="py-2">Currency</th>
+            <th className="py-2">Purchase Price</th>
+            <th className="py-2">Qty</th>
+            <th className="py-2">Purchase Date</th>
+            <th className="py-2"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-white/5">
+          {holdings.map((h) => (
+            <tr key={h.symbol} className="text-gray-300">
+              <td className="py-2 font-medium text-gray-100">{h.symbol}</td>
+              <td className="py-2">{h.companyName}</td>
+              <td className="py-2">{h.sector}</td>
+              <td className="py-2">{h.exchange}</td>
+              <td className="py-2">{h.currency}</td>
+              <td className="py-2">{h.purchasePrice}</td>
+              <td className="py-2">{h.shares}</td>
+              <td className="py-2">{h.purchaseDate || "—"}</td>
+              <td className="py-2 text-right space-x-3">
+                <button
+                  onClick={() => {
+                    setEditing(h.symbol);
+                    setForm(toForm(h));
+                    setErrors([]);
+                  }}
+                  className="text-emerald-500 hover:text-emerald-400"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => remove(h.symbol)}
+                  className="text-red-500 hover:text-red-400"
+                >
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default HoldingsManager;
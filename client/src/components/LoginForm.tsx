@@ -0,0 +1,118 @@
+"use client";
+
+import { useState } from "react";
+
+interface LoginFormProps {
+  next: string; // same-site path to go to once signed in
+  signupOpen: boolean;
+  oidcName: string | null; // provider label when OIDC sign-in is configured
+  initialError: string | null;
+}
+
+const inputClass =
+  "w-full bg-[#0b1220] text-gray-100 placeholder:text-gray-500 border border-white/10 rounded-md px-3 py-2 focus:outline-none focus:border-emerald-600";
+
+const LoginForm: React.FC<LoginFormProps> = ({ next, signupOpen, oidcName, initialError }) => {
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [form, setForm] = useState({ username: "", name: "", password: "" });
+  const [errors, setErrors] = useState<string[]>(initialError ? [initialError] : []);
+  const [saving, setSaving] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setErrors([]);
+    try {
+      const response = await fetch(`/api/auth/${mode}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(mode === "login" ? { username: form.username, password: form.password } : form),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        setErrors(body.details || [body.error || "Sign-in failed"]);
+        return;
+      }
+      // A full load so every page and the header pick up the new session
+      window.location.assign(next);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="card p-6 space-y-4">
+      <form onSubmit={submit} className="space-y-3">
+        <label className="block text-xs text-gray-400 space-y-1">
+          <span>Username</span>
+          <input
+            value={form.username}
+            onChange={(e) => setForm({ ...form, username: e.target.value })}
+            autoComplete="username"
+            className={inputClass}
+          />
+        </label>
+        {mode === "register" && (
+          <label className="block text-xs text-gray-400 space-y-1">
+            <span>Display name (optional)</span>
+            <input
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              autoComplete="name"
+              className={inputClass}
+            />
+          </label>
+        )}
+        <label className="block text-xs text-gray-400 space-y-1">
+          <span>Password</span>
+          <input
+            type="password"
+            value={form.password}
+            onChange={(e) => setForm({ ...form, password: e.target.value })}
+            autoComplete={mode === "login" ? "current-password" : "new-password"}
+            className={inputClass}
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={saving}
+          className="w-full bg-emerald-600 hover:bg-emerald-500 text-white font-medium px-4 py-2 rounded-md disabled:opacity-50"
+        >
+          {mode === "login" ? "Sign in" : "Create account"}
+        </button>
+      </form>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-500 list-disc pl-5">
+          {errors.map((err) => (
+            <li key={err}>{err}</li>
+          ))}
+        </ul>
+      )}
+
+      {oidcName && (
+        <a
+          href={`/api/auth/oidc/login?next=${encodeURIComponent(next)}`}
+          className="block text-center border border-white/10 hover:bg-white/5 text-gray-100 px-4 py-2 rounded-md text-sm"
+        >
+          Continue with {oidcName}
+        </a>
+      )}
+
+      {signupOpen && (
+        <button
+          type="button"
+          onClick={() => {
+            setMode(mode === "login" ? "register" : "login");
+            setErrors([]);
+          }}
+          className="w-full text-sm text-gray-400 hover:text-white"
+        >
+          {mode === "login" ? "New here? Create an account" : "Have an account? Sign in"}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default LoginForm;
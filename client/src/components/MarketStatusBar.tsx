@@ -0,0 +1,53 @@
+"use client";
+
+import { MarketState, MarketStatus } from "@/types/market";
+
+interface MarketStatusBarProps {
+  markets: MarketStatus[];
+}
+
+const STATES: Record<MarketState, { label: string; dot: string }> = {
+  open: { label: "Open", dot: "bg-emerald-500" },
+  "pre-open": { label: "Pre-open", dot: "bg-amber-500" },
+  closed: { label: "Closed", dot: "bg-gray-500" },
+};
+
+// Session times read in the market's own zone, e.g. "Wed 09:15 IST"
+const marketTime = (iso: string, timeZone: string, withDay: boolean) =>
+  new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: withDay ? "short" : undefined,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+    timeZoneName: "short",
+  }).format(new Date(iso));
+
+function describe(m: MarketStatus) {
+  if (m.state === "open" && m.closesAt) return `closes ${marketTime(m.closesAt, m.timeZone, false)}`;
+  if (m.state === "pre-open" && m.opensAt) return `opens ${marketTime(m.opensAt, m.timeZone, false)}`;
+  const reason = m.holiday || (m.weekend ? "Weekend" : null);
+  const opens = m.opensAt ? `opens ${marketTime(m.opensAt, m.timeZone, true)}` : null;
+  return [reason, opens].filter(Boolean).join(" · ");
+}
+
+const MarketStatusBar: React.FC<MarketStatusBarProps> = ({ markets }) => {
+  if (markets.length === 0) return null;
+  return (
+    <div className="flex flex-wrap justify-center gap-3 text-xs text-gray-400">
+      {markets.map((m) => {
+        const detail = describe(m);
+        return (
+          <span key={m.market} className="inline-flex items-center gap-2 bg-[#0e1628] rounded-full px-3 py-1">
+            <span className={`h-2 w-2 rounded-full ${STATES[m.state].dot}`} />
+            <span className="font-medium text-gray-200">{m.name}</span>
+            <span>{STATES[m.state].label}</span>
+            {detail && <span className="text-gray-500">{detail}</span>}
+          </span>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MarketStatusBar;
@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { HistoryRange, HistoryResponse } from '@/types/history';
+import { formatCompactCurrency, formatCurrency } from '@/lib/format';
+
+interface PortfolioHistoryChartProps {
+  portfolioId: string;
+  baseCurrency: string;
+  refreshToken?: number; // changes after each dashboard refresh so new snapshots show up
+}
+
+const RANGES: HistoryRange[] = ['1D', '1W', '1M', '1Y', 'ALL'];
+
+const PortfolioHistoryChart: React.FC<PortfolioHistoryChartProps> = ({ portfolioId, baseCurrency, refreshToken = 0 }) => {
+  const [range, setRange] = useState<HistoryRange>('1D');
+  const [history, setHistory] = useState<HistoryResponse | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/portfolio/history?range=${range}&base=${baseCurrency}&portfolio=${portfolioId}`, { cache: 'no-store' })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled && data) setHistory(data);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [range, baseCurrency, portfolioId, refreshToken]);
+
+  const chartData = useMemo(
+    () =>
+      (history?.snapshots || []).map((s) => ({
+        time: Date.parse(s.timestamp),
+        value: s.totalValue,
+        invested: s.investment,
+      })),
+    [history]
+  );
+
+  const formatTick = (t: number) =>
+    range === '1D'
+      ? new Date(t).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+      : new Date(t).toLocaleDateString([], { day: 'numeric', month: 'short' });
+
+  const CustomTooltip = ({ active, payload }: {
+    active?: boolean;
+    payload?: Array<{ payload: { time: number; value: number; invested: number } }>;
+  }) => {
+    if (active && payload && payload.length) {
+      const d = payload[0].payload;
+      const gain = d.value - d.invested;
+      return (
+        <div className="bg-[#0e1628] text-gray-100 p-3 border border-white/10 rounded-lg shadow-lg">
+          <p className="text-xs text-gray-400">{new Date(d.time).toLocaleString()}</p>
+          <p className="text-gray-300">Value: {formatCurrency(d.value, baseCurrency, 0)}</p>
+          <p className="text-gray-300">Invested: {formatCurrency(d.invested, baseCurrency, 0)}</p>
+          <p className={`${gain >= 0 ? 'text-emerald-500' : 'text-red-500'} font-semibold`}>
+            P/L: {formatCurrency(gain, baseCurrency, 0)}
+          </p>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div>
+      <div className="flex justify-end gap-1 mb-2 text-xs">
+        {RANGES.map((r) => (
+          <button
+            key={r}
+            onClick={() => setRange(r)}
+            className={`px-2 py-1 rounded-md ${range === r ? 'bg-emerald-600 text-white' : 'text-gray-400 hover:text-white'}`}
+          >
+            {r}
+          </button>
+        ))}
+      </div>
+      {chartData.length < 2 ? (
+        <div className="h-64 flex items-center justify-center text-gray-500 text-sm">
+          Not enough history yet; snapshots are recorded as prices change.
+        </div>
+      ) : (
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+              <defs>
+                <linearGradient id="historyValue" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#16a34a" stopOpacity={0.4} />
+                  <stop offset="95%" stopColor="#16a34a" stopOpacity={0} />
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1f2a44" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={formatTick}
+                tick={{ fontSize: 11, fill: '#9aa4b2' }}
+              />
+              <YAxis
+                tick={{ fontSize: 11, fill: '#9aa4b2' }}
+                tickFormatter={(v) => formatCompactCurrency(v, baseCurrency)}
+                domain={['auto', 'auto']}
+              />
+              <Tooltip content={<CustomTooltip />} />
+              <Area type="monotone" dataKey="value" stroke="#16a34a" fill="url(#historyValue)" name="Total Value" />
+              <Line type="stepAfter" dataKey="invested" stroke="#9aa4b2" strokeDasharray="4 4" dot={false} name="Invested" />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PortfolioHistoryChart;
@@ -1,76 +1,149 @@
 'use client';
 
 import { useMemo } from 'react';
-import { StockData, PortfolioSummary as PortfolioSummaryType } from '@/types/stock';
+import { StockData } from '@/types/stock';
+import { formatCurrency as formatAmount } from '@/lib/format';
+import { portfolioReturns } from '@/lib/returns';
+import { summarizePortfolio } from '@/lib/portfolioView';
+import { BenchmarkComparison } from '@/types/benchmark';
 
 interface PortfolioSummaryProps {
   data: StockData[];
+  baseCurrency: string;
+  benchmark?: BenchmarkComparison | null;
+  compact?: boolean; // two cards a row, for showing a scenario beside the current state
 }
 
-const PortfolioSummary: React.FC<PortfolioSummaryProps> = ({ data }) => {
-  const summary = useMemo<PortfolioSummaryType>(() => {
-    if (data.length === 0) {
-      return {
-        totalValue: 0,
-        totalChange: 0,
-        totalChangePercent: 0,
-        totalGainLoss: 0,
-        numberOfStocks: 0,
-      };
-    }
-
-    const totalValue = data.reduce((sum, stock) => sum + stock.presentValue, 0);
-    const totalChange = data.reduce((sum, stock) => sum + (stock.change * stock.shares), 0);
-    const totalChangePercent = totalValue > 0 ? (totalChange / (totalValue - totalChange)) * 100 : 0;
-    const totalGainLoss = data.reduce((s, x) => s + x.gainLoss, 0);
-
-    return {
-      totalValue,
-      totalChange,
-      totalChangePercent,
-      totalGainLoss,
-      numberOfStocks: data.length,
-    };
-  }, [data]);
-
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: 'INR',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value);
-  };
+const PortfolioSummary: React.FC<PortfolioSummaryProps> = ({ data, baseCurrency, benchmark, compact }) => {
+  const summary = useMemo(() => summarizePortfolio(data), [data]);
+
+  const returns = useMemo(() => portfolioReturns(data), [data]);
+
+  const formatCurrency = (value: number) => formatAmount(value, baseCurrency, 0);
 
   const formatPercentage = (value: number) => {
     return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
   };
 
+  const gridClass = compact ? 'grid grid-cols-2 gap-4 mb-6' : 'grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8';
+
   const gainClass = summary.totalGainLoss >= 0 ? 'text-emerald-500' : 'text-red-500';
 
+  const stale = data.filter((d) => d.meta.status === 'stale');
+  const failed = data.filter((d) => d.meta.status === 'failed');
+  const synthetic = data.some((d) => d.meta.status === 'synthetic');
+  const symbols = (rows: StockData[]) => rows.map((r) => r.symbol).join(', ');
+  const signClass = (value: number | null) => (value === null ? 'text-gray-400' : value >= 0 ? 'text-emerald-500' : 'text-red-500');
+  const undatedNote = returns.undated.length > 0 && (
+    <p className="text-xs mt-1 text-gray-500" title={returns.undated.join(', ')}>
+      Excludes {returns.undated.length} undated holding{returns.undated.length > 1 ? 's' : ''}
+    </p>
+  );
+
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-      <div className="card p-6">
-        <p className="text-xs font-medium text-gray-400">Total Value</p>
-        <p className="text-2xl font-semibold text-gray-100 mt-1">{formatCurrency(summary.totalValue)}</p>
-      </div>
+    <>
+      {(stale.length > 0 || failed.length > 0) && (
+        <div className="card p-4 mb-6 border border-amber-500/40 text-sm text-amber-400">
+          <p className="font-semibold">Partial data: totals include holdings that could not be refreshed.</p>
+          {stale.length > 0 && <p className="mt-1 text-gray-300">Last known price: {symbols(stale)}</p>}
+          {failed.length > 0 && <p className="mt-1 text-gray-300">No price available, valued at cost: {symbols(failed)}</p>}
+        </div>
+      )}
+      {synthetic && (
+        <div className="card p-4 mb-6 text-sm text-gray-400">
+          No market data backend is configured; prices are simulated from purchase prices.
+        </div>
+      )}
+      <div className={gridClass}>
+        <div className="card p-6">
+          <p className="text-xs font-medium text-gray-400">Total Value</p>
+          <p className="text-2xl font-semibold text-gray-100 mt-1">{formatCurrency(summary.totalValue)}</p>
+        </div>
 
-      <div className="card p-6">
-        <p className="text-xs font-medium text-gray-400">Today&apos;s Change</p>
-        <p className={`text-2xl font-semibold mt-1 ${summary.totalChange >= 0 ? 'text-emerald-500' : 'text-red-500'}`}>{formatCurrency(summary.totalChange)}</p>
-        <p className={`text-xs mt-1 ${summary.totalChangePercent >= 0 ? 'text-emerald-500' : 'text-red-500'}`}>{formatPercentage(summary.totalChangePercent)}</p>
-      </div>
+        <div className="card p-6">
+          <p className="text-xs font-medium text-gray-400">Today&apos;s Change</p>
+          <p className={`text-2xl font-semibold mt-1 ${summary.totalChange >= 0 ? 'text-emerald-500' : 'text-red-500'}`}>{formatCurrency(summary.totalChange)}</p>
+          <p className={`text-xs mt-1 ${summary.totalChangePercent >= 0 ? 'text-emerald-500' : 'text-red-500'}`}>{formatPercentage(summary.totalChangePercent)}</p>
+        </div>
+
+        <div className="card p-6">
+          <p className="text-xs font-medium text-gray-400">Total Gain/Loss</p>
+          <p className={`text-2xl font-semibold mt-1 ${gainClass}`}>{formatCurrency(summary.totalGainLoss)}</p>
+        </div>
 
-      <div className="card p-6">
-        <p className="text-xs font-medium text-gray-400">Total Gain/Loss</p>
-        <p className={`text-2xl font-semibold mt-1 ${gainClass}`}>{formatCurrency(summary.totalGainLoss)}</p>
+        <div className="card p-6">
+          <p className="text-xs font-medium text-gray-400">Stocks</p>
+          <p className="text-2xl font-semibold text-gray-100 mt-1">{summary.numberOfStocks}</p>
+          {stale.length + failed.length > 0 && (
+            <p className="text-xs mt-1 text-amber-500">
+              {stale.length + failed.length} not refreshed
+            </p>
+          )}
+        </div>
       </div>
+      <div className={gridClass}>
+        <div className="card p-6">
+          <p className="text-xs font-medium text-gray-400">Absolute Return</p>
+          <p className={`text-2xl font-semibold mt-1 ${signClass(returns.absoluteReturnPercent)}`}>{formatPercentage(returns.absoluteReturnPercent)}</p>
+          <p className="text-xs mt-1 text-gray-500">Including realized gains and dividends</p>
+        </div>
+
+        <div className="card p-6">
+          <p className="text-xs font-medium text-gray-400">CAGR</p>
+          <p className={`text-2xl font-semibold mt-1 ${signClass(returns.cagr)}`}>{returns.cagr === null ? '—' : formatPercentage(returns.cagr)}</p>
+          {returns.holdingDays !== null && <p className="text-xs mt-1 text-gray-500">Over {(returns.holdingDays / 365).toFixed(1)} years (cost-weighted)</p>}
+          {undatedNote}
+        </div>
+
+        <div className="card p-6">
+          <p className="text-xs font-medium text-gray-400">XIRR</p>
+          <p className={`text-2xl font-semibold mt-1 ${signClass(returns.xirr)}`}>{returns.xirr === null ? '—' : formatPercentage(returns.xirr)}</p>
+          <p className="text-xs mt-1 text-gray-500">Annualized, timed by each buy, sell and dividend</p>
+          {undatedNote}
+        </div>
 
-      <div className="card p-6">
-        <p className="text-xs font-medium text-gray-400">Stocks</p>
-        <p className="text-2xl font-semibold text-gray-100 mt-1">{summary.numberOfStocks}</p>
+        <div className="card p-6">
+          <p className="text-xs font-medium text-gray-400">Dividend Income</p>
+          <p className="text-2xl font-semibold text-gray-100 mt-1">{formatCurrency(summary.totalDividendIncome)}</p>
+          <p className="text-xs mt-1 text-gray-500">
+            Total return {formatCurrency(summary.totalGainLoss + data.reduce((s, x) => s + x.realizedGainLoss, 0) + summary.totalDividendIncome)}
+          </p>
+        </div>
       </div>
-    </div>
+      {benchmark && (
+        <div className={gridClass}>
+          <div className="card p-6">
+            <p className="text-xs font-medium text-gray-400">Time-Weighted Return ({benchmark.range})</p>
+            <p className={`text-2xl font-semibold mt-1 ${signClass(benchmark.portfolioReturn)}`}>
+              {benchmark.portfolioReturn === null ? '—' : formatPercentage(benchmark.portfolioReturn)}
+            </p>
+            <p className="text-xs mt-1 text-gray-500">
+              {benchmark.benchmark.name} {benchmark.benchmarkReturn === null ? '—' : formatPercentage(benchmark.benchmarkReturn)}
+            </p>
+          </div>
+
+          <div className="card p-6">
+            <p className="text-xs font-medium text-gray-400">Relative Return</p>
+            <p className={`text-2xl font-semibold mt-1 ${signClass(benchmark.relativeReturn)}`}>
+              {benchmark.relativeReturn === null ? '—' : formatPercentage(benchmark.relativeReturn)}
+            </p>
+            <p className="text-xs mt-1 text-gray-500">Portfolio minus {benchmark.benchmark.name}</p>
+          </div>
+
+          <div className="card p-6">
+            <p className="text-xs font-medium text-gray-400">Alpha</p>
+            <p className={`text-2xl font-semibold mt-1 ${signClass(benchmark.alpha)}`}>{benchmark.alpha === null ? '—' : formatPercentage(benchmark.alpha)}</p>
+            <p className="text-xs mt-1 text-gray-500">Return beyond what beta explains</p>
+          </div>
+
+          <div className="card p-6">
+            <p className="text-xs font-medium text-gray-400">Beta</p>
+            <p className="text-2xl font-semibold text-gray-100 mt-1">{benchmark.beta === null ? '—' : benchmark.beta.toFixed(2)}</p>
+            <p className="text-xs mt-1 text-gray-500">Sensitivity to {benchmark.benchmark.name} moves</p>
+          </div>
+        </div>
+      )}
+    </>
   );
 };
 
@@ -0,0 +1,118 @@
+"use client";
+
+import { useState } from "react";
+import { Portfolio } from "@/types/portfolio";
+import { AGGREGATE_PORTFOLIO_ID, DEFAULT_PORTFOLIO_ID } from "@/lib/portfolioIds";
+
+interface PortfolioSwitcherProps {
+  portfolios: Portfolio[];
+  selected: string;
+  onSelect: (id: string) => void;
+  onChange: () => Promise<void> | void; // reload the list after a create, rename or delete
+}
+
+const controlClass =
+  "bg-[#0b1220] text-gray-100 border border-white/10 rounded-md px-2 py-1 focus:outline-none focus:border-emerald-600";
+
+const PortfolioSwitcher: React.FC<PortfolioSwitcherProps> = ({ portfolios, selected, onSelect, onChange }) => {
+  const [editing, setEditing] = useState<"new" | "rename" | null>(null);
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const current = portfolios.find((p) => p.id === selected);
+
+  const startEditing = (mode: "new" | "rename") => {
+    setEditing(mode);
+    setName(mode === "rename" ? current?.name || "" : "");
+    setError(null);
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    const response =
+      editing === "rename"
+        ? await fetch(`/api/portfolios/${selected}`, {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ name }),
+          })
+        : await fetch("/api/portfolios", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ name }),
+          });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      setError(body.details?.[0] || body.error || "Failed to save portfolio");
+      return;
+    }
+    setEditing(null);
+    await onChange();
+    if (editing === "new") onSelect(body.id);
+  };
+
+  const remove = async () => {
+    if (!current || !window.confirm(`Delete ${current.name} with its holdings and ledger?`)) return;
+    setError(null);
+    const response = await fetch(`/api/portfolios/${current.id}`, { method: "DELETE" });
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      setError(body.error || "Failed to delete portfolio");
+      return;
+    }
+    onSelect(DEFAULT_PORTFOLIO_ID);
+    await onChange();
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-gray-300">
+      {editing ? (
+        <form onSubmit={submit} className="flex items-center gap-2">
+          <input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Portfolio name"
+            className={`${controlClass} w-40 placeholder:text-gray-500`}
+          />
+          <button type="submit" className="bg-emerald-600 hover:bg-emerald-500 text-white font-medium px-3 py-1 rounded-md">
+            {editing === "new" ? "Create" : "Save"}
+          </button>
+          <button type="button" onClick={() => setEditing(null)} className="text-gray-400 hover:text-white">
+            Cancel
+          </button>
+        </form>
+      ) : (
+        <>
+          <label className="inline-flex items-center gap-2">
+            Portfolio
+            <select value={selected} onChange={(e) => onSelect(e.target.value)} className={controlClass}>
+              {portfolios.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+              {portfolios.length > 1 && <option value={AGGREGATE_PORTFOLIO_ID}>All portfolios</option>}
+            </select>
+          </label>
+          <button onClick={() => startEditing("new")} className="text-gray-400 hover:text-white">
+            New
+          </button>
+          {current && (
+            <button onClick={() => startEditing("rename")} className="text-gray-400 hover:text-white">
+              Rename
+            </button>
+          )}
+          {current && current.id !== DEFAULT_PORTFOLIO_ID && (
+            <button onClick={remove} className="text-red-500 hover:text-red-400">
+              Delete
+            </button>
+          )}
+        </>
+      )}
+      {error && <span className="text-xs text-red-500">{error}</span>}
+    </div>
+  );
+};
+
+export default PortfolioSwitcher;
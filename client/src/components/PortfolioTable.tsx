@@ -1,31 +1,26 @@
 "use client";
 
-import { useMemo, useState } from "react";
-import { StockData } from "@/types/stock";
+import { Fragment, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { FieldMeta, RowStatus, StockData } from "@/types/stock";
+import TransactionHistory from "@/components/TransactionHistory";
+import { formatCurrency } from "@/lib/format";
+import { SortDirection, SortKey, applyView, rowKey, viewToParams } from "@/lib/portfolioView";
+import { AGGREGATE_PORTFOLIO_ID, DEFAULT_PORTFOLIO_ID } from "@/lib/portfolioIds";
+import { AllocationTargets } from "@/types/allocation";
+import { drift, resolveTargets } from "@/lib/rebalance";
 
 interface PortfolioTableProps {
   data: StockData[];
+  portfolioId?: string; // ledgers belong to one portfolio, so the aggregate view has none to show
   filter?: string;
+  sectorFilter?: string | null; // set by the sector chart; narrows to one group and expands it
+  highlights?: Record<string, string[]>; // row key -> fields changed by the latest live update
   dense?: boolean;
+  targets?: AllocationTargets | null; // shows drift from target weights on rows and sector headers
+  onLedgerChange?: () => void;
 }
 
-type SortKey = keyof Pick<
-  StockData,
-  | "companyName"
-  | "purchasePrice"
-  | "shares"
-  | "investment"
-  | "weight"
-  | "exchange"
-  | "currentPrice"
-  | "presentValue"
-  | "gainLoss"
-  | "peRatio"
-  | "sector"
->;
-
-type SortDirection = "asc" | "desc";
-
 const headers: { key: SortKey | "latestEarnings"; label: string }[] = [
   { key: "companyName", label: "Particulars" },
   { key: "purchasePrice", label: "Purchase Price" },
@@ -36,57 +31,64 @@ const headers: { key: SortKey | "latestEarnings"; label: string }[] = [
   { key: "currentPrice", label: "CMP" },
   { key: "presentValue", label: "Present Value" },
   { key: "gainLoss", label: "Gain/Loss" },
+  { key: "absoluteReturnPercent", label: "Abs. Return" },
+  { key: "cagr", label: "CAGR" },
+  { key: "xirr", label: "XIRR" },
   { key: "peRatio", label: "P/E Ratio" },
   { key: "latestEarnings", label: "Latest Earnings" },
 ];
 
-const PortfolioTable: React.FC<PortfolioTableProps> = ({ data, filter = "", dense = false }) => {
-  const [sortKey, setSortKey] = useState<SortKey>("presentValue");
-  const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
-  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+const statusLabels: Record<Exclude<RowStatus, "live">, string> = {
+  stale: "stale",
+  failed: "no price",
+  synthetic: "simulated",
+};
 
-  const filteredData = useMemo(() => {
-    if (!filter.trim()) return data;
-    const q = filter.toLowerCase();
-    return data.filter(
-      (d) =>
-        d.companyName.toLowerCase().includes(q) ||
-        d.symbol.toLowerCase().includes(q) ||
-        d.sector.toLowerCase().includes(q)
-    );
-  }, [data, filter]);
+// Tooltip text for a quote field: where it came from, when, and why it failed
+const describeMeta = (meta: FieldMeta) =>
+  [
+    meta.source && `Source: ${meta.source}`,
+    meta.fetchedAt && `Fetched: ${new Date(meta.fetchedAt).toLocaleString()}`,
+    meta.cache && `Cache: ${meta.cache}`,
+    meta.error && `Error: ${meta.error}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
 
-  const grouped = useMemo(() => {
-    const map = new Map<string, StockData[]>();
-    for (const row of filteredData) {
-      const arr = map.get(row.sector) || [];
-      arr.push(row);
-      map.set(row.sector, arr);
-    }
-    return Array.from(map.entries()).map(([sector, rows]) => ({
-      sector,
-      rows,
-    }));
-  }, [filteredData]);
+// Tooltip for the return columns: how long the open lots have been held
+const describeHolding = (row: StockData) =>
+  row.purchaseDate
+    ? `Bought ${row.purchaseDate}${row.holdingDays !== null ? ` · held ${Math.round(row.holdingDays)} days (cost-weighted)` : ""}`
+    : "Add a purchase date to compute CAGR and XIRR";
 
-  const sortRows = (rows: StockData[]) => {
-    const copied = [...rows];
-    copied.sort((a, b) => {
-      const aVal = a[sortKey] as unknown as number | string;
-      const bVal = b[sortKey] as unknown as number | string;
+const PortfolioTable: React.FC<PortfolioTableProps> = ({
+  data,
+  portfolioId = DEFAULT_PORTFOLIO_ID,
+  filter = "",
+  sectorFilter = null,
+  highlights = {},
+  dense = false,
+  targets = null,
+  onLedgerChange,
+}) => {
+  const [sortKey, setSortKey] = useState<SortKey>("presentValue");
+  const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
 
-      if (typeof aVal === "number" && typeof bVal === "number") {
-        return sortDirection === "asc" ? aVal - bVal : bVal - aVal;
-      }
+  useEffect(() => {
+    if (sectorFilter) setCollapsed((c) => ({ ...c, [sectorFilter]: false }));
+  }, [sectorFilter]);
 
-      const aStr = String(aVal).toLowerCase();
-      const bStr = String(bVal).toLowerCase();
-      if (aStr < bStr) return sortDirection === "asc" ? -1 : 1;
-      if (aStr > bStr) return sortDirection === "asc" ? 1 : -1;
-      return 0;
-    });
-    return copied;
-  };
+  const view = useMemo(
+    () => ({ filter, sector: sectorFilter, sortKey, sortDirection }),
+    [filter, sectorFilter, sortKey, sortDirection]
+  );
+  const grouped = useMemo(() => applyView(data, view), [data, view]);
+  const exportQuery = viewToParams(view).toString();
+  const aggregate = portfolioId === AGGREGATE_PORTFOLIO_ID;
+  // Resolved against every row, not just the filtered view, so sector targets split the same way
+  const resolved = useMemo(() => (targets ? resolveTargets(data, targets) : null), [data, targets]);
 
   const onHeaderClick = (key: SortKey | "latestEarnings") => {
     if (key === "latestEarnings") return; // not sortable
@@ -98,27 +100,56 @@ const PortfolioTable: React.FC<PortfolioTableProps> = ({ data, filter = "", dens
     }
   };
 
-  const formatCurrency = (value: number, fraction = 2) =>
-    new Intl.NumberFormat("en-IN", {
-      style: "currency",
-      currency: "INR",
-      minimumFractionDigits: fraction,
-      maximumFractionDigits: fraction,
-    }).format(value);
-
   const formatPercent = (value: number) => `${value.toFixed(2)}%`;
 
+  const returnCell = (value: number | null) =>
+    value === null ? (
+      <span className="text-gray-500">—</span>
+    ) : (
+      <span className={value >= 0 ? "text-emerald-500" : "text-red-500"}>{formatPercent(value)}</span>
+    );
+
   const rowPad = dense ? "py-2" : "py-3";
 
+  // "→ 10.00% (+1.25)" under a weight; amber once the drift is past the tolerance
+  const driftNote = (weight: number, target: number | undefined) => {
+    const d = drift(weight, target);
+    if (d === null || target === undefined) return null;
+    const outside = Math.abs(d) > (targets?.tolerance ?? 0);
+    return (
+      <span className={outside ? "text-amber-500" : "text-gray-500"} title="Target weight and drift in percentage points">
+        → {formatPercent(target)} ({d >= 0 ? "+" : ""}
+        {d.toFixed(2)})
+      </span>
+    );
+  };
+
+  const flash = (row: StockData, field: keyof StockData) =>
+    highlights[rowKey(row)]?.includes(field) ? " cell-flash" : "";
+
   return (
     <div className="overflow-x-auto">
+      <div className="flex justify-end gap-3 mb-3 text-xs">
+        <span className="text-gray-500 self-center">Export this view:</span>
+        {(["csv", "xlsx", "pdf"] as const).map((format) => (
+          <a
+            key={format}
+            href={`/api/portfolio/export?format=${format}&base=${data[0]?.baseCurrency || "INR"}&portfolio=${portfolioId}&${exportQuery}`}
+            className="text-gray-400 hover:text-white uppercase"
+          >
+            {format === "pdf" ? "PDF statement" : format}
+          </a>
+        ))}
+      </div>
       {grouped.map(({ sector, rows }) => {
         const isCollapsed = collapsed[sector] === true;
         const sectorInvestment = rows.reduce((s, r) => s + r.investment, 0);
         const sectorPresent = rows.reduce((s, r) => s + r.presentValue, 0);
         const sectorGain = sectorPresent - sectorInvestment;
+        const sectorWeight = rows.reduce((s, r) => s + r.weight, 0);
+        const sectorTarget = resolved?.sectors[sector];
+        const base = rows[0].baseCurrency;
         const isGain = sectorGain >= 0;
-        const sorted = sortRows(rows);
         return (
           <div
             key={sector}
@@ -142,20 +173,28 @@ const PortfolioTable: React.FC<PortfolioTableProps> = ({ data, filter = "", dens
                 <span className="badge">{rows.length} stocks</span>
               </div>
               <div className="text-xs text-gray-300 flex gap-4">
+                {/* A search can leave part of a sector, whose weight would not compare to the target */}
+                {sectorTarget !== undefined && !filter.trim() && (
+                  <span>
+                    Weight:{" "}
+                    <strong className="text-gray-100">{formatPercent(sectorWeight)}</strong>{" "}
+                    {driftNote(sectorWeight, sectorTarget)}
+                  </span>
+                )}
                 <span>
                   Investment:{" "}
                   <strong className="text-gray-100">
-                    {formatCurrency(sectorInvestment, 0)}
+                    {formatCurrency(sectorInvestment, base, 0)}
                   </strong>
                 </span>
                 <span>
                   Present:{" "}
                   <strong className="text-gray-100">
-                    {formatCurrency(sectorPresent, 0)}
+                    {formatCurrency(sectorPresent, base, 0)}
                   </strong>
                 </span>
                 <span className={isGain ? "text-emerald-500" : "text-red-500"}>
-                  P/L: <strong>{formatCurrency(sectorGain, 0)}</strong>
+                  P/L: <strong>{formatCurrency(sectorGain, base, 0)}</strong>
                 </span>
               </div>
             </button>
@@ -184,7 +223,7 @@ const PortfolioTable: React.FC<PortfolioTableProps> = ({ data, filter = "", dens
                   </tr>
                 </thead>
                 <tbody className="bg-[#0b1220] divide-y divide-white/5">
-                  {sorted.map((row) => {
+                  {rows.map((row) => {
                     const isPositive = row.gainLoss >= 0;
                     const earnings = row.latestEarnings;
                     const earningsText = `${
@@ -196,18 +235,51 @@ const PortfolioTable: React.FC<PortfolioTableProps> = ({ data, filter = "", dens
                         ? ` · EPS ${earnings.eps}`
                         : ""
                     }`;
+                    const isExpanded = !aggregate && expanded[row.symbol] === true;
+                    const isForeign = row.currency !== row.baseCurrency;
                     return (
-                      <>
-                        <tr key={row.symbol} className="hover:bg-white/5">
+                      <Fragment key={rowKey(row)}>
+                        <tr className="hover:bg-white/5">
                           <td
                             className={`px-6 ${rowPad} whitespace-nowrap text-gray-100`}
                           >
-                            {row.companyName}
+                            <div className="flex items-center gap-2">
+                              <button
+                                onClick={() =>
+                                  setExpanded({ ...expanded, [row.symbol]: !isExpanded })
+                                }
+                                disabled={aggregate}
+                                title={aggregate ? "Pick a single portfolio to see its transaction history" : "Show transaction history"}
+                                className={`text-[10px] text-gray-500 hover:text-white inline-block transition-transform ${
+                                  isExpanded ? "rotate-90" : ""
+                                } ${aggregate ? "invisible" : ""}`}
+                              >
+                                ▶
+                              </button>
+                              <Link
+                                href={`/stock/${encodeURIComponent(row.symbol)}?exchange=${row.exchange}`}
+                                title="Open stock details"
+                                className="hover:text-white hover:underline"
+                              >
+                                {row.companyName}
+                              </Link>
+                              {row.meta.status !== "live" && (
+                                <span
+                                  className={`badge badge-${row.meta.status}`}
+                                  title={describeMeta(row.meta.fields.cmp)}
+                                >
+                                  {statusLabels[row.meta.status]}
+                                </span>
+                              )}
+                              {row.transactionCount > 0 && (
+                                <span className="badge">{row.transactionCount} txns</span>
+                              )}
+                            </div>
                           </td>
                           <td
                             className={`px-6 ${rowPad} whitespace-nowrap text-gray-300`}
                           >
-                            {formatCurrency(row.purchasePrice)}
+                            {formatCurrency(row.purchasePrice, row.currency)}
                           </td>
                           <td
                             className={`px-6 ${rowPad} whitespace-nowrap text-gray-300`}
@@ -217,12 +289,20 @@ const PortfolioTable: React.FC<PortfolioTableProps> = ({ data, filter = "", dens
                           <td
                             className={`px-6 ${rowPad} whitespace-nowrap font-medium text-gray-100`}
                           >
-                            {formatCurrency(row.investment, 0)}
+                            {formatCurrency(row.investment, row.baseCurrency, 0)}
+                            {isForeign && (
+                              <div className="text-[11px] font-normal text-gray-500">
+                                {formatCurrency(row.native.investment, row.currency, 0)}
+                              </div>
+                            )}
                           </td>
                           <td
-                            className={`px-6 ${rowPad} whitespace-nowrap text-gray-300`}
+                            className={`px-6 ${rowPad} whitespace-nowrap text-gray-300${flash(row, "weight")}`}
                           >
                             {formatPercent(row.weight)}
+                            {resolved?.holdings[row.symbol] !== undefined && (
+                              <div className="text-[11px]">{driftNote(row.weight, resolved.holdings[row.symbol])}</div>
+                            )}
                           </td>
                           <td
                             className={`px-6 ${rowPad} whitespace-nowrap text-gray-300`}
@@ -230,31 +310,66 @@ const PortfolioTable: React.FC<PortfolioTableProps> = ({ data, filter = "", dens
                             {row.exchange}
                           </td>
                           <td
-                            className={`px-6 ${rowPad} whitespace-nowrap font-semibold text-gray-100`}
+                            className={`px-6 ${rowPad} whitespace-nowrap font-semibold ${
+                              row.meta.status === "live" ? "text-gray-100" : "text-gray-400 italic"
+                            }${flash(row, "currentPrice")}`}
+                            title={describeMeta(row.meta.fields.cmp)}
                           >
-                            {formatCurrency(row.currentPrice)}
+                            {formatCurrency(row.currentPrice, row.currency)}
                           </td>
                           <td
-                            className={`px-6 ${rowPad} whitespace-nowrap font-semibold text-gray-100`}
+                            className={`px-6 ${rowPad} whitespace-nowrap font-semibold text-gray-100${flash(row, "presentValue")}`}
                           >
-                            {formatCurrency(row.presentValue, 0)}
+                            {formatCurrency(row.presentValue, row.baseCurrency, 0)}
+                            {isForeign && (
+                              <div className="text-[11px] font-normal text-gray-500">
+                                {formatCurrency(row.native.presentValue, row.currency, 0)}
+                              </div>
+                            )}
                           </td>
                           <td
                             className={`px-6 ${rowPad} whitespace-nowrap font-semibold ${
                               isPositive ? "text-emerald-500" : "text-red-500"
-                            }`}
+                            }${flash(row, "gainLoss")}`}
+                          >
+                            {formatCurrency(row.gainLoss, row.baseCurrency, 0)}
+                            {isForeign && (
+                              <div className="text-[11px] font-normal text-gray-500">
+                                {formatCurrency(row.native.gainLoss, row.currency, 0)}
+                              </div>
+                            )}
+                          </td>
+                          <td
+                            className={`px-6 ${rowPad} whitespace-nowrap font-medium${flash(row, "absoluteReturnPercent")}`}
+                            title="(present value + sell proceeds + dividends − total buy cost) / total buy cost"
+                          >
+                            {returnCell(row.absoluteReturnPercent)}
+                          </td>
+                          <td
+                            className={`px-6 ${rowPad} whitespace-nowrap${flash(row, "cagr")}`}
+                            title={describeHolding(row)}
+                          >
+                            {returnCell(row.cagr)}
+                          </td>
+                          <td
+                            className={`px-6 ${rowPad} whitespace-nowrap${flash(row, "xirr")}`}
+                            title={describeHolding(row)}
                           >
-                            {formatCurrency(row.gainLoss, 0)}
+                            {returnCell(row.xirr)}
                           </td>
                           <td
                             className={`px-6 ${rowPad} whitespace-nowrap text-gray-300`}
+                            title={describeMeta(row.meta.fields.pe)}
                           >
                             {row.peRatio ? row.peRatio.toFixed(2) : "N/A"}
+                            {row.meta.fields.pe.error && <span className="ml-1 text-amber-500">!</span>}
                           </td>
                           <td
                             className={`px-6 ${rowPad} whitespace-nowrap text-gray-300`}
+                            title={describeMeta(row.meta.fields.earnings)}
                           >
                             {earningsText}
+                            {row.meta.fields.earnings.error && <span className="ml-1 text-amber-500">!</span>}
                           </td>
                         </tr>
                         <tr className="md:hidden">
@@ -278,7 +393,19 @@ const PortfolioTable: React.FC<PortfolioTableProps> = ({ data, filter = "", dens
                             </div>
                           </td>
                         </tr>
-                      </>
+                        {isExpanded && (
+                          <tr className="bg-[#0e1628]/60">
+                            <td colSpan={headers.length} className="px-6 py-4">
+                              <TransactionHistory
+                                portfolioId={portfolioId}
+                                symbol={row.symbol}
+                                currency={row.currency}
+                                onChange={onLedgerChange}
+                              />
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
                     );
                   })}
                 </tbody>
@@ -0,0 +1,216 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AllocationTargets, RebalancePlan } from "@/types/allocation";
+import { formatCurrency } from "@/lib/format";
+
+interface RebalancePlannerProps {
+  portfolioId: string;
+  baseCurrency: string;
+  targets: AllocationTargets | null; // the plan uses the saved targets; a change clears it
+}
+
+const inputClass =
+  "w-32 bg-[#0b1220] text-gray-100 border border-white/10 rounded-md px-2 py-1 focus:outline-none focus:border-emerald-600";
+
+const percent = (n: number | null) => (n === null ? "—" : `${n.toFixed(2)}%`);
+
+const RebalancePlanner: React.FC<RebalancePlannerProps> = ({ portfolioId, baseCurrency, targets }) => {
+  const [cash, setCash] = useState("");
+  const [noSell, setNoSell] = useState(false);
+  const [feePercent, setFeePercent] = useState("0.1");
+  const [plan, setPlan] = useState<RebalancePlan | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setPlan(null);
+  }, [portfolioId, baseCurrency, targets]);
+
+  const run = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setErrors([]);
+    try {
+      const response = await fetch(`/api/portfolio/rebalance?portfolio=${portfolioId}&base=${baseCurrency}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ cash: cash || 0, noSell, feePercent: feePercent || 0 }),
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setPlan(null);
+        setErrors(body.details || [body.error || "Failed to plan rebalance"]);
+        return;
+      }
+      setPlan(body);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const money = (n: number) => formatCurrency(n, plan?.baseCurrency || baseCurrency, 0);
+  const moved = (weight: number, postWeight: number) => Math.abs(postWeight - weight) >= 0.005;
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={run} className="flex flex-wrap items-end gap-4 text-sm text-gray-300">
+        <label className="space-y-1">
+          <span className="block text-xs text-gray-400">New cash ({baseCurrency})</span>
+          <input type="number" step="any" min="0" value={cash} onChange={(e) => setCash(e.target.value)} className={inputClass} />
+        </label>
+        <label className="space-y-1">
+          <span className="block text-xs text-gray-400">Est. charges per trade (%)</span>
+          <input
+            type="number"
+            step="any"
+            min="0"
+            value={feePercent}
+            onChange={(e) => setFeePercent(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="inline-flex items-center gap-2 pb-1.5">
+          <input type="checkbox" checked={noSell} onChange={(e) => setNoSell(e.target.checked)} />
+          Buy only (no sells)
+        </label>
+        <button
+          type="submit"
+          disabled={loading}
+          className="bg-emerald-600 hover:bg-emerald-500 text-white font-medium px-4 py-2 rounded-md disabled:opacity-50"
+        >
+          {loading ? "Planning..." : "Plan trades"}
+        </button>
+      </form>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-500 list-disc pl-5">
+          {errors.map((err) => (
+            <li key={err}>{err}</li>
+          ))}
+        </ul>
+      )}
+
+      {plan && (
+        <div className="space-y-4">
+          {plan.warnings.length > 0 && (
+            <ul className="text-xs text-amber-500 list-disc pl-5">
+              {plan.warnings.map((w) => (
+                <li key={w}>{w}</li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap gap-4 text-xs text-gray-300">
+            <span>
+              Buys <strong className="text-gray-100">{money(plan.totals.buys)}</strong>
+            </span>
+            <span>
+              Sells <strong className="text-gray-100">{money(plan.totals.sells)}</strong>
+            </span>
+            <span>
+              Charges <strong className="text-gray-100">{money(plan.totals.fees)}</strong>
+            </span>
+            <span>
+              {plan.totals.netCash >= 0 ? "Cash needed" : "Cash freed"}{" "}
+              <strong className="text-gray-100">{money(Math.abs(plan.totals.netCash))}</strong>
+            </span>
+            <span>
+              Left over <strong className="text-gray-100">{money(plan.totals.leftoverCash)}</strong>
+            </span>
+            <span className={`badge ${plan.withinTolerance ? "text-emerald-500" : "text-amber-500"}`}>
+              {plan.withinTolerance ? `Within ±${plan.tolerance}pp` : `Outside ±${plan.tolerance}pp after trades`}
+            </span>
+          </div>
+
+          {plan.trades.length === 0 ? (
+            <p className="text-sm text-gray-400">No trades needed.</p>
+          ) : (
+            <table className="w-full text-sm divide-y divide-white/5">
+              <thead>
+                <tr className="text-left text-[11px] uppercase tracking-wider text-gray-400">
+                  <th className="py-2">Trade</th>
+                  <th className="py-2">Stock</th>
+                  <th className="py-2 text-right">Qty</th>
+                  <th className="py-2 text-right">CMP</th>
+                  <th className="py-2 text-right">Value</th>
+                  <th className="py-2 text-right">Charges</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {plan.trades.map((t) => (
+                  <tr key={t.symbol} className="text-gray-300">
+                    <td className={`py-2 font-medium uppercase ${t.action === "buy" ? "text-emerald-500" : "text-red-500"}`}>
+                      {t.action}
+                    </td>
+                    <td className="py-2">
+                      {t.companyName} <span className="text-xs text-gray-500">{t.symbol}</span>
+                    </td>
+                    <td className="py-2 text-right">
+                      {t.quantity.toLocaleString()}
+                      {t.lotSize > 1 && <span className="text-xs text-gray-500"> ({t.quantity / t.lotSize} lots)</span>}
+                    </td>
+                    <td className="py-2 text-right">{formatCurrency(t.price, t.currency)}</td>
+                    <td className="py-2 text-right">{money(t.value)}</td>
+                    <td className="py-2 text-right">{money(t.fee)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <table className="w-full text-sm divide-y divide-white/5">
+              <thead>
+                <tr className="text-left text-[11px] uppercase tracking-wider text-gray-400">
+                  <th className="py-2">Stock</th>
+                  <th className="py-2 text-right">Qty after</th>
+                  <th className="py-2 text-right">Now</th>
+                  <th className="py-2 text-right">Target</th>
+                  <th className="py-2 text-right">After</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {plan.holdings.map((h) => (
+                  <tr key={h.symbol} className="text-gray-300">
+                    <td className="py-2">{h.symbol}</td>
+                    <td className="py-2 text-right">{h.postShares.toLocaleString()}</td>
+                    <td className="py-2 text-right">{percent(h.weight)}</td>
+                    <td className="py-2 text-right">{percent(h.targetWeight)}</td>
+                    <td className={`py-2 text-right ${moved(h.weight, h.postWeight) ? "text-gray-100 font-medium" : ""}`}>
+                      {percent(h.postWeight)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <table className="w-full text-sm divide-y divide-white/5 self-start">
+              <thead>
+                <tr className="text-left text-[11px] uppercase tracking-wider text-gray-400">
+                  <th className="py-2">Sector</th>
+                  <th className="py-2 text-right">Now</th>
+                  <th className="py-2 text-right">Target</th>
+                  <th className="py-2 text-right">After</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {plan.sectors.map((s) => (
+                  <tr key={s.sector} className="text-gray-300">
+                    <td className="py-2">{s.sector}</td>
+                    <td className="py-2 text-right">{percent(s.weight)}</td>
+                    <td className="py-2 text-right">{percent(s.targetWeight)}</td>
+                    <td className={`py-2 text-right ${moved(s.weight, s.postWeight) ? "text-gray-100 font-medium" : ""}`}>
+                      {percent(s.postWeight)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RebalancePlanner;
@@ -0,0 +1,213 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { PerformanceRange } from "@/types/benchmark";
+import { RiskMetrics, RiskReport } from "@/types/risk";
+import { rowKey } from "@/lib/portfolioView";
+
+interface RiskPanelProps {
+  portfolioId: string;
+  baseCurrency: string;
+  index: string; // same benchmark and range as the comparison chart
+  range: PerformanceRange;
+  version?: number; // bump after ledger changes
+}
+
+const fixed = (n: number | null, digits = 2, suffix = "") => (n === null ? "—" : `${n.toFixed(digits)}${suffix}`);
+
+const signed = (n: number | null) =>
+  n === null ? (
+    <span className="text-gray-500">—</span>
+  ) : (
+    <span className={n >= 0 ? "text-emerald-500" : "text-red-500"}>
+      {n >= 0 ? "+" : ""}
+      {n.toFixed(2)}%
+    </span>
+  );
+
+// Red for moving together, blue for moving apart, fading to nothing around zero
+const correlationColor = (c: number | null) =>
+  c === null ? "transparent" : c >= 0 ? `rgba(239, 68, 68, ${c * 0.6})` : `rgba(14, 165, 233, ${-c * 0.6})`;
+
+const metricCards = (m: RiskMetrics, benchmark: string) => [
+  { label: "Volatility (ann.)", value: fixed(m.volatility, 2, "%"), hint: "Annualized standard deviation of time-weighted period returns" },
+  { label: `Beta to ${benchmark}`, value: fixed(m.beta), hint: "Covariance with the benchmark's returns over its variance" },
+  { label: "Max drawdown", value: fixed(m.maxDrawdown, 2, "%"), hint: "Worst fall from a previous high within the range" },
+  { label: "Sharpe ratio", value: fixed(m.sharpe), hint: "Annualized return over the risk-free rate, divided by volatility" },
+];
+
+const RiskPanel: React.FC<RiskPanelProps> = ({ portfolioId, baseCurrency, index, range, version = 0 }) => {
+  const [riskFree, setRiskFree] = useState("0");
+  const [report, setReport] = useState<RiskReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    const query = new URLSearchParams({ index, range, base: baseCurrency, portfolio: portfolioId, riskFree: riskFree || "0" });
+    fetch(`/api/portfolio/risk?${query}`, { cache: "no-store" })
+      .then(async (res) => {
+        const body = await res.json().catch(() => ({}));
+        if (cancelled) return;
+        if (res.ok) {
+          setReport(body);
+          setError(null);
+        } else {
+          setReport(null);
+          setError(body.error || "Failed to load risk analytics");
+        }
+      })
+      .catch(() => !cancelled && setError("Failed to load risk analytics"))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [portfolioId, baseCurrency, index, range, riskFree, version]);
+
+  if (error) return <p className="text-sm text-gray-400">{error}</p>;
+  if (!report) return <p className="text-sm text-gray-400">{loading ? "Computing risk metrics..." : "No data"}</p>;
+
+  const { concentration } = report;
+
+  return (
+    <div className={`space-y-6 ${loading ? "opacity-60" : ""}`}>
+      <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-gray-400">
+        <span>
+          {report.range} of {report.interval} bars against {report.benchmark.name} · portfolio return {signed(report.portfolio.return)}
+        </span>
+        <label className="inline-flex items-center gap-2">
+          Risk-free rate (% p.a.)
+          <input
+            type="number"
+            step="any"
+            min="0"
+            value={riskFree}
+            onChange={(e) => setRiskFree(e.target.value)}
+            className="w-20 bg-[#0b1220] text-gray-100 border border-white/10 rounded-md px-2 py-1 focus:outline-none focus:border-emerald-600"
+          />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {metricCards(report.portfolio, report.benchmark.id).map((c) => (
+          <div key={c.label} className="bg-[#0e1628] rounded-lg p-4" title={c.hint}>
+            <p className="text-xs text-gray-400">{c.label}</p>
+            <p className="text-xl font-semibold text-gray-100 mt-1">{c.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
+        <div className="bg-[#0e1628] rounded-lg p-4">
+          <p className="text-xs text-gray-400">Top holdings</p>
+          {concentration.top.map((t) => (
+            <p key={t.count} className="text-gray-300 mt-1">
+              Top {t.count}: <span className="text-gray-100 font-medium">{fixed(t.weight, 1, "%")}</span>
+            </p>
+          ))}
+        </div>
+        <div className="bg-[#0e1628] rounded-lg p-4" title="Sum of squared holding weights; 10000 is a single holding">
+          <p className="text-xs text-gray-400">HHI by holding</p>
+          <p className="text-xl font-semibold text-gray-100 mt-1">{Math.round(concentration.holdingHhi)}</p>
+          <p className="text-xs text-gray-500 mt-1">≈ {fixed(concentration.effectiveHoldings, 1)} equal positions</p>
+        </div>
+        <div className="bg-[#0e1628] rounded-lg p-4" title="Sum of squared sector weights; 10000 is a single sector">
+          <p className="text-xs text-gray-400">HHI by sector</p>
+          <p className="text-xl font-semibold text-gray-100 mt-1">{Math.round(concentration.sectorHhi)}</p>
+          <p className="text-xs text-gray-500 mt-1">≈ {fixed(concentration.effectiveSectors, 1)} equal sectors</p>
+        </div>
+        <div className="bg-[#0e1628] rounded-lg p-4">
+          <p className="text-xs text-gray-400">Largest positions</p>
+          {concentration.largestHolding && (
+            <p className="text-gray-300 mt-1">
+              {concentration.largestHolding.symbol}:{" "}
+              <span className="text-gray-100 font-medium">{fixed(concentration.largestHolding.weight, 1, "%")}</span>
+            </p>
+          )}
+          {concentration.largestSector && (
+            <p className="text-gray-300 mt-1">
+              {concentration.largestSector.sector}:{" "}
+              <span className="text-gray-100 font-medium">{fixed(concentration.largestSector.weight, 1, "%")}</span>
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm divide-y divide-white/5">
+          <thead>
+            <tr className="text-left text-[11px] uppercase tracking-wider text-gray-400">
+              <th className="py-2">Stock</th>
+              <th className="py-2 text-right">Weight</th>
+              <th className="py-2 text-right">Return</th>
+              <th className="py-2 text-right">Volatility</th>
+              <th className="py-2 text-right">Beta</th>
+              <th className="py-2 text-right">Max DD</th>
+              <th className="py-2 text-right">Sharpe</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5">
+            {report.holdings.map((h) => (
+              <tr key={rowKey(h)} className="text-gray-300">
+                <td className="py-2">
+                  {h.companyName} <span className="text-xs text-gray-500">{h.symbol}</span>
+                </td>
+                <td className="py-2 text-right">{fixed(h.weight, 2, "%")}</td>
+                <td className="py-2 text-right">{signed(h.return)}</td>
+                <td className="py-2 text-right">{fixed(h.volatility, 2, "%")}</td>
+                <td className="py-2 text-right">{fixed(h.beta)}</td>
+                <td className="py-2 text-right text-red-500">{fixed(h.maxDrawdown, 2, "%")}</td>
+                <td className="py-2 text-right">{fixed(h.sharpe)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {report.correlation.keys.length > 1 && (
+        <div className="overflow-x-auto">
+          <h4 className="text-sm font-semibold text-gray-200 mb-2">Correlation of returns</h4>
+          <table className="text-xs">
+            <thead>
+              <tr>
+                <th></th>
+                {report.correlation.keys.map((key, i) => (
+                  <th key={key} className="px-2 py-1 text-gray-400 font-medium">
+                    {report.correlation.labels[i]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {report.correlation.keys.map((row, i) => (
+                <tr key={row}>
+                  <th className="px-2 py-1 text-left text-gray-400 font-medium">{report.correlation.labels[i]}</th>
+                  {report.correlation.matrix[i].map((c, j) => (
+                    <td
+                      key={report.correlation.keys[j]}
+                      className="px-2 py-1 text-center text-gray-100 tabular-nums"
+                      style={{ backgroundColor: correlationColor(c) }}
+                    >
+                      {fixed(c)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {report.warnings.length > 0 && (
+        <ul className="text-xs text-amber-500 list-disc pl-5">
+          {report.warnings.map((w) => (
+            <li key={w}>{w}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RiskPanel;
@@ -0,0 +1,520 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { StockData } from "@/types/stock";
+import { Instrument } from "@/types/instrument";
+import { PriceShock, Scenario, ScenarioComparison, ScenarioEvaluation, ScenarioTrade } from "@/types/scenario";
+import { formatCurrency } from "@/lib/format";
+import PortfolioSummary from "@/components/PortfolioSummary";
+import SymbolSearch from "@/components/SymbolSearch";
+
+interface ScenarioPanelProps {
+  portfolioId: string;
+  baseCurrency: string;
+  data: StockData[]; // current rows, shown beside the scenario
+}
+
+interface TradeDraft {
+  action: ScenarioTrade["action"];
+  symbol: string;
+  quantity: string;
+  price: string; // blank trades at the CMP
+  exchange: string;
+  companyName: string;
+  sector: string;
+}
+
+interface ShockDraft {
+  type: PriceShock["type"];
+  target: string; // sector or symbol
+  value: string; // percent, or the target price for a symbol
+}
+
+const inputClass =
+  "w-full bg-[#0b1220] text-gray-100 placeholder:text-gray-500 border border-white/10 rounded-md px-2 py-1 focus:outline-none focus:border-emerald-600";
+
+const emptyTrade = (): TradeDraft => ({ action: "buy", symbol: "", quantity: "", price: "", exchange: "", companyName: "", sector: "" });
+const emptyShock = (): ShockDraft => ({ type: "all", target: "", value: "-10" });
+
+const SHOCK_LABELS: Record<PriceShock["type"], string> = { all: "All holdings", sector: "Sector", symbol: "Symbol to price" };
+
+const toTrade = (t: TradeDraft) => ({
+  action: t.action,
+  symbol: t.symbol.trim().toUpperCase(),
+  quantity: t.quantity,
+  price: t.price.trim() ? t.price : null,
+  exchange: t.exchange || null,
+  companyName: t.companyName || null,
+  sector: t.sector || null,
+});
+
+const toShock = (s: ShockDraft) =>
+  s.type === "all"
+    ? { type: s.type, percent: s.value }
+    : s.type === "sector"
+    ? { type: s.type, sector: s.target, percent: s.value }
+    : { type: s.type, symbol: s.target.trim().toUpperCase(), price: s.value };
+
+const fromScenario = (scenario: Scenario) => ({
+  name: scenario.name,
+  trades: scenario.trades.map((t) => ({
+    action: t.action,
+    symbol: t.symbol,
+    quantity: String(t.quantity),
+    price: t.price === null ? "" : String(t.price),
+    exchange: t.exchange || "",
+    companyName: t.companyName || "",
+    sector: t.sector || "",
+  })),
+  shocks: scenario.shocks.map((s) =>
+    s.type === "all"
+      ? { type: s.type, target: "", value: String(s.percent) }
+      : s.type === "sector"
+      ? { type: s.type, target: s.sector, value: String(s.percent) }
+      : { type: s.type, target: s.symbol, value: String(s.price) }
+  ),
+});
+
+const percent = (n: number) => `${n.toFixed(2)}%`;
+const signClass = (n: number) => (n >= 0 ? "text-emerald-500" : "text-red-500");
+
+// Hypothetical trades and price shocks evaluated against the live portfolio; nothing here touches real holdings
+const ScenarioPanel: React.FC<ScenarioPanelProps> = ({ portfolioId, baseCurrency, data }) => {
+  const [saved, setSaved] = useState<Scenario[]>([]);
+  const [editing, setEditing] = useState<string | null>(null); // id of the saved scenario in the editor
+  const [name, setName] = useState("");
+  const [trades, setTrades] = useState<TradeDraft[]>([]);
+  const [shocks, setShocks] = useState<ShockDraft[]>([emptyShock()]);
+  const [evaluation, setEvaluation] = useState<ScenarioEvaluation | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<ScenarioComparison | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const sectors = useMemo(() => Array.from(new Set(data.map((r) => r.sector))), [data]);
+  const query = `portfolio=${portfolioId}&base=${baseCurrency}`;
+
+  const loadSaved = useCallback(async () => {
+    const response = await fetch(`/api/portfolio/scenarios?portfolio=${portfolioId}`, { cache: "no-store" });
+    if (response.ok) setSaved(await response.json());
+  }, [portfolioId]);
+
+  useEffect(() => {
+    setEditing(null);
+    setName("");
+    setTrades([]);
+    setShocks([emptyShock()]);
+    setCompareIds([]);
+    setComparison(null);
+    loadSaved();
+  }, [loadSaved]);
+
+  useEffect(() => {
+    setEvaluation(null);
+    setComparison(null);
+  }, [baseCurrency]);
+
+  const body = () => JSON.stringify({ name, trades: trades.map(toTrade), shocks: shocks.map(toShock) });
+
+  const failed = async (response: Response, fallback: string) => {
+    const error = await response.json().catch(() => ({}));
+    setErrors(error.details || [error.error || fallback]);
+  };
+
+  const run = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setErrors([]);
+    try {
+      const response = await fetch(`/api/portfolio/scenarios/evaluate?${query}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: body(),
+      });
+      if (!response.ok) {
+        setEvaluation(null);
+        await failed(response, "Failed to evaluate scenario");
+        return;
+      }
+      setEvaluation(await response.json());
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const save = async () => {
+    setErrors([]);
+    const response = await fetch(
+      editing ? `/api/portfolio/scenarios/${editing}?portfolio=${portfolioId}` : `/api/portfolio/scenarios?portfolio=${portfolioId}`,
+      { method: editing ? "PUT" : "POST", headers: { "Content-Type": "application/json" }, body: body() }
+    );
+    if (!response.ok) {
+      await failed(response, "Failed to save scenario");
+      return;
+    }
+    const stored: Scenario = await response.json();
+    setEditing(stored.id);
+    await loadSaved();
+  };
+
+  const open = (id: string) => {
+    const scenario = saved.find((s) => s.id === id);
+    setEditing(scenario ? scenario.id : null);
+    const draft = scenario ? fromScenario(scenario) : { name: "", trades: [], shocks: [emptyShock()] };
+    setName(draft.name);
+    setTrades(draft.trades);
+    setShocks(draft.shocks);
+    setEvaluation(null);
+    setErrors([]);
+  };
+
+  const remove = async () => {
+    if (!editing || !window.confirm(`Delete the scenario "${name}"?`)) return;
+    const response = await fetch(`/api/portfolio/scenarios/${editing}?portfolio=${portfolioId}`, { method: "DELETE" });
+    if (!response.ok) {
+      setErrors(["Failed to delete scenario"]);
+      return;
+    }
+    setCompareIds((ids) => ids.filter((id) => id !== editing));
+    open("");
+    await loadSaved();
+  };
+
+  const compare = async () => {
+    setErrors([]);
+    const response = await fetch(`/api/portfolio/scenarios/compare?${query}&ids=${compareIds.join(",")}`, { cache: "no-store" });
+    if (!response.ok) {
+      setComparison(null);
+      await failed(response, "Failed to compare scenarios");
+      return;
+    }
+    setComparison(await response.json());
+  };
+
+  const setTrade = (i: number, patch: Partial<TradeDraft>) => setTrades(trades.map((t, j) => (j === i ? { ...t, ...patch } : t)));
+  const setShock = (i: number, patch: Partial<ShockDraft>) => setShocks(shocks.map((s, j) => (j === i ? { ...s, ...patch } : s)));
+  const fillTrade = (i: number, instrument: Instrument) =>
+    setTrade(i, { symbol: instrument.symbol, exchange: instrument.exchange, companyName: instrument.name, sector: instrument.sector });
+
+  const money = (n: number) => formatCurrency(n, evaluation?.baseCurrency || comparison?.baseCurrency || baseCurrency, 0);
+  const held = new Set(data.map((r) => r.symbol));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-3 text-sm">
+        <label className="space-y-1">
+          <span className="block text-xs text-gray-400">Scenario</span>
+          <select value={editing ?? ""} onChange={(e) => open(e.target.value)} className={inputClass}>
+            <option value="">New scenario</option>
+            {saved.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="block text-xs text-gray-400">Name</span>
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Tech sell-off" className={inputClass} />
+        </label>
+        <button type="button" onClick={save} className="text-sm text-gray-300 hover:text-white px-3 py-1.5 border border-white/10 rounded-md">
+          {editing ? "Save changes" : "Save"}
+        </button>
+        {editing && (
+          <button type="button" onClick={remove} className="text-sm text-red-500 hover:text-red-400 px-3 py-1.5">
+            Delete
+          </button>
+        )}
+      </div>
+
+      <form onSubmit={run} className="space-y-4">
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-gray-200">Hypothetical trades</h4>
+          {trades.map((t, i) => (
+            <div key={i} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-center text-sm">
+              <select value={t.action} onChange={(e) => setTrade(i, { action: e.target.value as TradeDraft["action"] })} className={inputClass}>
+                <option value="buy">Buy</option>
+                <option value="sell">Sell</option>
+              </select>
+              <SymbolSearch
+                value={t.symbol}
+                onChange={(symbol) => setTrade(i, { symbol })}
+                onSelect={(instrument) => fillTrade(i, instrument)}
+                className={inputClass}
+              />
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={t.quantity}
+                onChange={(e) => setTrade(i, { quantity: e.target.value })}
+                placeholder="Qty"
+                className={inputClass}
+              />
+              <input
+                type="number"
+                step="any"
+                value={t.price}
+                onChange={(e) => setTrade(i, { price: e.target.value })}
+                placeholder={held.has(t.symbol.trim().toUpperCase()) ? "At CMP" : "Price"}
+                className={inputClass}
+              />
+              <span className="text-xs text-gray-500 truncate">
+                {t.symbol && !held.has(t.symbol.trim().toUpperCase()) ? `New · ${t.exchange || "pick a listing"}` : ""}
+              </span>
+              <button type="button" onClick={() => setTrades(trades.filter((_, j) => j !== i))} className="text-red-500 hover:text-red-400 justify-self-start">
+                ✕
+              </button>
+            </div>
+          ))}
+          <button type="button" onClick={() => setTrades([...trades, emptyTrade()])} className="text-sm text-emerald-500 hover:text-emerald-400">
+            + Add trade
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-gray-200">Price shocks</h4>
+          {shocks.map((s, i) => (
+            <div key={i} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-center text-sm">
+              <select value={s.type} onChange={(e) => setShock(i, { type: e.target.value as ShockDraft["type"], target: "" })} className={inputClass}>
+                {(Object.keys(SHOCK_LABELS) as PriceShock["type"][]).map((type) => (
+                  <option key={type} value={type}>
+                    {SHOCK_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+              {s.type === "sector" ? (
+                <select value={s.target} onChange={(e) => setShock(i, { target: e.target.value })} className={inputClass}>
+                  <option value="">Pick a sector</option>
+                  {sectors.map((sector) => (
+                    <option key={sector} value={sector}>
+                      {sector}
+                    </option>
+                  ))}
+                </select>
+              ) : s.type === "symbol" ? (
+                <input value={s.target} onChange={(e) => setShock(i, { target: e.target.value })} placeholder="Symbol" className={inputClass} />
+              ) : (
+                <span />
+              )}
+              <input
+                type="number"
+                step="any"
+                value={s.value}
+                onChange={(e) => setShock(i, { value: e.target.value })}
+                placeholder={s.type === "symbol" ? "Target price" : "Change %"}
+                className={inputClass}
+              />
+              <span className="text-xs text-gray-500">{s.type === "symbol" ? "price in its currency" : "% change"}</span>
+              <span />
+              <button type="button" onClick={() => setShocks(shocks.filter((_, j) => j !== i))} className="text-red-500 hover:text-red-400 justify-self-start">
+                ✕
+              </button>
+            </div>
+          ))}
+          <button type="button" onClick={() => setShocks([...shocks, emptyShock()])} className="text-sm text-emerald-500 hover:text-emerald-400">
+            + Add shock
+          </button>
+        </div>
+
+        <button
+          type="submit"
+          disabled={loading}
+          className="bg-emerald-600 hover:bg-emerald-500 text-white font-medium px-4 py-2 rounded-md disabled:opacity-50"
+        >
+          {loading ? "Running..." : "Run scenario"}
+        </button>
+      </form>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-500 list-disc pl-5">
+          {errors.map((err) => (
+            <li key={err}>{err}</li>
+          ))}
+        </ul>
+      )}
+
+      {evaluation && (
+        <div className="space-y-6">
+          {evaluation.warnings.length > 0 && (
+            <ul className="text-xs text-amber-500 list-disc pl-5">
+              {evaluation.warnings.map((w) => (
+                <li key={w}>{w}</li>
+              ))}
+            </ul>
+          )}
+          {evaluation.cash !== 0 && (
+            <p className="text-xs text-gray-300">
+              {evaluation.cash < 0 ? "Cash needed for the trades" : "Cash freed by the trades"}{" "}
+              <strong className="text-gray-100">{money(Math.abs(evaluation.cash))}</strong>
+            </p>
+          )}
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            <div>
+              <h4 className="text-sm font-medium text-gray-200 mb-3">Current</h4>
+              <PortfolioSummary data={data} baseCurrency={evaluation.baseCurrency} compact />
+            </div>
+            <div>
+              <h4 className="text-sm font-medium text-gray-200 mb-3">{name || "Scenario"}</h4>
+              <PortfolioSummary data={evaluation.rows} baseCurrency={evaluation.baseCurrency} compact />
+            </div>
+          </div>
+
+          <table className="w-full text-sm divide-y divide-white/5">
+            <thead>
+              <tr className="text-left text-[11px] uppercase tracking-wider text-gray-400">
+                <th className="py-2">Sector</th>
+                <th className="py-2 text-right">Value now</th>
+                <th className="py-2 text-right">Value after</th>
+                <th className="py-2 text-right">Gain/Loss now</th>
+                <th className="py-2 text-right">Gain/Loss after</th>
+                <th className="py-2 text-right">Weight now</th>
+                <th className="py-2 text-right">Weight after</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {evaluation.sectors.map((s) => (
+                <tr key={s.sector} className="text-gray-300">
+                  <td className="py-2">{s.sector}</td>
+                  <td className="py-2 text-right">{money(s.current.presentValue)}</td>
+                  <td className="py-2 text-right text-gray-100">{money(s.scenario.presentValue)}</td>
+                  <td className={`py-2 text-right ${signClass(s.current.gainLoss)}`}>{money(s.current.gainLoss)}</td>
+                  <td className={`py-2 text-right ${signClass(s.scenario.gainLoss)}`}>{money(s.scenario.gainLoss)}</td>
+                  <td className="py-2 text-right">{percent(s.current.weight)}</td>
+                  <td className="py-2 text-right text-gray-100">{percent(s.scenario.weight)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <table className="w-full text-sm divide-y divide-white/5">
+            <thead>
+              <tr className="text-left text-[11px] uppercase tracking-wider text-gray-400">
+                <th className="py-2">Stock</th>
+                <th className="py-2 text-right">Qty</th>
+                <th className="py-2 text-right">Value now</th>
+                <th className="py-2 text-right">Value after</th>
+                <th className="py-2 text-right">Gain/Loss after</th>
+                <th className="py-2 text-right">Weight now</th>
+                <th className="py-2 text-right">Weight after</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {evaluation.holdings.map((h) => (
+                <tr key={h.symbol} className="text-gray-300">
+                  <td className="py-2">
+                    {h.companyName} <span className="text-xs text-gray-500">{h.symbol}</span>
+                  </td>
+                  <td className="py-2 text-right">
+                    {h.current.shares === h.scenario.shares
+                      ? h.scenario.shares.toLocaleString()
+                      : `${h.current.shares.toLocaleString()} → ${h.scenario.shares.toLocaleString()}`}
+                  </td>
+                  <td className="py-2 text-right">{money(h.current.presentValue)}</td>
+                  <td className="py-2 text-right text-gray-100">{money(h.scenario.presentValue)}</td>
+                  <td className={`py-2 text-right ${signClass(h.scenario.gainLoss)}`}>{money(h.scenario.gainLoss)}</td>
+                  <td className="py-2 text-right">{percent(h.current.weight)}</td>
+                  <td className="py-2 text-right text-gray-100">{percent(h.scenario.weight)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {saved.length > 0 && (
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium text-gray-200">Compare saved scenarios</h4>
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-300">
+            {saved.map((s) => (
+              <label key={s.id} className="inline-flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={compareIds.includes(s.id)}
+                  onChange={(e) => setCompareIds(e.target.checked ? [...compareIds, s.id] : compareIds.filter((id) => id !== s.id))}
+                />
+                {s.name}
+              </label>
+            ))}
+            <button
+              type="button"
+              onClick={compare}
+              disabled={compareIds.length === 0}
+              className="text-sm text-gray-300 hover:text-white px-3 py-1.5 border border-white/10 rounded-md disabled:opacity-50"
+            >
+              Compare
+            </button>
+          </div>
+
+          {comparison && (
+            <>
+              {comparison.warnings.length > 0 && (
+                <ul className="text-xs text-amber-500 list-disc pl-5">
+                  {comparison.warnings.map((w) => (
+                    <li key={w}>{w}</li>
+                  ))}
+                </ul>
+              )}
+              <table className="w-full text-sm divide-y divide-white/5">
+                <thead>
+                  <tr className="text-left text-[11px] uppercase tracking-wider text-gray-400">
+                    <th className="py-2"></th>
+                    <th className="py-2 text-right">Current</th>
+                    {comparison.scenarios.map((s) => (
+                      <th key={s.id} className="py-2 text-right">
+                        {s.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5">
+                  {(
+                    [
+                      ["Total value", (c) => money(c.totalValue)],
+                      ["Invested", (c) => money(c.investment)],
+                      ["Gain/Loss", (c) => money(c.totalGainLoss)],
+                      ["Stocks", (c) => String(c.numberOfStocks)],
+                    ] as [string, (c: ScenarioComparison["current"]) => string][]
+                  ).map(([label, show]) => (
+                    <tr key={label} className="text-gray-300">
+                      <td className="py-2 text-gray-400">{label}</td>
+                      <td className="py-2 text-right">{show(comparison.current)}</td>
+                      {comparison.scenarios.map((s) => (
+                        <td key={s.id} className="py-2 text-right text-gray-100">
+                          {show(s)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                  <tr className="text-gray-300">
+                    <td className="py-2 text-gray-400">Cash from trades</td>
+                    <td className="py-2 text-right">—</td>
+                    {comparison.scenarios.map((s) => (
+                      <td key={s.id} className={`py-2 text-right ${signClass(s.cash)}`}>
+                        {money(s.cash)}
+                      </td>
+                    ))}
+                  </tr>
+                  {Array.from(new Set([comparison.current, ...comparison.scenarios].flatMap((c) => Object.keys(c.sectors)))).map((sector) => (
+                    <tr key={sector} className="text-gray-300">
+                      <td className="py-2 text-gray-400">{sector} weight</td>
+                      <td className="py-2 text-right">{percent(comparison.current.sectors[sector] ?? 0)}</td>
+                      {comparison.scenarios.map((s) => (
+                        <td key={s.id} className="py-2 text-right text-gray-100">
+                          {percent(s.sectors[sector] ?? 0)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioPanel;
@@ -0,0 +1,151 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { PieChart, Pie, Cell, Treemap, Tooltip, ResponsiveContainer } from 'recharts';
+import { ChartData, StockData } from '@/types/stock';
+import { groupBySector, sectorColor } from '@/lib/sectors';
+import { formatCurrency } from '@/lib/format';
+
+interface SectorChartProps {
+  data: StockData[];
+  baseCurrency: string;
+  selectedSector?: string | null;
+  onSelectSector?: (sector: string | null) => void;
+}
+
+type ChartMode = 'donut' | 'treemap';
+
+const SectorChart: React.FC<SectorChartProps> = ({ data, baseCurrency, selectedSector = null, onSelectSector }) => {
+  const [mode, setMode] = useState<ChartMode>('donut');
+
+  const chartData = useMemo<ChartData[]>(
+    () =>
+      groupBySector(data)
+        .map(({ sector, rows }) => ({
+          name: sector,
+          value: rows.reduce((s, r) => s + r.presentValue, 0),
+          color: sectorColor(sector),
+        }))
+        .filter((d) => d.value > 0)
+        .sort((a, b) => b.value - a.value),
+    [data]
+  );
+
+  const total = chartData.reduce((s, d) => s + d.value, 0) || 1;
+
+  // Clicking the active sector again clears the filter
+  const select = (sector: string) => onSelectSector?.(sector === selectedSector ? null : sector);
+
+  const CustomTooltip = ({ active, payload }: {
+    active?: boolean;
+    payload?: Array<{ payload: ChartData }>;
+  }) => {
+    if (active && payload && payload.length) {
+      const d = payload[0].payload;
+      return (
+        <div className="bg-[#0e1628] text-gray-100 p-3 border border-white/10 rounded-lg shadow-lg">
+          <p className="font-semibold">{d.name}</p>
+          <p className="text-gray-300">{formatCurrency(d.value, baseCurrency, 0)}</p>
+          <p className="text-gray-400 text-xs">{((d.value / total) * 100).toFixed(1)}% of portfolio</p>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  const TreemapCell = (props: { x?: number; y?: number; width?: number; height?: number; name?: string; color?: unknown }) => {
+    const { x = 0, y = 0, width = 0, height = 0, name = '', color } = props;
+    const dimmed = selectedSector !== null && name !== selectedSector;
+    return (
+      <g style={{ cursor: 'pointer' }}>
+        <rect x={x} y={y} width={width} height={height} fill={String(color || '#16a34a')} fillOpacity={dimmed ? 0.3 : 0.9} stroke="#0b1220" strokeWidth={2} />
+        {width > 60 && height > 24 && (
+          <text x={x + 8} y={y + 18} fill="#e5e7eb" fontSize={11}>
+            {name}
+          </text>
+        )}
+      </g>
+    );
+  };
+
+  if (chartData.length === 0) {
+    return (
+      <div className="h-64 flex items-center justify-center text-gray-500">
+        <div className="text-center">
+          <div className="text-4xl mb-2">🥧</div>
+          <p>No data available</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex justify-end gap-1 mb-2 text-xs">
+        {(['donut', 'treemap'] as ChartMode[]).map((m) => (
+          <button
+            key={m}
+            onClick={() => setMode(m)}
+            className={`px-2 py-1 rounded-md capitalize ${mode === m ? 'bg-emerald-600 text-white' : 'text-gray-400 hover:text-white'}`}
+          >
+            {m}
+          </button>
+        ))}
+      </div>
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          {mode === 'donut' ? (
+            <PieChart>
+              <Pie
+                data={chartData}
+                dataKey="value"
+                nameKey="name"
+                innerRadius="55%"
+                outerRadius="85%"
+                paddingAngle={2}
+                onClick={(entry) => select(String(entry.name))}
+              >
+                {chartData.map((d) => (
+                  <Cell
+                    key={d.name}
+                    fill={d.color}
+                    fillOpacity={selectedSector && d.name !== selectedSector ? 0.3 : 1}
+                    stroke="#0b1220"
+                    style={{ cursor: 'pointer' }}
+                  />
+                ))}
+              </Pie>
+              <Tooltip content={<CustomTooltip />} />
+            </PieChart>
+          ) : (
+            <Treemap
+              // Treemap wants index-signature records; spread to plain object literals
+              data={chartData.map((d) => ({ ...d }))}
+              dataKey="value"
+              nameKey="name"
+              isAnimationActive={false}
+              content={<TreemapCell />}
+              onClick={(node) => select(node.name)}
+            >
+              <Tooltip content={<CustomTooltip />} />
+            </Treemap>
+          )}
+        </ResponsiveContainer>
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs">
+        {chartData.map((d) => (
+          <button
+            key={d.name}
+            onClick={() => select(d.name)}
+            className={`flex items-center gap-1.5 ${selectedSector === d.name ? 'text-white font-semibold' : 'text-gray-400 hover:text-white'}`}
+          >
+            <span className="inline-block h-2.5 w-2.5 rounded-sm" style={{ background: d.color }} />
+            {d.name} · {((d.value / total) * 100).toFixed(1)}%
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SectorChart;
@@ -3,12 +3,14 @@
 import { useMemo } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { StockData } from '@/types/stock';
+import { formatCompactCurrency, formatCurrency } from '@/lib/format';
 
 interface StockChartProps {
   data: StockData[];
+  baseCurrency: string;
 }
 
-const StockChart: React.FC<StockChartProps> = ({ data }) => {
+const StockChart: React.FC<StockChartProps> = ({ data, baseCurrency }) => {
   const chartData = useMemo(() => {
     if (data.length === 0) return [];
     return data
@@ -17,7 +19,7 @@ const StockChart: React.FC<StockChartProps> = ({ data }) => {
       .map(stock => ({
         name: stock.symbol,
         value: stock.totalValue,
-        change: stock.change * stock.shares,
+        change: stock.change * stock.shares * stock.fxRate,
         changePercent: stock.changePercent,
       }));
   }, [data]);
@@ -32,9 +34,9 @@ const StockChart: React.FC<StockChartProps> = ({ data }) => {
       return (
         <div className="bg-[#0e1628] text-gray-100 p-3 border border-white/10 rounded-lg shadow-lg">
           <p className="font-semibold">{label}</p>
-          <p className="text-gray-300">Value: ₹{d.value.toLocaleString()}</p>
+          <p className="text-gray-300">Value: {formatCurrency(d.value, baseCurrency, 0)}</p>
           <p className={`${d.change >= 0 ? 'text-emerald-500' : 'text-red-500'} font-semibold`}>
-            Change: {d.change >= 0 ? '+' : ''}₹{d.change.toFixed(2)} ({d.changePercent.toFixed(2)}%)
+            Change: {d.change >= 0 ? '+' : ''}{formatCurrency(d.change, baseCurrency)} ({d.changePercent.toFixed(2)}%)
           </p>
         </div>
       );
@@ -59,7 +61,7 @@ const StockChart: React.FC<StockChartProps> = ({ data }) => {
         <BarChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 20 }}>
           <CartesianGrid strokeDasharray="3 3" stroke="#1f2a44" />
           <XAxis dataKey="name" tick={{ fontSize: 11, fill: '#9aa4b2' }} angle={-20} height={40} />
-          <YAxis tick={{ fontSize: 11, fill: '#9aa4b2' }} tickFormatter={(v) => `₹${(v / 1000).toFixed(0)}k`} />
+          <YAxis tick={{ fontSize: 11, fill: '#9aa4b2' }} tickFormatter={(v) => formatCompactCurrency(v, baseCurrency)} />
           <Tooltip content={<CustomTooltip />} />
           <Bar dataKey="value" fill="#16a34a" radius={[4, 4, 0, 0]} name="Total Value" />
         </BarChart>
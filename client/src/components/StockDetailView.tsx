@@ -0,0 +1,175 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { StockDetail } from "@/types/stockDetail";
+import StockPriceChart from "@/components/StockPriceChart";
+import EarningsHistory from "@/components/EarningsHistory";
+import { formatCompactCurrency, formatCurrency } from "@/lib/format";
+
+interface StockDetailViewProps {
+  symbol: string;
+  exchange?: string; // the listing to quote; the held or watched one when omitted
+}
+
+const compactNumber = (n: number) => new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 2 }).format(n);
+
+const StockDetailView: React.FC<StockDetailViewProps> = ({ symbol, exchange }) => {
+  const [detail, setDetail] = useState<StockDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/stock/${encodeURIComponent(symbol)}${exchange ? `?exchange=${exchange}` : ""}`, { cache: "no-store" })
+      .then(async (res) => {
+        const body = await res.json().catch(() => ({}));
+        if (cancelled) return;
+        if (res.ok) setDetail(body);
+        else setError(body.error || "Failed to load stock detail");
+      })
+      .catch(() => !cancelled && setError("Failed to load stock detail"));
+    return () => {
+      cancelled = true;
+    };
+  }, [symbol, exchange]);
+
+  if (error) return <p className="text-sm text-red-500">{error}</p>;
+  if (!detail) return <p className="text-sm text-gray-400">Loading {symbol}...</p>;
+
+  // Unlisted symbols have no stored currency; the backend quotes US listings by default
+  const currency = detail.currency || "USD";
+  const { quote, fundamentals } = detail;
+  const up = (quote?.change ?? 0) >= 0;
+  const heldShares = detail.positions.reduce((s, p) => s + p.shares, 0);
+
+  const tiles = [
+    { label: "Market cap", value: fundamentals?.marketCap ? formatCompactCurrency(fundamentals.marketCap, currency) : "—" },
+    { label: "P/E ratio", value: fundamentals?.peRatio ? fundamentals.peRatio.toFixed(2) : "—" },
+    { label: "EPS (TTM)", value: fundamentals?.eps !== null && fundamentals?.eps !== undefined ? formatCurrency(fundamentals.eps, currency) : "—" },
+    { label: "Volume", value: quote && Number.isFinite(quote.volume) ? compactNumber(quote.volume) : "—" },
+    { label: "Previous close", value: quote ? formatCurrency(quote.previousClose, currency) : "—" },
+  ];
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <p className="text-sm text-gray-400">
+            {[detail.symbol, detail.exchange, detail.sector].filter(Boolean).join(" · ")}
+          </p>
+          <h2 className="text-2xl font-semibold text-gray-100">{detail.companyName}</h2>
+        </div>
+        {quote && (
+          <div className="text-right">
+            <p className="text-3xl font-semibold text-gray-100">{formatCurrency(quote.currentPrice, currency)}</p>
+            <p className={`text-sm font-medium ${up ? "text-emerald-500" : "text-red-500"}`}>
+              {up ? "+" : ""}
+              {formatCurrency(quote.change, currency)} ({up ? "+" : ""}
+              {quote.changePercent.toFixed(2)}%)
+            </p>
+          </div>
+        )}
+      </div>
+
+      {detail.warnings.length > 0 && (
+        <ul className="text-xs text-amber-500 list-disc pl-5">
+          {detail.warnings.map((w) => (
+            <li key={w}>{w}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+        {tiles.map((t) => (
+          <div key={t.label} className="bg-[#0e1628] rounded-lg p-4">
+            <p className="text-xs text-gray-400">{t.label}</p>
+            <p className="text-xl font-semibold text-gray-100 mt-1">{t.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="card p-6">
+        <h3 className="text-lg font-semibold text-gray-100 mb-4">Price</h3>
+        <StockPriceChart symbol={detail.symbol} exchange={detail.exchange} currency={currency} positions={detail.positions} />
+      </div>
+
+      <div className="card p-6">
+        <h3 className="text-lg font-semibold text-gray-100 mb-4">Earnings</h3>
+        <EarningsHistory quarters={detail.earnings} currency={currency} />
+      </div>
+
+      <div className="card p-6">
+        <h3 className="text-lg font-semibold text-gray-100 mb-4">
+          Your lots{heldShares > 0 && <span className="ml-2 text-sm font-normal text-gray-400">{heldShares.toLocaleString()} shares</span>}
+        </h3>
+        {detail.positions.length === 0 ? (
+          <p className="text-sm text-gray-400">You do not hold {detail.symbol} in any portfolio.</p>
+        ) : (
+          <div className="space-y-6">
+            {detail.positions.map((p) => (
+              <div key={p.portfolioId} className="overflow-x-auto">
+                <div className="flex flex-wrap gap-4 text-xs text-gray-300 mb-2">
+                  <span className="text-sm font-semibold text-gray-200">{p.portfolioName}</span>
+                  <span>
+                    Avg cost <strong className="text-gray-100">{formatCurrency(p.averageCost, currency)}</strong>
+                  </span>
+                  <span>
+                    FIFO cost <strong className="text-gray-100">{formatCurrency(p.fifoCost, currency)}</strong>
+                  </span>
+                  {p.realizedGainLoss !== 0 && (
+                    <span>
+                      Realized{" "}
+                      <strong className={p.realizedGainLoss >= 0 ? "text-emerald-500" : "text-red-500"}>
+                        {formatCurrency(p.realizedGainLoss, currency)}
+                      </strong>
+                    </span>
+                  )}
+                  {p.dividendIncome > 0 && (
+                    <span>
+                      Dividends <strong className="text-gray-100">{formatCurrency(p.dividendIncome, currency)}</strong>
+                    </span>
+                  )}
+                </div>
+                <table className="w-full text-sm divide-y divide-white/5">
+                  <thead>
+                    <tr className="text-left text-[11px] uppercase tracking-wider text-gray-400">
+                      <th className="py-2">Bought</th>
+                      <th className="py-2 text-right">Qty</th>
+                      <th className="py-2 text-right">Cost / share</th>
+                      <th className="py-2 text-right">Cost</th>
+                      <th className="py-2 text-right">Value</th>
+                      <th className="py-2 text-right">Gain / Loss</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/5">
+                    {p.lots.map((l, i) => {
+                      const cost = l.quantity * l.costPerShare;
+                      const value = quote ? l.quantity * quote.currentPrice : null;
+                      return (
+                        <tr key={`${l.date}-${i}`} className="text-gray-300">
+                          <td className="py-2">{l.date ? new Date(l.date).toLocaleDateString() : "Unknown"}</td>
+                          <td className="py-2 text-right">{l.quantity.toLocaleString()}</td>
+                          <td className="py-2 text-right">{formatCurrency(l.costPerShare, currency)}</td>
+                          <td className="py-2 text-right">{formatCurrency(cost, currency, 0)}</td>
+                          <td className="py-2 text-right">{value === null ? "—" : formatCurrency(value, currency, 0)}</td>
+                          <td
+                            className={`py-2 text-right ${
+                              value === null ? "" : value >= cost ? "text-emerald-500" : "text-red-500"
+                            }`}
+                          >
+                            {value === null ? "—" : formatCurrency(value - cost, currency, 0)}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StockDetailView;
@@ -0,0 +1,183 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { ComposedChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, ReferenceDot } from 'recharts';
+import { PriceRange, StockPosition, StockPriceHistory } from '@/types/stockDetail';
+import { formatCurrency } from '@/lib/format';
+
+interface StockPriceChartProps {
+  symbol: string;
+  exchange: string | null;
+  currency: string;
+  positions: StockPosition[]; // purchase prices and lot dates are marked on the chart
+}
+
+const RANGES: PriceRange[] = ['1D', '5D', '1M', '6M', '1Y', '5Y'];
+
+const COST_COLORS = ['#f59e0b', '#38bdf8', '#a78bfa', '#f472b6'];
+
+const StockPriceChart: React.FC<StockPriceChartProps> = ({ symbol, exchange, currency, positions }) => {
+  const [range, setRange] = useState<PriceRange>('1Y');
+  const [history, setHistory] = useState<StockPriceHistory | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetch(`/api/stock/${encodeURIComponent(symbol)}/history?range=${range}${exchange ? `&exchange=${exchange}` : ''}`, { cache: 'no-store' })
+      .then(async (res) => {
+        const body = await res.json().catch(() => ({}));
+        if (cancelled) return;
+        if (res.ok) {
+          setHistory(body);
+          setError(null);
+        } else {
+          setHistory(null);
+          setError(body.error || 'Failed to load price history');
+        }
+      })
+      .catch(() => !cancelled && setError('Failed to load price history'))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [symbol, exchange, range]);
+
+  const chartData = useMemo(
+    () => (history?.points || []).map((p) => ({ time: Date.parse(p.time), close: p.close, volume: p.volume })),
+    [history]
+  );
+
+  const first = chartData[0]?.time ?? 0;
+  const last = chartData[chartData.length - 1]?.time ?? 0;
+  const costs = positions.filter((p) => p.shares > 0);
+  // Lots bought inside the window, at their cost; bonus lots cost nothing and would flatten the scale
+  const lotMarks = costs.flatMap((p) =>
+    p.lots
+      .filter((l) => l.date && l.costPerShare > 0)
+      .map((l) => ({ time: Date.parse(l.date!), cost: l.costPerShare }))
+      .filter((l) => l.time >= first && l.time <= last)
+  );
+
+  // Keep the purchase prices in view even when the stock has moved far from them
+  const marked = [...chartData.map((d) => d.close), ...costs.map((p) => p.fifoCost), ...lotMarks.map((l) => l.cost)];
+  const low = Math.min(...marked);
+  const high = Math.max(...marked);
+  const pad = (high - low) * 0.05 || high * 0.05;
+  const domain = [Math.max(0, low - pad), high + pad];
+
+  const intraday = history?.interval.endsWith('m') ?? false;
+  const formatTick = (t: number) =>
+    intraday
+      ? new Date(t).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+      : new Date(t).toLocaleDateString([], range === '5Y' ? { month: 'short', year: '2-digit' } : { day: 'numeric', month: 'short' });
+
+  const change = chartData.length > 1 ? (chartData[chartData.length - 1].close / chartData[0].close - 1) * 100 : null;
+  const up = (change ?? 0) >= 0;
+
+  const CustomTooltip = ({ active, payload }: {
+    active?: boolean;
+    payload?: Array<{ payload: { time: number; close: number; volume: number } }>;
+  }) => {
+    if (active && payload && payload.length) {
+      const d = payload[0].payload;
+      return (
+        <div className="bg-[#0e1628] text-gray-100 p-3 border border-white/10 rounded-lg shadow-lg">
+          <p className="text-xs text-gray-400">{intraday ? new Date(d.time).toLocaleString() : new Date(d.time).toLocaleDateString()}</p>
+          <p className="text-gray-300">Close: {formatCurrency(d.close, currency)}</p>
+          {d.volume > 0 && <p className="text-gray-300">Volume: {d.volume.toLocaleString()}</p>}
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2 text-xs">
+        <span className="text-gray-400">
+          {change !== null && (
+            <span className={up ? 'text-emerald-500' : 'text-red-500'}>
+              {up ? '+' : ''}
+              {change.toFixed(2)}% over {range}
+            </span>
+          )}
+          {history && <span className="ml-2 text-gray-500">{history.interval} bars</span>}
+        </span>
+        <div className="flex gap-1">
+          {RANGES.map((r) => (
+            <button
+              key={r}
+              onClick={() => setRange(r)}
+              className={`px-2 py-1 rounded-md ${range === r ? 'bg-emerald-600 text-white' : 'text-gray-400 hover:text-white'}`}
+            >
+              {r}
+            </button>
+          ))}
+        </div>
+      </div>
+      {error ? (
+        <div className="h-72 flex items-center justify-center text-gray-500 text-sm">{error}</div>
+      ) : chartData.length < 2 ? (
+        <div className="h-72 flex items-center justify-center text-gray-500 text-sm">
+          {loading ? 'Loading price history...' : 'Not enough price history for this range.'}
+        </div>
+      ) : (
+        <div className={`h-72 ${loading ? 'opacity-60' : ''}`}>
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+              <defs>
+                <linearGradient id="stockPrice" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor={up ? '#16a34a' : '#dc2626'} stopOpacity={0.4} />
+                  <stop offset="95%" stopColor={up ? '#16a34a' : '#dc2626'} stopOpacity={0} />
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1f2a44" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={formatTick}
+                tick={{ fontSize: 11, fill: '#9aa4b2' }}
+              />
+              <YAxis
+                tick={{ fontSize: 11, fill: '#9aa4b2' }}
+                tickFormatter={(v) => formatCurrency(v, currency, 0)}
+                domain={domain}
+                allowDataOverflow
+              />
+              <Tooltip content={<CustomTooltip />} />
+              <Area type="monotone" dataKey="close" stroke={up ? '#16a34a' : '#dc2626'} fill="url(#stockPrice)" name="Close" />
+              {costs.map((p, i) => (
+                <ReferenceLine
+                  key={p.portfolioId}
+                  y={p.fifoCost}
+                  stroke={COST_COLORS[i % COST_COLORS.length]}
+                  strokeDasharray="4 4"
+                  label={{
+                    value: `${costs.length > 1 ? `${p.portfolioName}: ` : ''}bought at ${formatCurrency(p.fifoCost, currency)}`,
+                    position: 'insideTopLeft',
+                    fill: COST_COLORS[i % COST_COLORS.length],
+                    fontSize: 11,
+                  }}
+                />
+              ))}
+              {lotMarks.map((l, i) => (
+                <ReferenceDot key={`${l.time}-${i}`} x={l.time} y={l.cost} r={4} fill="#f59e0b" stroke="#0b1220" />
+              ))}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+      {costs.length > 0 && (
+        <p className="mt-2 text-xs text-gray-500">
+          Dashed line: FIFO purchase price of the shares you hold. Dots: lots bought within the range, at their cost.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default StockPriceChart;
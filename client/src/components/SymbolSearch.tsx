@@ -0,0 +1,88 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Instrument } from "@/types/instrument";
+
+interface SymbolSearchProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSelect: (instrument: Instrument) => void; // fills the rest of the form from the instrument master
+  disabled?: boolean;
+  className?: string;
+}
+
+const SEARCH_DELAY_MS = 250;
+
+// Symbol input that suggests listings by symbol, company name or ISIN as you type
+const SymbolSearch: React.FC<SymbolSearchProps> = ({ value, onChange, onSelect, disabled, className }) => {
+  const [results, setResults] = useState<Instrument[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    const query = value.trim();
+    if (!open || query.length < 2) {
+      setResults([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      fetch(`/api/instruments/search?q=${encodeURIComponent(query)}`, { cache: "no-store" })
+        .then((res) => (res.ok ? res.json() : { results: [] }))
+        .then((body) => !cancelled && setResults(body.results || []))
+        .catch(() => !cancelled && setResults([]));
+    }, SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [value, open]);
+
+  const pick = (instrument: Instrument) => {
+    onSelect(instrument);
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <input
+        value={value}
+        disabled={disabled}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+        }}
+        onBlur={() => setOpen(false)}
+        onKeyDown={(e) => e.key === "Escape" && setOpen(false)}
+        placeholder="Symbol, name or ISIN"
+        autoComplete="off"
+        className={className}
+      />
+      {open && results.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-72 max-h-64 overflow-y-auto bg-[#0e1628] border border-white/10 rounded-md shadow-lg">
+          {results.map((r) => (
+            <li key={`${r.symbol}:${r.exchange}`}>
+              <button
+                type="button"
+                // mousedown beats the input's blur, which would close the list before the click lands
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  pick(r);
+                }}
+                className="w-full text-left px-3 py-2 hover:bg-white/5"
+              >
+                <span className="text-sm font-medium text-gray-100">{r.symbol}</span>
+                <span className="ml-2 badge">{r.exchange}</span>
+                <span className="block text-xs text-gray-400 truncate">
+                  {r.name}
+                  {r.isin && ` · ${r.isin}`}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SymbolSearch;
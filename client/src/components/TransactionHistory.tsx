@@ -0,0 +1,182 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { CorporateAction, LedgerStep, Position, Transaction, TransactionType } from "@/types/ledger";
+import { describeCorporateAction } from "@/lib/ledger";
+import { formatCurrency as formatAmount } from "@/lib/format";
+
+interface TransactionHistoryProps {
+  portfolioId: string;
+  symbol: string;
+  currency: string; // ledger amounts are in the holding's native currency
+  onChange?: () => void;
+}
+
+interface LedgerResponse {
+  symbol: string;
+  transactions: Transaction[];
+  actions: CorporateAction[];
+  position: Position;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const inputClass =
+  "w-full bg-[#0b1220] text-gray-100 border border-white/10 rounded-md px-2 py-1.5 focus:outline-none focus:border-emerald-600";
+
+const pnlClass = (v: number) => (v >= 0 ? "text-emerald-500" : "text-red-500");
+
+const TransactionHistory: React.FC<TransactionHistoryProps> = ({ portfolioId, symbol, currency, onChange }) => {
+  const formatCurrency = (value: number) => formatAmount(value, currency);
+  const [ledger, setLedger] = useState<LedgerResponse | null>(null);
+  const [form, setForm] = useState({ type: "buy" as TransactionType, date: today(), quantity: "", price: "", fees: "" });
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const load = useCallback(async () => {
+    const response = await fetch(
+      `/api/portfolio/transactions?portfolio=${portfolioId}&symbol=${encodeURIComponent(symbol)}`,
+      { cache: "no-store" }
+    );
+    if (response.ok) setLedger(await response.json());
+  }, [portfolioId, symbol]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const afterMutation = async () => {
+    await load();
+    onChange?.();
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors([]);
+    const response = await fetch(`/api/portfolio/transactions?portfolio=${portfolioId}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...form, symbol }),
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      setErrors(body.details || [body.error || "Failed to record transaction"]);
+      return;
+    }
+    setForm({ ...form, quantity: "", price: "", fees: "" });
+    await afterMutation();
+  };
+
+  const remove = async (id: string) => {
+    setErrors([]);
+    const response = await fetch(`/api/portfolio/transactions/${id}?portfolio=${portfolioId}`, { method: "DELETE" });
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      setErrors([body.error || "Failed to delete transaction"]);
+      return;
+    }
+    await afterMutation();
+  };
+
+  if (!ledger) return <p className="text-xs text-gray-500">Loading history...</p>;
+
+  const { position } = ledger;
+  const describe = (step: LedgerStep) => {
+    if (step.transaction) return `${step.transaction.type.toUpperCase()} ${step.transaction.quantity} @ ${formatCurrency(step.transaction.price)}`;
+    if (!step.action) return "Opening position";
+    const flow = position.actionCashFlows.find((f) => f.actionId === step.action!.id);
+    const label = describeCorporateAction(step.action, formatCurrency);
+    return flow ? `${label} → ${formatCurrency(flow.amount)}` : label;
+  };
+
+  return (
+    <div className="space-y-4 text-xs text-gray-300">
+      <div className="flex flex-wrap gap-6">
+        <span>
+          Shares: <strong className="text-gray-100">{position.shares.toLocaleString()}</strong>
+        </span>
+        <span>
+          FIFO cost: <strong className="text-gray-100">{formatCurrency(position.fifoInvestment)}</strong>
+        </span>
+        <span>
+          Avg cost/share: <strong className="text-gray-100">{formatCurrency(position.averageCost)}</strong>
+        </span>
+        <span>
+          Realized (FIFO): <strong className={pnlClass(position.realizedFifo)}>{formatCurrency(position.realizedFifo)}</strong>
+        </span>
+        <span>
+          Realized (avg): <strong className={pnlClass(position.realizedAverage)}>{formatCurrency(position.realizedAverage)}</strong>
+        </span>
+        {position.dividendIncome > 0 && (
+          <span>
+            Dividends: <strong className="text-emerald-500">{formatCurrency(position.dividendIncome)}</strong>
+          </span>
+        )}
+      </div>
+
+      <table className="w-full divide-y divide-white/5">
+        <thead>
+          <tr className="text-left text-[10px] uppercase tracking-wider text-gray-400">
+            <th className="py-1.5">Date</th>
+            <th className="py-1.5">Entry</th>
+            <th className="py-1.5">Fees</th>
+            <th className="py-1.5">Shares after</th>
+            <th className="py-1.5">Avg cost</th>
+            <th className="py-1.5">FIFO cost</th>
+            <th className="py-1.5">Realized FIFO</th>
+            <th className="py-1.5">Realized avg</th>
+            <th className="py-1.5"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-white/5">
+          {position.steps.map((step, i) => (
+            <tr key={step.transaction?.id || step.action?.id || `opening-${i}`}>
+              <td className="py-1.5">{step.transaction?.date || step.action?.exDate || "—"}</td>
+              <td className="py-1.5 text-gray-100">{describe(step)}</td>
+              <td className="py-1.5">{step.transaction ? formatCurrency(step.transaction.fees) : "—"}</td>
+              <td className="py-1.5">{step.shares.toLocaleString()}</td>
+              <td className="py-1.5">{formatCurrency(step.averageCost)}</td>
+              <td className="py-1.5">{formatCurrency(step.fifoCost)}</td>
+              <td className={`py-1.5 ${pnlClass(step.realizedFifo)}`}>{step.realizedFifo ? formatCurrency(step.realizedFifo) : "—"}</td>
+              <td className={`py-1.5 ${pnlClass(step.realizedAverage)}`}>{step.realizedAverage ? formatCurrency(step.realizedAverage) : "—"}</td>
+              <td className="py-1.5 text-right">
+                {step.transaction && (
+                  <button onClick={() => remove(step.transaction!.id)} className="text-red-500 hover:text-red-400">
+                    Delete
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <form onSubmit={submit} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+        <select
+          value={form.type}
+          onChange={(e) => setForm({ ...form, type: e.target.value as TransactionType })}
+          className={inputClass}
+        >
+          <option value="buy">Buy</option>
+          <option value="sell">Sell</option>
+        </select>
+        <input type="date" value={form.date} max={today()} onChange={(e) => setForm({ ...form, date: e.target.value })} className={inputClass} />
+        <input type="number" step="any" placeholder="Qty" value={form.quantity} onChange={(e) => setForm({ ...form, quantity: e.target.value })} className={inputClass} />
+        <input type="number" step="any" placeholder="Price" value={form.price} onChange={(e) => setForm({ ...form, price: e.target.value })} className={inputClass} />
+        <input type="number" step="any" placeholder="Fees" value={form.fees} onChange={(e) => setForm({ ...form, fees: e.target.value })} className={inputClass} />
+        <button type="submit" className="bg-emerald-600 hover:bg-emerald-500 text-white font-medium px-3 py-1.5 rounded-md">
+          Record
+        </button>
+      </form>
+
+      {errors.length > 0 && (
+        <ul className="text-red-500 list-disc pl-5">
+          {errors.map((err) => (
+            <li key={err}>{err}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TransactionHistory;
@@ -0,0 +1,35 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Account } from "@/types/user";
+
+// Signed-in account and sign-out in the header; renders nothing while signed out
+const UserMenu: React.FC = () => {
+  const [account, setAccount] = useState<Account | null>(null);
+
+  useEffect(() => {
+    fetch("/api/auth/me", { cache: "no-store" })
+      .then((res) => (res.ok ? res.json() : null))
+      .then(setAccount)
+      .catch(() => setAccount(null));
+  }, []);
+
+  const signOut = async () => {
+    await fetch("/api/auth/logout", { method: "POST" });
+    window.location.assign("/login");
+  };
+
+  if (!account) return null;
+  return (
+    <div className="flex items-center gap-3 text-xs">
+      <span className="text-gray-300" title={account.username}>
+        {account.name}
+      </span>
+      <button type="button" onClick={signOut} className="text-gray-400 hover:text-white">
+        Sign out
+      </button>
+    </div>
+  );
+};
+
+export default UserMenu;
@@ -0,0 +1,329 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { WatchlistRow } from "@/types/watchlist";
+import { formatCurrency } from "@/lib/format";
+import { AGGREGATE_PORTFOLIO_ID } from "@/lib/portfolioIds";
+import SymbolSearch from "@/components/SymbolSearch";
+
+interface WatchlistProps {
+  portfolioId: string; // where "Buy" opens the holding
+  refreshToken?: number; // changes after each dashboard refresh so quotes stay in step with holdings
+  onConverted?: () => void;
+}
+
+const emptyForm = { symbol: "", exchange: "NSE", companyName: "", sector: "", targetPrice: "" };
+
+interface ConvertForm {
+  symbol: string;
+  shares: string;
+  purchasePrice: string;
+  purchaseDate: string;
+}
+
+const inputClass =
+  "w-full bg-[#0b1220] text-gray-100 placeholder:text-gray-500 border border-white/10 rounded-md px-3 py-2 focus:outline-none focus:border-emerald-600";
+
+const smallInputClass =
+  "w-24 bg-[#0b1220] text-gray-100 border border-white/10 rounded-md px-2 py-1 focus:outline-none focus:border-emerald-600";
+
+const Watchlist: React.FC<WatchlistProps> = ({ portfolioId, refreshToken = 0, onConverted }) => {
+  const [rows, setRows] = useState<WatchlistRow[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  const [converting, setConverting] = useState<ConvertForm | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const aggregate = portfolioId === AGGREGATE_PORTFOLIO_ID;
+
+  const load = useCallback(async () => {
+    const response = await fetch("/api/portfolio/watchlist", { cache: "no-store" });
+    if (!response.ok) return;
+    const list: WatchlistRow[] = await response.json();
+    setRows(list);
+    setTargets(Object.fromEntries(list.map((r) => [r.symbol, r.targetPrice === null ? "" : String(r.targetPrice)])));
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshToken]);
+
+  const fail = async (response: Response, fallback: string) => {
+    const body = await response.json().catch(() => ({}));
+    setErrors(body.details || [body.error || fallback]);
+  };
+
+  const add = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setErrors([]);
+    try {
+      const response = await fetch("/api/portfolio/watchlist", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      if (!response.ok) return fail(response, "Failed to add to watchlist");
+      setForm(emptyForm);
+      await load();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveTarget = async (row: WatchlistRow) => {
+    const value = targets[row.symbol] ?? "";
+    if (value === (row.targetPrice === null ? "" : String(row.targetPrice))) return;
+    setErrors([]);
+    const response = await fetch(`/api/portfolio/watchlist/${encodeURIComponent(row.symbol)}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ targetPrice: value }),
+    });
+    if (!response.ok) return fail(response, `Failed to update ${row.symbol}`);
+    await load();
+  };
+
+  const remove = async (symbol: string) => {
+    setErrors([]);
+    const response = await fetch(`/api/portfolio/watchlist/${encodeURIComponent(symbol)}`, { method: "DELETE" });
+    if (!response.ok) return fail(response, `Failed to remove ${symbol}`);
+    if (converting?.symbol === symbol) setConverting(null);
+    await load();
+  };
+
+  const startConvert = (row: WatchlistRow) => {
+    setErrors([]);
+    setConverting({
+      symbol: row.symbol,
+      shares: "",
+      purchasePrice: row.currentPrice === null ? "" : String(row.currentPrice),
+      purchaseDate: new Date().toISOString().slice(0, 10),
+    });
+  };
+
+  const convert = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!converting) return;
+    setSaving(true);
+    setErrors([]);
+    try {
+      const response = await fetch(
+        `/api/portfolio/watchlist/${encodeURIComponent(converting.symbol)}/convert?portfolio=${portfolioId}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(converting),
+        }
+      );
+      if (!response.ok) return fail(response, `Failed to buy ${converting.symbol}`);
+      setConverting(null);
+      await load();
+      onConverted?.();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const price = (value: number | null, currency: string) =>
+    value === null ? <span className="text-gray-500">—</span> : formatCurrency(value, currency);
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={add} className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Symbol</span>
+          <SymbolSearch
+            value={form.symbol}
+            onChange={(symbol) => setForm({ ...form, symbol })}
+            onSelect={(i) => setForm({ ...form, symbol: i.symbol, exchange: i.exchange, companyName: i.name, sector: i.sector })}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Exchange</span>
+          <input value={form.exchange} onChange={(e) => setForm({ ...form, exchange: e.target.value })} className={inputClass} />
+        </label>
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Company (optional)</span>
+          <input
+            value={form.companyName}
+            onChange={(e) => setForm({ ...form, companyName: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Sector (optional)</span>
+          <input value={form.sector} onChange={(e) => setForm({ ...form, sector: e.target.value })} className={inputClass} />
+        </label>
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Target buy price</span>
+          <input
+            type="number"
+            step="any"
+            value={form.targetPrice}
+            onChange={(e) => setForm({ ...form, targetPrice: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={saving}
+          className="bg-emerald-600 hover:bg-emerald-500 text-white font-medium px-4 py-2 rounded-md disabled:opacity-50"
+        >
+          Watch
+        </button>
+      </form>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-500 list-disc pl-5">
+          {errors.map((err) => (
+            <li key={err}>{err}</li>
+          ))}
+        </ul>
+      )}
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-400">Nothing on the watchlist yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm divide-y divide-white/5">
+            <thead>
+              <tr className="text-left text-[11px] uppercase tracking-wider text-gray-400">
+                <th className="py-2">Stock</th>
+                <th className="py-2 text-right">CMP</th>
+                <th className="py-2 text-right">Change</th>
+                <th className="py-2 text-right">P/E</th>
+                <th className="py-2">Latest Earnings</th>
+                <th className="py-2">Target</th>
+                <th className="py-2 text-right">vs Target</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {rows.map((r) => (
+                <tr key={r.symbol} className="text-gray-300 align-top">
+                  <td className="py-2">
+                    <div className="font-medium text-gray-100">{r.symbol}</div>
+                    <div className="text-xs text-gray-500">
+                      {r.companyName} · {r.exchange}
+                    </div>
+                  </td>
+                  <td className="py-2 text-right" title={r.meta.fields.cmp.error}>
+                    {price(r.currentPrice, r.currency)}
+                    {r.meta.status !== "live" && <span className="badge ml-2">{r.meta.status}</span>}
+                  </td>
+                  <td className="py-2 text-right">
+                    {r.change === null || r.changePercent === null ? (
+                      <span className="text-gray-500">—</span>
+                    ) : (
+                      <span className={r.change >= 0 ? "text-emerald-500" : "text-red-500"}>
+                        {r.change >= 0 ? "+" : ""}
+                        {r.change.toFixed(2)} ({r.changePercent.toFixed(2)}%)
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-2 text-right">{r.peRatio === null ? "—" : r.peRatio.toFixed(2)}</td>
+                  <td className="py-2">
+                    {r.latestEarnings?.date ? (
+                      <>
+                        {r.latestEarnings.date}
+                        {Number.isFinite(r.latestEarnings.eps) && (
+                          <span className="text-xs text-gray-500"> · EPS {r.latestEarnings.eps.toFixed(2)}</span>
+                        )}
+                      </>
+                    ) : (
+                      "—"
+                    )}
+                  </td>
+                  <td className="py-2">
+                    <input
+                      type="number"
+                      step="any"
+                      value={targets[r.symbol] ?? ""}
+                      placeholder="None"
+                      onChange={(e) => setTargets({ ...targets, [r.symbol]: e.target.value })}
+                      onBlur={() => saveTarget(r)}
+                      onKeyDown={(e) => e.key === "Enter" && saveTarget(r)}
+                      className={smallInputClass}
+                    />
+                  </td>
+                  <td className="py-2 text-right">
+                    {r.atTarget ? (
+                      <span className="badge text-emerald-500">At target</span>
+                    ) : r.targetGapPercent === null ? (
+                      <span className="text-gray-500">—</span>
+                    ) : (
+                      <span className="text-gray-400">+{r.targetGapPercent.toFixed(2)}%</span>
+                    )}
+                  </td>
+                  <td className="py-2 text-right space-x-3 whitespace-nowrap">
+                    <button
+                      onClick={() => startConvert(r)}
+                      disabled={aggregate}
+                      title={aggregate ? "Pick a single portfolio to buy into" : undefined}
+                      className="text-emerald-500 hover:text-emerald-400 disabled:opacity-50"
+                    >
+                      Buy
+                    </button>
+                    <button onClick={() => remove(r.symbol)} className="text-red-500 hover:text-red-400">
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {converting && (
+        <form onSubmit={convert} className="flex flex-wrap items-end gap-3 text-xs text-gray-400">
+          <span className="text-sm text-gray-100 font-medium pb-2">Buy {converting.symbol}</span>
+          <label className="space-y-1">
+            <span className="block">Qty</span>
+            <input
+              autoFocus
+              type="number"
+              step="1"
+              value={converting.shares}
+              onChange={(e) => setConverting({ ...converting, shares: e.target.value })}
+              className={smallInputClass}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="block">Price</span>
+            <input
+              type="number"
+              step="any"
+              value={converting.purchasePrice}
+              onChange={(e) => setConverting({ ...converting, purchasePrice: e.target.value })}
+              className={smallInputClass}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="block">Date</span>
+            <input
+              type="date"
+              value={converting.purchaseDate}
+              onChange={(e) => setConverting({ ...converting, purchaseDate: e.target.value })}
+              className={smallInputClass.replace("w-24", "w-36")}
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={saving}
+            className="bg-emerald-600 hover:bg-emerald-500 text-white font-medium px-3 py-1.5 rounded-md disabled:opacity-50"
+          >
+            Add to holdings
+          </button>
+          <button type="button" onClick={() => setConverting(null)} className="text-sm text-gray-300 hover:text-white px-2 py-1.5">
+            Cancel
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default Watchlist;
@@ -0,0 +1,44 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { AllocationTargets } from "@/types/allocation";
+import { AGGREGATE_PORTFOLIO_ID } from "@/lib/portfolioIds";
+
+/**
+ * Target weights for a portfolio, or null in the combined view where each portfolio keeps its own.
+ * `save` replaces the whole document and resolves to the validation errors, if any.
+ */
+export function useAllocationTargets(portfolioId: string) {
+  const [targets, setTargets] = useState<AllocationTargets | null>(null);
+  const aggregate = portfolioId === AGGREGATE_PORTFOLIO_ID;
+
+  useEffect(() => {
+    let cancelled = false;
+    setTargets(null);
+    if (aggregate) return;
+    fetch(`/api/portfolio/targets?portfolio=${portfolioId}`, { cache: "no-store" })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((body) => !cancelled && setTargets(body))
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [portfolioId, aggregate]);
+
+  const save = useCallback(
+    async (next: AllocationTargets): Promise<string[]> => {
+      const response = await fetch(`/api/portfolio/targets?portfolio=${portfolioId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(next),
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) return body.details || [body.error || "Failed to save targets"];
+      setTargets(body);
+      return [];
+    },
+    [portfolioId]
+  );
+
+  return { targets, save };
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { BenchmarkComparison, BenchmarkIndex, PerformanceRange } from "@/types/benchmark";
+
+const BENCHMARK_KEY = "portfolio.benchmark";
+
+// Home-market index for the base currency until the user picks one
+const defaultIndexFor = (baseCurrency: string) => (baseCurrency === "INR" ? "NIFTY50" : "SP500");
+
+/**
+ * Portfolio vs benchmark over a range, refetched when the index, range, base currency, portfolio
+ * or `version` changes. Not tied to live ticks: it rebuilds a whole price history per holding.
+ */
+export function useBenchmarkComparison(baseCurrency: string, portfolioId: string, version = 0) {
+  const [indices, setIndices] = useState<BenchmarkIndex[]>([]);
+  const [index, setIndex] = useState<string | null>(null);
+  const [range, setRange] = useState<PerformanceRange>("1Y");
+  const [comparison, setComparison] = useState<BenchmarkComparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/portfolio/benchmark/indices", { cache: "no-store" })
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setIndices)
+      .catch(() => undefined);
+    setIndex(window.localStorage.getItem(BENCHMARK_KEY));
+  }, []);
+
+  const selected = index || defaultIndexFor(baseCurrency);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetch(`/api/portfolio/benchmark?index=${selected}&range=${range}&base=${baseCurrency}&portfolio=${portfolioId}`, {
+      cache: "no-store",
+    })
+      .then(async (res) => {
+        const body = await res.json().catch(() => ({}));
+        if (cancelled) return;
+        if (res.ok) {
+          setComparison(body);
+          setError(null);
+        } else {
+          setComparison(null);
+          setError(body.error || "Failed to load benchmark");
+        }
+      })
+      .catch(() => !cancelled && setError("Failed to load benchmark"))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [selected, range, baseCurrency, portfolioId, version]);
+
+  const changeIndex = (next: string) => {
+    window.localStorage.setItem(BENCHMARK_KEY, next);
+    setIndex(next);
+  };
+
+  return { indices, index: selected, setIndex: changeIndex, range, setRange, comparison, loading, error };
+}
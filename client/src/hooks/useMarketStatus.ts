@@ -0,0 +1,43 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { MarketStatus } from "@/types/market";
+import { untilNextChange } from "@/lib/marketHours";
+
+const MAX_AGE_MS = 5 * 60 * 1000;
+const RETRY_MS = 60 * 1000;
+
+/** Market states from the exchange calendar, reloaded when the next one changes (and every five minutes regardless). */
+export function useMarketStatus() {
+  const [markets, setMarkets] = useState<MarketStatus[]>([]);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let disposed = false;
+
+    const load = async () => {
+      let wait = RETRY_MS;
+      try {
+        const response = await fetch("/api/market-status", { cache: "no-store" });
+        if (response.ok) {
+          const body = await response.json();
+          if (disposed) return;
+          setMarkets(body.markets);
+          // A second past the change so the backend already reports the new state
+          wait = Math.max(1000, Math.min(MAX_AGE_MS, untilNextChange(body.markets) + 1000));
+        }
+      } catch {
+        // keep the last known states and try again shortly
+      }
+      if (!disposed) timer = setTimeout(load, wait);
+    };
+
+    load();
+    return () => {
+      disposed = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, []);
+
+  return markets;
+}
@@ -0,0 +1,144 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { StockData } from "@/types/stock";
+import { PortfolioDiff } from "@/types/stream";
+import { MarketStatus } from "@/types/market";
+import { refreshDelay } from "@/lib/marketHours";
+import { rowKey } from "@/lib/portfolioView";
+
+export type FeedMode = "connecting" | "live" | "polling";
+
+const POLL_INTERVAL_MS = 15000;
+const IDLE_POLL_INTERVAL_MS = 5 * 60 * 1000; // while every market the portfolio trades on is closed
+const MAX_BACKOFF_MS = 30000;
+const HIGHLIGHT_MS = 1500;
+
+function applyDiff(rows: StockData[], diff: PortfolioDiff): StockData[] {
+  const byKey = new Map(rows.map((r) => [rowKey(r), r]));
+  for (const key of diff.removed) byKey.delete(key);
+  for (const row of diff.added) byKey.set(rowKey(row), row);
+  for (const { key, changes } of diff.updated) {
+    const row = byKey.get(key);
+    if (row) byKey.set(key, { ...row, ...changes });
+  }
+  return diff.order.map((k) => byKey.get(k)).filter((r): r is StockData => !!r);
+}
+
+/**
+ * Live portfolio rows over SSE (/api/portfolio/stream) with exponential
+ * reconnect backoff. While the stream is down, or when EventSource is not
+ * available, rows are polled from /api/portfolio/:id instead, every 15 seconds
+ * while one of the holdings' markets is open and every five minutes otherwise.
+ */
+export function usePortfolioFeed(baseCurrency: string, portfolioId: string, markets: MarketStatus[] = []) {
+  const [rows, setRows] = useState<StockData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<FeedMode>("connecting");
+  const [lastUpdated, setLastUpdated] = useState(0);
+  // row key -> fields changed by the latest diff, cleared after a short flash
+  const [highlights, setHighlights] = useState<Record<string, string[]>>({});
+  const highlightTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Read by the polling loop on each round, so market changes apply without reconnecting
+  const pollDelay = useRef(POLL_INTERVAL_MS);
+
+  useEffect(() => {
+    pollDelay.current = refreshDelay(markets, rows.map((r) => r.exchange), POLL_INTERVAL_MS, IDLE_POLL_INTERVAL_MS);
+  }, [markets, rows]);
+
+  const fetchOnce = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/portfolio/${portfolioId}?base=${baseCurrency}`, {
+        cache: "no-store",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to fetch portfolio data");
+      }
+      setRows(await response.json());
+      setLastUpdated(Date.now());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [baseCurrency, portfolioId]);
+
+  useEffect(() => {
+    let source: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let pollTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempt = 0;
+    let disposed = false;
+
+    const poll = async () => {
+      await fetchOnce();
+      if (pollTimer) pollTimer = setTimeout(poll, pollDelay.current);
+    };
+
+    const startPolling = () => {
+      if (pollTimer) return;
+      setMode("polling");
+      pollTimer = setTimeout(poll, 0);
+    };
+
+    const stopPolling = () => {
+      if (pollTimer) clearTimeout(pollTimer);
+      pollTimer = null;
+    };
+
+    const connect = () => {
+      if (disposed) return;
+      source = new EventSource(`/api/portfolio/stream?base=${baseCurrency}&portfolio=${portfolioId}`);
+
+      source.addEventListener("snapshot", (e) => {
+        attempt = 0;
+        stopPolling();
+        setMode("live");
+        setRows(JSON.parse((e as MessageEvent).data));
+        setLastUpdated(Date.now());
+        setError(null);
+        setLoading(false);
+      });
+
+      source.addEventListener("diff", (e) => {
+        const diff: PortfolioDiff = JSON.parse((e as MessageEvent).data);
+        setRows((prev) => applyDiff(prev, diff));
+        setLastUpdated(Date.now());
+        const changed: Record<string, string[]> = {};
+        for (const { key, changes } of diff.updated) changed[key] = Object.keys(changes);
+        setHighlights(changed);
+        if (highlightTimer.current) clearTimeout(highlightTimer.current);
+        highlightTimer.current = setTimeout(() => setHighlights({}), HIGHLIGHT_MS);
+      });
+
+      source.addEventListener("failure", (e) => {
+        setError(JSON.parse((e as MessageEvent).data).message);
+      });
+
+      source.addEventListener("error", () => {
+        source?.close();
+        source = null;
+        startPolling();
+        const backoff = Math.min(1000 * 2 ** attempt, MAX_BACKOFF_MS);
+        attempt += 1;
+        reconnectTimer = setTimeout(connect, backoff);
+      });
+    };
+
+    setLoading(true);
+    if (typeof EventSource === "undefined") startPolling();
+    else connect();
+
+    return () => {
+      disposed = true;
+      source?.close();
+      stopPolling();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      if (highlightTimer.current) clearTimeout(highlightTimer.current);
+    };
+  }, [baseCurrency, portfolioId, fetchOnce]);
+
+  return { rows, loading, error, mode, lastUpdated, highlights, refresh: fetchOnce };
+}
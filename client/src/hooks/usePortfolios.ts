@@ -0,0 +1,43 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Portfolio } from "@/types/portfolio";
+import { AGGREGATE_PORTFOLIO_ID, DEFAULT_PORTFOLIO_ID } from "@/lib/portfolioIds";
+
+const SELECTED_KEY = "portfolio.selected";
+
+/**
+ * Named portfolios plus the one the user is looking at, remembered across visits.
+ * With `allowAggregate` unset (e.g. the tax report) the aggregate view falls back to the default portfolio.
+ */
+export function usePortfolios(allowAggregate = true) {
+  const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
+  const [selected, setSelected] = useState(DEFAULT_PORTFOLIO_ID);
+
+  const reload = useCallback(async () => {
+    const response = await fetch("/api/portfolios", { cache: "no-store" });
+    if (!response.ok) return;
+    const list: Portfolio[] = await response.json();
+    setPortfolios(list);
+    // A deleted portfolio, someone else's (a shared browser) or an aggregate of just one drops
+    // the selection back to the user's first portfolio
+    setSelected((current) =>
+      (current === AGGREGATE_PORTFOLIO_ID && list.length > 1) || list.some((p) => p.id === current)
+        ? current
+        : list[0]?.id ?? DEFAULT_PORTFOLIO_ID
+    );
+  }, []);
+
+  useEffect(() => {
+    const saved = window.localStorage.getItem(SELECTED_KEY);
+    if (saved && (allowAggregate || saved !== AGGREGATE_PORTFOLIO_ID)) setSelected(saved);
+    reload();
+  }, [allowAggregate, reload]);
+
+  const select = (id: string) => {
+    window.localStorage.setItem(SELECTED_KEY, id);
+    setSelected(id);
+  };
+
+  return { portfolios, selected, select, reload };
+}
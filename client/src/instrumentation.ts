@@ -0,0 +1,13 @@
+import { checkSessionConfig } from '@/lib/session';
+
+// Runs once as the server starts, so a production deploy without AUTH_SECRET stops right away
+// instead of failing at the first sign-in (the backend does the same for SERVICE_TOKEN)
+export function register() {
+  try {
+    checkSessionConfig();
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : e);
+    if (process.env.NEXT_RUNTIME === 'nodejs') process.exit(1);
+    throw e;
+  }
+}
@@ -0,0 +1,133 @@
+import { createHmac, randomUUID } from 'crypto';
+import { StockData } from '@/types/stock';
+import { Alert, AlertMetric, AlertRule, AlertWebhookPayload, Webhook } from '@/types/alerts';
+import { appendAlerts, claimTriggers, cooledDown, listRules, listWebhooks, recordDelivery } from '@/lib/alertsStore';
+import { aggregateOwner } from '@/lib/portfoliosStore';
+import { AGGREGATE_PORTFOLIO_ID } from '@/lib/portfolioIds';
+import { webhookTargetError } from '@/lib/webhookTargets';
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+const METRIC_LABELS: Record<AlertMetric, string> = {
+  price: 'CMP',
+  changePercent: 'Day change',
+  gainLossPercent: 'Gain/loss vs cost',
+  weight: 'Portfolio weight',
+};
+
+export function metricValue(row: StockData, metric: AlertMetric): number {
+  switch (metric) {
+    case 'price':
+      return row.currentPrice;
+    case 'changePercent':
+      return row.changePercent;
+    case 'gainLossPercent':
+      return row.investment ? (row.gainLoss / row.investment) * 100 : 0;
+    case 'weight':
+      return row.weight;
+  }
+}
+
+const formatMetric = (metric: AlertMetric, value: number, currency: string) =>
+  metric === 'price' ? `${value.toFixed(2)} ${currency}` : `${value.toFixed(2)}%`;
+
+function describe(rule: AlertRule, row: StockData, value: number) {
+  const label = METRIC_LABELS[rule.metric];
+  const text = `${row.symbol} ${label} ${formatMetric(rule.metric, value, row.currency)} is ${rule.operator} ${formatMetric(rule.metric, rule.threshold, row.currency)}`;
+  return rule.note ? `${text} (${rule.note})` : text;
+}
+
+const crosses = (rule: AlertRule, value: number) =>
+  Number.isFinite(value) && (rule.operator === 'above' ? value > rule.threshold : value < rule.threshold);
+
+/**
+ * Check the owner's enabled rules for this portfolio (or, for an aggregate id, the combined view) against its freshly
+ * built rows, so weight and gain/loss rules always see the rows they were written for. Matching rules outside their
+ * cooldown produce an alert that is stored for the alert center and sent to enabled webhooks.
+ * Only live rows count: stale, cost-valued and synthetic prices must not fire alerts.
+ */
+export async function evaluateAlerts(userId: string, portfolioId: string, rows: StockData[], now = new Date()): Promise<Alert[]> {
+  const view = aggregateOwner(portfolioId) ? AGGREGATE_PORTFOLIO_ID : portfolioId;
+  const rules = (await listRules(userId, view)).filter((r) => r.enabled && cooledDown(r, now));
+  if (rules.length === 0) return [];
+  const bySymbol = new Map(rows.filter((r) => r.meta.status === 'live').map((r) => [r.symbol, r]));
+
+  const matches = new Map<string, { row: StockData; value: number }>();
+  for (const rule of rules) {
+    const row = bySymbol.get(rule.symbol);
+    if (!row) continue;
+    const value = metricValue(row, rule.metric);
+    if (crosses(rule, value)) matches.set(rule.id, { row, value });
+  }
+
+  const claimed = await claimTriggers(userId, Array.from(matches.keys()), now);
+  const alerts: Alert[] = claimed.map((rule) => {
+    const { row, value } = matches.get(rule.id)!;
+    return {
+      id: randomUUID(),
+      ruleId: rule.id,
+      symbol: rule.symbol,
+      metric: rule.metric,
+      operator: rule.operator,
+      threshold: rule.threshold,
+      value,
+      message: describe(rule, row, value),
+      triggeredAt: now.toISOString(),
+      read: false,
+    };
+  });
+  if (alerts.length === 0) return alerts;
+
+  await appendAlerts(userId, alerts);
+  // Deliveries run in the background; a slow receiver must not hold up the refresh
+  dispatchWebhooks(userId, alerts).catch((e) => console.error('Webhook dispatch failed', e));
+  return alerts;
+}
+
+async function deliver(userId: string, hook: Webhook, alert: Alert): Promise<void> {
+  const payload: AlertWebhookPayload = { event: 'portfolio.alert', alert };
+  const body = JSON.stringify(payload);
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (hook.secret) headers['X-Portfolio-Signature'] = `sha256=${createHmac('sha256', hook.secret).update(body).digest('hex')}`;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+  const deliveredAt = new Date().toISOString();
+  try {
+    // Checked again on every delivery, since the host's DNS may have changed since it was saved;
+    // redirects are not followed so a public receiver cannot bounce the request inward
+    if (await webhookTargetError(hook.url)) {
+      await recordDelivery(userId, hook.id, { lastDeliveryAt: deliveredAt, lastStatus: null, lastError: 'Blocked: url resolves to a non-public address' });
+      return;
+    }
+    const res = await fetch(hook.url, { method: 'POST', headers, body, signal: controller.signal, cache: 'no-store', redirect: 'manual' });
+    await recordDelivery(userId, hook.id, { lastDeliveryAt: deliveredAt, lastStatus: res.status, lastError: res.ok ? null : `HTTP ${res.status}` });
+  } catch (e) {
+    // The raw error can describe the network behind the url; keep it in the server log only
+    console.error(`Webhook ${hook.id} delivery failed`, e);
+    const lastError = controller.signal.aborted ? 'Timed out' : 'Could not connect';
+    await recordDelivery(userId, hook.id, { lastDeliveryAt: deliveredAt, lastStatus: null, lastError });
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export async function dispatchWebhooks(userId: string, alerts: Alert[]): Promise<void> {
+  const hooks = (await listWebhooks(userId)).filter((w) => w.enabled);
+  await Promise.all(hooks.flatMap((hook) => alerts.map((alert) => deliver(userId, hook, alert))));
+}
+
+/** Deliver a sample alert to one webhook so a receiver can be checked before real alerts fire. */
+export async function sendTestWebhook(userId: string, hook: Webhook): Promise<void> {
+  await deliver(userId, hook, {
+    id: randomUUID(),
+    ruleId: 'test',
+    symbol: 'TEST',
+    metric: 'price',
+    operator: 'above',
+    threshold: 0,
+    value: 0,
+    message: 'Test alert from the portfolio dashboard',
+    triggeredAt: new Date().toISOString(),
+    read: false,
+  });
+}
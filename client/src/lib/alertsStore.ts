@@ -0,0 +1,213 @@
+import { randomUUID } from 'crypto';
+import { Alert, AlertMetric, AlertOperator, AlertRule, Webhook } from '@/types/alerts';
+import { readJson, updateJson } from '@/lib/jsonStore';
+import { userStore } from '@/lib/portfoliosStore';
+import { DEFAULT_PORTFOLIO_ID } from '@/lib/portfolioIds';
+import { webhookTargetError } from '@/lib/webhookTargets';
+
+// Rules, the alert feed and webhooks are kept per user
+const RULES = 'alert-rules';
+const ALERTS = 'alerts';
+const WEBHOOKS = 'webhooks';
+
+export const ALERT_METRICS: AlertMetric[] = ['price', 'changePercent', 'gainLossPercent', 'weight'];
+const OPERATORS: AlertOperator[] = ['above', 'below'];
+const DEFAULT_COOLDOWN_MINUTES = 60;
+
+// Oldest alerts are dropped beyond this so the alert center file stays small
+const MAX_ALERTS = 200;
+
+export type RuleInput = Pick<AlertRule, 'symbol' | 'metric' | 'operator' | 'threshold' | 'cooldownMinutes' | 'enabled' | 'note'>;
+
+type Validated<T> = { value: T; errors?: undefined } | { value?: undefined; errors: string[] };
+
+/** Validate a rule body; with `base` only the given fields are checked and merged over it. */
+export function validateRule(input: unknown, base?: RuleInput): Validated<RuleInput> {
+  if (!input || typeof input !== 'object') return { errors: ['Body must be a JSON object'] };
+  const body = input as Record<string, unknown>;
+  const errors: string[] = [];
+  const has = (field: string) => body[field] !== undefined && body[field] !== '';
+
+  let symbol = base?.symbol || '';
+  if (has('symbol') || !base) {
+    symbol = typeof body.symbol === 'string' ? body.symbol.trim().toUpperCase() : '';
+    if (!symbol) errors.push('symbol is required');
+  }
+
+  let metric = base?.metric as AlertMetric;
+  if (has('metric') || !base) {
+    metric = body.metric as AlertMetric;
+    if (!ALERT_METRICS.includes(metric)) errors.push(`metric must be one of ${ALERT_METRICS.join(', ')}`);
+  }
+
+  let operator = base?.operator as AlertOperator;
+  if (has('operator') || !base) {
+    operator = body.operator as AlertOperator;
+    if (!OPERATORS.includes(operator)) errors.push('operator must be above or below');
+  }
+
+  let threshold = base?.threshold as number;
+  if (has('threshold') || !base) {
+    threshold = Number(body.threshold);
+    if (!has('threshold') || !Number.isFinite(threshold)) errors.push('threshold must be a number');
+    else if (metric === 'price' && threshold <= 0) errors.push('price threshold must be positive');
+  }
+
+  let cooldownMinutes = base?.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES;
+  if (has('cooldownMinutes')) {
+    cooldownMinutes = Number(body.cooldownMinutes);
+    if (!Number.isFinite(cooldownMinutes) || cooldownMinutes < 0) errors.push('cooldownMinutes must be zero or more');
+  }
+
+  let enabled = base?.enabled ?? true;
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== 'boolean') errors.push('enabled must be a boolean');
+    else enabled = body.enabled;
+  }
+
+  let note = base?.note || '';
+  if (body.note !== undefined) {
+    if (typeof body.note !== 'string') errors.push('note must be a string');
+    else note = body.note.trim();
+  }
+
+  if (errors.length) return { errors };
+  return { value: { symbol, metric, operator, threshold, cooldownMinutes, enabled, note } };
+}
+
+// Rules from before they belonged to a portfolio watch the original one
+const withPortfolio = (rule: AlertRule): AlertRule => (rule.portfolioId ? rule : { ...rule, portfolioId: DEFAULT_PORTFOLIO_ID });
+
+/** The user's rules, or only those of one portfolio (`all` for the combined view). */
+export async function listRules(userId: string, portfolioId?: string): Promise<AlertRule[]> {
+  const rules = (await readJson<AlertRule[]>(userStore(RULES, userId), () => [])).map(withPortfolio);
+  return portfolioId ? rules.filter((r) => r.portfolioId === portfolioId) : rules;
+}
+
+export async function createRule(userId: string, portfolioId: string, input: RuleInput): Promise<AlertRule> {
+  return updateJson(userStore(RULES, userId), () => [] as AlertRule[], (current) => {
+    const rule: AlertRule = { id: randomUUID(), portfolioId, ...input, createdAt: new Date().toISOString(), lastTriggeredAt: null };
+    return { next: [...current, rule], result: rule };
+  });
+}
+
+export async function updateRule(userId: string, id: string, input: unknown): Promise<Validated<AlertRule> | null> {
+  return updateJson<AlertRule[], Validated<AlertRule> | null>(userStore(RULES, userId), () => [], (current) => {
+    const existing = current.find((r) => r.id === id);
+    if (!existing) return { next: current, result: null };
+    const validated = validateRule(input, existing);
+    if (!validated.value) return { next: current, result: validated };
+    const updated: AlertRule = { ...withPortfolio(existing), ...validated.value };
+    return { next: current.map((r) => (r.id === id ? updated : r)), result: { value: updated } };
+  });
+}
+
+export async function deleteRule(userId: string, id: string): Promise<boolean> {
+  return updateJson(userStore(RULES, userId), () => [] as AlertRule[], (current) => {
+    const next = current.filter((r) => r.id !== id);
+    return { next: next.length === current.length ? current : next, result: next.length !== current.length };
+  });
+}
+
+/**
+ * Stamp `lastTriggeredAt` on the rules that fire, under the store lock so two
+ * refreshes racing (e.g. the stream and a manual GET) cannot both alert within a cooldown.
+ */
+export async function claimTriggers(userId: string, ruleIds: string[], now: Date): Promise<AlertRule[]> {
+  if (ruleIds.length === 0) return [];
+  return updateJson(userStore(RULES, userId), () => [] as AlertRule[], (current) => {
+    const claimed: AlertRule[] = [];
+    const next = current.map((rule) => {
+      if (!ruleIds.includes(rule.id) || !cooledDown(rule, now)) return rule;
+      const stamped = { ...withPortfolio(rule), lastTriggeredAt: now.toISOString() };
+      claimed.push(stamped);
+      return stamped;
+    });
+    return { next: claimed.length ? next : current, result: claimed };
+  });
+}
+
+export function cooledDown(rule: AlertRule, now: Date): boolean {
+  if (!rule.lastTriggeredAt) return true;
+  return now.getTime() - Date.parse(rule.lastTriggeredAt) >= rule.cooldownMinutes * 60 * 1000;
+}
+
+export async function listAlerts(userId: string): Promise<Alert[]> {
+  const all = await readJson<Alert[]>(userStore(ALERTS, userId), () => []);
+  return [...all].reverse(); // newest first
+}
+
+export async function appendAlerts(userId: string, alerts: Alert[]): Promise<void> {
+  if (alerts.length === 0) return;
+  await updateJson(userStore(ALERTS, userId), () => [] as Alert[], (current) => ({
+    next: [...current, ...alerts].slice(-MAX_ALERTS),
+    result: undefined,
+  }));
+}
+
+/** Mark the given alerts (or every alert when `ids` is omitted) as read; returns how many changed. */
+export async function markAlertsRead(userId: string, ids?: string[]): Promise<number> {
+  return updateJson(userStore(ALERTS, userId), () => [] as Alert[], (current) => {
+    let changed = 0;
+    const next = current.map((a) => {
+      if (a.read || (ids && !ids.includes(a.id))) return a;
+      changed += 1;
+      return { ...a, read: true };
+    });
+    return { next: changed ? next : current, result: changed };
+  });
+}
+
+/** Validate a webhook body; the url must resolve to public addresses unless its host is allowlisted. */
+export async function validateWebhook(input: unknown): Promise<Validated<Pick<Webhook, 'url' | 'secret' | 'enabled'>>> {
+  if (!input || typeof input !== 'object') return { errors: ['Body must be a JSON object'] };
+  const body = input as Record<string, unknown>;
+  const errors: string[] = [];
+  const url = typeof body.url === 'string' ? body.url.trim() : '';
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') errors.push('url must be http or https');
+  } catch {
+    errors.push('url must be an absolute URL');
+  }
+  if (errors.length === 0) {
+    const targetError = await webhookTargetError(url);
+    if (targetError) errors.push(targetError);
+  }
+  if (body.secret !== undefined && typeof body.secret !== 'string') errors.push('secret must be a string');
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') errors.push('enabled must be a boolean');
+  if (errors.length) return { errors };
+  return { value: { url, secret: ((body.secret as string) || '').trim(), enabled: body.enabled !== false } };
+}
+
+export async function listWebhooks(userId: string): Promise<Webhook[]> {
+  return readJson<Webhook[]>(userStore(WEBHOOKS, userId), () => []);
+}
+
+export async function createWebhook(userId: string, input: Pick<Webhook, 'url' | 'secret' | 'enabled'>): Promise<Webhook> {
+  return updateJson(userStore(WEBHOOKS, userId), () => [] as Webhook[], (current) => {
+    const hook: Webhook = {
+      id: randomUUID(),
+      ...input,
+      createdAt: new Date().toISOString(),
+      lastDeliveryAt: null,
+      lastStatus: null,
+      lastError: null,
+    };
+    return { next: [...current, hook], result: hook };
+  });
+}
+
+export async function deleteWebhook(userId: string, id: string): Promise<boolean> {
+  return updateJson(userStore(WEBHOOKS, userId), () => [] as Webhook[], (current) => {
+    const next = current.filter((w) => w.id !== id);
+    return { next: next.length === current.length ? current : next, result: next.length !== current.length };
+  });
+}
+
+export async function recordDelivery(userId: string, id: string, outcome: Pick<Webhook, 'lastDeliveryAt' | 'lastStatus' | 'lastError'>): Promise<void> {
+  await updateJson(userStore(WEBHOOKS, userId), () => [] as Webhook[], (current) => ({
+    next: current.some((w) => w.id === id) ? current.map((w) => (w.id === id ? { ...w, ...outcome } : w)) : current,
+    result: undefined,
+  }));
+}
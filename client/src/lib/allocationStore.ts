@@ -0,0 +1,65 @@
+import { AllocationTargets } from '@/types/allocation';
+import { readJson, updateJson } from '@/lib/jsonStore';
+import { scopedStore } from '@/lib/portfoliosStore';
+
+const STORE = 'allocation-targets';
+
+export const DEFAULT_TOLERANCE = 2;
+
+const defaultTargets = (): AllocationTargets => ({ holdings: {}, sectors: {}, lotSizes: {}, tolerance: DEFAULT_TOLERANCE });
+
+/**
+ * Validate a whole targets document. Weights are 0-100 and each of the holding and sector
+ * targets may add up to at most 100; how they combine is resolved against the current rows.
+ */
+export function validateTargets(
+  input: unknown
+): { value: AllocationTargets; errors?: undefined } | { value?: undefined; errors: string[] } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return { errors: ['Body must be a JSON object'] };
+  const body = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const readMap = (field: string, keyCase: (k: string) => string, check: (n: number) => string | null) => {
+    const raw = body[field] ?? {};
+    const value: Record<string, number> = {};
+    if (typeof raw !== 'object' || Array.isArray(raw)) {
+      errors.push(`${field} must be an object`);
+      return value;
+    }
+    for (const [key, entry] of Object.entries(raw as Record<string, unknown>)) {
+      const name = keyCase(key.trim());
+      if (!name || entry === null || entry === '') continue; // blank entries clear the target
+      const n = Number(entry);
+      const problem = Number.isFinite(n) ? check(n) : 'must be a number';
+      if (problem) errors.push(`${field}.${name} ${problem}`);
+      else value[name] = n;
+    }
+    return value;
+  };
+
+  const weight = (n: number) => (n < 0 || n > 100 ? 'must be between 0 and 100' : null);
+  const holdings = readMap('holdings', (k) => k.toUpperCase(), weight);
+  const sectors = readMap('sectors', (k) => k, weight);
+  const lotSizes = readMap('lotSizes', (k) => k.toUpperCase(), (n) => (Number.isInteger(n) && n >= 1 ? null : 'must be a whole number of at least 1'));
+
+  const sum = (m: Record<string, number>) => Object.values(m).reduce((s, n) => s + n, 0);
+  if (sum(holdings) > 100 + 1e-9) errors.push('holding targets add up to more than 100%');
+  if (sum(sectors) > 100 + 1e-9) errors.push('sector targets add up to more than 100%');
+
+  let tolerance = DEFAULT_TOLERANCE;
+  if (body.tolerance !== undefined && body.tolerance !== null && body.tolerance !== '') {
+    tolerance = Number(body.tolerance);
+    if (!Number.isFinite(tolerance) || tolerance <= 0 || tolerance > 50) errors.push('tolerance must be more than 0 and at most 50');
+  }
+
+  if (errors.length) return { errors };
+  return { value: { holdings, sectors, lotSizes, tolerance } };
+}
+
+export async function getTargets(portfolioId: string): Promise<AllocationTargets> {
+  return readJson<AllocationTargets>(scopedStore(STORE, portfolioId), defaultTargets);
+}
+
+export async function saveTargets(portfolioId: string, targets: AllocationTargets): Promise<AllocationTargets> {
+  return updateJson(scopedStore(STORE, portfolioId), defaultTargets, () => ({ next: targets, result: targets }));
+}
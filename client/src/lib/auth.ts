@@ -0,0 +1,21 @@
+import { User } from '@/types/user';
+import { SESSION_COOKIE, verifySession } from '@/lib/session';
+import { getUser } from '@/lib/usersStore';
+
+export function readCookie(request: Request, name: string): string | undefined {
+  for (const part of (request.headers.get('cookie') || '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(value.join('='));
+  }
+  return undefined;
+}
+
+/**
+ * The signed-in user behind a request, or null when the session cookie is missing, forged,
+ * expired or names an account that no longer exists. Every route that reads or writes a
+ * user's data starts here; the middleware only turns away requests without a valid session.
+ */
+export async function sessionUser(request: Request): Promise<User | null> {
+  const claims = await verifySession(readCookie(request, SESSION_COOKIE));
+  return claims ? ((await getUser(claims.sub)) ?? null) : null;
+}
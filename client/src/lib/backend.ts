@@ -0,0 +1,179 @@
+import { QuoteField } from '@/types/stock';
+import { CorporateActionType } from '@/types/ledger';
+import { BenchmarkIndex } from '@/types/benchmark';
+import { EarningsQuarter } from '@/types/stockDetail';
+import { Instrument } from '@/types/instrument';
+import { MarketStatusResponse } from '@/types/market';
+
+export const BACKEND_URL = process.env.BACKEND_URL;
+
+// Backend response interfaces
+export interface CmpResponse {
+  currentPrice: number;
+  previousClose: number;
+  change: number;
+  changePercent: number;
+  volume: number;
+}
+
+export interface PeResponse {
+  peRatio: number;
+  eps?: number;
+  marketCap?: number;
+}
+
+export interface FundamentalsResponse {
+  symbol: string;
+  peRatio: number | null;
+  eps: number | null;
+  marketCap: number | null;
+  source?: string;
+}
+
+export interface EarningsResponse {
+  latestEarnings: { date: string; eps: number; revenue: number };
+}
+
+export type { QuoteField };
+
+export interface QuoteMeta {
+  source: string | null;
+  fetchedAt: string | null;
+  cache: 'hit' | 'miss';
+  error?: string;
+}
+
+export interface QuoteBatchEntry {
+  cmp?: CmpResponse;
+  pe?: PeResponse;
+  earnings?: EarningsResponse;
+  errors?: Partial<Record<QuoteField, string>>;
+  meta?: Partial<Record<QuoteField, QuoteMeta>>;
+}
+
+export interface QuoteBatchResponse {
+  results: Record<string, QuoteBatchEntry>;
+}
+
+export interface PriceHistoryResponse {
+  symbol: string;
+  range: string;
+  interval: string;
+  points: { time: string; close: number; volume: number }[];
+  source?: string;
+}
+
+export interface EarningsHistoryResponse {
+  symbol: string;
+  quarters: EarningsQuarter[];
+  source?: string;
+}
+
+export interface BenchmarkResponse extends PriceHistoryResponse {
+  id: string;
+  name: string;
+  currency: string;
+  currentPrice: number;
+  changePercent: number;
+}
+
+export interface CorporateActionsResponse {
+  actions: { symbol: string; type: CorporateActionType; exDate: string; numerator?: number; denominator?: number; amount?: number }[];
+  asOf: string | null;
+  source: string;
+}
+
+export interface InstrumentSearchResponse {
+  results: Instrument[];
+  asOf: string | null;
+}
+
+// The backend resolves `SYMBOL:EXCHANGE` to each provider's identifier for that listing (RELIANCE.NS, 500325:BOM)
+export const instrumentRef = (symbol: string, exchange?: string | null) => (exchange ? `${symbol}:${exchange}` : symbol);
+
+export async function delay(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+// The backend only serves callers holding the token it shares with this app
+const serviceHeaders = (): HeadersInit =>
+  process.env.SERVICE_TOKEN ? { Authorization: `Bearer ${process.env.SERVICE_TOKEN}` } : {};
+
+export async function fetchBackend<T>(path: string, attempt = 1): Promise<T> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), 8000);
+  try {
+    const res = await fetch(`${BACKEND_URL}${path}`, {
+      signal: controller.signal,
+      cache: 'no-store',
+      headers: serviceHeaders(),
+    });
+    if (!res.ok) {
+      if (res.status === 429 && attempt < 3) {
+        await delay(300 * attempt);
+        return fetchBackend<T>(path, attempt + 1);
+      }
+      throw new Error(`Backend ${path} failed: ${res.status}`);
+    }
+    return (await res.json()) as T;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// Backend caps a batch at 50 symbols; larger portfolios are split into parallel chunks
+const QUOTE_BATCH_SIZE = 50;
+
+// Quotes for each listing, keyed by its instrumentRef so the same ticker on two exchanges stays apart
+export async function fetchQuoteBatch(
+  instruments: { symbol: string; exchange?: string | null }[],
+  fields: QuoteField[]
+): Promise<Record<string, QuoteBatchEntry>> {
+  const refs = instruments.map((i) => instrumentRef(i.symbol, i.exchange));
+  const chunks: string[][] = [];
+  for (let i = 0; i < refs.length; i += QUOTE_BATCH_SIZE) chunks.push(refs.slice(i, i + QUOTE_BATCH_SIZE));
+  const responses = await Promise.all(
+    chunks.map((chunk) =>
+      fetchBackend<QuoteBatchResponse>(
+        `/api/quotes?symbols=${chunk.map(encodeURIComponent).join(',')}&fields=${fields.join(',')}`
+      )
+    )
+  );
+  const results: Record<string, QuoteBatchEntry> = Object.assign({}, ...responses.map((r) => r.results));
+  return Object.fromEntries(refs.flatMap((ref) => (results[ref] ? [[ref, results[ref]]] : [])));
+}
+
+export async function fetchCorporateActions(symbols: string[]): Promise<CorporateActionsResponse> {
+  return fetchBackend<CorporateActionsResponse>(`/api/corporate-actions?symbols=${symbols.map(encodeURIComponent).join(',')}`);
+}
+
+// `ref` is an instrumentRef, or a bare symbol for the provider's default listing
+export async function fetchPriceHistory(ref: string, range: string): Promise<PriceHistoryResponse> {
+  return fetchBackend<PriceHistoryResponse>(`/api/history/${encodeURIComponent(ref)}?range=${range}`);
+}
+
+export async function fetchFundamentals(ref: string): Promise<FundamentalsResponse> {
+  return fetchBackend<FundamentalsResponse>(`/api/fundamentals/${encodeURIComponent(ref)}`);
+}
+
+export async function fetchEarningsHistory(ref: string, quarters: number): Promise<EarningsHistoryResponse> {
+  return fetchBackend<EarningsHistoryResponse>(`/api/earnings/${encodeURIComponent(ref)}/history?quarters=${quarters}`);
+}
+
+export async function searchInstruments(query: string, exchange?: string): Promise<InstrumentSearchResponse> {
+  const params = new URLSearchParams({ q: query });
+  if (exchange) params.set('exchange', exchange);
+  return fetchBackend<InstrumentSearchResponse>(`/api/instruments/search?${params}`);
+}
+
+export async function fetchBenchmark(id: string, range: string): Promise<BenchmarkResponse> {
+  return fetchBackend<BenchmarkResponse>(`/api/benchmark/${encodeURIComponent(id)}?range=${range}`);
+}
+
+export async function fetchBenchmarkIndices(): Promise<BenchmarkIndex[]> {
+  return (await fetchBackend<{ benchmarks: BenchmarkIndex[] }>('/api/benchmarks')).benchmarks;
+}
+
+export async function fetchMarketStatus(): Promise<MarketStatusResponse> {
+  return fetchBackend<MarketStatusResponse>('/api/market-status');
+}
@@ -0,0 +1,171 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Holding, StockData } from '@/types/stock';
+import { Transaction } from '@/types/ledger';
+import { listHoldings } from '@/lib/holdingsStore';
+import { transactionsBySymbol } from '@/lib/transactionsStore';
+import { corporateActionsBySymbol } from '@/lib/corporateActionsStore';
+import { buildPortfolioRows } from '@/lib/portfolio';
+import { listFmv } from '@/lib/taxStore';
+import { buildCapitalGainsReport, financialYear, reportForYear } from '@/lib/capitalGains';
+
+vi.mock('@/lib/holdingsStore', () => ({ listHoldings: vi.fn() }));
+vi.mock('@/lib/transactionsStore', () => ({ transactionsBySymbol: vi.fn() }));
+vi.mock('@/lib/corporateActionsStore', () => ({ corporateActionsBySymbol: vi.fn() }));
+vi.mock('@/lib/portfolio', () => ({ buildPortfolioRows: vi.fn() }));
+vi.mock('@/lib/taxStore', () => ({ listFmv: vi.fn() }));
+
+const holding = (symbol: string, purchaseDate: string | null, shares: number, purchasePrice: number, exchange = 'NSE'): Holding => ({
+  symbol,
+  companyName: symbol,
+  sector: 'Financials',
+  purchasePrice,
+  shares,
+  exchange,
+  currency: exchange === 'NSE' ? 'INR' : 'USD',
+  purchaseDate,
+});
+
+const sell = (symbol: string, date: string, quantity: number, price: number): Transaction => ({
+  id: `${symbol}-${date}`,
+  symbol,
+  type: 'sell',
+  date,
+  quantity,
+  price,
+  fees: 0,
+});
+
+// One portfolio: its holdings, their sells, the 31 Jan 2018 FMVs and each holding's CMP in INR
+function givenPortfolio(holdings: Holding[], sells: Transaction[], fmv: Record<string, number> = {}, cmp = 100) {
+  const bySymbol = new Map<string, Transaction[]>();
+  for (const t of sells) bySymbol.set(t.symbol, [...(bySymbol.get(t.symbol) || []), t]);
+  vi.mocked(listHoldings).mockResolvedValue(holdings);
+  vi.mocked(transactionsBySymbol).mockResolvedValue(bySymbol);
+  vi.mocked(corporateActionsBySymbol).mockResolvedValue(new Map());
+  vi.mocked(listFmv).mockResolvedValue(fmv);
+  vi.mocked(buildPortfolioRows).mockResolvedValue(
+    holdings.map((h) => ({ symbol: h.symbol, fxRate: 1, currentPrice: cmp, meta: { status: 'live' } }) as StockData)
+  );
+}
+
+beforeEach(() => {
+  vi.resetAllMocks();
+});
+
+describe('financialYear', () => {
+  it('runs April to March', () => {
+    expect(financialYear('2024-03-31')).toBe('2023-24');
+    expect(financialYear('2024-04-01')).toBe('2024-25');
+    expect(financialYear('1999-12-31')).toBe('1999-00');
+  });
+});
+
+describe('buildCapitalGainsReport', () => {
+  it('turns long-term the day after the anniversary', async () => {
+    givenPortfolio([holding('ANNIV', '2023-06-15', 10, 100)], [sell('ANNIV', '2024-06-15', 5, 150), sell('ANNIV', '2024-06-16', 5, 150)]);
+    const { realized } = await buildCapitalGainsReport('alice', 'main');
+    expect(realized.map((e) => [e.sellDate, e.term, e.longTermFrom])).toEqual([
+      ['2024-06-15', 'short', '2024-06-16'],
+      ['2024-06-16', 'long', '2024-06-16'],
+    ]);
+  });
+
+  it('counts a 29 February anniversary as the last day of February', async () => {
+    givenPortfolio([holding('LEAP', '2024-02-29', 10, 100)], [sell('LEAP', '2025-02-28', 5, 150), sell('LEAP', '2025-03-01', 5, 150)]);
+    const { realized } = await buildCapitalGainsReport('alice', 'main');
+    expect(realized.map((e) => [e.sellDate, e.term, e.longTermFrom])).toEqual([
+      ['2025-02-28', 'short', '2025-03-01'],
+      ['2025-03-01', 'long', '2025-03-01'],
+    ]);
+  });
+
+  it('taxes each sale at the rates in force on its date', async () => {
+    givenPortfolio(
+      [holding('OLD', '2015-01-01', 30, 100), holding('NEW', '2024-01-01', 20, 100)],
+      [
+        sell('OLD', '2018-03-01', 10, 200),
+        sell('OLD', '2019-06-03', 10, 200),
+        sell('OLD', '2024-08-01', 10, 200),
+        sell('NEW', '2024-07-22', 10, 200),
+        sell('NEW', '2024-07-23', 10, 200),
+      ]
+    );
+    const { realized } = await buildCapitalGainsReport('alice', 'main');
+    expect(realized.map((e) => [e.symbol, e.sellDate, e.term, e.rate])).toEqual([
+      ['OLD', '2018-03-01', 'long', 0],
+      ['OLD', '2019-06-03', 'long', 10],
+      ['NEW', '2024-07-22', 'short', 15],
+      ['NEW', '2024-07-23', 'short', 20],
+      ['OLD', '2024-08-01', 'long', 12.5],
+    ]);
+  });
+
+  it('steps pre-2018 lots up to the 31 Jan 2018 FMV, capped at the sale price', async () => {
+    givenPortfolio(
+      [holding('GF', '2017-06-01', 10, 100)],
+      [sell('GF', '2019-06-03', 5, 200), sell('GF', '2019-07-01', 5, 120)],
+      { GF: 150 }
+    );
+    const { realized } = await buildCapitalGainsReport('alice', 'main');
+    expect(realized.map((e) => [e.cost, e.taxCost, e.gain, e.grandfathered])).toEqual([
+      [500, 750, 250, true],
+      [500, 600, 0, true],
+    ]);
+  });
+
+  it('warns and uses actual cost when a pre-2018 lot has no FMV', async () => {
+    givenPortfolio([holding('GF', '2017-06-01', 10, 100)], [sell('GF', '2019-06-03', 10, 200)]);
+    const report = await buildCapitalGainsReport('alice', 'main');
+    expect(report.realized[0]).toMatchObject({ taxCost: 1000, gain: 1000, grandfathered: false });
+    expect(report.warnings).toEqual([expect.stringContaining('no 31 Jan 2018 FMV')]);
+  });
+
+  it('nets losses, applies the exemption and carries unabsorbed losses forward', async () => {
+    givenPortfolio(
+      [holding('LOSS', '2023-05-02', 10, 200), holding('GAIN', '2022-01-03', 1000, 100)],
+      [sell('LOSS', '2023-08-01', 10, 100), sell('GAIN', '2024-08-01', 1000, 400)]
+    );
+    const { summaries, financialYears } = await buildCapitalGainsReport('alice', 'main');
+    expect(financialYears).toEqual(['2023-24', '2024-25']);
+    expect(summaries[0]).toMatchObject({ shortTermLosses: 1000, estimatedTax: 0, lossesCarriedForward: { short: 1000, long: 0 } });
+    // 300000 long-term gain less the 1000 brought forward, then the 125000 exemption, taxed at 12.5%
+    expect(summaries[1]).toMatchObject({
+      longTermGains: 300000,
+      lossesBroughtForward: { short: 1000, long: 0 },
+      exemptionLimit: 125000,
+      exemptionUsed: 125000,
+      taxableLongTerm: 174000,
+      estimatedTax: 21750,
+      lossesCarriedForward: { short: 0, long: 0 },
+    });
+  });
+
+  it('sets short-term losses against the highest-taxed gains first', async () => {
+    givenPortfolio(
+      [holding('A', '2024-05-02', 10, 100), holding('B', '2024-09-02', 10, 100), holding('C', '2024-01-01', 10, 100)],
+      [sell('A', '2024-06-03', 10, 150), sell('B', '2024-10-01', 10, 150), sell('C', '2024-11-01', 10, 50)]
+    );
+    const { summaries } = await buildCapitalGainsReport('alice', 'main');
+    // The 500 loss wipes out the 20% gain from October and leaves the 15% gain from June
+    expect(summaries[0]).toMatchObject({ shortTermGains: 1000, shortTermLosses: 500, taxableShortTerm: 500, estimatedTax: 75 });
+  });
+
+  it('leaves foreign listings out and flags undated lots', async () => {
+    givenPortfolio([holding('AAPL', '2020-01-02', 5, 100, 'NASDAQ'), holding('ITC', null, 10, 100)], [], {}, 120);
+    const report = await buildCapitalGainsReport('alice', 'main');
+    expect(report.excluded.map((e) => e.symbol)).toEqual(['AAPL']);
+    expect(report.unrealized).toEqual([expect.objectContaining({ symbol: 'ITC', term: 'unknown', gain: 200, rate: null })]);
+    expect(report.unrealizedSummary).toEqual({ short: 0, long: 0, unknown: 200 });
+    expect(report.warnings).toEqual([expect.stringContaining('ITC: opening lot has no purchase date')]);
+  });
+});
+
+describe('reportForYear', () => {
+  it('keeps one year of sales and every open lot', async () => {
+    givenPortfolio([holding('LEAP', '2024-02-29', 10, 100)], [sell('LEAP', '2024-03-15', 2, 150), sell('LEAP', '2024-04-15', 2, 150)]);
+    const report = reportForYear(await buildCapitalGainsReport('alice', 'main'), '2024-25');
+    expect(report.realized.map((e) => e.sellDate)).toEqual(['2024-04-15']);
+    expect(report.summaries.map((s) => s.financialYear)).toEqual(['2024-25']);
+    expect(report.unrealized).toHaveLength(1);
+  });
+});
@@ -0,0 +1,257 @@
+import { Holding, StockData } from '@/types/stock';
+import { CapitalGainEntry, CapitalGainsReport, FinancialYearSummary, GainTerm, LossBalance } from '@/types/tax';
+import { listHoldings } from '@/lib/holdingsStore';
+import { transactionsBySymbol } from '@/lib/transactionsStore';
+import { corporateActionsBySymbol } from '@/lib/corporateActionsStore';
+import { foldPosition } from '@/lib/ledger';
+import { buildPortfolioRows } from '@/lib/portfolio';
+import { listFmv } from '@/lib/taxStore';
+
+// Listed equity on Indian exchanges; STT-paid shares held over 12 months are long-term
+const INDIAN_EXCHANGES = ['NSE', 'BSE'];
+const LONG_TERM_MONTHS = 12;
+
+// Lots bought before this date may use the 31 Jan 2018 FMV as cost (section 112A grandfathering)
+const GRANDFATHERING_CUTOFF = '2018-02-01';
+
+// Rates by sale date (sections 111A and 112A). Long-term equity gains were exempt until 1 Apr 2018.
+const RATE_PERIODS = [
+  { from: '0000-01-01', shortTerm: 15, longTerm: 0 },
+  { from: '2018-04-01', shortTerm: 15, longTerm: 10 },
+  { from: '2024-07-23', shortTerm: 20, longTerm: 12.5 },
+];
+
+// Yearly LTCG exemption by first FY it applies to
+const EXEMPTION_LIMITS = [
+  { from: '2018-19', limit: 100000 },
+  { from: '2024-25', limit: 125000 },
+];
+
+export const FY_PATTERN = /^\d{4}-\d{2}$/;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/** Indian financial year (April to March) of a date, e.g. 2024-05-10 → "2024-25". */
+export function financialYear(date: string): string {
+  const year = Number(date.slice(0, 4));
+  const start = Number(date.slice(5, 7)) >= 4 ? year : year - 1;
+  return `${start}-${String(start + 1).slice(2)}`;
+}
+
+// Held for more than 12 months: the first long-term sale date is the day after the anniversary.
+// An anniversary past the end of its month (29 Feb) falls on that month's last day, not 1 March
+function longTermFrom(buyDate: string): string {
+  const d = new Date(`${buyDate}T00:00:00Z`);
+  const day = d.getUTCDate();
+  d.setUTCDate(1);
+  d.setUTCMonth(d.getUTCMonth() + LONG_TERM_MONTHS);
+  const lastDay = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+  d.setUTCDate(Math.min(day, lastDay) + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+const termOf = (buyDate: string | null, sellDate: string): GainTerm =>
+  buyDate === null ? 'unknown' : sellDate >= longTermFrom(buyDate) ? 'long' : 'short';
+
+function rateFor(term: GainTerm, sellDate: string): number | null {
+  if (term === 'unknown') return null;
+  const period = [...RATE_PERIODS].reverse().find((p) => sellDate >= p.from)!;
+  return term === 'long' ? period.longTerm : period.shortTerm;
+}
+
+const exemptionFor = (fy: string) => [...EXEMPTION_LIMITS].reverse().find((e) => fy >= e.from)?.limit ?? 0;
+
+/**
+ * Cost of acquisition for a long-term lot bought before Feb 2018: the higher of the actual cost
+ * and the lower of the 31 Jan 2018 FMV and the sale value. Returns null when the rule does not apply.
+ */
+function grandfatheredCost(buyDate: string | null, term: GainTerm, costPerShare: number, salePerShare: number, fmv: number | undefined) {
+  if (term !== 'long' || !buyDate || buyDate >= GRANDFATHERING_CUTOFF || fmv === undefined) return null;
+  return Math.max(costPerShare, Math.min(fmv, salePerShare));
+}
+
+function entry(
+  holding: Holding,
+  quantity: number,
+  buyDate: string | null,
+  sellDate: string | null,
+  costPerShare: number,
+  valuePerShare: number,
+  fxRate: number,
+  fmv: number | undefined
+): CapitalGainEntry {
+  const asOf = sellDate ?? today();
+  const term = termOf(buyDate, asOf);
+  const stepped = grandfatheredCost(buyDate, term, costPerShare, valuePerShare, fmv);
+  const cost = quantity * costPerShare * fxRate;
+  const taxCost = quantity * (stepped ?? costPerShare) * fxRate;
+  const value = quantity * valuePerShare * fxRate;
+  return {
+    symbol: holding.symbol,
+    exchange: holding.exchange,
+    quantity,
+    buyDate,
+    sellDate,
+    financialYear: sellDate ? financialYear(sellDate) : null,
+    term,
+    cost,
+    taxCost,
+    grandfathered: stepped !== null && stepped > costPerShare,
+    value,
+    gain: value - taxCost,
+    rate: rateFor(term, asOf),
+    longTermFrom: buyDate ? longTermFrom(buyDate) : null,
+  };
+}
+
+interface Bucket {
+  term: 'short' | 'long';
+  rate: number;
+  amount: number;
+}
+
+// Reduce the buckets of the given terms by `amount`, highest rate first; returns what could not be absorbed
+function absorb(buckets: Bucket[], terms: Bucket['term'][], amount: number): number {
+  let left = amount;
+  for (const b of buckets.filter((x) => terms.includes(x.term)).sort((a, c) => c.rate - a.rate)) {
+    const used = Math.min(b.amount, left);
+    b.amount -= used;
+    left -= used;
+  }
+  return left;
+}
+
+/**
+ * Net one financial year's realized gains. Short-term losses may be set off against any gain,
+ * long-term losses only against long-term gains; set-offs go against the highest-taxed gains first.
+ * Unabsorbed losses are carried into the next year (the report does not expire them after 8 years).
+ */
+function summarizeYear(fy: string, entries: CapitalGainEntry[], broughtForward: LossBalance): FinancialYearSummary {
+  const buckets: Bucket[] = [];
+  let shortTermLosses = 0;
+  let longTermLosses = 0;
+  for (const e of entries) {
+    if (e.term === 'unknown' || e.rate === null) continue;
+    if (e.gain < 0) {
+      // Losses on sales that were exempt (long-term before Apr 2018) cannot be set off
+      if (e.term === 'short') shortTermLosses -= e.gain;
+      else if (e.rate > 0) longTermLosses -= e.gain;
+      continue;
+    }
+    const bucket = buckets.find((b) => b.term === e.term && b.rate === e.rate);
+    if (bucket) bucket.amount += e.gain;
+    else buckets.push({ term: e.term, rate: e.rate, amount: e.gain });
+  }
+  const total = (term: Bucket['term']) => buckets.filter((b) => b.term === term).reduce((s, b) => s + b.amount, 0);
+  const shortTermGains = total('short');
+  const longTermGains = total('long');
+
+  const shortLeft = absorb(buckets, ['short', 'long'], shortTermLosses);
+  const longLeft = absorb(buckets, ['long'], longTermLosses);
+  const broughtShortLeft = absorb(buckets, ['short', 'long'], broughtForward.short);
+  const broughtLongLeft = absorb(buckets, ['long'], broughtForward.long);
+
+  // Exempt gains sit in 0% buckets and must not use up the exemption
+  const exemptionLimit = exemptionFor(fy);
+  const exemptionUsed = exemptionLimit - absorb(buckets.filter((b) => b.rate > 0), ['long'], exemptionLimit);
+
+  return {
+    financialYear: fy,
+    shortTermGains,
+    shortTermLosses,
+    longTermGains,
+    longTermLosses,
+    lossesBroughtForward: broughtForward,
+    exemptionLimit,
+    exemptionUsed,
+    taxableShortTerm: total('short'),
+    taxableLongTerm: buckets.filter((b) => b.term === 'long' && b.rate > 0).reduce((s, b) => s + b.amount, 0),
+    estimatedTax: buckets.reduce((s, b) => s + (b.amount * b.rate) / 100, 0),
+    lossesCarriedForward: { short: shortLeft + broughtShortLeft, long: longLeft + broughtLongLeft },
+  };
+}
+
+/**
+ * Realized and unrealized capital gains for one portfolio's NSE/BSE holdings in INR. Sells are matched to
+ * lots FIFO (as for demat holdings), open lots are valued at CMP, and each FY with a sale gets a tax summary.
+ */
+export async function buildCapitalGainsReport(userId: string, portfolioId: string): Promise<CapitalGainsReport> {
+  const [holdings, ledger, actions, fmvTable, rows] = await Promise.all([
+    listHoldings(portfolioId),
+    transactionsBySymbol(portfolioId),
+    corporateActionsBySymbol(portfolioId),
+    listFmv(userId),
+    buildPortfolioRows(portfolioId, 'INR'),
+  ]);
+  const rowsBySymbol = new Map<string, StockData>(rows.map((r) => [r.symbol, r]));
+
+  const realized: CapitalGainEntry[] = [];
+  const unrealized: CapitalGainEntry[] = [];
+  const excluded: CapitalGainsReport['excluded'] = [];
+  const warnings: string[] = [];
+
+  for (const h of holdings) {
+    if (!INDIAN_EXCHANGES.includes(h.exchange)) {
+      excluded.push({ symbol: h.symbol, reason: `Listed on ${h.exchange}; foreign shares are not covered by the equity 12-month rule` });
+      continue;
+    }
+    const row = rowsBySymbol.get(h.symbol);
+    if (!row) {
+      excluded.push({ symbol: h.symbol, reason: 'Ledger could not be folded' });
+      continue;
+    }
+    const position = foldPosition(h, ledger.get(h.symbol) || [], actions.get(h.symbol) || []);
+    const fmv = fmvTable[h.symbol];
+
+    for (const d of position.disposals) {
+      realized.push(entry(h, d.quantity, d.buyDate, d.sellDate, d.costPerShare, d.proceedsPerShare, row.fxRate, fmv));
+    }
+    for (const lot of position.lots) {
+      unrealized.push(entry(h, lot.quantity, lot.date, null, lot.costPerShare, row.currentPrice, row.fxRate, fmv));
+    }
+
+    const lots = [...position.disposals.map((d) => d.buyDate), ...position.lots.map((l) => l.date)];
+    if (lots.some((date) => date === null)) warnings.push(`${h.symbol}: opening lot has no purchase date, so its term cannot be classified`);
+    if (fmv === undefined && lots.some((date) => date !== null && date < GRANDFATHERING_CUTOFF)) {
+      warnings.push(`${h.symbol}: lots bought before Feb 2018 but no 31 Jan 2018 FMV is set; actual cost is used`);
+    }
+    if (row.meta.status === 'failed' || row.meta.status === 'stale') {
+      warnings.push(`${h.symbol}: unrealized gains use a ${row.meta.status === 'failed' ? 'cost' : 'last known'} price`);
+    }
+  }
+
+  realized.sort((a, b) => a.sellDate!.localeCompare(b.sellDate!) || a.symbol.localeCompare(b.symbol));
+  const financialYears = Array.from(new Set(realized.map((e) => e.financialYear!))).sort();
+
+  const summaries: FinancialYearSummary[] = [];
+  let carried: LossBalance = { short: 0, long: 0 };
+  for (const fy of financialYears) {
+    const summary = summarizeYear(fy, realized.filter((e) => e.financialYear === fy), carried);
+    summaries.push(summary);
+    carried = summary.lossesCarriedForward;
+  }
+
+  const unrealizedSummary: Record<GainTerm, number> = { short: 0, long: 0, unknown: 0 };
+  for (const e of unrealized) unrealizedSummary[e.term] += e.gain;
+
+  return {
+    generatedAt: new Date().toISOString(),
+    currency: 'INR',
+    financialYears,
+    summaries,
+    realized,
+    unrealized,
+    unrealizedSummary,
+    excluded,
+    warnings,
+  };
+}
+
+/** Narrow a report to one FY; unrealized gains are current and kept as they are. */
+export function reportForYear(report: CapitalGainsReport, fy: string): CapitalGainsReport {
+  return {
+    ...report,
+    summaries: report.summaries.filter((s) => s.financialYear === fy),
+    realized: report.realized.filter((e) => e.financialYear === fy),
+  };
+}
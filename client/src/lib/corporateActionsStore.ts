@@ -0,0 +1,149 @@
+import { randomUUID } from 'crypto';
+import { Holding } from '@/types/stock';
+import { CorporateAction, CorporateActionType, Transaction } from '@/types/ledger';
+import { readJson, updateJson } from '@/lib/jsonStore';
+import { OversellError, foldPosition, sortCorporateActions } from '@/lib/ledger';
+import { scopedStore } from '@/lib/portfoliosStore';
+
+const STORE = 'corporate-actions';
+export const CORPORATE_ACTION_TYPES: CorporateActionType[] = ['split', 'bonus', 'dividend', 'rights'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export type CorporateActionInput = Omit<CorporateAction, 'id'>;
+
+// Same symbol, type and ex-date means the same event, whether typed in or imported
+const sameEvent = (a: CorporateActionInput, b: CorporateActionInput) => a.symbol === b.symbol && a.type === b.type && a.exDate === b.exDate;
+
+export function validateCorporateAction(
+  input: unknown,
+  source: CorporateAction['source'] = 'manual'
+): { value: CorporateActionInput; errors?: undefined } | { value?: undefined; errors: string[] } {
+  if (!input || typeof input !== 'object') return { errors: ['Body must be a JSON object'] };
+  const body = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const symbol = typeof body.symbol === 'string' ? body.symbol.trim().toUpperCase() : '';
+  if (!symbol) errors.push('symbol is required');
+
+  const type = body.type as CorporateActionType;
+  if (!CORPORATE_ACTION_TYPES.includes(type)) errors.push(`type must be one of ${CORPORATE_ACTION_TYPES.join(', ')}`);
+
+  const exDate = typeof body.exDate === 'string' ? body.exDate : '';
+  if (!DATE_PATTERN.test(exDate) || Number.isNaN(Date.parse(exDate))) errors.push('exDate must be YYYY-MM-DD');
+
+  const num = (field: string) => (body[field] === '' || body[field] === undefined || body[field] === null ? null : Number(body[field]));
+  const positive = (field: string, value: number | null) => {
+    if (value === null || !Number.isFinite(value) || value <= 0) errors.push(`${field} must be a positive number`);
+  };
+  let numerator = num('numerator');
+  let denominator = num('denominator');
+  let amount = num('amount');
+
+  if (type === 'split' || type === 'bonus' || type === 'rights') {
+    positive('numerator', numerator);
+    positive('denominator', denominator);
+    if (type === 'split' && numerator !== null && numerator === denominator) errors.push('a split ratio cannot be 1:1');
+  } else {
+    numerator = null;
+    denominator = null;
+  }
+  if (type === 'dividend' || type === 'rights') positive('amount', amount);
+  else amount = null;
+
+  if (errors.length) return { errors };
+  return { value: { symbol, type, exDate, numerator, denominator, amount, source } };
+}
+
+export async function listCorporateActions(portfolioId: string, symbol?: string): Promise<CorporateAction[]> {
+  const all = await readJson<CorporateAction[]>(scopedStore(STORE, portfolioId), () => []);
+  return sortCorporateActions(symbol ? all.filter((a) => a.symbol === symbol) : all);
+}
+
+/** Group actions by symbol for folding many holdings at once. */
+export async function corporateActionsBySymbol(portfolioId: string): Promise<Map<string, CorporateAction[]>> {
+  const map = new Map<string, CorporateAction[]>();
+  for (const a of await listCorporateActions(portfolioId)) {
+    const arr = map.get(a.symbol) || [];
+    arr.push(a);
+    map.set(a.symbol, arr);
+  }
+  return map;
+}
+
+// Mutations re-fold the ledger so a reverse split or a removed bonus cannot leave a later sell uncovered
+export async function createCorporateAction(
+  portfolioId: string,
+  holding: Holding,
+  transactions: Transaction[],
+  input: CorporateActionInput
+): Promise<CorporateAction | null> {
+  return updateJson(scopedStore(STORE, portfolioId), () => [] as CorporateAction[], (current) => {
+    if (current.some((a) => sameEvent(a, input))) return { next: current, result: null };
+    const action: CorporateAction = { id: randomUUID(), ...input };
+    foldPosition(holding, transactions, [...current.filter((a) => a.symbol === holding.symbol), action]);
+    return { next: [...current, action], result: action };
+  });
+}
+
+export async function deleteCorporateAction(
+  portfolioId: string,
+  id: string,
+  holding?: Holding,
+  transactions: Transaction[] = []
+): Promise<boolean> {
+  return updateJson(scopedStore(STORE, portfolioId), () => [] as CorporateAction[], (current) => {
+    if (!current.some((a) => a.id === id)) return { next: current, result: false };
+    const next = current.filter((a) => a.id !== id);
+    if (holding) foldPosition(holding, transactions, next.filter((a) => a.symbol === holding.symbol));
+    return { next, result: true };
+  });
+}
+
+export async function deleteCorporateActionsForSymbol(portfolioId: string, symbol: string): Promise<void> {
+  await updateJson(scopedStore(STORE, portfolioId), () => [] as CorporateAction[], (current) => ({
+    next: current.filter((a) => a.symbol !== symbol),
+    result: undefined,
+  }));
+}
+
+export interface ImportedActions {
+  added: CorporateAction[];
+  skipped: { symbol: string; type: string; exDate: string; reason: string }[];
+}
+
+/**
+ * Add feed actions for held symbols in one write. Known events are skipped, as is a symbol
+ * whose actions would make its ledger oversell; the rest of the batch still goes in.
+ */
+export async function importCorporateActions(
+  portfolioId: string,
+  inputs: CorporateActionInput[],
+  holdings: Map<string, Holding>,
+  ledgers: Map<string, Transaction[]>
+): Promise<ImportedActions> {
+  return updateJson(scopedStore(STORE, portfolioId), () => [] as CorporateAction[], (current) => {
+    const added: CorporateAction[] = [];
+    const skipped: ImportedActions['skipped'] = [];
+    const today = new Date().toISOString().slice(0, 10);
+    const skip = (a: CorporateActionInput, reason: string) => skipped.push({ symbol: a.symbol, type: a.type, exDate: a.exDate, reason });
+
+    const bySymbol = new Map<string, CorporateActionInput[]>();
+    for (const input of inputs) {
+      if (!holdings.has(input.symbol)) skip(input, 'not held');
+      else if (input.exDate > today) skip(input, 'ex-date in the future');
+      else if ([...current, ...(bySymbol.get(input.symbol) || [])].some((a) => sameEvent(a, input))) skip(input, 'already recorded');
+      else bySymbol.set(input.symbol, [...(bySymbol.get(input.symbol) || []), input]);
+    }
+    for (const [symbol, batch] of bySymbol) {
+      const actions = batch.map((input) => ({ id: randomUUID(), ...input }));
+      try {
+        foldPosition(holdings.get(symbol)!, ledgers.get(symbol) || [], [...current.filter((a) => a.symbol === symbol), ...actions]);
+        added.push(...actions);
+      } catch (e) {
+        if (!(e instanceof OversellError)) throw e;
+        batch.forEach((input) => skip(input, e.message));
+      }
+    }
+    return { next: added.length ? [...current, ...added] : current, result: { added, skipped } };
+  });
+}
@@ -0,0 +1,22 @@
+// Shared display formatting; safe to import from client components
+
+export const BASE_CURRENCIES = ['INR', 'USD', 'EUR', 'GBP', 'SGD'];
+
+const LOCALES: Record<string, string> = { INR: 'en-IN' };
+
+export const formatCurrency = (value: number, currency = 'INR', fraction = 2) =>
+  new Intl.NumberFormat(LOCALES[currency] || 'en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: fraction,
+    maximumFractionDigits: fraction,
+  }).format(value);
+
+// Compact axis labels such as ₹15k or $1.2M
+export const formatCompactCurrency = (value: number, currency = 'INR') =>
+  new Intl.NumberFormat(LOCALES[currency] || 'en-US', {
+    style: 'currency',
+    currency,
+    notation: 'compact',
+    maximumFractionDigits: 1,
+  }).format(value);
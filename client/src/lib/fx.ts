@@ -0,0 +1,58 @@
+import { FxRates } from '@/types/stock';
+import { BACKEND_URL, fetchBackend } from '@/lib/backend';
+import { BASE_CURRENCIES } from '@/lib/format';
+
+export const DEFAULT_BASE_CURRENCY = process.env.BASE_CURRENCY || 'INR';
+
+export const INVALID_BASE_CURRENCY = `base must be one of ${BASE_CURRENCIES.join(', ')}`;
+
+/**
+ * The `base` query parameter (default DEFAULT_BASE_CURRENCY), or null when it is not one of the
+ * offered base currencies. Snapshot stores and FX lookups exist only for those.
+ */
+export function requestedBase(params: URLSearchParams): string | null {
+  const base = (params.get('base') || DEFAULT_BASE_CURRENCY).toUpperCase();
+  return BASE_CURRENCIES.includes(base) ? base : null;
+}
+
+// Used when no BACKEND_URL is configured, alongside the synthetic quote fallback,
+// and when the backend cannot be reached. Mirrors backend/fixtures/fx-rates.json (USD-based).
+const FALLBACK_USD_RATES: Record<string, number> = {
+  USD: 1,
+  INR: 85.6,
+  EUR: 0.966,
+  GBP: 0.803,
+  JPY: 157.4,
+  SGD: 1.364,
+  HKD: 7.77,
+  AUD: 1.607,
+  CAD: 1.44,
+};
+
+// Last rates the backend returned per base, preferred over the static fallback during an outage
+const lastKnownRates = new Map<string, FxRates>();
+
+export async function getFxRates(base: string): Promise<FxRates> {
+  if (BACKEND_URL) {
+    try {
+      const fx = await fetchBackend<FxRates>(`/api/fx?base=${encodeURIComponent(base)}`);
+      lastKnownRates.set(base, fx);
+      return fx;
+    } catch (e) {
+      console.error('FX fetch failed, using last known rates', e);
+      const known = lastKnownRates.get(base);
+      if (known) return known;
+    }
+  }
+  const baseRate = FALLBACK_USD_RATES[base];
+  if (!baseRate) throw new Error(`Unsupported base currency ${base}`);
+  const rates = Object.fromEntries(Object.entries(FALLBACK_USD_RATES).map(([ccy, r]) => [ccy, r / baseRate]));
+  return { base, rates, asOf: '2025-01-02', source: 'fallback' };
+}
+
+/** Factor that converts an amount in `currency` into the rates' base currency. */
+export function fxRateFor(fx: FxRates, currency: string): number {
+  const rate = fx.rates[currency];
+  if (!rate) throw new Error(`No FX rate for ${currency} in ${fx.base}`);
+  return 1 / rate;
+}
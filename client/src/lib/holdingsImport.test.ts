@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Holding } from '@/types/stock';
+import { ColumnMapping } from '@/types/import';
+import { QuoteBatchEntry, fetchQuoteBatch } from '@/lib/backend';
+import { buildImportReport, parseSpreadsheet, suggestMapping } from '@/lib/holdingsImport';
+
+vi.mock('@/lib/backend', () => ({
+  BACKEND_URL: 'http://backend.test',
+  fetchQuoteBatch: vi.fn(),
+  instrumentRef: (symbol: string, exchange?: string) => `${symbol}:${exchange}`,
+}));
+
+const HEADERS = ['Instrument', 'Qty.', 'Avg. cost', 'Exchange', 'Trade date'];
+const MAPPING: ColumnMapping = { symbol: 'Instrument', shares: 'Qty.', purchasePrice: 'Avg. cost', exchange: 'Exchange', purchaseDate: 'Trade date' };
+
+const cells = (symbol: string, shares: string, cost: string, exchange = 'NSE', date = '') => ({
+  Instrument: symbol,
+  'Qty.': shares,
+  'Avg. cost': cost,
+  Exchange: exchange,
+  'Trade date': date,
+});
+
+const tcs: Holding = {
+  symbol: 'TCS',
+  companyName: 'Tata Consultancy Services',
+  sector: 'Technology',
+  purchasePrice: 3000,
+  shares: 5,
+  exchange: 'NSE',
+  currency: 'INR',
+  purchaseDate: '2021-04-01',
+};
+
+// Every symbol the backend is asked about is known unless listed here
+function givenUnknown(...symbols: string[]) {
+  vi.mocked(fetchQuoteBatch).mockImplementation(async (instruments) =>
+    Object.fromEntries(
+      instruments
+        .filter((i) => !symbols.includes(i.symbol))
+        .map((i) => [`${i.symbol}:${i.exchange}`, { cmp: { currentPrice: 100 } } as QuoteBatchEntry])
+    )
+  );
+}
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  givenUnknown();
+});
+
+describe('suggestMapping', () => {
+  it('recognizes broker export headers', () => {
+    expect(suggestMapping([...HEADERS, 'LTP'])).toEqual(MAPPING);
+    expect(suggestMapping(['  Stock  Symbol ', 'Quantity', 'Average Price', 'NSE/BSE'])).toEqual({
+      symbol: '  Stock  Symbol ',
+      shares: 'Quantity',
+      purchasePrice: 'Average Price',
+      exchange: 'NSE/BSE',
+    });
+  });
+});
+
+describe('parseSpreadsheet', () => {
+  it('reads a CSV into header-keyed rows without reinterpreting cells', () => {
+    const csv = 'Instrument,Qty.,Avg. cost,Exchange,Trade date\nINFY,10,"1,234.50",NSE,15-06-2022\n\nTCS,5,3000,NSE,\n';
+    const { headers, rows } = parseSpreadsheet(new TextEncoder().encode(csv).buffer as ArrayBuffer, 'holdings.CSV');
+    expect(headers).toEqual(HEADERS);
+    expect(rows).toEqual([cells('INFY', '10', '1,234.50', 'NSE', '15-06-2022'), cells('TCS', '5', '3000')]);
+  });
+});
+
+describe('buildImportReport', () => {
+  it('cleans broker formatting and fills optional columns from the held position', async () => {
+    const rows = [cells('infy', '10', '₹1,234.50', 'nse', '5/6/2022'), cells('TCS', '8', '3,100')];
+    const report = await buildImportReport(HEADERS, rows, MAPPING, [tcs]);
+    expect(report.rows.map((r) => [r.row, r.status, r.holding])).toEqual([
+      [
+        2,
+        'new',
+        {
+          symbol: 'INFY',
+          companyName: 'INFY',
+          sector: 'Uncategorized',
+          exchange: 'NSE',
+          currency: 'INR',
+          purchasePrice: 1234.5,
+          shares: 10,
+          purchaseDate: '2022-06-05',
+        },
+      ],
+      [3, 'update', { ...tcs, purchasePrice: 3100, shares: 8 }],
+    ]);
+    expect(report.summary).toEqual({ total: 2, valid: 2, invalid: 0, new: 1, updated: 1 });
+  });
+
+  it('reports invalid and duplicate rows by spreadsheet row', async () => {
+    const rows = [cells('INFY', '10', '1500'), cells('INFY', '2', '1600'), cells('WIPRO', '1.5', '400'), cells('ITC', '3', '400', 'LSE')];
+    const report = await buildImportReport(HEADERS, rows, MAPPING, []);
+    expect(report.rows.map((r) => [r.row, r.status, r.errors])).toEqual([
+      [2, 'new', []],
+      [3, 'error', ['Duplicate of row 2 (INFY)']],
+      [4, 'error', ['shares must be a whole number']],
+      [5, 'error', ['exchange must be one of NSE, BSE, NASDAQ, NYSE']],
+    ]);
+    expect(report.summary).toEqual({ total: 4, valid: 1, invalid: 3, new: 1, updated: 0 });
+  });
+
+  it('flags every row when a required column is not mapped', async () => {
+    const report = await buildImportReport(HEADERS, [cells('INFY', '10', '1500')], { ...MAPPING, exchange: undefined }, []);
+    expect(report.rows[0].status).toBe('error');
+    expect(report.rows[0].errors).toContain('No column mapped to exchange');
+  });
+
+  it('looks up only new symbols and rejects the ones the backend does not know', async () => {
+    givenUnknown('NOPE');
+    const rows = [cells('NOPE', '1', '10'), cells('TCS', '5', '3000'), cells('INFY', '10', '1500')];
+    const report = await buildImportReport(HEADERS, rows, MAPPING, [tcs]);
+    expect(vi.mocked(fetchQuoteBatch).mock.calls[0][0].map((h) => h.symbol)).toEqual(['NOPE', 'INFY']);
+    expect(report.rows.map((r) => [r.status, r.errors])).toEqual([
+      ['error', ['Unknown symbol NOPE']],
+      ['update', []],
+      ['new', []],
+    ]);
+    expect(report.rows[0].holding).toBeUndefined();
+  });
+
+  it('imports new symbols unverified with a warning when the backend is down', async () => {
+    vi.mocked(fetchQuoteBatch).mockRejectedValue(new Error('Backend request failed: 503'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const report = await buildImportReport(HEADERS, [cells('INFY', '10', '1500'), cells('TCS', '5', '3000')], MAPPING, [tcs]);
+    expect(report.rows.map((r) => [r.status, r.errors, r.warnings])).toEqual([
+      ['new', [], ['Symbol not verified: the quote backend is unavailable']],
+      ['update', [], []],
+    ]);
+    expect(report.summary).toEqual({ total: 2, valid: 2, invalid: 0, new: 1, updated: 1 });
+  });
+});
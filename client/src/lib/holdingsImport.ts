@@ -0,0 +1,147 @@
+import * as XLSX from 'xlsx';
+import { Holding } from '@/types/stock';
+import { ColumnMapping, ImportField, ImportReport, ImportRowReport } from '@/types/import';
+import { validateHolding } from '@/lib/holdingsStore';
+import { BACKEND_URL, fetchQuoteBatch, instrumentRef } from '@/lib/backend';
+
+const IMPORT_FIELDS: ImportField[] = ['symbol', 'companyName', 'purchasePrice', 'shares', 'exchange', 'sector', 'currency', 'purchaseDate'];
+
+// Header aliases seen in common broker exports (Zerodha, Groww, Angel One, IBKR)
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  symbol: ['symbol', 'ticker', 'instrument', 'tradingsymbol', 'scrip', 'stock symbol', 'security'],
+  companyName: ['company name', 'companyname', 'company', 'name', 'stock name', 'security name', 'particulars'],
+  purchasePrice: ['purchase price', 'purchaseprice', 'avg. cost', 'avg cost', 'average price', 'avg price', 'buy price', 'cost price'],
+  shares: ['shares', 'qty', 'qty.', 'quantity', 'units', 'position'],
+  exchange: ['exchange', 'exch', 'nse/bse', 'market'],
+  sector: ['sector', 'industry', 'category'],
+  currency: ['currency', 'ccy', 'trade currency'],
+  purchaseDate: ['purchase date', 'purchasedate', 'buy date', 'trade date', 'date', 'date acquired'],
+};
+
+const normalizeHeader = (h: string) => h.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Read the first worksheet of a CSV or XLSX upload into header-keyed string rows.
+ * CSV cells are kept as typed so day-first dates are not guessed as US dates;
+ * XLSX date cells are rendered as YYYY-MM-DD.
+ */
+export function parseSpreadsheet(data: ArrayBuffer, fileName: string) {
+  const workbook = fileName.toLowerCase().endsWith('.csv')
+    ? XLSX.read(new TextDecoder().decode(data), { type: 'string', raw: true })
+    : XLSX.read(new Uint8Array(data), { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return { headers: [], rows: [] };
+  const matrix = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, raw: false, defval: '', blankrows: false, dateNF: 'yyyy-mm-dd' });
+  const [headerRow = [], ...body] = matrix;
+  const headers = headerRow.map((h) => String(h).trim());
+  const rows = body.map((cells) => Object.fromEntries(headers.map((h, i) => [h, String(cells[i] ?? '').trim()])));
+  return { headers, rows };
+}
+
+export function suggestMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  for (const field of IMPORT_FIELDS) {
+    const match = headers.find((h) => HEADER_ALIASES[field].includes(normalizeHeader(h)));
+    if (match) mapping[field] = match;
+  }
+  return mapping;
+}
+
+// Broker exports carry thousands separators and currency symbols in numeric columns
+const cleanNumber = (v: string) => v.replace(/[₹$,\s]/g, '');
+
+// Indian broker exports write dates day-first (15-06-2022, 15/06/2022); anything else is passed through to validation
+const cleanDate = (v: string) => {
+  const dayFirst = v.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+  return dayFirst ? `${dayFirst[3]}-${dayFirst[2].padStart(2, '0')}-${dayFirst[1].padStart(2, '0')}` : v;
+};
+
+// Only symbols not already held are looked up, on their own exchange; without a backend the pattern check in validateHolding stands in.
+// Throws when the lookup itself fails, which buildImportReport turns into warnings.
+async function findUnknownSymbols(holdings: Holding[]): Promise<Set<string>> {
+  if (!BACKEND_URL || holdings.length === 0) return new Set();
+  const quotes = await fetchQuoteBatch(holdings, ['cmp']);
+  return new Set(holdings.filter((h) => !quotes[instrumentRef(h.symbol, h.exchange)]?.cmp).map((h) => h.symbol));
+}
+
+export async function buildImportReport(
+  headers: string[],
+  rows: Record<string, string>[],
+  mapping: ColumnMapping,
+  existing: Holding[]
+): Promise<ImportReport> {
+  const existingBySymbol = new Map(existing.map((h) => [h.symbol, h]));
+  const seen = new Map<string, number>();
+
+  const reports: ImportRowReport[] = rows.map((cells, i) => {
+    const row = i + 2;
+    const errors: string[] = [];
+    const get = (field: ImportField) => (mapping[field] ? cells[mapping[field]!] ?? '' : '');
+
+    for (const field of ['symbol', 'purchasePrice', 'shares', 'exchange'] as ImportField[]) {
+      if (!mapping[field]) errors.push(`No column mapped to ${field}`);
+    }
+
+    const symbol = get('symbol').toUpperCase();
+    // Optional columns fall back to the held position's values, then to placeholders
+    const current = existingBySymbol.get(symbol);
+    const validated = validateHolding({
+      symbol,
+      companyName: get('companyName') || current?.companyName || symbol,
+      sector: get('sector') || current?.sector || 'Uncategorized',
+      exchange: get('exchange'),
+      currency: get('currency'),
+      purchasePrice: cleanNumber(get('purchasePrice')),
+      shares: cleanNumber(get('shares')),
+      purchaseDate: cleanDate(get('purchaseDate')) || current?.purchaseDate || null,
+    });
+    if (validated.errors) errors.push(...validated.errors);
+
+    if (symbol) {
+      const firstRow = seen.get(symbol);
+      if (firstRow !== undefined) errors.push(`Duplicate of row ${firstRow} (${symbol})`);
+      else seen.set(symbol, row);
+    }
+
+    if (errors.length || !validated.value) return { row, symbol, status: 'error', errors: Array.from(new Set(errors)), warnings: [] };
+    return {
+      row,
+      symbol,
+      holding: validated.value,
+      status: current ? 'update' : 'new',
+      errors,
+      warnings: [],
+    };
+  });
+
+  const toLookup = reports.filter((r) => r.status === 'new').map((r) => r.holding!);
+  let unknown = new Set<string>();
+  try {
+    unknown = await findUnknownSymbols(toLookup);
+  } catch (e) {
+    // A backend outage should not block an import; the new symbols go in unchecked
+    console.error('Symbol lookup failed', e);
+    for (const r of reports) if (r.status === 'new') r.warnings.push('Symbol not verified: the quote backend is unavailable');
+  }
+  for (const r of reports) {
+    if (r.holding && unknown.has(r.holding.symbol)) {
+      r.errors.push(`Unknown symbol ${r.holding.symbol}`);
+      r.status = 'error';
+      r.holding = undefined;
+    }
+  }
+
+  const valid = reports.filter((r) => r.status !== 'error');
+  return {
+    headers,
+    mapping,
+    rows: reports,
+    summary: {
+      total: reports.length,
+      valid: valid.length,
+      invalid: reports.length - valid.length,
+      new: valid.filter((r) => r.status === 'new').length,
+      updated: valid.filter((r) => r.status === 'update').length,
+    },
+  };
+}
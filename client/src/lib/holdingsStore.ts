@@ -0,0 +1,173 @@
+import { Holding } from '@/types/stock';
+import { readJson, updateJson, withLock } from '@/lib/jsonStore';
+import { DEFAULT_PORTFOLIO_ID } from '@/lib/portfolioIds';
+import { scopedStore } from '@/lib/portfoliosStore';
+
+const STORE = 'holdings';
+
+// Seed used the first time the default portfolio is read; replaces the old hard-coded mockPortfolioData
+const seedHoldings: Holding[] = [
+  { symbol: 'AAPL', companyName: 'Apple Inc.', sector: 'Technology', purchasePrice: 150.0, shares: 100, exchange: 'NASDAQ', currency: 'USD', purchaseDate: '2022-06-15' },
+  { symbol: 'MSFT', companyName: 'Microsoft Corporation', sector: 'Technology', purchasePrice: 320.0, shares: 50, exchange: 'NASDAQ', currency: 'USD', purchaseDate: '2023-03-10' },
+  { symbol: 'GOOGL', companyName: 'Alphabet Inc.', sector: 'Technology', purchasePrice: 125.0, shares: 75, exchange: 'NASDAQ', currency: 'USD', purchaseDate: '2022-11-03' },
+  { symbol: 'AMZN', companyName: 'Amazon.com Inc.', sector: 'Consumer Discretionary', purchasePrice: 140.0, shares: 60, exchange: 'NASDAQ', currency: 'USD', purchaseDate: '2023-01-20' },
+  { symbol: 'TSLA', companyName: 'Tesla Inc.', sector: 'Automotive', purchasePrice: 230.0, shares: 40, exchange: 'NASDAQ', currency: 'USD', purchaseDate: '2023-05-24' },
+  { symbol: 'NVDA', companyName: 'NVIDIA Corporation', sector: 'Technology', purchasePrice: 700.0, shares: 15, exchange: 'NASDAQ', currency: 'USD', purchaseDate: '2024-02-26' },
+];
+
+export const EXCHANGES = ['NSE', 'BSE', 'NASDAQ', 'NYSE'];
+
+// Quote currency implied by each exchange, used when a holding does not name one
+const EXCHANGE_CURRENCY: Record<string, string> = { NSE: 'INR', BSE: 'INR', NASDAQ: 'USD', NYSE: 'USD' };
+
+export const currencyForExchange = (exchange: string) => EXCHANGE_CURRENCY[exchange] || 'USD';
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+export const SYMBOL_PATTERN = /^[A-Z0-9][A-Z0-9.&-]{0,19}$/;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export type ValidationResult = { value: Holding; errors?: undefined } | { value?: undefined; errors: string[] };
+
+function readString(input: Record<string, unknown>, field: string, errors: string[], required: boolean) {
+  const v = input[field];
+  if (v === undefined || v === null || v === '') {
+    if (required) errors.push(`${field} is required`);
+    return undefined;
+  }
+  if (typeof v !== 'string') {
+    errors.push(`${field} must be a string`);
+    return undefined;
+  }
+  return v.trim();
+}
+
+function readPositiveNumber(input: Record<string, unknown>, field: string, errors: string[], required: boolean) {
+  const v = input[field];
+  if (v === undefined || v === null || v === '') {
+    if (required) errors.push(`${field} is required`);
+    return undefined;
+  }
+  const n = typeof v === 'string' ? Number(v) : v;
+  if (typeof n !== 'number' || !Number.isFinite(n) || n <= 0) {
+    errors.push(`${field} must be a positive number`);
+    return undefined;
+  }
+  return n;
+}
+
+/**
+ * Validate a holding payload. With `base` set the payload is a partial update
+ * merged over the existing holding; otherwise every field is required.
+ */
+export function validateHolding(input: unknown, base?: Holding): ValidationResult {
+  if (!input || typeof input !== 'object') return { errors: ['Body must be a JSON object'] };
+  const body = input as Record<string, unknown>;
+  const required = !base;
+  const errors: string[] = [];
+
+  const symbol = readString(body, 'symbol', errors, required)?.toUpperCase();
+  const companyName = readString(body, 'companyName', errors, required);
+  const sector = readString(body, 'sector', errors, required);
+  const exchange = readString(body, 'exchange', errors, required)?.toUpperCase();
+  const currency = readString(body, 'currency', errors, false)?.toUpperCase();
+  const purchasePrice = readPositiveNumber(body, 'purchasePrice', errors, required);
+  const shares = readPositiveNumber(body, 'shares', errors, required);
+
+  if (symbol !== undefined && !SYMBOL_PATTERN.test(symbol)) errors.push('symbol must be 1-20 letters, digits or . & -');
+  if (base && symbol !== undefined && symbol !== base.symbol) errors.push('symbol cannot be changed');
+  if (exchange !== undefined && !EXCHANGES.includes(exchange)) errors.push(`exchange must be one of ${EXCHANGES.join(', ')}`);
+  if (currency !== undefined && !CURRENCY_PATTERN.test(currency)) errors.push('currency must be a 3-letter ISO code');
+  if (shares !== undefined && !Number.isInteger(shares)) errors.push('shares must be a whole number');
+
+  // Optional; null or an empty string clears it on update
+  let purchaseDate = base ? base.purchaseDate : null;
+  if (body.purchaseDate === null || body.purchaseDate === '') purchaseDate = null;
+  else if (body.purchaseDate !== undefined) {
+    const date = typeof body.purchaseDate === 'string' ? body.purchaseDate.trim() : '';
+    if (!DATE_PATTERN.test(date) || Number.isNaN(Date.parse(date))) errors.push('purchaseDate must be YYYY-MM-DD');
+    else if (date > new Date().toISOString().slice(0, 10)) errors.push('purchaseDate cannot be in the future');
+    else purchaseDate = date;
+  }
+
+  if (errors.length) return { errors };
+
+  return {
+    value: {
+      symbol: symbol ?? base!.symbol,
+      companyName: companyName ?? base!.companyName,
+      sector: sector ?? base!.sector,
+      exchange: exchange ?? base!.exchange,
+      // A changed exchange re-derives the currency unless one is given explicitly
+      currency: currency ?? (exchange && exchange !== base?.exchange ? currencyForExchange(exchange) : base!.currency),
+      purchasePrice: purchasePrice ?? base!.purchasePrice,
+      shares: shares ?? base!.shares,
+      purchaseDate,
+    },
+  };
+}
+
+/**
+ * Run a change that folds a holding against its transactions and corporate actions. Those live in
+ * separate stores, so every route that re-checks a ledger takes this lock for the whole read-check-write.
+ */
+export const withLedgerLock = <R>(portfolioId: string, task: () => Promise<R>) => withLock(`ledger-${portfolioId}`, task);
+
+// Portfolios added later start empty
+const defaultHoldings = (portfolioId: string) => () => (portfolioId === DEFAULT_PORTFOLIO_ID ? seedHoldings : []);
+
+export async function listHoldings(portfolioId: string): Promise<Holding[]> {
+  const holdings = await readJson<Holding[]>(scopedStore(STORE, portfolioId), defaultHoldings(portfolioId));
+  // Stores written before currencies or purchase dates existed get the exchange's currency and no date
+  return holdings.map((h) => ({ ...h, currency: h.currency || currencyForExchange(h.exchange), purchaseDate: h.purchaseDate ?? null }));
+}
+
+export async function getHolding(portfolioId: string, symbol: string): Promise<Holding | undefined> {
+  return (await listHoldings(portfolioId)).find((h) => h.symbol === symbol);
+}
+
+export async function createHolding(portfolioId: string, holding: Holding): Promise<Holding | null> {
+  return updateJson(scopedStore(STORE, portfolioId), defaultHoldings(portfolioId), (current) => {
+    if (current.some((h) => h.symbol === holding.symbol)) return { next: current, result: null };
+    return { next: [...current, holding], result: holding };
+  });
+}
+
+/** Apply a validated update; returns null when the symbol is not in the store. */
+export async function updateHolding(
+  portfolioId: string,
+  symbol: string,
+  update: (existing: Holding) => ValidationResult
+): Promise<ValidationResult | null> {
+  return updateJson<Holding[], ValidationResult | null>(scopedStore(STORE, portfolioId), defaultHoldings(portfolioId), (current) => {
+    const idx = current.findIndex((h) => h.symbol === symbol);
+    if (idx === -1) return { next: current, result: null };
+    const validated = update(current[idx]);
+    if (!validated.value) return { next: current, result: validated };
+    const next = [...current];
+    next[idx] = validated.value;
+    return { next, result: validated };
+  });
+}
+
+export async function deleteHolding(portfolioId: string, symbol: string): Promise<boolean> {
+  return updateJson(scopedStore(STORE, portfolioId), defaultHoldings(portfolioId), (current) => {
+    const next = current.filter((h) => h.symbol !== symbol);
+    return { next, result: next.length !== current.length };
+  });
+}
+
+/** Insert new symbols and overwrite existing ones in place. */
+export async function upsertHoldings(portfolioId: string, incoming: Holding[]): Promise<Holding[]> {
+  return updateJson(scopedStore(STORE, portfolioId), defaultHoldings(portfolioId), (current) => {
+    const bySymbol = new Map(current.map((h) => [h.symbol, h]));
+    for (const h of incoming) bySymbol.set(h.symbol, h);
+    const next = Array.from(bySymbol.values());
+    return { next, result: next };
+  });
+}
+
+export async function replaceHoldings(portfolioId: string, incoming: Holding[]): Promise<Holding[]> {
+  return updateJson(scopedStore(STORE, portfolioId), defaultHoldings(portfolioId), () => ({ next: incoming, result: incoming }));
+}
@@ -0,0 +1,89 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// File-backed JSON persistence for server-side route handlers.
+// DATA_DIR defaults to ./data (git-ignored) relative to the Next.js app.
+const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), 'data');
+
+// Writes are chained per file so concurrent requests never interleave a read-modify-write
+const writeQueues = new Map<string, Promise<unknown>>();
+// Chains for work that reads and writes several documents as one step
+const taskQueues = new Map<string, Promise<unknown>>();
+
+function filePath(name: string) {
+  return path.join(DATA_DIR, `${name}.json`);
+}
+
+export async function readJson<T>(name: string, fallback: () => T): Promise<T> {
+  try {
+    const raw = await fs.readFile(filePath(name), 'utf8');
+    return JSON.parse(raw) as T;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return fallback();
+    throw err;
+  }
+}
+
+export async function writeJson<T>(name: string, data: T): Promise<void> {
+  const target = filePath(name);
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  // Write to a temp file and rename so a crash never leaves a truncated store
+  const tmp = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data, null, 2), 'utf8');
+  await fs.rename(tmp, target);
+}
+
+/**
+ * Read-modify-write a JSON document under a per-file lock.
+ * The updater returns the next document plus a result for the caller;
+ * returning `current` itself (unmodified) skips the write.
+ */
+export async function updateJson<T, R>(
+  name: string,
+  fallback: () => T,
+  updater: (current: T) => { next: T; result: R } | Promise<{ next: T; result: R }>
+): Promise<R> {
+  const previous = writeQueues.get(name) || Promise.resolve();
+  const run = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const current = await readJson<T>(name, fallback);
+      const { next, result } = await updater(current);
+      if (next !== current) await writeJson(name, next);
+      return result;
+    });
+  writeQueues.set(name, run);
+  return run;
+}
+
+/**
+ * Run `task` after every earlier task queued under the same key. For changes that span documents,
+ * where each file's own lock cannot stop another request from slipping in between the reads.
+ */
+export async function withLock<R>(key: string, task: () => Promise<R>): Promise<R> {
+  const previous = taskQueues.get(key) || Promise.resolve();
+  const run = previous.catch(() => undefined).then(task);
+  taskQueues.set(key, run);
+  return run;
+}
+
+/** Delete a JSON document, waiting for any queued write to it first. Missing files are ignored. */
+export async function removeJson(name: string): Promise<void> {
+  const previous = writeQueues.get(name) || Promise.resolve();
+  const run = previous.catch(() => undefined).then(() => fs.rm(filePath(name), { force: true }));
+  writeQueues.set(name, run);
+  return run;
+}
+
+/** Move a document to a new name, after any queued writes to either; a missing source is ignored. */
+export async function renameJson(from: string, to: string): Promise<void> {
+  const pending = Promise.all([writeQueues.get(from), writeQueues.get(to)].map((p) => (p || Promise.resolve()).catch(() => undefined)));
+  const run = pending.then(() =>
+    fs.rename(filePath(from), filePath(to)).catch((err) => {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+    })
+  );
+  writeQueues.set(from, run);
+  writeQueues.set(to, run);
+  return run;
+}
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import { Holding } from '@/types/stock';
+import { CorporateAction, Transaction } from '@/types/ledger';
+import { OversellError, foldPosition, oversoldHoldings } from '@/lib/ledger';
+
+const holding = (overrides: Partial<Holding> = {}): Holding => ({
+  symbol: 'TCS',
+  companyName: 'Tata Consultancy Services',
+  sector: 'Technology',
+  purchasePrice: 100,
+  shares: 10,
+  exchange: 'NSE',
+  currency: 'INR',
+  purchaseDate: '2023-01-02',
+  ...overrides,
+});
+
+let nextId = 0;
+const txn = (type: Transaction['type'], date: string, quantity: number, price: number, fees = 0): Transaction => ({
+  id: `t${++nextId}`,
+  symbol: 'TCS',
+  type,
+  date,
+  quantity,
+  price,
+  fees,
+});
+
+const action = (type: CorporateAction['type'], exDate: string, fields: Partial<CorporateAction>): CorporateAction => ({
+  id: `a${++nextId}`,
+  symbol: 'TCS',
+  type,
+  exDate,
+  numerator: null,
+  denominator: null,
+  amount: null,
+  source: 'manual',
+  ...fields,
+});
+
+describe('foldPosition', () => {
+  it('reports the opening lot alone', () => {
+    const position = foldPosition(holding(), []);
+    expect(position.shares).toBe(10);
+    expect(position.averageCost).toBe(100);
+    expect(position.fifoInvestment).toBe(1000);
+    expect(position.lots).toEqual([{ date: '2023-01-02', quantity: 10, costPerShare: 100 }]);
+  });
+
+  it('matches sells to lots FIFO and to the weighted average, net of fees', () => {
+    const position = foldPosition(holding(), [txn('sell', '2024-01-10', 15, 150, 15), txn('buy', '2023-06-01', 10, 120, 10)]);
+    // Buy fees join the lot's cost (121/share); the sell nets 149/share
+    expect(position.disposals.map((d) => [d.buyDate, d.quantity, d.costPerShare, d.proceedsPerShare])).toEqual([
+      ['2023-01-02', 10, 100, 149],
+      ['2023-06-01', 5, 121, 149],
+    ]);
+    expect(position.realizedFifo).toBeCloseTo(10 * 49 + 5 * 28);
+    expect(position.realizedAverage).toBeCloseTo(15 * (149 - 110.5));
+    expect(position.lots).toEqual([{ date: '2023-06-01', quantity: 5, costPerShare: 121 }]);
+    expect(position.shares).toBe(5);
+    expect(position.averageCost).toBeCloseTo(110.5);
+    expect(position.fifoInvestment).toBeCloseTo(605);
+  });
+
+  it('applies buys before sells on the same day', () => {
+    const position = foldPosition(holding({ shares: 0 }), [txn('sell', '2024-02-01', 5, 110), txn('buy', '2024-02-01', 5, 100)]);
+    expect(position.shares).toBe(0);
+    expect(position.averageCost).toBe(0);
+    expect(position.realizedFifo).toBeCloseTo(50);
+  });
+
+  it('records the running position after each entry', () => {
+    const position = foldPosition(holding(), [txn('buy', '2023-06-01', 10, 120), txn('sell', '2023-07-01', 5, 150)]);
+    expect(position.steps.map((s) => [s.transaction?.type ?? null, s.shares, s.fifoCost])).toEqual([
+      [null, 10, 1000],
+      ['buy', 20, 2200],
+      ['sell', 15, 1700],
+    ]);
+  });
+
+  it('refuses to sell more than is held', () => {
+    const fold = () => foldPosition(holding(), [txn('sell', '2024-01-10', 11, 150)]);
+    expect(fold).toThrow(OversellError);
+    expect(fold).toThrow('Cannot sell 11 TCS on 2024-01-10: only 10 held');
+  });
+
+  it('places the opening lot on its purchase date among the trades', () => {
+    const opening = holding({ purchaseDate: '2024-01-01' });
+    const position = foldPosition(opening, [txn('buy', '2022-01-01', 5, 80), txn('sell', '2022-06-01', 3, 90), txn('sell', '2024-02-01', 4, 120)]);
+    expect(position.disposals.map((d) => [d.buyDate, d.sellDate, d.quantity])).toEqual([
+      ['2022-01-01', '2022-06-01', 3],
+      ['2022-01-01', '2024-02-01', 2],
+      ['2024-01-01', '2024-02-01', 2],
+    ]);
+    expect(position.steps.map((s) => [s.transaction?.date ?? null, s.shares])).toEqual([
+      ['2022-01-01', 5],
+      ['2022-06-01', 2],
+      [null, 12],
+      ['2024-02-01', 8],
+    ]);
+    expect(position.lots).toEqual([{ date: '2024-01-01', quantity: 8, costPerShare: 100 }]);
+
+    const early = () => foldPosition(opening, [txn('buy', '2022-01-01', 5, 80), txn('sell', '2022-06-01', 12, 90)]);
+    expect(early).toThrow('Cannot sell 12 TCS on 2022-06-01: only 5 held');
+  });
+
+  it('splits lots bought before the ex-date at unchanged cost', () => {
+    const position = foldPosition(holding(), [txn('buy', '2023-03-01', 5, 60)], [action('split', '2023-03-01', { numerator: 2, denominator: 1 })]);
+    expect(position.lots).toEqual([
+      { date: '2023-01-02', quantity: 20, costPerShare: 50 },
+      { date: '2023-03-01', quantity: 5, costPerShare: 60 },
+    ]);
+    expect(position.shares).toBe(25);
+    expect(position.averageCost).toBeCloseTo(1300 / 25);
+  });
+
+  it('treats an undated opening lot as held before every ex-date', () => {
+    const actions = [action('split', '2023-03-01', { numerator: 5, denominator: 1 }), action('bonus', '2023-09-01', { numerator: 1, denominator: 1 })];
+    const position = foldPosition(holding({ purchaseDate: null }), [], actions);
+    expect(position.shares).toBe(100);
+    expect(position.fifoInvestment).toBeCloseTo(1000);
+  });
+
+  it('adds bonus shares as a zero-cost lot', () => {
+    const position = foldPosition(holding(), [], [action('bonus', '2023-05-01', { numerator: 1, denominator: 2 })]);
+    expect(position.lots[1]).toEqual({ date: '2023-05-01', quantity: 5, costPerShare: 0 });
+    expect(position.shares).toBe(15);
+    expect(position.averageCost).toBeCloseTo(1000 / 15);
+    expect(position.fifoInvestment).toBeCloseTo(1000);
+  });
+
+  it('buys whole rights shares at the issue price', () => {
+    const position = foldPosition(holding({ shares: 12 }), [], [action('rights', '2023-05-01', { numerator: 1, denominator: 5, amount: 80 })]);
+    expect(position.shares).toBe(14);
+    expect(position.actionCashFlows).toEqual([
+      expect.objectContaining({ type: 'rights', date: '2023-05-01', shares: 2, amount: -160 }),
+    ]);
+    expect(position.averageCost).toBeCloseTo(1360 / 14);
+  });
+
+  it('accrues dividends on the shares held before the ex-date', () => {
+    const position = foldPosition(
+      holding(),
+      [txn('buy', '2023-08-01', 10, 100), txn('sell', '2023-09-01', 5, 100)],
+      [action('dividend', '2023-08-01', { amount: 5 }), action('dividend', '2023-10-01', { amount: 2 })]
+    );
+    expect(position.actionCashFlows.map((f) => [f.date, f.shares, f.amount])).toEqual([
+      ['2023-08-01', 10, 50],
+      ['2023-10-01', 15, 30],
+    ]);
+    expect(position.dividendIncome).toBe(80);
+  });
+
+  it('waits for the ex-date of announced actions', () => {
+    const position = foldPosition(holding(), [], [action('split', '2999-01-01', { numerator: 2, denominator: 1 })]);
+    expect(position.shares).toBe(10);
+  });
+});
+
+describe('oversoldHoldings', () => {
+  it('lists only the holdings whose sells are no longer covered', () => {
+    const infy = holding({ symbol: 'INFY', shares: 5 });
+    const transactions = new Map([
+      ['TCS', [txn('sell', '2024-01-10', 10, 150)]],
+      ['INFY', [txn('sell', '2024-01-10', 8, 150)]],
+    ]);
+    const oversold = oversoldHoldings([holding(), infy], transactions, new Map());
+    expect(oversold).toHaveLength(1);
+    expect(oversold[0]).toMatchObject({ date: '2024-01-10', available: 5, requested: 8 });
+  });
+});
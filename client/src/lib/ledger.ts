@@ -0,0 +1,191 @@
+import { Holding } from '@/types/stock';
+import { ActionCashFlow, CorporateAction, Disposal, LedgerStep, Lot, Position, Transaction } from '@/types/ledger';
+
+export class OversellError extends Error {
+  constructor(public symbol: string, public date: string, public available: number, public requested: number) {
+    super(`Cannot sell ${requested} ${symbol} on ${date}: only ${available} held`);
+    this.name = 'OversellError';
+  }
+}
+
+export const sortTransactions = (txns: Transaction[]) =>
+  [...txns].sort((a, b) => a.date.localeCompare(b.date) || (a.type === b.type ? 0 : a.type === 'buy' ? -1 : 1));
+
+export const sortCorporateActions = (actions: CorporateAction[]) => [...actions].sort((a, b) => a.exDate.localeCompare(b.exDate));
+
+// Whole shares a bonus or rights ratio entitles `held` shares to; fractional entitlements are dropped
+const entitlement = (held: number, action: CorporateAction) => Math.floor((held * action.numerator!) / action.denominator! + 1e-9);
+
+/**
+ * Fold a holding's ledger into a position. The holding's purchasePrice x shares
+ * is the opening lot, placed on its purchase date ahead of that day's trades
+ * (undated, it opens the ledger); transactions are applied in date order (buys
+ * before sells on the same day) and a sell can never exceed the shares held on
+ * its date. Sells consume lots FIFO for realized P&L and also reduce the
+ * weighted-average position, so both bases are reported.
+ *
+ * Corporate actions apply on their ex-date, before that day's trades, to the
+ * lots bought before it; an opening lot without a purchase date counts as held
+ * before every ex-date, since the holding otherwise never sees its splits.
+ * Splits rescale lots at unchanged cost, bonus shares join as a zero-cost lot,
+ * rights shares are bought at the issue price and dividends accrue as income.
+ */
+export function foldPosition(holding: Holding, transactions: Transaction[], actions: CorporateAction[] = []): Position {
+  const lots: Lot[] = [];
+  const disposals: Disposal[] = [];
+  const actionCashFlows: ActionCashFlow[] = [];
+  const steps: LedgerStep[] = [];
+  let shares = 0;
+  let averageCost = 0;
+  let realizedFifo = 0;
+  let realizedAverage = 0;
+  let dividendIncome = 0;
+
+  const fifoCost = () => lots.reduce((s, l) => s + l.quantity * l.costPerShare, 0);
+
+  let opened = holding.shares <= 0;
+  const open = () => {
+    lots.push({ date: holding.purchaseDate, quantity: holding.shares, costPerShare: holding.purchasePrice });
+    averageCost = (averageCost * shares + holding.purchasePrice * holding.shares) / (shares + holding.shares);
+    shares += holding.shares;
+    opened = true;
+    steps.push({ transaction: null, action: null, shares, averageCost, fifoCost: fifoCost(), realizedFifo: 0, realizedAverage: 0 });
+  };
+  if (!opened && holding.purchaseDate === null) open();
+
+  const applyAction = (action: CorporateAction) => {
+    const eligible = lots.filter((l) => l.date === null || l.date < action.exDate);
+    const held = eligible.reduce((s, l) => s + l.quantity, 0);
+    if (held <= 1e-9) return;
+    const totalCost = averageCost * shares;
+    if (action.type === 'split') {
+      const factor = action.numerator! / action.denominator!;
+      for (const lot of eligible) {
+        lot.quantity *= factor;
+        lot.costPerShare /= factor;
+      }
+      shares += held * (factor - 1);
+      averageCost = shares ? totalCost / shares : 0;
+    } else if (action.type === 'bonus') {
+      const bonus = entitlement(held, action);
+      if (!bonus) return;
+      lots.push({ date: action.exDate, quantity: bonus, costPerShare: 0 });
+      shares += bonus;
+      averageCost = totalCost / shares;
+    } else if (action.type === 'rights') {
+      const taken = entitlement(held, action);
+      if (!taken) return;
+      lots.push({ date: action.exDate, quantity: taken, costPerShare: action.amount! });
+      shares += taken;
+      averageCost = (totalCost + taken * action.amount!) / shares;
+      actionCashFlows.push({ actionId: action.id, type: 'rights', date: action.exDate, shares: taken, amount: -taken * action.amount! });
+    } else {
+      const amount = held * action.amount!;
+      dividendIncome += amount;
+      actionCashFlows.push({ actionId: action.id, type: 'dividend', date: action.exDate, shares: held, amount });
+    }
+    steps.push({ transaction: null, action, shares, averageCost, fifoCost: fifoCost(), realizedFifo: 0, realizedAverage: 0 });
+  };
+
+  const pending = sortCorporateActions(actions);
+  const applyActionsThrough = (date: string) => {
+    while (pending.length && pending[0].exDate <= date) applyAction(pending.shift()!);
+  };
+  for (const t of sortTransactions(transactions)) {
+    if (!opened && holding.purchaseDate! <= t.date) {
+      applyActionsThrough(holding.purchaseDate!);
+      open();
+    }
+    applyActionsThrough(t.date);
+    let stepFifo = 0;
+    let stepAverage = 0;
+    if (t.type === 'buy') {
+      const cost = t.quantity * t.price + t.fees;
+      averageCost = (averageCost * shares + cost) / (shares + t.quantity);
+      shares += t.quantity;
+      lots.push({ date: t.date, quantity: t.quantity, costPerShare: cost / t.quantity });
+    } else {
+      if (t.quantity > shares + 1e-9) throw new OversellError(t.symbol, t.date, shares, t.quantity);
+      const netPerShare = (t.quantity * t.price - t.fees) / t.quantity;
+      let remaining = t.quantity;
+      while (remaining > 1e-9 && lots.length) {
+        const lot = lots[0];
+        const used = Math.min(lot.quantity, remaining);
+        stepFifo += used * (netPerShare - lot.costPerShare);
+        disposals.push({
+          transactionId: t.id,
+          buyDate: lot.date,
+          sellDate: t.date,
+          quantity: used,
+          costPerShare: lot.costPerShare,
+          proceedsPerShare: netPerShare,
+        });
+        lot.quantity -= used;
+        remaining -= used;
+        if (lot.quantity <= 1e-9) lots.shift();
+      }
+      stepAverage = t.quantity * (netPerShare - averageCost);
+      shares -= t.quantity;
+      if (shares <= 1e-9) {
+        shares = 0;
+        averageCost = 0;
+      }
+    }
+    realizedFifo += stepFifo;
+    realizedAverage += stepAverage;
+    steps.push({ transaction: t, action: null, shares, averageCost, fifoCost: fifoCost(), realizedFifo: stepFifo, realizedAverage: stepAverage });
+  }
+  if (!opened) {
+    applyActionsThrough(holding.purchaseDate!);
+    open();
+  }
+  // Actions after the last trade, up to today; announced future actions wait for their ex-date
+  applyActionsThrough(new Date().toISOString().slice(0, 10));
+
+  return {
+    shares,
+    averageCost,
+    averageInvestment: averageCost * shares,
+    fifoInvestment: fifoCost(),
+    realizedFifo,
+    realizedAverage,
+    dividendIncome,
+    lots,
+    disposals,
+    actionCashFlows,
+    steps,
+  };
+}
+
+/** Holdings whose recorded sells their ledger could no longer cover, e.g. after an import shrinks the opening lot. */
+export function oversoldHoldings(
+  holdings: Holding[],
+  transactions: Map<string, Transaction[]>,
+  actions: Map<string, CorporateAction[]>
+): OversellError[] {
+  const oversold: OversellError[] = [];
+  for (const holding of holdings) {
+    try {
+      foldPosition(holding, transactions.get(holding.symbol) || [], actions.get(holding.symbol) || []);
+    } catch (e) {
+      if (!(e instanceof OversellError)) throw e;
+      oversold.push(e);
+    }
+  }
+  return oversold;
+}
+
+/** Ratios read as new-for-old: a 10:1 split turns 1 share into 10, a 1:1 bonus adds 1 per share held. */
+export function describeCorporateAction(action: CorporateAction, formatAmount: (value: number) => string = String): string {
+  const ratio = `${action.numerator}:${action.denominator}`;
+  switch (action.type) {
+    case 'split':
+      return `SPLIT ${ratio}`;
+    case 'bonus':
+      return `BONUS ${ratio}`;
+    case 'rights':
+      return `RIGHTS ${ratio} @ ${formatAmount(action.amount!)}`;
+    case 'dividend':
+      return `DIVIDEND ${formatAmount(action.amount!)}/share`;
+  }
+}
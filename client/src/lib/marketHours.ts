@@ -0,0 +1,21 @@
+import { MarketStatus } from '@/types/market';
+
+/**
+ * How long to wait before the next refresh of rows listed on `exchanges`: `activeMs` while any of
+ * their markets is open or in pre-open, else `idleMs`, cut short by the next open so the first
+ * prices of a session are not missed. Exchanges the calendar does not cover count as open.
+ */
+export function refreshDelay(markets: MarketStatus[], exchanges: string[], activeMs: number, idleMs: number, now = Date.now()) {
+  const wanted = new Set(exchanges);
+  const relevant = markets.filter((m) => m.exchanges.some((e) => wanted.has(e)));
+  const covered = new Set(relevant.flatMap((m) => m.exchanges));
+  if (!relevant.length || [...wanted].some((e) => !covered.has(e)) || relevant.some((m) => m.state !== 'closed')) {
+    return activeMs;
+  }
+  const changes = relevant.map((m) => (m.nextChange ? Date.parse(m.nextChange) - now : Infinity));
+  return Math.max(activeMs, Math.min(idleMs, ...changes));
+}
+
+// Soonest moment any of the markets changes state, in ms from now (Infinity when none is scheduled)
+export const untilNextChange = (markets: MarketStatus[], now = Date.now()) =>
+  Math.min(...markets.map((m) => (m.nextChange ? Date.parse(m.nextChange) - now : Infinity)));
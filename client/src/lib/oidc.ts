@@ -0,0 +1,169 @@
+import { createHash, createPublicKey, randomBytes, verify, JsonWebKey } from 'crypto';
+
+// Sign-in through an OpenID Connect provider (authorization code flow with PKCE). Configured by
+// OIDC_ISSUER and OIDC_CLIENT_ID; the page offers it only when both are set.
+
+export const OIDC_FLOW_COOKIE = 'portfolio_oidc';
+export const OIDC_FLOW_TTL_SEC = 10 * 60;
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string | null; // null: this app's /api/auth/oidc/callback on the request's origin
+  name: string; // what the sign-in button calls the provider
+}
+
+// What the sign-in redirect remembers until the provider sends the user back
+export interface OidcFlow {
+  state: string;
+  nonce: string;
+  verifier: string;
+  redirectUri: string;
+  next: string;
+}
+
+export interface OidcIdentity {
+  issuer: string;
+  subject: string;
+  username?: string;
+  name?: string;
+}
+
+interface Discovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export function oidcConfig(): OidcConfig | null {
+  const issuer = process.env.OIDC_ISSUER?.replace(/\/+$/, '');
+  const clientId = process.env.OIDC_CLIENT_ID;
+  if (!issuer || !clientId) return null;
+  return {
+    issuer,
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || '',
+    redirectUri: process.env.OIDC_REDIRECT_URI || null,
+    name: process.env.OIDC_NAME || 'single sign-on',
+  };
+}
+
+const base64Url = (bytes: Buffer) => bytes.toString('base64url');
+const randomToken = () => base64Url(randomBytes(24));
+
+const discoveries = new Map<string, Promise<Discovery>>();
+
+async function getJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, { ...init, cache: 'no-store', signal: AbortSignal.timeout(8000) });
+  if (!res.ok) throw new Error(`${url} failed: ${res.status}`);
+  return (await res.json()) as T;
+}
+
+// The provider's endpoints, fetched once per process; a failed lookup is retried next time
+function discover(issuer: string): Promise<Discovery> {
+  let pending = discoveries.get(issuer);
+  if (!pending) {
+    pending = getJson<Discovery>(`${issuer}/.well-known/openid-configuration`);
+    pending.catch(() => discoveries.delete(issuer));
+    discoveries.set(issuer, pending);
+  }
+  return pending;
+}
+
+export const encodeFlow = (flow: OidcFlow) => base64Url(Buffer.from(JSON.stringify(flow)));
+
+export function decodeFlow(value: string | undefined): OidcFlow | null {
+  try {
+    const flow = JSON.parse(Buffer.from(value || '', 'base64url').toString('utf8'));
+    return typeof flow?.state === 'string' && typeof flow?.verifier === 'string' ? (flow as OidcFlow) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** The provider's authorization URL and the flow state to keep in a short-lived cookie until the callback. */
+export async function beginOidcLogin(
+  config: OidcConfig,
+  redirectUri: string,
+  next: string
+): Promise<{ url: string; flow: OidcFlow }> {
+  const { authorization_endpoint } = await discover(config.issuer);
+  const flow: OidcFlow = { state: randomToken(), nonce: randomToken(), verifier: randomToken(), redirectUri, next };
+  const url = new URL(authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: redirectUri,
+    scope: 'openid profile email',
+    state: flow.state,
+    nonce: flow.nonce,
+    code_challenge: base64Url(createHash('sha256').update(flow.verifier).digest()),
+    code_challenge_method: 'S256',
+  }).toString();
+  return { url: url.toString(), flow };
+}
+
+type IdTokenClaims = {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  nonce?: string;
+  preferred_username?: string;
+  email?: string;
+  name?: string;
+};
+
+// Check an RS256 id_token against the provider's published keys and the flow that asked for it
+async function verifyIdToken(config: OidcConfig, discovery: Discovery, token: string, nonce: string): Promise<IdTokenClaims> {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) throw new Error('Malformed id_token');
+  const { alg, kid } = JSON.parse(Buffer.from(header, 'base64url').toString('utf8'));
+  if (alg !== 'RS256') throw new Error(`Unsupported id_token algorithm ${alg}`);
+  const { keys } = await getJson<{ keys: (JsonWebKey & { kid?: string })[] }>(discovery.jwks_uri);
+  const jwk = keys.find((k) => k.kty === 'RSA' && (!kid || k.kid === kid));
+  if (!jwk) throw new Error('No signing key for the id_token');
+  const key = createPublicKey({ key: jwk, format: 'jwk' });
+  if (!verify('RSA-SHA256', Buffer.from(`${header}.${payload}`), key, Buffer.from(signature, 'base64url'))) {
+    throw new Error('Bad id_token signature');
+  }
+  const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as IdTokenClaims;
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== discovery.issuer) throw new Error('id_token from another issuer');
+  if (!audiences.includes(config.clientId)) throw new Error('id_token for another client');
+  if (claims.exp * 1000 <= Date.now()) throw new Error('id_token expired');
+  if (claims.nonce !== nonce) throw new Error('id_token nonce mismatch');
+  return claims;
+}
+
+/** Trade the callback's code for a verified identity; throws when anything about the exchange is off. */
+export async function completeOidcLogin(config: OidcConfig, params: URLSearchParams, flow: OidcFlow): Promise<OidcIdentity> {
+  const error = params.get('error');
+  if (error) throw new Error(`Provider refused sign-in: ${params.get('error_description') || error}`);
+  const code = params.get('code');
+  if (!code || params.get('state') !== flow.state) throw new Error('Sign-in response does not match the request');
+  const discovery = await discover(config.issuer);
+  const form = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: flow.redirectUri,
+    client_id: config.clientId,
+    code_verifier: flow.verifier,
+  });
+  if (config.clientSecret) form.set('client_secret', config.clientSecret);
+  const tokens = await getJson<{ id_token?: string }>(discovery.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: form,
+  });
+  if (!tokens.id_token) throw new Error('Token response has no id_token');
+  const claims = await verifyIdToken(config, discovery, tokens.id_token, flow.nonce);
+  return {
+    issuer: claims.iss,
+    subject: claims.sub,
+    username: claims.preferred_username || claims.email?.split('@')[0],
+    name: claims.name,
+  };
+}
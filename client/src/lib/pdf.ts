@@ -0,0 +1,110 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+
+export interface PdfColumn {
+  label: string;
+  width: number; // points
+  align?: 'left' | 'right';
+}
+
+export interface PdfSection {
+  title?: string;
+  lines?: string[]; // paragraphs printed before the table
+  table?: { columns: PdfColumn[]; rows: string[][]; boldRows?: number[] };
+}
+
+// A4 landscape, so wide holding and gains tables fit without wrapping
+const PAGE = { width: 842, height: 595 };
+const MARGIN = 36;
+const FONT_SIZE = 8;
+const ROW_HEIGHT = 13;
+
+// The standard PDF fonts only cover WinAnsi; anything else (e.g. ₹) would throw while drawing.
+// WINANSI_EXTRAS are the characters WinAnsi places at 0x80-0x9F, € among them.
+const WINANSI_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+const printable = (text: string) =>
+  text.replace(/₹/g, 'Rs.').replace(/[^\x20-\x7E\u00A0-\u00FF]/g, (c) => (WINANSI_EXTRAS.includes(c) ? c : '?'));
+
+/** Render a simple text-and-tables document; tables continue onto new pages with their header repeated. */
+export async function renderPdf(title: string, subtitle: string, sections: PdfSection[]): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(title);
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+
+  let page: PDFPage = doc.addPage([PAGE.width, PAGE.height]);
+  let y = PAGE.height - MARGIN;
+
+  const newPage = () => {
+    page = doc.addPage([PAGE.width, PAGE.height]);
+    y = PAGE.height - MARGIN;
+  };
+  const ensure = (height: number) => {
+    if (y - height < MARGIN) newPage();
+  };
+  const text = (value: string, x: number, size: number, font: PDFFont, color = rgb(0.1, 0.1, 0.1)) =>
+    page.drawText(printable(value), { x, y, size, font, color });
+
+  // Cut text to the column width so long company names cannot run into the next column
+  const fit = (value: string, width: number, font: PDFFont) => {
+    let out = printable(value);
+    while (out.length > 1 && font.widthOfTextAtSize(out, FONT_SIZE) > width - 8) out = out.slice(0, -2) + '…';
+    return out;
+  };
+
+  const drawRow = (columns: PdfColumn[], cells: string[], font: PDFFont) => {
+    let x = MARGIN;
+    columns.forEach((col, i) => {
+      const value = fit(cells[i] ?? '', col.width, font);
+      const offset = col.align === 'right' ? col.width - 4 - font.widthOfTextAtSize(value, FONT_SIZE) : i > 0 ? 6 : 0;
+      page.drawText(value, { x: x + offset, y, size: FONT_SIZE, font });
+      x += col.width;
+    });
+    y -= ROW_HEIGHT;
+  };
+
+  text(title, MARGIN, 16, bold);
+  y -= 18;
+  text(subtitle, MARGIN, 9, regular, rgb(0.4, 0.4, 0.4));
+  y -= 24;
+
+  for (const section of sections) {
+    if (section.title) {
+      ensure(40);
+      text(section.title, MARGIN, 11, bold);
+      y -= 16;
+    }
+    for (const line of section.lines || []) {
+      ensure(ROW_HEIGHT);
+      text(line, MARGIN, 9, regular);
+      y -= ROW_HEIGHT;
+    }
+    if (section.table) {
+      const { columns, rows, boldRows = [] } = section.table;
+      const header = () => {
+        drawRow(columns, columns.map((c) => c.label), bold);
+        page.drawLine({
+          start: { x: MARGIN, y: y + ROW_HEIGHT - 3 },
+          end: { x: MARGIN + columns.reduce((s, c) => s + c.width, 0), y: y + ROW_HEIGHT - 3 },
+          thickness: 0.5,
+          color: rgb(0.6, 0.6, 0.6),
+        });
+      };
+      ensure(ROW_HEIGHT * 3);
+      header();
+      rows.forEach((cells, i) => {
+        if (y - ROW_HEIGHT < MARGIN) {
+          newPage();
+          header();
+        }
+        drawRow(columns, cells, boldRows.includes(i) ? bold : regular);
+      });
+    }
+    y -= 12;
+  }
+
+  const pages = doc.getPages();
+  pages.forEach((p, i) =>
+    p.drawText(`Page ${i + 1} of ${pages.length}`, { x: PAGE.width - MARGIN - 60, y: MARGIN / 2, size: 7, font: regular, color: rgb(0.5, 0.5, 0.5) })
+  );
+  return doc.save();
+}
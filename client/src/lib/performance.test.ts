@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Holding } from '@/types/stock';
+import { CorporateAction, Transaction } from '@/types/ledger';
+import { listHoldings } from '@/lib/holdingsStore';
+import { transactionsBySymbol } from '@/lib/transactionsStore';
+import { corporateActionsBySymbol } from '@/lib/corporateActionsStore';
+import { BenchmarkResponse, PriceHistoryResponse, fetchBenchmark, fetchPriceHistory } from '@/lib/backend';
+import { MIN_PERIODS_FOR_BETA, PortfolioDay, closesOn, compareWithBenchmark, covariance, periodReturns } from '@/lib/performance';
+
+vi.mock('@/lib/holdingsStore', () => ({ listHoldings: vi.fn() }));
+vi.mock('@/lib/transactionsStore', () => ({ transactionsBySymbol: vi.fn() }));
+vi.mock('@/lib/corporateActionsStore', () => ({ corporateActionsBySymbol: vi.fn() }));
+vi.mock('@/lib/portfoliosStore', () => ({ aggregateOwner: () => null, listPortfolios: vi.fn() }));
+vi.mock('@/lib/fx', () => ({ getFxRates: async () => ({}), fxRateFor: () => 1 }));
+vi.mock('@/lib/backend', () => ({
+  fetchBenchmark: vi.fn(),
+  fetchPriceHistory: vi.fn(),
+  instrumentRef: (symbol: string, exchange?: string) => `${symbol}:${exchange}`,
+}));
+
+// Consecutive daily bars from 2024-01-01
+const dayOf = (i: number) => new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10);
+const points = (closes: number[]) => closes.map((close, i) => ({ time: `${dayOf(i)}T00:00:00.000Z`, close, volume: 0 }));
+
+const holding: Holding = {
+  symbol: 'INFY',
+  companyName: 'Infosys',
+  sector: 'Technology',
+  purchasePrice: 90,
+  shares: 10,
+  exchange: 'NSE',
+  currency: 'INR',
+  purchaseDate: '2023-06-01',
+};
+
+function givenPortfolio(closes: number[], levels: number[], transactions: Transaction[] = [], actions: CorporateAction[] = []) {
+  vi.mocked(listHoldings).mockResolvedValue([holding]);
+  vi.mocked(transactionsBySymbol).mockResolvedValue(new Map([['INFY', transactions]]));
+  vi.mocked(corporateActionsBySymbol).mockResolvedValue(new Map([['INFY', actions]]));
+  vi.mocked(fetchPriceHistory).mockResolvedValue({ symbol: 'INFY', range: '1mo', interval: '1d', points: points(closes) } as PriceHistoryResponse);
+  vi.mocked(fetchBenchmark).mockResolvedValue({
+    id: 'NIFTY50',
+    symbol: '^NSEI',
+    name: 'NIFTY 50',
+    currency: 'INR',
+    currentPrice: levels[levels.length - 1],
+    changePercent: 0,
+    range: '1mo',
+    interval: '1d',
+    points: points(levels),
+  } as BenchmarkResponse);
+}
+
+beforeEach(() => {
+  vi.resetAllMocks();
+});
+
+describe('closesOn', () => {
+  it('carries closes over missing days and back to the first bar', () => {
+    const bars = [
+      { time: '2024-01-02T00:00:00Z', close: 10, volume: 0 },
+      { time: '2024-01-04T00:00:00Z', close: 12, volume: 0 },
+    ];
+    expect(closesOn(['2024-01-01', '2024-01-02', '2024-01-03', '2024-01-04'], bars)).toEqual([10, 10, 10, 12]);
+  });
+});
+
+describe('periodReturns', () => {
+  it('takes money moved in or out out of the period return', () => {
+    const days: PortfolioDay[] = [
+      { date: '2024-01-01', value: 0, flow: 0, income: 0 },
+      { date: '2024-01-02', value: 1000, flow: 1000, income: 0 },
+      { date: '2024-01-03', value: 2200, flow: 1100, income: 0 },
+      { date: '2024-01-04', value: 1980, flow: 0, income: 20 },
+    ];
+    const returns = periodReturns(days);
+    expect(returns[0]).toBeNull();
+    expect(returns[1]).toBeNull();
+    expect(returns[2]).toBeCloseTo(0.1);
+    expect(returns[3]).toBeCloseTo(2000 / 2200 - 1);
+  });
+});
+
+describe('covariance', () => {
+  it('is the sample covariance', () => {
+    expect(covariance([1, 2, 3, 4], [2, 4, 6, 8])).toBeCloseTo(10 / 3);
+    expect(covariance([1, 2, 3], [1, 2, 3])).toBeCloseTo(1);
+  });
+});
+
+describe('compareWithBenchmark', () => {
+  it('chains period returns so a mid-range buy does not count as growth', async () => {
+    const buy: Transaction = { id: 't1', symbol: 'INFY', type: 'buy', date: dayOf(1), quantity: 10, price: 110, fees: 0 };
+    givenPortfolio([100, 110, 121], [1000, 1050, 1102.5], [buy]);
+    const result = await compareWithBenchmark('main', 'NIFTY50', '1M', 'INR');
+    expect(result.series.map((p) => p.portfolio)).toEqual([0, expect.closeTo(10), expect.closeTo(21)]);
+    expect(result.portfolioReturn).toBeCloseTo(21);
+    expect(result.benchmarkReturn).toBeCloseTo(10.25);
+    expect(result.relativeReturn).toBeCloseTo(10.75);
+    expect(result.beta).toBeNull();
+    expect(result.warnings).toEqual([`Only 2 periods of overlap; beta and alpha need at least ${MIN_PERIODS_FOR_BETA}`]);
+  });
+
+  it('scales split-adjusted closes back up before the ex-date', async () => {
+    const split: CorporateAction = {
+      id: 'a1',
+      symbol: 'INFY',
+      type: 'split',
+      exDate: dayOf(1),
+      numerator: 2,
+      denominator: 1,
+      amount: null,
+      source: 'manual',
+    };
+    givenPortfolio([50, 50, 55], [1000, 1000, 1000], [], [split]);
+    const result = await compareWithBenchmark('main', 'NIFTY50', '1M', 'INR');
+    expect(result.series.map((p) => p.portfolio)).toEqual([0, expect.closeTo(0), expect.closeTo(10)]);
+  });
+
+  it('measures beta and alpha from the paired period returns', async () => {
+    const indexReturns = [0.01, -0.02, 0.015, 0.005, -0.01, 0.02, -0.005, 0.01, 0, 0.012];
+    const levels = [1000];
+    const closes = [100];
+    for (const r of indexReturns) {
+      levels.push(levels[levels.length - 1] * (1 + r));
+      closes.push(closes[closes.length - 1] * (1 + 2 * r));
+    }
+    givenPortfolio(closes, levels);
+    const result = await compareWithBenchmark('main', 'NIFTY50', '1M', 'INR');
+    expect(result.beta).toBeCloseTo(2, 6);
+    expect(result.alpha).toBeCloseTo(result.portfolioReturn! - 2 * result.benchmarkReturn!, 6);
+    expect(result.warnings).toEqual([]);
+  });
+});
@@ -0,0 +1,250 @@
+import { Holding } from '@/types/stock';
+import { CorporateAction, Transaction } from '@/types/ledger';
+import { BenchmarkComparison, PerformancePoint, PerformanceRange } from '@/types/benchmark';
+import { listHoldings } from '@/lib/holdingsStore';
+import { transactionsBySymbol } from '@/lib/transactionsStore';
+import { corporateActionsBySymbol } from '@/lib/corporateActionsStore';
+import { aggregateOwner, listPortfolios } from '@/lib/portfoliosStore';
+import { foldPosition } from '@/lib/ledger';
+import { getFxRates, fxRateFor } from '@/lib/fx';
+import { PriceHistoryResponse, fetchBenchmark, fetchPriceHistory, instrumentRef } from '@/lib/backend';
+
+// Dashboard range -> backend history range; 2Y and 5Y come back as weekly bars
+export const PERFORMANCE_RANGES: Record<PerformanceRange, string> = {
+  '1M': '1mo',
+  '3M': '3mo',
+  '6M': '6mo',
+  '1Y': '1y',
+  '2Y': '2y',
+  '5Y': '5y',
+};
+
+// Fewer paired periods than this give a beta that is mostly noise
+export const MIN_PERIODS_FOR_BETA = 10;
+
+export interface PortfolioDay {
+  date: string;
+  value: number; // base currency, at that day's close
+  flow: number; // money put in that day: buys and rights in, sells out
+  income: number; // dividends paid out that day
+}
+
+export const dateOf = (time: string) => time.slice(0, 10);
+
+// Closes keyed by date, carried forward over days the symbol did not trade and back to the first bar
+export function closesOn(calendar: string[], points: PriceHistoryResponse['points']): number[] {
+  const byDate = new Map(points.map((p) => [dateOf(p.time), p.close]));
+  let last = points.length ? points[0].close : 0;
+  return calendar.map((d) => {
+    last = byDate.get(d) ?? last;
+    return last;
+  });
+}
+
+/**
+ * Provider closes are split-adjusted, while ledger quantities are the shares actually held.
+ * Before a split or bonus the adjusted close is multiplied back by the ratios still to come.
+ */
+function adjustmentAfter(actions: CorporateAction[], date: string): number {
+  return actions
+    .filter((a) => a.exDate > date && (a.type === 'split' || a.type === 'bonus'))
+    .reduce((f, a) => f * (a.type === 'split' ? a.numerator! / a.denominator! : (a.numerator! + a.denominator!) / a.denominator!), 1);
+}
+
+function holdingDays(
+  holding: Holding,
+  transactions: Transaction[],
+  actions: CorporateAction[],
+  calendar: string[],
+  closes: number[],
+  fxRate: number
+): PortfolioDay[] {
+  const position = foldPosition(holding, transactions, actions);
+  // Shares after each ledger step; the opening lot counts from its purchase date, or from the start when undated
+  const events = position.steps.map((s) => ({
+    date: s.transaction?.date ?? s.action?.exDate ?? holding.purchaseDate ?? '',
+    shares: s.shares,
+  }));
+  const days: PortfolioDay[] = calendar.map((date, i) => {
+    let shares = 0;
+    for (const e of events) if (e.date <= date) shares = e.shares;
+    return { date, value: shares * closes[i] * adjustmentAfter(actions, date) * fxRate, flow: 0, income: 0 };
+  });
+
+  // Flows between bars land on the next bar; those before the range are already in the first value
+  const book = (date: string, field: 'flow' | 'income', amount: number) => {
+    if (!calendar.length || date < calendar[0]) return;
+    const i = calendar.findIndex((d) => d >= date);
+    if (i >= 0) days[i][field] += amount * fxRate;
+  };
+  if (holding.purchaseDate) book(holding.purchaseDate, 'flow', holding.shares * holding.purchasePrice);
+  for (const t of transactions) {
+    book(t.date, 'flow', t.type === 'buy' ? t.quantity * t.price + t.fees : -(t.quantity * t.price - t.fees));
+  }
+  for (const f of position.actionCashFlows) {
+    if (f.type === 'dividend') book(f.date, 'income', f.amount);
+    else book(f.date, 'flow', -f.amount);
+  }
+  return days;
+}
+
+interface LedgerEntry {
+  holding: Holding;
+  transactions: Transaction[];
+  actions: CorporateAction[];
+}
+
+// Every holding with its ledger; an aggregate id gathers them from all the user's portfolios, so a symbol can appear more than once
+async function ledgerEntries(portfolioId: string): Promise<LedgerEntry[]> {
+  const owner = aggregateOwner(portfolioId);
+  const ids = owner ? (await listPortfolios(owner)).map((p) => p.id) : [portfolioId];
+  const perPortfolio = await Promise.all(
+    ids.map(async (id) => {
+      const [holdings, ledgers, actionsBySymbol] = await Promise.all([
+        listHoldings(id),
+        transactionsBySymbol(id),
+        corporateActionsBySymbol(id),
+      ]);
+      return holdings.map((holding) => ({
+        holding,
+        transactions: ledgers.get(holding.symbol) || [],
+        actions: actionsBySymbol.get(holding.symbol) || [],
+      }));
+    })
+  );
+  return perPortfolio.flat();
+}
+
+/**
+ * Rebuild the portfolio's value at each close in the range from backend price history and the ledger.
+ * Amounts use today's FX rate, so returns are in the holdings' local terms.
+ */
+export async function buildPortfolioSeries(
+  portfolioId: string,
+  baseCurrency: string,
+  range: PerformanceRange,
+  extraDates: string[] = []
+): Promise<{ days: PortfolioDay[]; interval: string | null; warnings: string[] }> {
+  const [entries, fx] = await Promise.all([ledgerEntries(portfolioId), getFxRates(baseCurrency)]);
+  const warnings: string[] = [];
+  // One history per symbol, from the listing of the first holding of it
+  const exchanges = new Map<string, string>();
+  for (const e of entries) if (!exchanges.has(e.holding.symbol)) exchanges.set(e.holding.symbol, e.holding.exchange);
+  const symbols = Array.from(exchanges.keys());
+  const results = await Promise.allSettled(
+    symbols.map((s) => fetchPriceHistory(instrumentRef(s, exchanges.get(s)), PERFORMANCE_RANGES[range]))
+  );
+
+  const histories = new Map<string, PriceHistoryResponse>();
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled' && result.value.points.length) histories.set(symbols[i], result.value);
+    else warnings.push(`${symbols[i]}: no price history, left out`);
+  });
+  const priced = entries.flatMap((e) => {
+    const history = histories.get(e.holding.symbol);
+    return history ? [{ ...e, history }] : [];
+  });
+  const undated = Array.from(new Set(priced.filter((p) => !p.holding.purchaseDate).map((p) => p.holding.symbol)));
+  if (undated.length) warnings.push(`No purchase date for ${undated.join(', ')}; assumed held for the whole range`);
+
+  const calendar = Array.from(
+    new Set([...extraDates, ...priced.flatMap((p) => p.history.points.map((pt) => dateOf(pt.time)))])
+  ).sort();
+  const days: PortfolioDay[] = calendar.map((date) => ({ date, value: 0, flow: 0, income: 0 }));
+  for (const { holding, transactions, actions, history } of priced) {
+    const closes = closesOn(calendar, history.points);
+    const perHolding = holdingDays(holding, transactions, actions, calendar, closes, fxRateFor(fx, holding.currency));
+    perHolding.forEach((d, i) => {
+      days[i].value += d.value;
+      days[i].flow += d.flow;
+      days[i].income += d.income;
+    });
+  }
+  return { days, interval: priced[0]?.history.interval ?? null, warnings };
+}
+
+/**
+ * Return of each period between closes, net of money moved in or out (flows are taken at the close).
+ * Null until the portfolio first holds something.
+ */
+export function periodReturns(days: PortfolioDay[]): (number | null)[] {
+  return days.map((d, i) => {
+    const prev = i > 0 ? days[i - 1].value : 0;
+    return prev > 0 ? (d.value + d.income - d.flow) / prev - 1 : null;
+  });
+}
+
+export const mean = (xs: number[]) => xs.reduce((s, x) => s + x, 0) / xs.length;
+
+export function covariance(xs: number[], ys: number[]): number {
+  const mx = mean(xs);
+  const my = mean(ys);
+  return xs.reduce((s, x, i) => s + (x - mx) * (ys[i] - my), 0) / (xs.length - 1);
+}
+
+/**
+ * Time-weighted return of the portfolio against a benchmark index over `range`. Both series start at
+ * the first close the portfolio holds anything; beta and alpha come from the paired period returns.
+ */
+export async function compareWithBenchmark(
+  portfolioId: string,
+  benchmarkId: string,
+  range: PerformanceRange,
+  baseCurrency: string
+): Promise<BenchmarkComparison> {
+  const index = await fetchBenchmark(benchmarkId, PERFORMANCE_RANGES[range]);
+  const indexDates = index.points.map((p) => dateOf(p.time));
+  const { days, interval, warnings } = await buildPortfolioSeries(portfolioId, baseCurrency, range, indexDates);
+  const calendar = days.map((d) => d.date);
+  const levels = closesOn(calendar, index.points);
+  const returns = periodReturns(days);
+
+  const start = days.findIndex((d) => d.value > 0);
+  let growth = 1;
+  const series: PerformancePoint[] = days.map((d, i) => {
+    if (start < 0 || i < start) return { date: d.date, portfolio: null, benchmark: null };
+    if (i > start) growth *= 1 + (returns[i] ?? 0);
+    return { date: d.date, portfolio: (growth - 1) * 100, benchmark: (levels[i] / levels[start] - 1) * 100 };
+  });
+
+  const paired: { p: number; b: number }[] = [];
+  for (let i = Math.max(start, 0) + 1; start >= 0 && i < days.length; i++) {
+    if (returns[i] !== null && levels[i - 1] > 0) paired.push({ p: returns[i]!, b: levels[i] / levels[i - 1] - 1 });
+  }
+  const last = series[series.length - 1];
+  const portfolioReturn = last?.portfolio ?? null;
+  const benchmarkReturn = last?.benchmark ?? null;
+
+  let beta: number | null = null;
+  if (paired.length >= MIN_PERIODS_FOR_BETA) {
+    const b = paired.map((x) => x.b);
+    const variance = covariance(b, b);
+    beta = variance > 0 ? covariance(paired.map((x) => x.p), b) / variance : null;
+  } else if (start >= 0) {
+    warnings.push(`Only ${paired.length} periods of overlap; beta and alpha need at least ${MIN_PERIODS_FOR_BETA}`);
+  }
+  // Jensen's alpha over the range, taking the risk-free rate as zero
+  const alpha =
+    beta !== null && portfolioReturn !== null && benchmarkReturn !== null ? portfolioReturn - beta * benchmarkReturn : null;
+
+  return {
+    benchmark: {
+      id: index.id,
+      symbol: index.symbol,
+      name: index.name,
+      currency: index.currency,
+      currentPrice: index.currentPrice,
+      changePercent: index.changePercent,
+    },
+    range,
+    baseCurrency,
+    interval: interval ?? index.interval,
+    series,
+    portfolioReturn,
+    benchmarkReturn,
+    relativeReturn: portfolioReturn !== null && benchmarkReturn !== null ? portfolioReturn - benchmarkReturn : null,
+    beta,
+    alpha,
+    warnings,
+  };
+}
@@ -0,0 +1,294 @@
+import { FieldMeta, Holding, QuoteField, RowMeta, RowStatus, StockData } from '@/types/stock';
+import { Transaction } from '@/types/ledger';
+import { WatchlistEntry, WatchlistRow } from '@/types/watchlist';
+import { listHoldings } from '@/lib/holdingsStore';
+import { transactionsBySymbol } from '@/lib/transactionsStore';
+import { corporateActionsBySymbol } from '@/lib/corporateActionsStore';
+import { foldPosition } from '@/lib/ledger';
+import { getFxRates, fxRateFor } from '@/lib/fx';
+import { latestSnapshotPrices } from '@/lib/snapshots';
+import { holdingReturns, portfolioReturns } from '@/lib/returns';
+import { aggregateOwner, listPortfolios } from '@/lib/portfoliosStore';
+import { BACKEND_URL, CmpResponse, EarningsResponse, PeResponse, QuoteBatchEntry, fetchQuoteBatch, instrumentRef } from '@/lib/backend';
+import { rowKey } from '@/lib/portfolioView';
+
+const MISSING_EARNINGS: EarningsResponse = { latestEarnings: { date: '', eps: NaN, revenue: NaN } };
+
+// Quotes fetched longer ago than this are flagged stale even when the backend returned them
+const STALE_AFTER_MS = 5 * 60 * 1000;
+
+interface FieldValues {
+  cmp: CmpResponse;
+  pe: PeResponse;
+  earnings: EarningsResponse;
+}
+
+type KnownValues = { [K in QuoteField]?: { value: FieldValues[K]; source: string | null; fetchedAt: string | null } };
+
+// Last successful value per listing (instrumentRef) and field, reused when a refresh fails
+const lastKnown = new Map<string, KnownValues>();
+
+const isOld = (fetchedAt: string | null) => !!fetchedAt && Date.now() - Date.parse(fetchedAt) > STALE_AFTER_MS;
+
+/** Take a field from this refresh, or fall back to the last value seen for the listing. */
+function resolveField<K extends QuoteField>(
+  ref: string,
+  field: K,
+  entry: QuoteBatchEntry | undefined,
+  batchError: string | null
+): { value?: FieldValues[K]; meta: FieldMeta } {
+  const fresh = entry?.[field] as FieldValues[K] | undefined;
+  const upstream = entry?.meta?.[field];
+  const known = lastKnown.get(ref) || {};
+  if (fresh) {
+    const fetchedAt = upstream?.fetchedAt ?? null;
+    const source = upstream?.source ?? null;
+    lastKnown.set(ref, { ...known, [field]: { value: fresh, source, fetchedAt } });
+    return { value: fresh, meta: { source, fetchedAt, cache: upstream?.cache ?? null, stale: isOld(fetchedAt) } };
+  }
+  const error = upstream?.error || entry?.errors?.[field] || batchError || `No ${field} returned for ${ref}`;
+  const previous = known[field];
+  if (previous) {
+    return { value: previous.value, meta: { source: 'last-known', fetchedAt: previous.fetchedAt, cache: null, stale: true, error } };
+  }
+  return { meta: { source: null, fetchedAt: null, cache: null, stale: false, error } };
+}
+
+const syntheticMeta = (): RowMeta['fields'] => {
+  const meta: FieldMeta = { source: 'synthetic', fetchedAt: null, cache: null, stale: false };
+  return { cmp: meta, pe: meta, earnings: meta };
+};
+
+const setWeights = (rows: StockData[]) => {
+  const total = rows.reduce((s, r) => s + r.presentValue, 0) || 1;
+  for (const r of rows) r.weight = (r.presentValue / total) * 100;
+  return rows;
+};
+
+// One row for a listing held in several portfolios in one currency: amounts add up, per-share costs and returns are recomputed
+function mergeSymbol(rows: StockData[]): StockData {
+  if (rows.length === 1) return rows[0];
+  const [first] = rows;
+  const sum = (pick: (r: StockData) => number) => rows.reduce((s, r) => s + pick(r), 0);
+  const shares = sum((r) => r.shares);
+  const native = {
+    investment: sum((r) => r.native.investment),
+    presentValue: sum((r) => r.native.presentValue),
+    gainLoss: sum((r) => r.native.gainLoss),
+  };
+  const dates = rows.map((r) => r.purchaseDate);
+  const purchaseDate = dates.includes(null) ? null : (dates as string[]).sort()[0];
+  const returns = portfolioReturns(rows);
+  return {
+    ...first,
+    purchasePrice: shares ? native.investment / shares : 0,
+    shares,
+    investment: sum((r) => r.investment),
+    averageCost: shares ? sum((r) => r.averageCost * r.shares) / shares : 0,
+    realizedGainLoss: sum((r) => r.realizedGainLoss),
+    dividendIncome: sum((r) => r.dividendIncome),
+    transactionCount: sum((r) => r.transactionCount),
+    presentValue: sum((r) => r.presentValue),
+    totalValue: sum((r) => r.totalValue),
+    gainLoss: sum((r) => r.gainLoss),
+    native,
+    purchaseDate,
+    totalInvested: sum((r) => r.totalInvested),
+    absoluteReturnPercent: returns.absoluteReturnPercent,
+    // Like a single holding, any undated lot leaves the annualized returns unknown
+    cagr: purchaseDate ? returns.cagr : null,
+    xirr: purchaseDate ? returns.xirr : null,
+    holdingDays: purchaseDate ? returns.holdingDays : null,
+    cashFlows: rows.flatMap((r) => r.cashFlows).sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
+
+/**
+ * Combine rows from several portfolios, one row per listing and currency in first-seen order, weighted over the
+ * combined total. Only rows with the same exchange and currency merge, so the spread of the first keeps its meaning.
+ */
+export function mergePortfolioRows(portfolios: StockData[][]): StockData[] {
+  const byKey = new Map<string, StockData[]>();
+  for (const row of portfolios.flat()) byKey.set(rowKey(row), [...(byKey.get(rowKey(row)) || []), row]);
+  return setWeights(Array.from(byKey.values(), mergeSymbol));
+}
+
+/**
+ * Hypothetical changes layered over a portfolio's stored data, for what-if scenarios. Nothing is
+ * written: the holdings and transactions only exist for this build, and `reprice` adjusts each
+ * resolved quote before it is valued.
+ */
+export interface RowOverlay {
+  holdings: Holding[]; // positions the stored holdings do not have
+  transactions: Map<string, Transaction[]>; // appended to each symbol's ledger
+  reprice: (holding: Holding, quote: CmpResponse) => CmpResponse;
+}
+
+/**
+ * Build dashboard rows from stored holdings, their ledgers and live quotes.
+ * Aggregate amounts are converted into `baseCurrency`; per-share prices stay native.
+ * A symbol whose quote fails is kept with its last known price (or valued at cost) and flagged in `meta`.
+ * A user's aggregate id builds each of their portfolios and merges them.
+ */
+export async function buildPortfolioRows(portfolioId: string, baseCurrency: string, overlay?: RowOverlay): Promise<StockData[]> {
+  const owner = aggregateOwner(portfolioId);
+  if (owner) {
+    const portfolios = await listPortfolios(owner);
+    return mergePortfolioRows(await Promise.all(portfolios.map((p) => buildPortfolioRows(p.id, baseCurrency))));
+  }
+  const rows: StockData[] = [];
+  const [stored, ledgers, actionsBySymbol, fx] = await Promise.all([
+    listHoldings(portfolioId),
+    transactionsBySymbol(portfolioId),
+    corporateActionsBySymbol(portfolioId),
+    getFxRates(baseCurrency),
+  ]);
+  const holdings = overlay ? [...stored, ...overlay.holdings] : stored;
+  // One batch request for every symbol instead of three calls per holding
+  let quotes: Record<string, QuoteBatchEntry> = {};
+  let batchError: string | null = null;
+  if (BACKEND_URL && holdings.length) {
+    try {
+      quotes = await fetchQuoteBatch(holdings, ['cmp', 'pe', 'earnings']);
+    } catch (e) {
+      console.error('Quote batch failed', e);
+      batchError = e instanceof Error ? e.message : 'Quote batch failed';
+    }
+  }
+  // Snapshot prices survive restarts; only read when a symbol has nothing fresher
+  let snapshotPrices: Awaited<ReturnType<typeof latestSnapshotPrices>> | undefined;
+
+  for (const h of holdings) {
+    try {
+      const txns = [...(ledgers.get(h.symbol) || []), ...(overlay?.transactions.get(h.symbol) || [])];
+      const position = foldPosition(h, txns, actionsBySymbol.get(h.symbol) || []);
+
+      let cmpData: CmpResponse;
+      let peData: PeResponse;
+      let earnData: EarningsResponse;
+      let meta: RowMeta;
+
+      if (BACKEND_URL) {
+        const ref = instrumentRef(h.symbol, h.exchange);
+        const quote = quotes[ref];
+        const cmp = resolveField(ref, 'cmp', quote, batchError);
+        const pe = resolveField(ref, 'pe', quote, batchError);
+        const earnings = resolveField(ref, 'earnings', quote, batchError);
+        if (!cmp.value) {
+          if (snapshotPrices === undefined) snapshotPrices = await latestSnapshotPrices(portfolioId, baseCurrency).catch(() => null);
+          const price = snapshotPrices?.prices[rowKey(h)];
+          if (price !== undefined) {
+            cmp.value = { currentPrice: price, previousClose: price, change: 0, changePercent: 0, volume: NaN };
+            cmp.meta = { ...cmp.meta, source: 'last-known', fetchedAt: snapshotPrices!.timestamp, stale: true };
+          } else {
+            // Never priced: value the open lots at cost so totals and weights stay meaningful
+            const cost = position.shares ? position.fifoInvestment / position.shares : h.purchasePrice;
+            cmp.value = { currentPrice: cost, previousClose: cost, change: 0, changePercent: 0, volume: NaN };
+            cmp.meta = { ...cmp.meta, source: 'cost' };
+          }
+        }
+        cmpData = cmp.value;
+        // P/E and earnings are optional; the table shows N/A when they are missing
+        peData = pe.value || { peRatio: NaN };
+        earnData = earnings.value || MISSING_EARNINGS;
+        const status = cmp.meta.source === 'cost' ? 'failed' : cmp.meta.stale ? 'stale' : 'live';
+        meta = { status, fields: { cmp: cmp.meta, pe: pe.meta, earnings: earnings.meta } };
+      } else {
+        // Fallback: reuse previous logic if no backend
+        cmpData = { currentPrice: h.purchasePrice * 1.1, previousClose: h.purchasePrice * 1.095, change: h.purchasePrice * 0.005, changePercent: 0.45, volume: 1000000 };
+        peData = { peRatio: 25 };
+        earnData = { latestEarnings: { date: '2024-01-01', eps: 1.0, revenue: 0 } };
+        meta = { status: 'synthetic', fields: syntheticMeta() };
+      }
+      if (overlay) cmpData = overlay.reprice(h, cmpData);
+
+      // investment is the FIFO cost of the lots still held
+      const nativeInvestment = position.fifoInvestment;
+      const nativePresentValue = cmpData.currentPrice * position.shares;
+      const nativeGainLoss = nativePresentValue - nativeInvestment;
+      const fxRate = fxRateFor(fx, h.currency);
+      const presentValue = nativePresentValue * fxRate;
+      const returns = holdingReturns(h, txns, position, nativePresentValue);
+
+      rows.push({
+        symbol: h.symbol,
+        companyName: h.companyName,
+        sector: h.sector,
+        exchange: h.exchange,
+        currency: h.currency,
+        baseCurrency: fx.base,
+        fxRate,
+        purchasePrice: position.shares ? nativeInvestment / position.shares : 0,
+        shares: position.shares,
+        investment: nativeInvestment * fxRate,
+        averageCost: position.averageCost,
+        realizedGainLoss: position.realizedFifo * fxRate,
+        dividendIncome: position.dividendIncome * fxRate,
+        transactionCount: txns.length,
+        currentPrice: cmpData.currentPrice,
+        previousClose: cmpData.previousClose,
+        change: cmpData.change,
+        changePercent: cmpData.changePercent,
+        volume: cmpData.volume,
+        peRatio: peData.peRatio,
+        marketCap: peData.marketCap ?? NaN,
+        latestEarnings: earnData.latestEarnings,
+        presentValue,
+        totalValue: presentValue,
+        gainLoss: nativeGainLoss * fxRate,
+        weight: 0,
+        native: { investment: nativeInvestment, presentValue: nativePresentValue, gainLoss: nativeGainLoss },
+        purchaseDate: h.purchaseDate,
+        totalInvested: returns.totalInvested * fxRate,
+        absoluteReturnPercent: returns.absoluteReturnPercent,
+        cagr: returns.cagr,
+        xirr: returns.xirr,
+        holdingDays: returns.holdingDays,
+        cashFlows: returns.cashFlows,
+        meta,
+      });
+    } catch (e) {
+      console.error('Row build failed', e);
+    }
+  }
+
+  return setWeights(rows);
+}
+
+/**
+ * Quotes for watched symbols through the same batch request and last-known fallback as holdings.
+ * Nothing is synthesized: a symbol that has never been priced shows no CMP and is flagged `failed`.
+ */
+export async function buildWatchlistRows(entries: WatchlistEntry[]): Promise<WatchlistRow[]> {
+  let quotes: Record<string, QuoteBatchEntry> = {};
+  let batchError: string | null = BACKEND_URL ? null : 'No market data backend configured';
+  if (BACKEND_URL && entries.length) {
+    try {
+      quotes = await fetchQuoteBatch(entries, ['cmp', 'pe', 'earnings']);
+    } catch (e) {
+      console.error('Watchlist quote batch failed', e);
+      batchError = e instanceof Error ? e.message : 'Quote batch failed';
+    }
+  }
+
+  return entries.map((entry) => {
+    const ref = instrumentRef(entry.symbol, entry.exchange);
+    const quote = quotes[ref];
+    const cmp = resolveField(ref, 'cmp', quote, batchError);
+    const pe = resolveField(ref, 'pe', quote, batchError);
+    const earnings = resolveField(ref, 'earnings', quote, batchError);
+    const price = cmp.value?.currentPrice ?? null;
+    const status: RowStatus = !cmp.value ? 'failed' : cmp.meta.stale ? 'stale' : 'live';
+    return {
+      ...entry,
+      currentPrice: price,
+      change: cmp.value?.change ?? null,
+      changePercent: cmp.value?.changePercent ?? null,
+      peRatio: pe.value && Number.isFinite(pe.value.peRatio) ? pe.value.peRatio : null,
+      latestEarnings: earnings.value?.latestEarnings ?? null,
+      targetGapPercent: price !== null && entry.targetPrice ? (price / entry.targetPrice - 1) * 100 : null,
+      atTarget: price !== null && entry.targetPrice !== null && price <= entry.targetPrice,
+      meta: { status, fields: { cmp: cmp.meta, pe: pe.meta, earnings: earnings.meta } },
+    };
+  });
+}
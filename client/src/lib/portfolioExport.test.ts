@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { PDFArray, PDFDocument, PDFRawStream, decodePDFRawStream } from 'pdf-lib';
+import { StockData } from '@/types/stock';
+import { groupBySector } from '@/lib/sectors';
+import { DEFAULT_VIEW } from '@/lib/portfolioView';
+import { portfolioStatementPdf } from '@/lib/portfolioExport';
+
+const sap = {
+  symbol: 'SAP',
+  companyName: 'SAP SE',
+  sector: 'Technology',
+  exchange: 'NYSE',
+  currency: 'EUR',
+  baseCurrency: 'EUR',
+  fxRate: 1,
+  shares: 10,
+  purchasePrice: 100,
+  currentPrice: 123.5,
+  change: 0,
+  investment: 1000,
+  presentValue: 1235,
+  totalValue: 1235,
+  gainLoss: 235,
+  weight: 100,
+  dividendIncome: 0,
+  purchaseDate: null,
+  totalInvested: 1000,
+  absoluteReturnPercent: 23.5,
+  xirr: null,
+  holdingDays: null,
+  cashFlows: [],
+  meta: { status: 'live' },
+} as unknown as StockData;
+
+// Standard fonts draw text as hex-encoded WinAnsi codes, so decode the page and look for those
+async function pageText(pdf: Uint8Array): Promise<string> {
+  const doc = await PDFDocument.load(pdf);
+  const contents = doc.getPage(0).node.Contents() as PDFArray;
+  const streams = contents.asArray().map((ref) => doc.context.lookup(ref) as PDFRawStream);
+  return streams.map((s) => new TextDecoder('latin1').decode(decodePDFRawStream(s).decode())).join('\n');
+}
+
+const winAnsiHex = (text: string) =>
+  Array.from(text, (c) => (c === '€' ? 0x80 : c.charCodeAt(0)).toString(16).toUpperCase().padStart(2, '0')).join('');
+
+describe('portfolioStatementPdf', () => {
+  it('prints euro amounts with the euro sign', async () => {
+    const pdf = await portfolioStatementPdf(groupBySector([sap]), [sap], 'EUR', DEFAULT_VIEW, 'Europe');
+    const text = await pageText(pdf);
+    expect(text).toContain(winAnsiHex('Total value €1,235'));
+    expect(text).toContain(winAnsiHex('€123.50'));
+  });
+});
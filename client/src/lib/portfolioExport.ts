@@ -0,0 +1,212 @@
+import * as XLSX from 'xlsx';
+import { StockData } from '@/types/stock';
+import { SectorGroup } from '@/lib/sectors';
+import { TableView, summarizePortfolio } from '@/lib/portfolioView';
+import { portfolioReturns } from '@/lib/returns';
+import { formatCurrency } from '@/lib/format';
+import { PdfSection, renderPdf } from '@/lib/pdf';
+
+const round = (n: number) => Math.round(n * 100) / 100;
+const optional = (n: number | null) => (n === null || !Number.isFinite(n) ? '' : round(n));
+
+const holdingHeader = (base: string) => [
+  'Sector',
+  'Symbol',
+  'Company',
+  'Exchange',
+  'Currency',
+  'Qty',
+  'Purchase price',
+  'CMP',
+  `Investment (${base})`,
+  `Present value (${base})`,
+  `Gain/Loss (${base})`,
+  'Portfolio %',
+  'Abs. return %',
+  'CAGR %',
+  'XIRR %',
+  'P/E',
+  'Latest earnings',
+  'EPS',
+  `Dividends (${base})`,
+  'Price status',
+];
+
+const holdingRow = (r: StockData) => [
+  r.sector,
+  r.symbol,
+  r.companyName,
+  r.exchange,
+  r.currency,
+  r.shares,
+  round(r.purchasePrice),
+  round(r.currentPrice),
+  round(r.investment),
+  round(r.presentValue),
+  round(r.gainLoss),
+  round(r.weight),
+  round(r.absoluteReturnPercent),
+  optional(r.cagr),
+  optional(r.xirr),
+  r.peRatio ? round(r.peRatio) : '',
+  r.latestEarnings?.date || '',
+  optional(r.latestEarnings?.eps ?? null),
+  round(r.dividendIncome),
+  r.meta.status,
+];
+
+interface Subtotal {
+  investment: number;
+  presentValue: number;
+  gainLoss: number;
+  weight: number;
+}
+
+const subtotal = (rows: StockData[]): Subtotal => ({
+  investment: rows.reduce((s, r) => s + r.investment, 0),
+  presentValue: rows.reduce((s, r) => s + r.presentValue, 0),
+  gainLoss: rows.reduce((s, r) => s + r.gainLoss, 0),
+  weight: rows.reduce((s, r) => s + r.weight, 0),
+});
+
+// Holdings in view order with a subtotal row after each sector and a grand total at the end
+function holdingsAoa(groups: SectorGroup[], base: string): (string | number)[][] {
+  const blank = holdingHeader(base).map(() => '');
+  const totalRow = (label: string, t: Subtotal) => {
+    const row: (string | number)[] = [...blank];
+    row[0] = label;
+    row[8] = round(t.investment);
+    row[9] = round(t.presentValue);
+    row[10] = round(t.gainLoss);
+    row[11] = round(t.weight);
+    return row;
+  };
+  const aoa: (string | number)[][] = [holdingHeader(base)];
+  for (const g of groups) {
+    aoa.push(...g.rows.map(holdingRow), totalRow(`${g.sector} subtotal`, subtotal(g.rows)));
+  }
+  aoa.push(totalRow('Total', subtotal(groups.flatMap((g) => g.rows))));
+  return aoa;
+}
+
+export function describeView(view: TableView): string {
+  const parts = [view.sector && `sector ${view.sector}`, view.filter.trim() && `matching "${view.filter.trim()}"`].filter(Boolean);
+  const sortLabel = view.sortKey.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return `${parts.length ? `Holdings ${parts.join(', ')}` : 'All holdings'}, sorted by ${sortLabel} ${view.sortDirection === 'asc' ? 'ascending' : 'descending'}`;
+}
+
+export function portfolioCsv(groups: SectorGroup[], base: string): string {
+  return XLSX.utils.sheet_to_csv(XLSX.utils.aoa_to_sheet(holdingsAoa(groups, base)));
+}
+
+/** Workbook with the view's holdings and a summary sheet for the whole portfolio. */
+export function portfolioXlsx(groups: SectorGroup[], rows: StockData[], base: string, view: TableView, portfolioName: string): Buffer {
+  const summary = summarizePortfolio(rows);
+  const returns = portfolioReturns(rows);
+  const workbook = XLSX.utils.book_new();
+  const holdings = XLSX.utils.aoa_to_sheet(holdingsAoa(groups, base));
+  holdings['!cols'] = holdingHeader(base).map((h) => ({ wch: Math.max(10, h.length + 2) }));
+  XLSX.utils.book_append_sheet(workbook, holdings, 'Holdings');
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.aoa_to_sheet([
+      ['Portfolio statement', new Date().toISOString()],
+      ['Portfolio', portfolioName],
+      ['View', describeView(view)],
+      [],
+      [`Total value (${base})`, round(summary.totalValue)],
+      [`Today's change (${base})`, round(summary.totalChange)],
+      ["Today's change %", round(summary.totalChangePercent)],
+      [`Gain/Loss (${base})`, round(summary.totalGainLoss)],
+      [`Dividend income (${base})`, round(summary.totalDividendIncome)],
+      ['Absolute return %', round(returns.absoluteReturnPercent)],
+      ['CAGR %', optional(returns.cagr)],
+      ['XIRR %', optional(returns.xirr)],
+      ['Stocks', summary.numberOfStocks],
+    ]),
+    'Summary'
+  );
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+}
+
+/** Printable statement: summary figures for the whole portfolio, then sector subtotals and holdings for the view. */
+export async function portfolioStatementPdf(
+  groups: SectorGroup[],
+  rows: StockData[],
+  base: string,
+  view: TableView,
+  portfolioName: string
+): Promise<Uint8Array> {
+  const money = (n: number) => formatCurrency(n, base, 0);
+  const percent = (n: number | null) => (n === null ? '—' : `${n >= 0 ? '+' : ''}${n.toFixed(2)}%`);
+  const summary = summarizePortfolio(rows);
+  const returns = portfolioReturns(rows);
+  const viewRows = groups.flatMap((g) => g.rows);
+  const total = subtotal(viewRows);
+
+  const sections: PdfSection[] = [
+    {
+      title: 'Summary',
+      lines: [
+        `Total value ${money(summary.totalValue)} · Today's change ${money(summary.totalChange)} (${percent(summary.totalChangePercent)}) · Gain/Loss ${money(summary.totalGainLoss)}`,
+        `Dividend income ${money(summary.totalDividendIncome)} · Absolute return ${percent(returns.absoluteReturnPercent)} · CAGR ${percent(returns.cagr)} · XIRR ${percent(returns.xirr)} · ${summary.numberOfStocks} stocks`,
+        ...(returns.undated.length ? [`CAGR and XIRR exclude holdings without a purchase date: ${returns.undated.join(', ')}`] : []),
+      ],
+    },
+    {
+      title: 'Sectors',
+      table: {
+        columns: [
+          { label: 'Sector', width: 180 },
+          { label: 'Stocks', width: 60, align: 'right' },
+          { label: 'Investment', width: 110, align: 'right' },
+          { label: 'Present value', width: 110, align: 'right' },
+          { label: 'Gain/Loss', width: 110, align: 'right' },
+          { label: 'Portfolio %', width: 80, align: 'right' },
+        ],
+        rows: [
+          ...groups.map((g) => {
+            const t = subtotal(g.rows);
+            return [g.sector, String(g.rows.length), money(t.investment), money(t.presentValue), money(t.gainLoss), `${t.weight.toFixed(2)}%`];
+          }),
+          ['Total', String(viewRows.length), money(total.investment), money(total.presentValue), money(total.gainLoss), `${total.weight.toFixed(2)}%`],
+        ],
+        boldRows: [groups.length],
+      },
+    },
+    ...groups.map(
+      (g): PdfSection => ({
+        title: g.sector,
+        table: {
+          columns: [
+            { label: 'Company', width: 150 },
+            { label: 'Symbol', width: 60 },
+            { label: 'Qty', width: 45, align: 'right' },
+            { label: 'Buy price', width: 70, align: 'right' },
+            { label: 'CMP', width: 70, align: 'right' },
+            { label: 'Investment', width: 80, align: 'right' },
+            { label: 'Present value', width: 80, align: 'right' },
+            { label: 'Gain/Loss', width: 75, align: 'right' },
+            { label: '%', width: 45, align: 'right' },
+            { label: 'Abs.', width: 50, align: 'right' },
+            { label: 'XIRR', width: 45, align: 'right' },
+          ],
+          rows: g.rows.map((r) => [
+            r.companyName,
+            r.symbol,
+            r.shares.toLocaleString('en-IN'),
+            formatCurrency(r.purchasePrice, r.currency),
+            formatCurrency(r.currentPrice, r.currency) + (r.meta.status === 'live' ? '' : ` (${r.meta.status})`),
+            money(r.investment),
+            money(r.presentValue),
+            money(r.gainLoss),
+            `${r.weight.toFixed(2)}%`,
+            percent(r.absoluteReturnPercent),
+            percent(r.xirr),
+          ]),
+        },
+      })
+    ),
+  ];
+  return renderPdf(`Portfolio Statement — ${portfolioName}`, `Generated ${new Date().toLocaleString('en-IN')} · Amounts in ${base} · ${describeView(view)}`, sections);
+}
@@ -0,0 +1,7 @@
+// Portfolio ids with a fixed meaning; safe to import from client components
+
+// The portfolio that existed before there were several; its data keeps the original store names
+export const DEFAULT_PORTFOLIO_ID = 'default';
+
+// Read-only view merging every portfolio
+export const AGGREGATE_PORTFOLIO_ID = 'all';
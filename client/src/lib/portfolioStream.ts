@@ -0,0 +1,126 @@
+import { StockData } from '@/types/stock';
+import { PortfolioDiff, RowDiff, StreamEvent } from '@/types/stream';
+import { buildPortfolioRows } from '@/lib/portfolio';
+import { rowKey } from '@/lib/portfolioView';
+import { recordSnapshot } from '@/lib/snapshots';
+import { evaluateAlerts } from '@/lib/alerts';
+import { BACKEND_URL, fetchMarketStatus } from '@/lib/backend';
+import { refreshDelay, untilNextChange } from '@/lib/marketHours';
+import { MarketStatus } from '@/types/market';
+
+const STREAM_INTERVAL_MS = parseInt(process.env.STREAM_INTERVAL_MS || '5000', 10);
+// Cadence while every market the portfolio trades on is closed
+const STREAM_IDLE_INTERVAL_MS = parseInt(process.env.STREAM_IDLE_INTERVAL_MS || '300000', 10);
+const MARKET_STATUS_MAX_AGE_MS = 60 * 1000;
+
+type Listener = (event: StreamEvent) => void;
+
+interface Channel {
+  ownerId: string; // whose alert rules the refreshed rows are checked against
+  listeners: Set<Listener>;
+  rows: StockData[] | null;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+// One refresh loop per portfolio and base currency, shared by every connected client
+const channels = new Map<string, Channel>();
+
+const channelKey = (portfolioId: string, base: string) => `${portfolioId}:${base}`;
+
+const sameValue = (a: unknown, b: unknown) =>
+  a === b || (typeof a === 'object' && a !== null && JSON.stringify(a) === JSON.stringify(b));
+
+// What the table shows and flashes. A row only counts as updated when one of these moves (or its
+// status changes), so a refresh that just re-stamps fetchedAt sends nothing
+const DISPLAYED: (keyof StockData)[] = ['currentPrice', 'change', 'changePercent', 'presentValue', 'gainLoss', 'weight'];
+
+export function diffRows(prev: StockData[], next: StockData[]): PortfolioDiff | null {
+  const before = new Map(prev.map((r) => [rowKey(r), r]));
+  const updated: RowDiff[] = [];
+  const added: StockData[] = [];
+  for (const row of next) {
+    const old = before.get(rowKey(row));
+    if (!old) {
+      added.push(row);
+      continue;
+    }
+    if (row.meta.status === old.meta.status && DISPLAYED.every((key) => row[key] === old[key])) continue;
+    const changes: Partial<StockData> = {};
+    for (const key of Object.keys(row) as (keyof StockData)[]) {
+      if (!sameValue(row[key], old[key])) (changes as Record<string, unknown>)[key] = row[key];
+    }
+    if (Object.keys(changes).length) updated.push({ key: rowKey(row), changes });
+  }
+  const nextKeys = new Set(next.map(rowKey));
+  const removed = prev.map(rowKey).filter((key) => !nextKeys.has(key));
+  if (!updated.length && !added.length && !removed.length) return null;
+  return { updated, added, removed, order: next.map(rowKey) };
+}
+
+// Shared by every channel and reloaded once a minute or when a market changes state, whichever is first
+let marketStatus: { markets: MarketStatus[]; expires: number } | null = null;
+
+async function currentMarkets(): Promise<MarketStatus[]> {
+  if (!BACKEND_URL) return [];
+  if (marketStatus && Date.now() < marketStatus.expires) return marketStatus.markets;
+  try {
+    const { markets } = await fetchMarketStatus();
+    marketStatus = { markets, expires: Date.now() + Math.min(MARKET_STATUS_MAX_AGE_MS, untilNextChange(markets)) };
+    return markets;
+  } catch (e) {
+    console.error('Market status fetch failed', e);
+    return [];
+  }
+}
+
+function broadcast(channel: Channel, event: StreamEvent) {
+  for (const listener of channel.listeners) listener(event);
+}
+
+async function tick(portfolioId: string, base: string, channel: Channel) {
+  try {
+    const rows = await buildPortfolioRows(portfolioId, base);
+    if (!channel.rows) {
+      broadcast(channel, { type: 'snapshot', data: rows });
+    } else {
+      const diff = diffRows(channel.rows, rows);
+      if (diff) broadcast(channel, { type: 'diff', data: diff });
+    }
+    channel.rows = rows;
+    await recordSnapshot(portfolioId, rows, base).catch((e) => console.error('Snapshot write failed', e));
+    await evaluateAlerts(channel.ownerId, portfolioId, rows).catch((e) => console.error('Alert evaluation failed', e));
+  } catch (e) {
+    console.error('Portfolio stream refresh failed', e);
+    broadcast(channel, { type: 'failure', data: { message: 'Failed to refresh portfolio data' } });
+  }
+  // Schedule after completion so slow refreshes never overlap; slower while the portfolio's markets are closed
+  const exchanges = (channel.rows ?? []).map((r) => r.exchange);
+  const wait = refreshDelay(await currentMarkets(), exchanges, STREAM_INTERVAL_MS, STREAM_IDLE_INTERVAL_MS);
+  if (channels.get(channelKey(portfolioId, base)) === channel) {
+    channel.timer = setTimeout(() => tick(portfolioId, base, channel), wait);
+  }
+}
+
+/** Subscribe to live rows for a user's portfolio (or their aggregate) in a base currency; returns an unsubscribe function. */
+export function subscribeToPortfolio(userId: string, portfolioId: string, base: string, listener: Listener): () => void {
+  const key = channelKey(portfolioId, base);
+  let channel = channels.get(key);
+  if (!channel) {
+    channel = { ownerId: userId, listeners: new Set(), rows: null, timer: null };
+    channels.set(key, channel);
+    channel.listeners.add(listener);
+    tick(portfolioId, base, channel);
+  } else {
+    channel.listeners.add(listener);
+    if (channel.rows) listener({ type: 'snapshot', data: channel.rows });
+  }
+
+  const subscribed = channel;
+  return () => {
+    subscribed.listeners.delete(listener);
+    if (subscribed.listeners.size === 0) {
+      if (subscribed.timer) clearTimeout(subscribed.timer);
+      channels.delete(key);
+    }
+  };
+}
@@ -0,0 +1,126 @@
+import { PortfolioSummary, StockData } from '@/types/stock';
+import { SectorGroup, groupBySector } from '@/lib/sectors';
+
+/**
+ * Identity of a row: the listing and the currency it is held in. The combined view only merges
+ * rows that agree on all three, so the same ticker on NSE and BSE stays two rows.
+ */
+export const rowKey = (row: Pick<StockData, 'symbol' | 'exchange' | 'currency'>) => `${row.symbol}:${row.exchange}:${row.currency}`;
+
+export const SORT_KEYS = [
+  'companyName',
+  'purchasePrice',
+  'shares',
+  'investment',
+  'weight',
+  'exchange',
+  'currentPrice',
+  'presentValue',
+  'gainLoss',
+  'absoluteReturnPercent',
+  'cagr',
+  'xirr',
+  'peRatio',
+  'sector',
+] as const satisfies readonly (keyof StockData)[];
+
+export type SortKey = (typeof SORT_KEYS)[number];
+export type SortDirection = 'asc' | 'desc';
+
+// What the holdings table is showing; exports reproduce the same rows in the same order
+export interface TableView {
+  filter: string;
+  sector: string | null;
+  sortKey: SortKey;
+  sortDirection: SortDirection;
+}
+
+export const DEFAULT_VIEW: TableView = { filter: '', sector: null, sortKey: 'presentValue', sortDirection: 'desc' };
+
+export function filterRows(rows: StockData[], filter: string, sector: string | null): StockData[] {
+  const inSector = sector ? rows.filter((d) => d.sector === sector) : rows;
+  if (!filter.trim()) return inSector;
+  const q = filter.toLowerCase();
+  return inSector.filter(
+    (d) => d.companyName.toLowerCase().includes(q) || d.symbol.toLowerCase().includes(q) || d.sector.toLowerCase().includes(q)
+  );
+}
+
+export function sortRows(rows: StockData[], sortKey: SortKey, sortDirection: SortDirection): StockData[] {
+  const copied = [...rows];
+  copied.sort((a, b) => {
+    const aVal = a[sortKey] as unknown as number | string | null;
+    const bVal = b[sortKey] as unknown as number | string | null;
+
+    // Undated holdings have no CAGR/XIRR; keep them last in either direction
+    if (aVal === null || bVal === null) {
+      return aVal === bVal ? 0 : aVal === null ? 1 : -1;
+    }
+
+    if (typeof aVal === 'number' && typeof bVal === 'number') {
+      return sortDirection === 'asc' ? aVal - bVal : bVal - aVal;
+    }
+
+    const aStr = String(aVal).toLowerCase();
+    const bStr = String(bVal).toLowerCase();
+    if (aStr < bStr) return sortDirection === 'asc' ? -1 : 1;
+    if (aStr > bStr) return sortDirection === 'asc' ? 1 : -1;
+    return 0;
+  });
+  return copied;
+}
+
+/** Filtered rows grouped by sector (first-seen order), each group sorted like the table. */
+export function applyView(rows: StockData[], view: TableView): SectorGroup[] {
+  return groupBySector(filterRows(rows, view.filter, view.sector)).map((g) => ({
+    sector: g.sector,
+    rows: sortRows(g.rows, view.sortKey, view.sortDirection),
+  }));
+}
+
+/** Read a view from query parameters (`filter`, `sector`, `sort`, `dir`); unknown values fall back to the defaults. */
+export function viewFromParams(params: URLSearchParams): TableView {
+  const sort = params.get('sort') as SortKey | null;
+  return {
+    filter: params.get('filter') || '',
+    sector: params.get('sector') || null,
+    sortKey: sort && (SORT_KEYS as readonly string[]).includes(sort) ? sort : DEFAULT_VIEW.sortKey,
+    sortDirection: params.get('dir') === 'asc' ? 'asc' : params.get('dir') === 'desc' ? 'desc' : DEFAULT_VIEW.sortDirection,
+  };
+}
+
+export function viewToParams(view: TableView): URLSearchParams {
+  const params = new URLSearchParams({ sort: view.sortKey, dir: view.sortDirection });
+  if (view.filter.trim()) params.set('filter', view.filter.trim());
+  if (view.sector) params.set('sector', view.sector);
+  return params;
+}
+
+export function summarizePortfolio(data: StockData[]): PortfolioSummary {
+  if (data.length === 0) {
+    return {
+      totalValue: 0,
+      totalChange: 0,
+      totalChangePercent: 0,
+      totalGainLoss: 0,
+      totalDividendIncome: 0,
+      numberOfStocks: 0,
+    };
+  }
+
+  const totalValue = data.reduce((sum, stock) => sum + stock.presentValue, 0);
+  // change is a native per-share amount; convert before summing across currencies
+  const totalChange = data.reduce((sum, stock) => sum + stock.change * stock.shares * stock.fxRate, 0);
+  const totalChangePercent = totalValue > 0 ? (totalChange / (totalValue - totalChange)) * 100 : 0;
+  const totalGainLoss = data.reduce((s, x) => s + x.gainLoss, 0);
+  const totalDividendIncome = data.reduce((s, x) => s + x.dividendIncome, 0);
+
+  return {
+    totalValue,
+    totalChange,
+    totalChangePercent,
+    totalGainLoss,
+    totalDividendIncome,
+    numberOfStocks: data.length,
+  };
+}
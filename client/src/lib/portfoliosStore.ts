@@ -0,0 +1,177 @@
+import { randomBytes } from 'crypto';
+import { Portfolio } from '@/types/portfolio';
+import { readJson, removeJson, renameJson, updateJson } from '@/lib/jsonStore';
+import { BASE_CURRENCIES } from '@/lib/format';
+import { AGGREGATE_PORTFOLIO_ID, DEFAULT_PORTFOLIO_ID } from '@/lib/portfolioIds';
+
+const STORE = 'portfolios';
+
+// Per-portfolio documents, removed along with the portfolio
+const SCOPED_STORES = [
+  'holdings',
+  'transactions',
+  'corporate-actions',
+  'allocation-targets',
+  'scenarios',
+  ...BASE_CURRENCIES.map((c) => `snapshots-${c}`),
+];
+
+// Account-wide documents, one copy per user
+const USER_STORES = ['watchlist', 'alert-rules', 'alerts', 'webhooks', 'grandfathered-fmv'];
+
+// Prefix of the internal ids that stand for one user's aggregate view
+const AGGREGATE_PREFIX = `${AGGREGATE_PORTFOLIO_ID}-`;
+
+const defaultPortfolios = (): Portfolio[] => [{ id: DEFAULT_PORTFOLIO_ID, name: 'Main', createdAt: new Date(0).toISOString() }];
+
+/** Store name for a portfolio's copy of a document; the default portfolio uses the bare name. */
+export const scopedStore = (name: string, portfolioId: string) =>
+  portfolioId === DEFAULT_PORTFOLIO_ID ? name : `${name}-${portfolioId}`;
+
+/** Store name for a user's copy of an account-wide document such as the watchlist. */
+export const userStore = (name: string, userId: string) => `${name}-user-${userId}`;
+
+/**
+ * Internal id of one user's aggregate view. Routes accept `all` and swap in this id, which
+ * keeps each user's merged rows, live stream and value history apart from everyone else's.
+ */
+export const aggregateId = (userId: string) => `${AGGREGATE_PREFIX}${userId}`;
+
+/** The user whose portfolios an aggregate id merges, or null for a single portfolio. */
+export const aggregateOwner = (portfolioId: string) =>
+  portfolioId.startsWith(AGGREGATE_PREFIX) ? portfolioId.slice(AGGREGATE_PREFIX.length) : null;
+
+export const slugify = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 32);
+
+export type PortfolioInput = Pick<Portfolio, 'name'>;
+
+/** Validate a portfolio body. Only the name can be set; ids are generated when the portfolio is created. */
+export function validatePortfolio(
+  input: unknown,
+  base?: Portfolio
+): { value: PortfolioInput; errors?: undefined } | { value?: undefined; errors: string[] } {
+  if (!input || typeof input !== 'object') return { errors: ['Body must be a JSON object'] };
+  const body = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) errors.push('name is required');
+  else if (name.length > 60) errors.push('name must be at most 60 characters');
+
+  if (base && body.id !== undefined && body.id !== base.id) errors.push('id cannot be changed');
+  else if (!base && body.id !== undefined) errors.push('id cannot be chosen; it is generated from the name');
+
+  if (errors.length) return { errors };
+  return { value: { name } };
+}
+
+/**
+ * A fresh id: a slug of the name plus a random suffix, so it never matches a static route under
+ * /api/portfolio or the aggregate prefix. Ids are generated rather than chosen because they are
+ * unique across users; a chosen id that clashed would tell the caller someone else has it.
+ */
+function newPortfolioId(name: string, taken: Set<string>): string {
+  const slug = slugify(name).slice(0, 24).replace(/-+$/, '') || 'portfolio';
+  const stem = `${slug}-`.startsWith(AGGREGATE_PREFIX) ? `p-${slug}` : slug;
+  for (;;) {
+    const id = `${stem}-${randomBytes(3).toString('hex')}`;
+    if (!taken.has(id)) return id;
+  }
+}
+
+// Ids are unique across users since they name the portfolio's stores
+const allPortfolios = () => readJson<Portfolio[]>(STORE, defaultPortfolios);
+
+/** A user's portfolios, oldest first. */
+export async function listPortfolios(ownerId: string): Promise<Portfolio[]> {
+  return (await allPortfolios()).filter((p) => p.ownerId === ownerId);
+}
+
+/** The portfolio with this id when `ownerId` owns it; someone else's reads as missing. */
+export async function getPortfolio(ownerId: string, id: string): Promise<Portfolio | undefined> {
+  return (await listPortfolios(ownerId)).find((p) => p.id === id);
+}
+
+/** Owner of a single portfolio or of an aggregate id; null when the portfolio does not exist. */
+export async function portfolioOwner(portfolioId: string): Promise<string | null> {
+  return aggregateOwner(portfolioId) ?? (await allPortfolios()).find((p) => p.id === portfolioId)?.ownerId ?? null;
+}
+
+export async function createPortfolio(ownerId: string, input: PortfolioInput): Promise<Portfolio> {
+  return updateJson(STORE, defaultPortfolios, (current) => {
+    const id = newPortfolioId(input.name, new Set(current.map((p) => p.id)));
+    const portfolio: Portfolio = { id, ...input, ownerId, createdAt: new Date().toISOString() };
+    return { next: [...current, portfolio], result: portfolio };
+  });
+}
+
+/**
+ * Hand the data kept from before there were accounts to the first user: every portfolio
+ * without an owner (the original one included), the watchlist, alerts, webhooks, grandfathered
+ * FMVs and the value history of the combined view.
+ */
+export async function claimLegacyData(userId: string): Promise<void> {
+  await updateJson(STORE, defaultPortfolios, (current) => ({
+    next: current.map((p) => (p.ownerId ? p : { ...p, ownerId: userId })),
+    result: undefined,
+  }));
+  await Promise.all([
+    ...USER_STORES.map((name) => renameJson(name, userStore(name, userId))),
+    ...BASE_CURRENCIES.map((c) =>
+      renameJson(scopedStore(`snapshots-${c}`, AGGREGATE_PORTFOLIO_ID), scopedStore(`snapshots-${c}`, aggregateId(userId)))
+    ),
+  ]);
+}
+
+/** Every later account starts with one empty portfolio of its own. */
+export async function createStarterPortfolio(userId: string): Promise<Portfolio> {
+  const id = `main-${userId}`;
+  return updateJson(STORE, defaultPortfolios, (current) => {
+    const existing = current.find((p) => p.id === id);
+    if (existing) return { next: current, result: existing };
+    const portfolio: Portfolio = { id, name: 'Main', ownerId: userId, createdAt: new Date().toISOString() };
+    return { next: [...current, portfolio], result: portfolio };
+  });
+}
+
+export async function renamePortfolio(id: string, name: string): Promise<Portfolio | null> {
+  return updateJson<Portfolio[], Portfolio | null>(STORE, defaultPortfolios, (current) => {
+    const idx = current.findIndex((p) => p.id === id);
+    if (idx === -1) return { next: current, result: null };
+    const next = [...current];
+    next[idx] = { ...current[idx], name };
+    return { next, result: next[idx] };
+  });
+}
+
+/** Remove a portfolio with its holdings, ledger, corporate actions, allocation targets and value history. The default portfolio cannot be deleted. */
+export async function deletePortfolio(id: string): Promise<boolean> {
+  if (id === DEFAULT_PORTFOLIO_ID) return false;
+  const removed = await updateJson(STORE, defaultPortfolios, (current) => {
+    const next = current.filter((p) => p.id !== id);
+    return { next: next.length === current.length ? current : next, result: next.length !== current.length };
+  });
+  if (removed) await Promise.all(SCOPED_STORES.map((name) => removeJson(scopedStore(name, id))));
+  return removed;
+}
+
+/**
+ * The user's portfolio named by the `portfolio` query parameter, defaulting to their oldest one.
+ * `all` passes only when `allowAggregate` is set, as the user's aggregate id; undefined means
+ * no such portfolio, or one that belongs to someone else.
+ */
+export async function requestedPortfolio(
+  userId: string,
+  params: URLSearchParams,
+  allowAggregate = false
+): Promise<string | undefined> {
+  const id = params.get('portfolio');
+  if (id === AGGREGATE_PORTFOLIO_ID) return allowAggregate ? aggregateId(userId) : undefined;
+  const owned = await listPortfolios(userId);
+  return (id ? owned.find((p) => p.id === id) : owned[0])?.id;
+}
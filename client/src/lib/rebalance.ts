@@ -0,0 +1,219 @@
+import { StockData } from '@/types/stock';
+import { AllocationLine, AllocationTargets, RebalanceOptions, RebalancePlan, RebalanceTrade, ResolvedTargets } from '@/types/allocation';
+import { groupBySector } from '@/lib/sectors';
+
+const EPSILON = 1e-9;
+
+/**
+ * Per-symbol targets for the current rows. A holding's own target wins; a sector target is what is
+ * left of it after those, split across the sector's other holdings by present value (evenly when
+ * they are worth nothing). Holdings with neither stay untargeted and are never traded.
+ */
+export function resolveTargets(rows: StockData[], targets: AllocationTargets): ResolvedTargets {
+  const holdings: Record<string, number> = {};
+  const sectors: Record<string, number> = {};
+  const warnings: string[] = [];
+  const held = new Set(rows.map((r) => r.symbol));
+
+  for (const symbol of Object.keys(targets.holdings)) {
+    if (!held.has(symbol)) warnings.push(`${symbol} has a target but is not held`);
+  }
+
+  for (const { sector, rows: members } of groupBySector(rows)) {
+    const own = members.filter((r) => targets.holdings[r.symbol] !== undefined);
+    for (const r of own) holdings[r.symbol] = targets.holdings[r.symbol];
+    const ownTotal = own.reduce((s, r) => s + targets.holdings[r.symbol], 0);
+    const sectorTarget = targets.sectors[sector];
+
+    if (sectorTarget === undefined) {
+      if (own.length === members.length && own.length) sectors[sector] = ownTotal;
+      continue;
+    }
+    sectors[sector] = sectorTarget;
+    const rest = members.filter((r) => targets.holdings[r.symbol] === undefined);
+    const remaining = sectorTarget - ownTotal;
+    if (remaining < -EPSILON) {
+      warnings.push(`Holding targets in ${sector} add up to more than its ${sectorTarget}% sector target`);
+    }
+    const restValue = rest.reduce((s, r) => s + r.presentValue, 0);
+    for (const r of rest) {
+      const share = restValue > 0 ? r.presentValue / restValue : 1 / rest.length;
+      holdings[r.symbol] = Math.max(0, remaining) * share;
+    }
+  }
+
+  for (const sector of Object.keys(targets.sectors)) {
+    if (!rows.some((r) => r.sector === sector)) warnings.push(`Sector ${sector} has a target but no holdings`);
+  }
+
+  // Targets are shares of the whole portfolio, so with every holding targeted they must make up all of it
+  const total = Object.values(holdings).reduce((s, n) => s + n, 0);
+  const everyHeld = rows.length > 0 && rows.every((r) => holdings[r.symbol] !== undefined);
+  if (total > 100 + EPSILON || (everyHeld && total > EPSILON && total < 100 - EPSILON)) {
+    warnings.push(`Holding and sector targets add up to ${total.toFixed(1)}%; scaled to 100%`);
+    for (const symbol of Object.keys(holdings)) holdings[symbol] = (holdings[symbol] / total) * 100;
+    for (const sector of Object.keys(sectors)) sectors[sector] = (sectors[sector] / total) * 100;
+  }
+  return { holdings, sectors, warnings };
+}
+
+/** Weight minus target in percentage points, or null without a target. */
+export const drift = (weight: number, target: number | undefined) => (target === undefined ? null : weight - target);
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+interface Position {
+  row: StockData;
+  lotSize: number;
+  unitPrice: number; // CMP in the base currency
+  target: number | undefined;
+  shares: number; // after the trades so far
+}
+
+const valueOf = (p: Position) => (p.row.meta.status === 'failed' ? p.row.presentValue : p.shares * p.unitPrice);
+
+/**
+ * Trades in whole lots that bring targeted holdings back within tolerance. New cash and sale
+ * proceeds (after fees) fund buys of the most underweight holdings first; whatever cannot buy
+ * a full lot is left over. Holdings without a price are valued at cost and never traded.
+ */
+export function planRebalance(rows: StockData[], targets: AllocationTargets, options: RebalanceOptions): RebalancePlan {
+  const resolved = resolveTargets(rows, targets);
+  const warnings = [...resolved.warnings];
+  const fee = options.feePercent / 100;
+  const tolerance = targets.tolerance;
+
+  const positions: Position[] = rows.map((row) => ({
+    row,
+    lotSize: targets.lotSizes[row.symbol] || 1,
+    unitPrice: row.currentPrice * row.fxRate,
+    target: resolved.holdings[row.symbol],
+    shares: row.shares,
+  }));
+  const tradable = positions.filter((p) => {
+    if (p.target === undefined) return false;
+    if (p.row.meta.status === 'failed' || !(p.unitPrice > 0)) {
+      warnings.push(`${p.row.symbol} has no price and is left out of the plan`);
+      return false;
+    }
+    if (p.row.meta.status === 'stale') warnings.push(`${p.row.symbol} is planned at its last known price`);
+    return true;
+  });
+
+  const invested = positions.reduce((s, p) => s + valueOf(p), 0);
+  const total = invested + options.cash;
+  const desired = (p: Position) => ((p.target ?? 0) / 100) * total;
+  const weightIn = (p: Position) => (total > 0 ? (valueOf(p) / total) * 100 : 0);
+
+  const sold = new Map<string, number>();
+  const bought = new Map<string, number>();
+  let cash = options.cash;
+
+  if (!options.noSell) {
+    for (const p of tradable) {
+      if (weightIn(p) <= p.target! + tolerance) continue;
+      const lotValue = p.lotSize * p.unitPrice;
+      const lots = Math.min(Math.floor((valueOf(p) - desired(p)) / lotValue), Math.floor(p.shares / p.lotSize));
+      if (lots <= 0) continue;
+      const quantity = lots * p.lotSize;
+      cash += quantity * p.unitPrice * (1 - fee);
+      p.shares -= quantity;
+      sold.set(p.row.symbol, quantity);
+    }
+  }
+
+  // Holdings outside tolerance get buys; new cash may also top up any underweight holding
+  const candidates = tradable.filter(
+    (p) => !sold.has(p.row.symbol) && (weightIn(p) < p.target! - tolerance || (options.cash > 0 && valueOf(p) < desired(p)))
+  );
+  const lotCost = (p: Position) => p.lotSize * p.unitPrice * (1 + fee);
+  const shortfall = (p: Position) => desired(p) - valueOf(p);
+
+  let lots = candidates.map((p) => Math.max(0, Math.floor(shortfall(p) / (p.lotSize * p.unitPrice))));
+  const wanted = lots.reduce((s, n, i) => s + n * lotCost(candidates[i]), 0);
+  if (wanted > cash) lots = lots.map((n) => Math.floor(n * (cash / wanted)));
+  candidates.forEach((p, i) => {
+    p.shares += lots[i] * p.lotSize;
+    cash -= lots[i] * lotCost(p);
+  });
+
+  // Spend what is left a lot at a time on the largest remaining shortfall, while a lot gets closer to target
+  for (;;) {
+    const next = candidates
+      .filter((p) => lotCost(p) <= cash + EPSILON && shortfall(p) >= (p.lotSize * p.unitPrice) / 2)
+      .sort((a, b) => shortfall(b) - shortfall(a))[0];
+    if (!next) break;
+    next.shares += next.lotSize;
+    cash -= lotCost(next);
+  }
+  for (const p of candidates) {
+    const quantity = p.shares - p.row.shares;
+    if (quantity > 0) bought.set(p.row.symbol, quantity);
+  }
+
+  const trades: RebalanceTrade[] = [];
+  for (const p of tradable) {
+    const quantity = sold.get(p.row.symbol) ?? bought.get(p.row.symbol);
+    if (!quantity) continue;
+    const value = quantity * p.unitPrice;
+    trades.push({
+      symbol: p.row.symbol,
+      companyName: p.row.companyName,
+      sector: p.row.sector,
+      action: sold.has(p.row.symbol) ? 'sell' : 'buy',
+      quantity,
+      lotSize: p.lotSize,
+      price: p.row.currentPrice,
+      currency: p.row.currency,
+      value: round2(value),
+      fee: round2(value * fee),
+    });
+  }
+
+  const buys = trades.filter((t) => t.action === 'buy').reduce((s, t) => s + t.value, 0);
+  const sells = trades.filter((t) => t.action === 'sell').reduce((s, t) => s + t.value, 0);
+  const fees = trades.reduce((s, t) => s + t.fee, 0);
+
+  const postInvested = positions.reduce((s, p) => s + valueOf(p), 0);
+  const before = (value: number) => (invested > 0 ? (value / invested) * 100 : 0);
+  const after = (value: number) => (postInvested > 0 ? (value / postInvested) * 100 : 0);
+  const within = (line: AllocationLine) => line.targetWeight === null || Math.abs(line.postWeight - line.targetWeight) <= tolerance + EPSILON;
+
+  const holdings = positions.map((p) => ({
+    symbol: p.row.symbol,
+    companyName: p.row.companyName,
+    sector: p.row.sector,
+    shares: p.row.shares,
+    postShares: p.shares,
+    weight: before(p.row.presentValue),
+    postWeight: after(valueOf(p)),
+    targetWeight: p.target ?? null,
+  }));
+  const sectors = groupBySector(rows).map(({ sector, rows: members }) => {
+    const inSector = holdings.filter((h) => members.some((r) => r.symbol === h.symbol));
+    return {
+      sector,
+      weight: inSector.reduce((s, h) => s + h.weight, 0),
+      postWeight: inSector.reduce((s, h) => s + h.postWeight, 0),
+      targetWeight: resolved.sectors[sector] ?? null,
+    };
+  });
+
+  return {
+    baseCurrency: rows[0]?.baseCurrency ?? '',
+    options,
+    tolerance,
+    trades,
+    totals: {
+      buys: round2(buys),
+      sells: round2(sells),
+      fees: round2(fees),
+      netCash: round2(buys + fees - sells),
+      leftoverCash: round2(Math.max(0, cash)),
+    },
+    holdings,
+    sectors,
+    withinTolerance: holdings.every(within) && sectors.every(within),
+    warnings,
+  };
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { Holding, StockData } from '@/types/stock';
+import { Transaction } from '@/types/ledger';
+import { foldPosition } from '@/lib/ledger';
+import { holdingCashFlows, holdingReturns, portfolioReturns, xirr } from '@/lib/returns';
+
+const holding = (overrides: Partial<Holding> = {}): Holding => ({
+  symbol: 'HDFCBANK',
+  companyName: 'HDFC Bank',
+  sector: 'Financials',
+  purchasePrice: 100,
+  shares: 10,
+  exchange: 'NSE',
+  currency: 'INR',
+  purchaseDate: '2023-01-01',
+  ...overrides,
+});
+
+const sell = (date: string, quantity: number, price: number, fees = 0): Transaction => ({
+  id: `sell-${date}`,
+  symbol: 'HDFCBANK',
+  type: 'sell',
+  date,
+  quantity,
+  price,
+  fees,
+});
+
+describe('xirr', () => {
+  it('solves a one-year round trip', () => {
+    const rate = xirr([
+      { date: '2023-01-01', amount: -1000 },
+      { date: '2024-01-01', amount: 1100 },
+    ]);
+    expect(rate).toBeCloseTo(0.1, 6);
+  });
+
+  it('weighs flows by when they happen', () => {
+    const rate = xirr([
+      { date: '2023-01-01', amount: -1000 },
+      { date: '2023-07-02', amount: -1000 },
+      { date: '2024-01-01', amount: 2200 },
+    ])!;
+    // Half the money was in for half the year, so the rate is well above 10%
+    expect(rate).toBeGreaterThan(0.12);
+    expect(rate).toBeLessThan(0.14);
+  });
+
+  it('solves losses', () => {
+    expect(xirr([{ date: '2023-01-01', amount: -1000 }, { date: '2024-01-01', amount: 500 }])).toBeCloseTo(-0.5, 6);
+  });
+
+  it('is null without a change of sign or of date', () => {
+    expect(xirr([{ date: '2023-01-01', amount: -1000 }, { date: '2024-01-01', amount: -100 }])).toBeNull();
+    expect(xirr([{ date: '2023-01-01', amount: -1000 }, { date: '2023-01-01', amount: 1100 }])).toBeNull();
+  });
+});
+
+describe('holdingCashFlows', () => {
+  it('dates the opening lot and nets fees off sells', () => {
+    const flows = holdingCashFlows(holding(), [sell('2024-03-01', 4, 150, 10)], [
+      { actionId: 'd1', type: 'dividend', date: '2023-08-01', shares: 10, amount: 50 },
+    ]);
+    expect(flows).toEqual([
+      { date: '2023-01-01', amount: -1000 },
+      { date: '2023-08-01', amount: 50 },
+      { date: '2024-03-01', amount: 590 },
+    ]);
+  });
+
+  it('is null when the opening lot has no date', () => {
+    expect(holdingCashFlows(holding({ purchaseDate: null }), [])).toBeNull();
+  });
+});
+
+describe('holdingReturns', () => {
+  it('annualizes over the cost-weighted holding period', () => {
+    const h = holding();
+    const result = holdingReturns(h, [], foldPosition(h, []), 1210, '2025-01-01');
+    expect(result.absoluteReturnPercent).toBeCloseTo(21);
+    expect(result.holdingDays).toBe(731);
+    expect(result.cagr).toBeCloseTo((Math.pow(1.21, 365 / 731) - 1) * 100, 6);
+    // A single buy-and-hold flow gives the same annual rate either way
+    expect(result.xirr).toBeCloseTo(result.cagr!, 4);
+    expect(result.totalInvested).toBe(1000);
+  });
+
+  it('counts sale proceeds in the absolute return', () => {
+    const h = holding();
+    const transactions = [sell('2024-01-01', 5, 150)];
+    const result = holdingReturns(h, transactions, foldPosition(h, transactions), 750, '2025-01-01');
+    expect(result.absoluteReturnPercent).toBeCloseTo(50);
+  });
+
+  it('leaves CAGR and XIRR out when the opening lot is undated', () => {
+    const h = holding({ purchaseDate: null });
+    const result = holdingReturns(h, [], foldPosition(h, []), 1210, '2025-01-01');
+    expect(result.absoluteReturnPercent).toBeCloseTo(21);
+    expect(result.cagr).toBeNull();
+    expect(result.xirr).toBeNull();
+  });
+});
+
+describe('portfolioReturns', () => {
+  const row = (fields: Partial<StockData>) =>
+    ({ fxRate: 1, cashFlows: [], holdingDays: null, ...fields }) as StockData;
+
+  it('leaves undated holdings out of CAGR and XIRR but not the absolute return', () => {
+    const rows = [
+      row({
+        symbol: 'HDFCBANK',
+        purchaseDate: '2024-01-01',
+        totalInvested: 1000,
+        investment: 1000,
+        presentValue: 1100,
+        absoluteReturnPercent: 10,
+        holdingDays: 366,
+        cashFlows: [{ date: '2024-01-01', amount: -1000 }],
+      }),
+      row({ symbol: 'ITC', purchaseDate: null, totalInvested: 1000, investment: 1000, presentValue: 1300, absoluteReturnPercent: 30 }),
+    ];
+    const result = portfolioReturns(rows, '2025-01-01');
+    expect(result.undated).toEqual(['ITC']);
+    expect(result.absoluteReturnPercent).toBeCloseTo(20);
+    expect(result.holdingDays).toBe(366);
+    expect(result.cagr).toBeCloseTo((Math.pow(1.1, 365 / 366) - 1) * 100, 6);
+    expect(result.xirr).toBeCloseTo(result.cagr!, 4);
+  });
+
+  it('converts past flows at the row FX rate', () => {
+    const rows = [
+      row({
+        symbol: 'AAPL',
+        purchaseDate: '2024-01-01',
+        fxRate: 80,
+        totalInvested: 80000,
+        investment: 80000,
+        presentValue: 88000,
+        absoluteReturnPercent: 10,
+        holdingDays: 366,
+        cashFlows: [{ date: '2024-01-01', amount: -1000 }],
+      }),
+    ];
+    expect(portfolioReturns(rows, '2025-01-01').xirr).toBeCloseTo((Math.pow(1.1, 365 / 366) - 1) * 100, 4);
+  });
+});
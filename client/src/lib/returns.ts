@@ -0,0 +1,146 @@
+import { CashFlow, Holding, StockData } from '@/types/stock';
+import { ActionCashFlow, Position, Transaction } from '@/types/ledger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_DAYS = 365;
+
+const today = () => new Date().toISOString().slice(0, 10);
+const daysBetween = (from: string, to: string) => (Date.parse(to) - Date.parse(from)) / DAY_MS;
+
+/**
+ * Annualized internal rate of return for irregular cash flows (negative = money in,
+ * positive = money out), as a fraction. Newton's method with a bisection fallback;
+ * null when the flows do not change sign or no rate solves them.
+ */
+export function xirr(flows: CashFlow[]): number | null {
+  if (!flows.some((f) => f.amount < 0) || !flows.some((f) => f.amount > 0)) return null;
+  const start = flows.reduce((min, f) => (f.date < min ? f.date : min), flows[0].date);
+  const years = flows.map((f) => daysBetween(start, f.date) / YEAR_DAYS);
+  if (years.every((y) => y === 0)) return null;
+  const npv = (rate: number) => flows.reduce((s, f, i) => s + f.amount / Math.pow(1 + rate, years[i]), 0);
+  const slope = (rate: number) => flows.reduce((s, f, i) => s - (years[i] * f.amount) / Math.pow(1 + rate, years[i] + 1), 0);
+
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npv(rate);
+    const d = slope(rate);
+    if (!Number.isFinite(value) || !d) break;
+    const next = rate - value / d;
+    if (next <= -1 || !Number.isFinite(next)) break;
+    if (Math.abs(next - rate) < 1e-9) return next;
+    rate = next;
+  }
+
+  let lo = -0.9999;
+  let hi = 100;
+  let fLo = npv(lo);
+  if (fLo * npv(hi) > 0) return null;
+  for (let i = 0; i < 200 && hi - lo > 1e-9; i++) {
+    const mid = (lo + hi) / 2;
+    const fMid = npv(mid);
+    if (fLo * fMid <= 0) hi = mid;
+    else {
+      lo = mid;
+      fLo = fMid;
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * Dated ledger flows for a holding in its native currency, including dividends received and
+ * rights shares paid for; null when the opening lot has no date.
+ */
+export function holdingCashFlows(holding: Holding, transactions: Transaction[], actionFlows: ActionCashFlow[] = []): CashFlow[] | null {
+  const flows: CashFlow[] = [];
+  if (holding.shares > 0) {
+    if (!holding.purchaseDate) return null;
+    flows.push({ date: holding.purchaseDate, amount: -holding.shares * holding.purchasePrice });
+  }
+  for (const t of transactions) {
+    const gross = t.quantity * t.price;
+    flows.push({ date: t.date, amount: t.type === 'buy' ? -(gross + t.fees) : gross - t.fees });
+  }
+  for (const f of actionFlows) flows.push({ date: f.date, amount: f.amount });
+  return flows.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Cost-weighted age of the open lots in days; null when any open lot is undated
+function holdingDays(position: Position, asOf: string): number | null {
+  if (position.lots.length === 0) return null;
+  let cost = 0;
+  let weighted = 0;
+  for (const lot of position.lots) {
+    if (!lot.date) return null;
+    const lotCost = lot.quantity * lot.costPerShare;
+    cost += lotCost;
+    weighted += lotCost * daysBetween(lot.date, asOf);
+  }
+  return cost > 0 ? weighted / cost : null;
+}
+
+const annualize = (growth: number, days: number | null) =>
+  days !== null && days >= 1 && growth > 0 ? (Math.pow(growth, YEAR_DAYS / days) - 1) * 100 : null;
+
+const toPercent = (rate: number | null) => (rate === null ? null : rate * 100);
+
+export interface Returns {
+  absoluteReturnPercent: number;
+  cagr: number | null;
+  xirr: number | null;
+  holdingDays: number | null;
+}
+
+/** Returns for one position, all amounts in its native currency. */
+export function holdingReturns(
+  holding: Holding,
+  transactions: Transaction[],
+  position: Position,
+  presentValue: number,
+  asOf = today()
+): Returns & { cashFlows: CashFlow[]; totalInvested: number } {
+  const flows = holdingCashFlows(holding, transactions, position.actionCashFlows);
+  let invested = holding.shares * holding.purchasePrice;
+  let proceeds = position.dividendIncome;
+  for (const t of transactions) {
+    if (t.type === 'buy') invested += t.quantity * t.price + t.fees;
+    else proceeds += t.quantity * t.price - t.fees;
+  }
+  for (const f of position.actionCashFlows) if (f.type === 'rights') invested -= f.amount;
+  const days = holdingDays(position, asOf);
+  return {
+    absoluteReturnPercent: invested ? ((presentValue + proceeds - invested) / invested) * 100 : 0,
+    cagr: position.fifoInvestment ? annualize(presentValue / position.fifoInvestment, days) : null,
+    xirr: flows ? toPercent(xirr([...flows, { date: asOf, amount: presentValue }])) : null,
+    holdingDays: days,
+    cashFlows: flows || [],
+    totalInvested: invested,
+  };
+}
+
+/**
+ * Portfolio-level returns from dashboard rows, in the rows' base currency. Past flows are
+ * converted at today's FX rate. Holdings without a purchase date count toward the absolute
+ * return but are left out of CAGR and XIRR, and are listed in `undated`.
+ */
+export function portfolioReturns(rows: StockData[], asOf = today()): Returns & { undated: string[] } {
+  const undated = rows.filter((r) => !r.purchaseDate).map((r) => r.symbol);
+  const dated = rows.filter((r) => r.purchaseDate);
+
+  const invested = rows.reduce((s, r) => s + r.totalInvested, 0);
+  const gain = rows.reduce((s, r) => s + (r.absoluteReturnPercent / 100) * r.totalInvested, 0);
+
+  const datedValue = dated.reduce((s, r) => s + r.presentValue, 0);
+  const datedInvestment = dated.reduce((s, r) => s + r.investment, 0);
+  // Combined cost-weighted holding period of the dated open lots
+  const days = datedInvestment ? dated.reduce((s, r) => s + (r.holdingDays ?? 0) * r.investment, 0) / datedInvestment : null;
+  const flows = dated.flatMap((r) => r.cashFlows.map((f) => ({ date: f.date, amount: f.amount * r.fxRate })));
+
+  return {
+    absoluteReturnPercent: invested ? (gain / invested) * 100 : 0,
+    cagr: datedInvestment ? annualize(datedValue / datedInvestment, days) : null,
+    xirr: flows.length ? toPercent(xirr([...flows, { date: asOf, amount: datedValue }])) : null,
+    holdingDays: days,
+    undated,
+  };
+}
@@ -0,0 +1,196 @@
+import { StockData } from '@/types/stock';
+import { PerformanceRange } from '@/types/benchmark';
+import { Concentration, HoldingRisk, RiskMetrics, RiskReport } from '@/types/risk';
+import { buildPortfolioRows } from '@/lib/portfolio';
+import {
+  MIN_PERIODS_FOR_BETA,
+  PERFORMANCE_RANGES,
+  buildPortfolioSeries,
+  closesOn,
+  covariance,
+  dateOf,
+  mean,
+  periodReturns,
+} from '@/lib/performance';
+import { PriceHistoryResponse, fetchBenchmark, fetchPriceHistory, instrumentRef } from '@/lib/backend';
+import { groupBySector } from '@/lib/sectors';
+import { rowKey } from '@/lib/portfolioView';
+
+// Bars per year for the history intervals the backend serves for performance ranges
+const PERIODS_PER_YEAR: Record<string, number> = { '1d': 252, '1wk': 52, '1mo': 12 };
+
+const TOP_COUNTS = [1, 3, 5, 10];
+
+const sampleStdev = (xs: number[]) => Math.sqrt(covariance(xs, xs));
+
+/** Worst fall from a running peak along a series of levels, as a negative percent. */
+export function maxDrawdown(levels: number[]): number | null {
+  let peak = 0;
+  let worst = 0;
+  for (const level of levels) {
+    if (!(level > 0)) continue;
+    peak = Math.max(peak, level);
+    worst = Math.min(worst, level / peak - 1);
+  }
+  return peak > 0 ? worst * 100 : null;
+}
+
+// Volatility, Sharpe and beta from aligned period returns; `index` holds the benchmark's return for the same periods
+function metricsFor(
+  returns: (number | null)[],
+  index: (number | null)[],
+  levels: number[],
+  periodsPerYear: number,
+  riskFreeRate: number
+): RiskMetrics {
+  const own = returns.filter((r): r is number => r !== null);
+  const paired = returns.flatMap((r, i) => (r !== null && index[i] !== null ? [{ r, b: index[i]! }] : []));
+  const start = levels.findIndex((l) => l > 0);
+  const end = levels.length - 1;
+
+  let volatility: number | null = null;
+  let sharpe: number | null = null;
+  if (own.length >= 2) {
+    const sd = sampleStdev(own);
+    volatility = sd * Math.sqrt(periodsPerYear) * 100;
+    // Arithmetic mean return, annualized, over the risk-free rate
+    const excess = mean(own) * periodsPerYear * 100 - riskFreeRate;
+    sharpe = volatility > 0 ? excess / volatility : null;
+  }
+
+  let beta: number | null = null;
+  if (paired.length >= MIN_PERIODS_FOR_BETA) {
+    const b = paired.map((p) => p.b);
+    const variance = covariance(b, b);
+    beta = variance > 0 ? covariance(paired.map((p) => p.r), b) / variance : null;
+  }
+
+  return {
+    return: start >= 0 && end > start ? (levels[end] / levels[start] - 1) * 100 : null,
+    volatility,
+    beta,
+    maxDrawdown: maxDrawdown(levels),
+    sharpe,
+  };
+}
+
+const simpleReturns = (levels: number[]) => levels.map((l, i) => (i > 0 && levels[i - 1] > 0 ? l / levels[i - 1] - 1 : null));
+
+// Pearson correlation over the periods both holdings have, or null with too few of them
+function correlation(a: (number | null)[], b: (number | null)[]): number | null {
+  const pairs = a.flatMap((x, i) => (x !== null && b[i] !== null ? [[x, b[i]!]] : []));
+  if (pairs.length < MIN_PERIODS_FOR_BETA) return null;
+  const xs = pairs.map((p) => p[0]);
+  const ys = pairs.map((p) => p[1]);
+  const denominator = sampleStdev(xs) * sampleStdev(ys);
+  return denominator > 0 ? covariance(xs, ys) / denominator : null;
+}
+
+/** Top-N weights and Herfindahl-Hirschman indices over the rows' `weight` (percent, so HHI runs to 10000). */
+export function concentration(rows: StockData[]): Concentration {
+  const weights = rows.map((r) => r.weight).sort((a, b) => b - a);
+  const sectors = groupBySector(rows)
+    .map(({ sector, rows: members }) => ({ sector, weight: members.reduce((s, r) => s + r.weight, 0) }))
+    .sort((a, b) => b.weight - a.weight);
+  const hhi = (ws: number[]) => ws.reduce((s, w) => s + w * w, 0);
+  const holdingHhi = hhi(weights);
+  const sectorHhi = hhi(sectors.map((s) => s.weight));
+  const largest = [...rows].sort((a, b) => b.weight - a.weight)[0];
+  return {
+    top: TOP_COUNTS.filter((_, i) => i === 0 || TOP_COUNTS[i - 1] < rows.length).map((count) => ({
+      count,
+      weight: weights.slice(0, count).reduce((s, w) => s + w, 0),
+    })),
+    holdingHhi,
+    effectiveHoldings: holdingHhi > 0 ? 10000 / holdingHhi : 0,
+    sectorHhi,
+    effectiveSectors: sectorHhi > 0 ? 10000 / sectorHhi : 0,
+    largestHolding: largest ? { symbol: largest.symbol, weight: largest.weight } : null,
+    largestSector: sectors[0] ?? null,
+  };
+}
+
+/**
+ * Risk of the portfolio and each holding over `range`, measured on the benchmark's trading calendar.
+ * The portfolio series is the time-weighted one from the benchmark comparison, so money moved in or
+ * out does not count as volatility; holdings use their split-adjusted closes.
+ */
+export async function buildRiskReport(
+  portfolioId: string,
+  benchmarkId: string,
+  range: PerformanceRange,
+  baseCurrency: string,
+  riskFreeRate: number
+): Promise<RiskReport> {
+  const index = await fetchBenchmark(benchmarkId, PERFORMANCE_RANGES[range]);
+  const calendar = index.points.map((p) => dateOf(p.time));
+  const [rows, series] = await Promise.all([
+    buildPortfolioRows(portfolioId, baseCurrency),
+    buildPortfolioSeries(portfolioId, baseCurrency, range, calendar),
+  ]);
+  const warnings = [...series.warnings];
+  const periodsPerYear = PERIODS_PER_YEAR[index.interval] ?? 252;
+
+  const indexLevels = closesOn(calendar, index.points);
+  const indexReturns = simpleReturns(indexLevels);
+
+  // Compound the time-weighted returns into a growth index, then read it on the benchmark's days
+  const { days } = series;
+  const twr = periodReturns(days);
+  const start = days.findIndex((d) => d.value > 0);
+  let growth = 1;
+  const growthByDate = new Map(
+    days.map((d, i) => {
+      if (start < 0 || i < start) return [d.date, 0];
+      if (i > start) growth *= 1 + (twr[i] ?? 0);
+      return [d.date, growth];
+    })
+  );
+  const portfolioLevels = calendar.map((d) => growthByDate.get(d) ?? 0);
+  const portfolio = metricsFor(simpleReturns(portfolioLevels), indexReturns, portfolioLevels, periodsPerYear, riskFreeRate);
+
+  const histories = await Promise.allSettled(
+    rows.map((r) => fetchPriceHistory(instrumentRef(r.symbol, r.exchange), PERFORMANCE_RANGES[range]))
+  );
+  // Keyed by rowKey, since the combined view can hold the same symbol on two listings
+  const returnsByKey = new Map<string, (number | null)[]>();
+  const holdings: HoldingRisk[] = rows.map((row, i) => {
+    const result = histories[i];
+    const history: PriceHistoryResponse | null = result.status === 'fulfilled' && result.value.points.length ? result.value : null;
+    const base = { symbol: row.symbol, exchange: row.exchange, currency: row.currency, companyName: row.companyName, sector: row.sector, weight: row.weight };
+    if (!history) {
+      if (!series.warnings.some((w) => w.startsWith(`${row.symbol}:`))) warnings.push(`${row.symbol}: no price history, left out`);
+      return { ...base, return: null, volatility: null, beta: null, maxDrawdown: null, sharpe: null };
+    }
+    // Only days from the symbol's first bar; carrying its first close backwards would fake flat days
+    const first = dateOf(history.points[0].time);
+    const levels = closesOn(calendar, history.points).map((c, j) => (calendar[j] >= first ? c : 0));
+    const returns = simpleReturns(levels);
+    returnsByKey.set(rowKey(row), returns);
+    return { ...base, ...metricsFor(returns, indexReturns, levels, periodsPerYear, riskFreeRate) };
+  });
+
+  const correlated = rows.filter((r) => returnsByKey.has(rowKey(r)));
+  const keys = correlated.map(rowKey);
+  const repeated = (symbol: string) => correlated.filter((r) => r.symbol === symbol).length > 1;
+  const labels = correlated.map((r) => (repeated(r.symbol) ? `${r.symbol} (${r.exchange}, ${r.currency})` : r.symbol));
+  const matrix = keys.map((a) => keys.map((b) => (a === b ? 1 : correlation(returnsByKey.get(a)!, returnsByKey.get(b)!))));
+
+  if (portfolio.beta === null && start >= 0) {
+    warnings.push(`Fewer than ${MIN_PERIODS_FOR_BETA} periods of history; beta needs at least that many`);
+  }
+
+  return {
+    range,
+    baseCurrency,
+    benchmark: { id: index.id, name: index.name },
+    interval: index.interval,
+    periodsPerYear,
+    riskFreeRate,
+    portfolio,
+    holdings,
+    correlation: { keys, labels, matrix },
+    concentration: concentration(rows),
+    warnings,
+  };
+}
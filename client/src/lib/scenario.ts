@@ -0,0 +1,185 @@
+import { Holding, StockData } from '@/types/stock';
+import { Transaction } from '@/types/ledger';
+import { PriceShock, ScenarioComparison, ScenarioEvaluation, ScenarioLine, ScenarioTrade } from '@/types/scenario';
+import { CmpResponse } from '@/lib/backend';
+import { RowOverlay, buildPortfolioRows } from '@/lib/portfolio';
+import { currencyForExchange } from '@/lib/holdingsStore';
+import { groupBySector } from '@/lib/sectors';
+import { summarizePortfolio } from '@/lib/portfolioView';
+import { ScenarioInput } from '@/lib/scenariosStore';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export type PricedTrade = ScenarioTrade & { price: number };
+
+/** A holding's price after the shocks; percentages compound and a symbol's target price wins. */
+function shockedPrice(shocks: PriceShock[], holding: Holding, price: number): number {
+  let target: number | null = null;
+  let factor = 1;
+  for (const s of shocks) {
+    if (s.type === 'symbol' && s.symbol === holding.symbol) target = s.price;
+    else if (s.type === 'all' || (s.type === 'sector' && s.sector === holding.sector)) factor *= 1 + s.percent / 100;
+  }
+  return target ?? price * factor;
+}
+
+/**
+ * The overlay that turns the current rows into the scenario: trades become ledger entries dated
+ * today (a symbol not held opens with its first buy), at their own price or the current CMP, and
+ * shocks reprice the quotes. Errors cover what the ledger could not take, such as selling more
+ * than would be held or a new symbol without a price or exchange.
+ */
+export function prepareScenario(
+  rows: StockData[],
+  scenario: ScenarioInput
+): { value: { overlay: RowOverlay; trades: PricedTrade[]; warnings: string[] }; errors?: undefined } | { value?: undefined; errors: string[] } {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const held = new Map(rows.map((r) => [r.symbol, r]));
+  const opened = new Map<string, Holding>();
+  const transactions = new Map<string, Transaction[]>();
+  const trades: PricedTrade[] = [];
+  const date = today();
+
+  scenario.trades.forEach((t, i) => {
+    const row = held.get(t.symbol);
+    const price = t.price ?? row?.currentPrice ?? null;
+    if (price === null) {
+      errors.push(`trades[${i}]: ${t.symbol} is not held, so the trade needs a price`);
+      return;
+    }
+    if (!row && !opened.has(t.symbol)) {
+      if (t.action === 'sell') {
+        errors.push(`trades[${i}]: ${t.symbol} is not held`);
+        return;
+      }
+      if (!t.exchange) {
+        errors.push(`trades[${i}]: ${t.symbol} is not held, so the trade needs an exchange`);
+        return;
+      }
+      opened.set(t.symbol, {
+        symbol: t.symbol,
+        companyName: t.companyName || t.symbol,
+        sector: t.sector || 'Uncategorized',
+        purchasePrice: price,
+        shares: t.quantity,
+        exchange: t.exchange,
+        currency: currencyForExchange(t.exchange),
+        purchaseDate: date,
+      });
+    } else {
+      const entry: Transaction = { id: `scenario-${i}`, symbol: t.symbol, type: t.action, date, quantity: t.quantity, price, fees: 0 };
+      transactions.set(t.symbol, [...(transactions.get(t.symbol) || []), entry]);
+    }
+    if (row && row.meta.status !== 'live' && t.price === null) warnings.push(`${t.symbol} trades at a price that is not live`);
+    trades.push({ ...t, price });
+  });
+
+  // The ledger applies same-day buys before sells, so only the totals per symbol matter
+  const symbols = new Set(trades.map((t) => t.symbol));
+  for (const symbol of symbols) {
+    const total = (action: ScenarioTrade['action']) =>
+      trades.filter((t) => t.symbol === symbol && t.action === action).reduce((s, t) => s + t.quantity, 0);
+    const available = (held.get(symbol)?.shares ?? 0) + total('buy');
+    if (total('sell') > available) errors.push(`Selling ${total('sell')} ${symbol} is more than the ${available} that would be held`);
+  }
+
+  const sectors = new Set([...rows.map((r) => r.sector), ...Array.from(opened.values(), (h) => h.sector)]);
+  for (const s of scenario.shocks) {
+    if (s.type === 'sector' && !sectors.has(s.sector)) warnings.push(`No holdings in ${s.sector}; its shock changes nothing`);
+    if (s.type === 'symbol' && !held.has(s.symbol) && !opened.has(s.symbol)) warnings.push(`${s.symbol} is not held; its target price changes nothing`);
+  }
+
+  if (errors.length) return { errors };
+  const reprice = (holding: Holding, quote: CmpResponse): CmpResponse => {
+    const price = shockedPrice(scenario.shocks, holding, quote.currentPrice);
+    if (price === quote.currentPrice) return quote;
+    // The day's move scales with the price so the shock does not read as today's change
+    const factor = quote.currentPrice > 0 ? price / quote.currentPrice : 1;
+    return { ...quote, currentPrice: price, previousClose: quote.previousClose * factor, change: quote.change * factor };
+  };
+  return { value: { overlay: { holdings: Array.from(opened.values()), transactions, reprice }, trades, warnings } };
+}
+
+const line = (row: StockData | undefined): ScenarioLine & { shares: number } => ({
+  shares: row?.shares ?? 0,
+  presentValue: row?.presentValue ?? 0,
+  gainLoss: row?.gainLoss ?? 0,
+  weight: row?.weight ?? 0,
+});
+
+function sectorTotals(rows: StockData[]): Map<string, ScenarioLine> {
+  return new Map(
+    groupBySector(rows).map(({ sector, rows: members }) => [
+      sector,
+      {
+        presentValue: members.reduce((s, r) => s + r.presentValue, 0),
+        gainLoss: members.reduce((s, r) => s + r.gainLoss, 0),
+        weight: members.reduce((s, r) => s + r.weight, 0),
+      },
+    ])
+  );
+}
+
+/** Sell proceeds minus buy cost, in the base currency of the scenario rows. */
+export function scenarioCash(scenarioRows: StockData[], trades: PricedTrade[]): number {
+  const fx = new Map(scenarioRows.map((r) => [r.symbol, r.fxRate]));
+  return trades.reduce((s, t) => s + (t.action === 'sell' ? 1 : -1) * t.quantity * t.price * (fx.get(t.symbol) ?? 1), 0);
+}
+
+/** Holding and sector lines for the current rows next to the scenario's, in the order they first appear. */
+export function evaluateScenario(
+  current: StockData[],
+  scenarioRows: StockData[],
+  trades: PricedTrade[],
+  warnings: string[]
+): ScenarioEvaluation {
+  const before = new Map(current.map((r) => [r.symbol, r]));
+  const after = new Map(scenarioRows.map((r) => [r.symbol, r]));
+  const holdings = Array.from(new Set([...before.keys(), ...after.keys()]), (symbol) => {
+    const row = (after.get(symbol) ?? before.get(symbol))!;
+    return { symbol, companyName: row.companyName, sector: row.sector, current: line(before.get(symbol)), scenario: line(after.get(symbol)) };
+  });
+  const sectorsBefore = sectorTotals(current);
+  const sectorsAfter = sectorTotals(scenarioRows);
+  const empty: ScenarioLine = { presentValue: 0, gainLoss: 0, weight: 0 };
+  const sectors = Array.from(new Set([...sectorsBefore.keys(), ...sectorsAfter.keys()]), (sector) => ({
+    sector,
+    current: sectorsBefore.get(sector) ?? empty,
+    scenario: sectorsAfter.get(sector) ?? empty,
+  }));
+  const unpriced = scenarioRows.filter((r) => !before.has(r.symbol) && r.meta.status === 'failed').map((r) => r.symbol);
+  return {
+    baseCurrency: scenarioRows[0]?.baseCurrency ?? current[0]?.baseCurrency ?? '',
+    rows: scenarioRows,
+    cash: scenarioCash(scenarioRows, trades),
+    holdings,
+    sectors,
+    warnings: [...warnings, ...unpriced.map((symbol) => `${symbol} has no quote and is valued at the trade price`)],
+  };
+}
+
+const sectorWeights = (rows: StockData[]) => Object.fromEntries(Array.from(sectorTotals(rows), ([sector, l]) => [sector, l.weight]));
+
+/** Summary figures and sector weights of the current rows, for one side of a comparison. */
+export const comparisonColumn = (rows: StockData[]): ScenarioComparison['current'] => ({
+  ...summarizePortfolio(rows),
+  investment: rows.reduce((s, r) => s + r.investment, 0),
+  sectors: sectorWeights(rows),
+});
+
+/**
+ * Build a scenario's rows next to the portfolio's current ones. Quotes come through the same
+ * batch request and fallbacks as the dashboard; nothing is stored and no snapshot is recorded.
+ */
+export async function runScenario(
+  portfolioId: string,
+  baseCurrency: string,
+  current: StockData[],
+  scenario: ScenarioInput
+): Promise<{ value: ScenarioEvaluation; errors?: undefined } | { value?: undefined; errors: string[] }> {
+  const prepared = prepareScenario(current, scenario);
+  if (!prepared.value) return prepared;
+  const rows = await buildPortfolioRows(portfolioId, baseCurrency, prepared.value.overlay);
+  return { value: evaluateScenario(current, rows, prepared.value.trades, prepared.value.warnings) };
+}
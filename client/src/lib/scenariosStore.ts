@@ -0,0 +1,130 @@
+import { randomUUID } from 'crypto';
+import { PriceShock, Scenario, ScenarioTrade } from '@/types/scenario';
+import { readJson, updateJson } from '@/lib/jsonStore';
+import { scopedStore } from '@/lib/portfoliosStore';
+import { EXCHANGES, SYMBOL_PATTERN } from '@/lib/holdingsStore';
+
+const STORE = 'scenarios';
+
+const MAX_TRADES = 50;
+const MAX_SHOCKS = 20;
+
+export type ScenarioInput = Pick<Scenario, 'name' | 'trades' | 'shocks'>;
+
+type Validated<T> = { value: T; errors?: undefined } | { value?: undefined; errors: string[] };
+
+const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+function readTrade(raw: unknown, at: string, errors: string[]): ScenarioTrade | null {
+  if (!raw || typeof raw !== 'object') {
+    errors.push(`${at} must be an object`);
+    return null;
+  }
+  const t = raw as Record<string, unknown>;
+  const symbol = text(t.symbol)?.toUpperCase() ?? '';
+  if (!SYMBOL_PATTERN.test(symbol)) errors.push(`${at}.symbol must be 1-20 letters, digits or . & -`);
+  const action = t.action;
+  if (action !== 'buy' && action !== 'sell') errors.push(`${at}.action must be buy or sell`);
+  const quantity = Number(t.quantity);
+  if (!Number.isInteger(quantity) || quantity <= 0) errors.push(`${at}.quantity must be a whole number of at least 1`);
+  const price = t.price === null || t.price === undefined || t.price === '' ? null : Number(t.price);
+  if (price !== null && (!Number.isFinite(price) || price <= 0)) errors.push(`${at}.price must be a positive number`);
+  const exchange = text(t.exchange)?.toUpperCase() ?? null;
+  if (exchange !== null && !EXCHANGES.includes(exchange)) errors.push(`${at}.exchange must be one of ${EXCHANGES.join(', ')}`);
+  return {
+    symbol,
+    action: action as ScenarioTrade['action'],
+    quantity,
+    price,
+    exchange,
+    companyName: text(t.companyName),
+    sector: text(t.sector),
+  };
+}
+
+function readShock(raw: unknown, at: string, errors: string[]): PriceShock | null {
+  if (!raw || typeof raw !== 'object') {
+    errors.push(`${at} must be an object`);
+    return null;
+  }
+  const s = raw as Record<string, unknown>;
+  // A fall of 100% or more would leave prices at or below zero
+  const percent = () => {
+    const n = Number(s.percent);
+    if (s.percent === '' || s.percent === null || !Number.isFinite(n) || n <= -100 || n > 1000) {
+      errors.push(`${at}.percent must be more than -100 and at most 1000`);
+    }
+    return n;
+  };
+  if (s.type === 'all') return { type: 'all', percent: percent() };
+  if (s.type === 'sector') {
+    const sector = text(s.sector);
+    if (!sector) errors.push(`${at}.sector is required`);
+    return { type: 'sector', sector: sector ?? '', percent: percent() };
+  }
+  if (s.type === 'symbol') {
+    const symbol = text(s.symbol)?.toUpperCase() ?? '';
+    if (!symbol) errors.push(`${at}.symbol is required`);
+    const price = Number(s.price);
+    if (!Number.isFinite(price) || price <= 0) errors.push(`${at}.price must be a positive number`);
+    return { type: 'symbol', symbol, price };
+  }
+  errors.push(`${at}.type must be all, sector or symbol`);
+  return null;
+}
+
+/** Validate a scenario body: a `name`, hypothetical `trades` and price `shocks`, each list optional. */
+export function validateScenario(input: unknown): Validated<ScenarioInput> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return { errors: ['Body must be a JSON object'] };
+  const body = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const name = text(body.name) ?? '';
+  if (!name) errors.push('name is required');
+  else if (name.length > 60) errors.push('name must be at most 60 characters');
+
+  const list = (field: string, max: number) => {
+    const raw = body[field] ?? [];
+    if (!Array.isArray(raw)) {
+      errors.push(`${field} must be a list`);
+      return [];
+    }
+    if (raw.length > max) errors.push(`${field} can have at most ${max} entries`);
+    return raw;
+  };
+  const trades = list('trades', MAX_TRADES).map((t, i) => readTrade(t, `trades[${i}]`, errors));
+  const shocks = list('shocks', MAX_SHOCKS).map((s, i) => readShock(s, `shocks[${i}]`, errors));
+  if (trades.length === 0 && shocks.length === 0) errors.push('add at least one trade or price shock');
+
+  if (errors.length) return { errors };
+  return { value: { name, trades: trades as ScenarioTrade[], shocks: shocks as PriceShock[] } };
+}
+
+export async function listScenarios(portfolioId: string): Promise<Scenario[]> {
+  return readJson<Scenario[]>(scopedStore(STORE, portfolioId), () => []);
+}
+
+export async function createScenario(portfolioId: string, input: ScenarioInput): Promise<Scenario> {
+  return updateJson(scopedStore(STORE, portfolioId), () => [] as Scenario[], (current) => {
+    const now = new Date().toISOString();
+    const scenario: Scenario = { id: randomUUID(), ...input, createdAt: now, updatedAt: now };
+    return { next: [...current, scenario], result: scenario };
+  });
+}
+
+/** Replace a saved scenario's name, trades and shocks; null when there is no such scenario. */
+export async function updateScenario(portfolioId: string, id: string, input: ScenarioInput): Promise<Scenario | null> {
+  return updateJson<Scenario[], Scenario | null>(scopedStore(STORE, portfolioId), () => [], (current) => {
+    const existing = current.find((s) => s.id === id);
+    if (!existing) return { next: current, result: null };
+    const updated: Scenario = { ...existing, ...input, updatedAt: new Date().toISOString() };
+    return { next: current.map((s) => (s.id === id ? updated : s)), result: updated };
+  });
+}
+
+export async function deleteScenario(portfolioId: string, id: string): Promise<boolean> {
+  return updateJson(scopedStore(STORE, portfolioId), () => [] as Scenario[], (current) => {
+    const next = current.filter((s) => s.id !== id);
+    return { next: next.length === current.length ? current : next, result: next.length !== current.length };
+  });
+}
@@ -0,0 +1,26 @@
+import { StockData } from '@/types/stock';
+
+export interface SectorGroup {
+  sector: string;
+  rows: StockData[];
+}
+
+// Grouping shared by the holdings table and the sector chart, in first-seen order
+export function groupBySector(rows: StockData[]): SectorGroup[] {
+  const map = new Map<string, StockData[]>();
+  for (const row of rows) {
+    const arr = map.get(row.sector) || [];
+    arr.push(row);
+    map.set(row.sector, arr);
+  }
+  return Array.from(map.entries()).map(([sector, rows]) => ({ sector, rows }));
+}
+
+// Stable palette so a sector keeps its colour as values move
+const SECTOR_COLORS = ['#16a34a', '#0ea5e9', '#f59e0b', '#a855f7', '#ef4444', '#14b8a6', '#eab308', '#ec4899', '#6366f1', '#84cc16'];
+
+export function sectorColor(sector: string): string {
+  let hash = 0;
+  for (let i = 0; i < sector.length; i++) hash = (hash * 31 + sector.charCodeAt(i)) >>> 0;
+  return SECTOR_COLORS[hash % SECTOR_COLORS.length];
+}
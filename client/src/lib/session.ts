@@ -0,0 +1,73 @@
+import { SessionClaims } from '@/types/user';
+
+// Signed session tokens (a JWT with HS256) kept in an http-only cookie. Only Web Crypto is used,
+// so the middleware on the edge runtime and the API routes on Node verify them the same way.
+
+export const SESSION_COOKIE = 'portfolio_session';
+export const SESSION_TTL_SEC = 7 * 24 * 60 * 60;
+
+// Only for local development; production refuses to start without AUTH_SECRET
+const DEV_SECRET = 'dev-only-session-secret';
+
+const encoder = new TextEncoder();
+
+function sessionSecret(): string {
+  if (process.env.AUTH_SECRET) return process.env.AUTH_SECRET;
+  if (process.env.NODE_ENV === 'production') throw new Error('AUTH_SECRET must be set in production');
+  return DEV_SECRET;
+}
+
+/** Throws when sessions could not be signed, for the startup check in instrumentation.ts. */
+export function checkSessionConfig(): void {
+  sessionSecret();
+}
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const fromBase64Url = (text: string) => Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), (c) => c.charCodeAt(0));
+
+const encodeJson = (value: unknown) => toBase64Url(encoder.encode(JSON.stringify(value)));
+
+const signingKey = () =>
+  crypto.subtle.importKey('raw', encoder.encode(sessionSecret()), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+export async function signSession(user: { id: string; name: string }, now = Date.now()): Promise<string> {
+  const iat = Math.floor(now / 1000);
+  const claims: SessionClaims = { sub: user.id, name: user.name, iat, exp: iat + SESSION_TTL_SEC };
+  const unsigned = `${encodeJson({ alg: 'HS256', typ: 'JWT' })}.${encodeJson(claims)}`;
+  const signature = await crypto.subtle.sign('HMAC', await signingKey(), encoder.encode(unsigned));
+  return `${unsigned}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/** The claims of a well-formed, correctly signed and unexpired token; null for anything else. */
+export async function verifySession(token: string | undefined, now = Date.now()): Promise<SessionClaims | null> {
+  const [header, payload, signature] = (token || '').split('.');
+  if (!header || !payload || !signature) return null;
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await signingKey(), fromBase64Url(signature), encoder.encode(`${header}.${payload}`));
+    if (!valid || JSON.parse(new TextDecoder().decode(fromBase64Url(header))).alg !== 'HS256') return null;
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as SessionClaims;
+    return typeof claims.sub === 'string' && claims.exp * 1000 > now ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Cookie attributes for a session; `maxAge` 0 clears it. */
+export const sessionCookie = (value: string, maxAge = SESSION_TTL_SEC) => ({
+  name: SESSION_COOKIE,
+  value,
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+  maxAge,
+});
+
+/** A same-site path to land on after signing in; anything else (other hosts, `//evil`) becomes `/`. */
+export const safeNext = (next: string | null | undefined) =>
+  next && next.startsWith('/') && !next.startsWith('//') && !next.startsWith('/\\') ? next : '/';
@@ -0,0 +1,100 @@
+import { StockData } from '@/types/stock';
+import { HistoryRange, PortfolioSnapshot } from '@/types/history';
+import { readJson, updateJson } from '@/lib/jsonStore';
+import { scopedStore } from '@/lib/portfoliosStore';
+import { rowKey } from '@/lib/portfolioView';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export const HISTORY_RANGES: Record<HistoryRange, number> = {
+  '1D': DAY,
+  '1W': 7 * DAY,
+  '1M': 30 * DAY,
+  '1Y': 365 * DAY,
+  ALL: Infinity,
+};
+
+// One series per portfolio and base currency, since amounts are stored converted
+const storeName = (portfolioId: string, baseCurrency: string) => scopedStore(`snapshots-${baseCurrency}`, portfolioId);
+
+function toSnapshot(rows: StockData[], baseCurrency: string, now: Date): PortfolioSnapshot {
+  const positions: PortfolioSnapshot['positions'] = {};
+  for (const r of rows) {
+    positions[rowKey(r)] = { price: r.currentPrice, shares: r.shares, presentValue: r.presentValue, gainLoss: r.gainLoss };
+  }
+  return {
+    timestamp: now.toISOString(),
+    baseCurrency,
+    totalValue: rows.reduce((s, r) => s + r.presentValue, 0),
+    investment: rows.reduce((s, r) => s + r.investment, 0),
+    gainLoss: rows.reduce((s, r) => s + r.gainLoss, 0),
+    positions,
+  };
+}
+
+// Same listings with the same price and quantity means nothing moved since the last write
+function samePositions(a: PortfolioSnapshot, b: PortfolioSnapshot) {
+  const aKeys = Object.keys(a.positions);
+  if (aKeys.length !== Object.keys(b.positions).length) return false;
+  return aKeys.every((key) => {
+    const p = b.positions[key];
+    return p && p.price === a.positions[key].price && p.shares === a.positions[key].shares;
+  });
+}
+
+/**
+ * Thin old snapshots so the file stays small: full resolution for two days,
+ * then the last snapshot of each hour, then the last of each day after 30 days.
+ */
+function compact(snapshots: PortfolioSnapshot[], now: number): PortfolioSnapshot[] {
+  const bucketOf = (s: PortfolioSnapshot) => {
+    const t = Date.parse(s.timestamp);
+    const age = now - t;
+    if (age <= 2 * DAY) return s.timestamp;
+    if (age <= 30 * DAY) return `h${Math.floor(t / HOUR)}`;
+    return `d${Math.floor(t / DAY)}`;
+  };
+  const lastInBucket = new Map<string, PortfolioSnapshot>();
+  for (const s of snapshots) lastInBucket.set(bucketOf(s), s);
+  return Array.from(lastInBucket.values());
+}
+
+/**
+ * Append a snapshot of freshly built rows unless no price or quantity changed.
+ * Rows valued at cost because they have never been priced are left out rather than recorded at a made-up price.
+ */
+export async function recordSnapshot(portfolioId: string, rows: StockData[], baseCurrency: string, now = new Date()): Promise<boolean> {
+  const priced = rows.filter((r) => r.meta.status !== 'failed');
+  if (priced.length === 0) return false;
+  const snapshot = toSnapshot(priced, baseCurrency, now);
+  return updateJson(storeName(portfolioId, baseCurrency), () => [] as PortfolioSnapshot[], (current) => {
+    const last = current[current.length - 1];
+    if (last && samePositions(last, snapshot)) return { next: current, result: false };
+    return { next: compact([...current, snapshot], now.getTime()), result: true };
+  });
+}
+
+export async function listSnapshots(
+  portfolioId: string,
+  baseCurrency: string,
+  range: HistoryRange,
+  now = Date.now()
+): Promise<PortfolioSnapshot[]> {
+  const all = await readJson<PortfolioSnapshot[]>(storeName(portfolioId, baseCurrency), () => []);
+  const since = now - HISTORY_RANGES[range];
+  return all.filter((s) => Date.parse(s.timestamp) >= since);
+}
+
+/** Prices (native currency) by rowKey from the most recent snapshot, used when a symbol fails to refresh. */
+export async function latestSnapshotPrices(
+  portfolioId: string,
+  baseCurrency: string
+): Promise<{ timestamp: string; prices: Record<string, number> } | null> {
+  const all = await readJson<PortfolioSnapshot[]>(storeName(portfolioId, baseCurrency), () => []);
+  const last = all[all.length - 1];
+  if (!last) return null;
+  const prices: Record<string, number> = {};
+  for (const [key, p] of Object.entries(last.positions)) prices[key] = p.price;
+  return { timestamp: last.timestamp, prices };
+}
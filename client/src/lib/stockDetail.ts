@@ -0,0 +1,128 @@
+import { PriceRange, StockDetail, StockPosition, StockPriceHistory } from '@/types/stockDetail';
+import { Holding } from '@/types/stock';
+import {
+  BACKEND_URL,
+  CmpResponse,
+  fetchBackend,
+  fetchEarningsHistory,
+  fetchFundamentals,
+  fetchPriceHistory,
+  instrumentRef,
+  searchInstruments,
+} from '@/lib/backend';
+import { foldPosition } from '@/lib/ledger';
+import { getHolding } from '@/lib/holdingsStore';
+import { listTransactions } from '@/lib/transactionsStore';
+import { listCorporateActions } from '@/lib/corporateActionsStore';
+import { listPortfolios } from '@/lib/portfoliosStore';
+import { getWatchlistEntry } from '@/lib/watchlistStore';
+
+// Chart ranges and the backend history range behind each; 1D and 5D come back as intraday bars
+export const PRICE_RANGES: Record<PriceRange, string> = {
+  '1D': '1d',
+  '5D': '5d',
+  '1M': '1mo',
+  '6M': '6mo',
+  '1Y': '1y',
+  '5Y': '5y',
+};
+
+const EARNINGS_QUARTERS = 8;
+
+// JSON turns a provider's NaN into null; keep missing figures null either way
+const figure = (n: number | null | undefined) => (typeof n === 'number' && Number.isFinite(n) ? n : null);
+
+async function positionsFor(userId: string, symbol: string): Promise<{ holding: Holding | null; positions: StockPosition[] }> {
+  let holding: Holding | null = null;
+  const positions: StockPosition[] = [];
+  for (const portfolio of await listPortfolios(userId)) {
+    const held = await getHolding(portfolio.id, symbol);
+    if (!held) continue;
+    holding ??= held;
+    const [transactions, actions] = await Promise.all([
+      listTransactions(portfolio.id, symbol),
+      listCorporateActions(portfolio.id, symbol),
+    ]);
+    const position = foldPosition(held, transactions, actions);
+    const lots = position.lots.filter((l) => l.quantity > 1e-9);
+    if (!lots.length && !position.realizedFifo && !position.dividendIncome) continue;
+    positions.push({
+      portfolioId: portfolio.id,
+      portfolioName: portfolio.name,
+      shares: position.shares,
+      averageCost: position.averageCost,
+      fifoCost: position.shares ? position.fifoInvestment / position.shares : 0,
+      realizedGainLoss: position.realizedFifo,
+      dividendIncome: position.dividendIncome,
+      lots,
+    });
+  }
+  return { holding, positions };
+}
+
+/**
+ * Everything the stock page shows for one symbol: quote, fundamentals, recent quarters and the
+ * open lots in every portfolio of the user's that holds it. Market data is best-effort; each part that fails
+ * is left null (or empty) and named in `warnings`. The listing is `exchange` when given, else the
+ * held or watched one; a symbol that is neither is looked up in the backend's instrument master.
+ */
+export async function buildStockDetail(userId: string, symbol: string, exchange: string | null = null): Promise<StockDetail> {
+  const [{ holding, positions }, watched] = await Promise.all([positionsFor(userId, symbol), getWatchlistEntry(userId, symbol)]);
+  let listing: { companyName: string; sector: string; exchange: string; currency: string } | null = holding ?? watched ?? null;
+  if (!listing && BACKEND_URL) {
+    const match = (await searchInstruments(symbol, exchange ?? undefined).catch(() => null))?.results.find((i) => i.symbol === symbol);
+    if (match) listing = { companyName: match.name, sector: match.sector, exchange: match.exchange, currency: match.currency };
+  }
+  const detail: StockDetail = {
+    symbol,
+    companyName: listing?.companyName ?? symbol,
+    sector: listing?.sector ?? null,
+    exchange: exchange ?? listing?.exchange ?? null,
+    currency: listing?.currency ?? null,
+    quote: null,
+    fundamentals: null,
+    earnings: [],
+    positions,
+    warnings: [],
+  };
+  if (!BACKEND_URL) {
+    detail.warnings.push('Market data needs the backend; only your lots are shown');
+    return detail;
+  }
+
+  const ref = instrumentRef(symbol, detail.exchange);
+  const [quote, fundamentals, earnings] = await Promise.allSettled([
+    fetchBackend<CmpResponse & { source?: string }>(`/api/cmp/${encodeURIComponent(ref)}`),
+    fetchFundamentals(ref),
+    fetchEarningsHistory(ref, EARNINGS_QUARTERS),
+  ]);
+  if (quote.status === 'fulfilled') {
+    const { currentPrice, previousClose, change, changePercent, volume, source } = quote.value;
+    detail.quote = { currentPrice, previousClose, change, changePercent, volume, source: source ?? null };
+  } else {
+    detail.warnings.push('Price unavailable');
+  }
+  if (fundamentals.status === 'fulfilled') {
+    const f = fundamentals.value;
+    detail.fundamentals = { peRatio: figure(f.peRatio), eps: figure(f.eps), marketCap: figure(f.marketCap), source: f.source ?? null };
+  } else {
+    detail.warnings.push('Fundamentals unavailable');
+  }
+  if (earnings.status === 'fulfilled') {
+    detail.earnings = earnings.value.quarters.map((q) => ({
+      period: q.period,
+      date: q.date || null,
+      eps: figure(q.eps),
+      epsEstimate: figure(q.epsEstimate),
+      revenue: figure(q.revenue),
+    }));
+  } else {
+    detail.warnings.push('Earnings history unavailable');
+  }
+  return detail;
+}
+
+export async function buildStockHistory(symbol: string, exchange: string | null, range: PriceRange): Promise<StockPriceHistory> {
+  const history = await fetchPriceHistory(instrumentRef(symbol, exchange), PRICE_RANGES[range]);
+  return { symbol, range, interval: history.interval, points: history.points, source: history.source ?? null };
+}
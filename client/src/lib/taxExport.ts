@@ -0,0 +1,137 @@
+import * as XLSX from 'xlsx';
+import { CapitalGainEntry, CapitalGainsReport } from '@/types/tax';
+import { formatCurrency } from '@/lib/format';
+import { PdfColumn, renderPdf } from '@/lib/pdf';
+
+const TERM_LABELS = { short: 'STCG', long: 'LTCG', unknown: 'Unclassified' };
+
+const round = (n: number) => Math.round(n * 100) / 100;
+const inr = (n: number) => formatCurrency(n, 'INR');
+
+const entryHeader = ['Symbol', 'Exchange', 'Qty', 'Buy date', 'Sell date', 'FY', 'Term', 'Cost', 'Grandfathered cost', 'Value', 'Gain', 'Rate %'];
+const entryRow = (e: CapitalGainEntry) => [
+  e.symbol,
+  e.exchange,
+  e.quantity,
+  e.buyDate ?? '',
+  e.sellDate ?? '',
+  e.financialYear ?? '',
+  TERM_LABELS[e.term],
+  round(e.cost),
+  e.grandfathered ? round(e.taxCost) : '',
+  round(e.value),
+  round(e.gain),
+  e.rate ?? '',
+];
+
+/** One CSV with the FY summaries, realized lot matches and open lots as consecutive blocks. */
+export function capitalGainsCsv(report: CapitalGainsReport): string {
+  const aoa: (string | number)[][] = [
+    ['Capital gains report (INR)', report.generatedAt],
+    [],
+    ['Financial year summary'],
+    ['FY', 'STCG', 'ST losses', 'LTCG', 'LT losses', 'Losses b/f (ST)', 'Losses b/f (LT)', 'LTCG exemption used', 'Taxable STCG', 'Taxable LTCG', 'Estimated tax', 'Losses c/f (ST)', 'Losses c/f (LT)'],
+    ...report.summaries.map((s) => [
+      s.financialYear,
+      round(s.shortTermGains),
+      round(s.shortTermLosses),
+      round(s.longTermGains),
+      round(s.longTermLosses),
+      round(s.lossesBroughtForward.short),
+      round(s.lossesBroughtForward.long),
+      round(s.exemptionUsed),
+      round(s.taxableShortTerm),
+      round(s.taxableLongTerm),
+      round(s.estimatedTax),
+      round(s.lossesCarriedForward.short),
+      round(s.lossesCarriedForward.long),
+    ]),
+    [],
+    ['Realized gains'],
+    entryHeader,
+    ...report.realized.map(entryRow),
+    [],
+    ['Unrealized gains (at CMP)'],
+    entryHeader,
+    ...report.unrealized.map(entryRow),
+  ];
+  if (report.warnings.length || report.excluded.length) {
+    aoa.push([], ['Notes'], ...report.warnings.map((w) => [w]), ...report.excluded.map((x) => [`${x.symbol} excluded: ${x.reason}`]));
+  }
+  return XLSX.utils.sheet_to_csv(XLSX.utils.aoa_to_sheet(aoa));
+}
+
+const entryColumns: PdfColumn[] = [
+  { label: 'Symbol', width: 70 },
+  { label: 'Qty', width: 45, align: 'right' },
+  { label: 'Bought', width: 62 },
+  { label: 'Sold', width: 62 },
+  { label: 'Term', width: 60 },
+  { label: 'Cost', width: 90, align: 'right' },
+  { label: 'Tax cost', width: 90, align: 'right' },
+  { label: 'Value', width: 90, align: 'right' },
+  { label: 'Gain', width: 90, align: 'right' },
+  { label: 'Rate', width: 40, align: 'right' },
+];
+
+const entryCells = (e: CapitalGainEntry) => [
+  e.symbol,
+  e.quantity.toLocaleString('en-IN'),
+  e.buyDate ?? '—',
+  e.sellDate ?? '—',
+  TERM_LABELS[e.term],
+  inr(e.cost),
+  e.grandfathered ? inr(e.taxCost) : '',
+  inr(e.value),
+  inr(e.gain),
+  e.rate === null ? '—' : `${e.rate}%`,
+];
+
+export async function capitalGainsPdf(report: CapitalGainsReport, fy: string | null): Promise<Uint8Array> {
+  return renderPdf(
+    `Capital Gains Report${fy ? ` — FY ${fy}` : ''}`,
+    `Generated ${new Date(report.generatedAt).toLocaleString('en-IN')} · Listed equity on NSE/BSE · Tax shown before surcharge and cess`,
+    [
+      {
+        title: 'Financial year summary',
+        table: {
+          columns: [
+            { label: 'FY', width: 60 },
+            { label: 'STCG', width: 85, align: 'right' },
+            { label: 'LTCG', width: 85, align: 'right' },
+            { label: 'Losses set off', width: 85, align: 'right' },
+            { label: 'Exemption used', width: 85, align: 'right' },
+            { label: 'Taxable STCG', width: 85, align: 'right' },
+            { label: 'Taxable LTCG', width: 85, align: 'right' },
+            { label: 'Est. tax', width: 80, align: 'right' },
+            { label: 'Losses c/f', width: 80, align: 'right' },
+          ],
+          rows: report.summaries.map((s) => [
+            s.financialYear,
+            inr(s.shortTermGains),
+            inr(s.longTermGains),
+            inr(s.shortTermLosses + s.longTermLosses + s.lossesBroughtForward.short + s.lossesBroughtForward.long - s.lossesCarriedForward.short - s.lossesCarriedForward.long),
+            inr(s.exemptionUsed),
+            inr(s.taxableShortTerm),
+            inr(s.taxableLongTerm),
+            inr(s.estimatedTax),
+            inr(s.lossesCarriedForward.short + s.lossesCarriedForward.long),
+          ]),
+        },
+      },
+      { title: 'Realized gains', table: { columns: entryColumns, rows: report.realized.map(entryCells) } },
+      {
+        title: 'Unrealized gains at CMP',
+        lines: [
+          `Short-term ${inr(report.unrealizedSummary.short)} · Long-term ${inr(report.unrealizedSummary.long)}` +
+            (report.unrealizedSummary.unknown ? ` · Unclassified ${inr(report.unrealizedSummary.unknown)}` : ''),
+        ],
+        table: { columns: entryColumns, rows: report.unrealized.map(entryCells) },
+      },
+      {
+        title: report.warnings.length || report.excluded.length ? 'Notes' : undefined,
+        lines: [...report.warnings, ...report.excluded.map((x) => `${x.symbol} excluded: ${x.reason}`)],
+      },
+    ]
+  );
+}
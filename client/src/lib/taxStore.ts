@@ -0,0 +1,41 @@
+import { readJson, updateJson } from '@/lib/jsonStore';
+import { userStore } from '@/lib/portfoliosStore';
+
+// Per-share fair market value on 31 Jan 2018 (highest quoted price that day), keyed by symbol; one table per user
+const STORE = 'grandfathered-fmv';
+
+export type FmvTable = Record<string, number>;
+
+export async function listFmv(userId: string): Promise<FmvTable> {
+  return readJson<FmvTable>(userStore(STORE, userId), () => ({}));
+}
+
+/** Validate a `{ SYMBOL: price }` body; a null or empty price removes the symbol's entry. */
+export function validateFmv(input: unknown): { value: Record<string, number | null>; errors?: undefined } | { value?: undefined; errors: string[] } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return { errors: ['Body must be a JSON object of symbol to price'] };
+  const errors: string[] = [];
+  const value: Record<string, number | null> = {};
+  for (const [key, raw] of Object.entries(input as Record<string, unknown>)) {
+    const symbol = key.trim().toUpperCase();
+    if (raw === null || raw === '') {
+      value[symbol] = null;
+      continue;
+    }
+    const price = Number(raw);
+    if (!Number.isFinite(price) || price <= 0) errors.push(`${symbol}: FMV must be a positive number`);
+    else value[symbol] = price;
+  }
+  if (errors.length) return { errors };
+  return { value };
+}
+
+export async function updateFmv(userId: string, changes: Record<string, number | null>): Promise<FmvTable> {
+  return updateJson(userStore(STORE, userId), () => ({}) as FmvTable, (current) => {
+    const next = { ...current };
+    for (const [symbol, price] of Object.entries(changes)) {
+      if (price === null) delete next[symbol];
+      else next[symbol] = price;
+    }
+    return { next, result: next };
+  });
+}
@@ -0,0 +1,91 @@
+import { randomUUID } from 'crypto';
+import { Holding } from '@/types/stock';
+import { CorporateAction, Transaction, TransactionType } from '@/types/ledger';
+import { readJson, updateJson } from '@/lib/jsonStore';
+import { foldPosition } from '@/lib/ledger';
+import { scopedStore } from '@/lib/portfoliosStore';
+
+const STORE = 'transactions';
+const TYPES: TransactionType[] = ['buy', 'sell'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export type TransactionInput = Omit<Transaction, 'id'>;
+
+export function validateTransaction(input: unknown): { value: TransactionInput; errors?: undefined } | { value?: undefined; errors: string[] } {
+  if (!input || typeof input !== 'object') return { errors: ['Body must be a JSON object'] };
+  const body = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const symbol = typeof body.symbol === 'string' ? body.symbol.trim().toUpperCase() : '';
+  if (!symbol) errors.push('symbol is required');
+
+  const type = body.type as TransactionType;
+  if (!TYPES.includes(type)) errors.push('type must be buy or sell');
+
+  const date = typeof body.date === 'string' ? body.date : '';
+  if (!DATE_PATTERN.test(date) || Number.isNaN(Date.parse(date))) errors.push('date must be YYYY-MM-DD');
+  else if (date > new Date().toISOString().slice(0, 10)) errors.push('date cannot be in the future');
+
+  const num = (field: string) => (body[field] === '' || body[field] === undefined ? undefined : Number(body[field]));
+  const quantity = num('quantity');
+  const price = num('price');
+  const fees = num('fees') ?? 0;
+  if (quantity === undefined || !Number.isFinite(quantity) || quantity <= 0) errors.push('quantity must be a positive number');
+  if (price === undefined || !Number.isFinite(price) || price <= 0) errors.push('price must be a positive number');
+  if (!Number.isFinite(fees) || fees < 0) errors.push('fees must be zero or more');
+
+  if (errors.length) return { errors };
+  return { value: { symbol, type, date, quantity: quantity!, price: price!, fees } };
+}
+
+export async function listTransactions(portfolioId: string, symbol?: string): Promise<Transaction[]> {
+  const all = await readJson<Transaction[]>(scopedStore(STORE, portfolioId), () => []);
+  return symbol ? all.filter((t) => t.symbol === symbol) : all;
+}
+
+/** Group the ledger by symbol for folding many holdings at once. */
+export async function transactionsBySymbol(portfolioId: string): Promise<Map<string, Transaction[]>> {
+  const map = new Map<string, Transaction[]>();
+  for (const t of await listTransactions(portfolioId)) {
+    const arr = map.get(t.symbol) || [];
+    arr.push(t);
+    map.set(t.symbol, arr);
+  }
+  return map;
+}
+
+// Both mutations re-fold the symbol's ledger so a sell can never exceed the shares held at its date
+export async function createTransaction(
+  portfolioId: string,
+  holding: Holding,
+  input: TransactionInput,
+  actions: CorporateAction[]
+): Promise<Transaction> {
+  return updateJson(scopedStore(STORE, portfolioId), () => [] as Transaction[], (current) => {
+    const txn: Transaction = { id: randomUUID(), ...input };
+    foldPosition(holding, [...current.filter((t) => t.symbol === holding.symbol), txn], actions);
+    return { next: [...current, txn], result: txn };
+  });
+}
+
+export async function deleteTransaction(
+  portfolioId: string,
+  id: string,
+  holding?: Holding,
+  actions: CorporateAction[] = []
+): Promise<boolean> {
+  return updateJson(scopedStore(STORE, portfolioId), () => [] as Transaction[], (current) => {
+    const target = current.find((t) => t.id === id);
+    if (!target) return { next: current, result: false };
+    const next = current.filter((t) => t.id !== id);
+    if (holding) foldPosition(holding, next.filter((t) => t.symbol === holding.symbol), actions);
+    return { next, result: true };
+  });
+}
+
+export async function deleteTransactionsForSymbol(portfolioId: string, symbol: string): Promise<void> {
+  await updateJson(scopedStore(STORE, portfolioId), () => [] as Transaction[], (current) => ({
+    next: current.filter((t) => t.symbol !== symbol),
+    result: undefined,
+  }));
+}
@@ -0,0 +1,127 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { Account, User } from '@/types/user';
+import { readJson, updateJson } from '@/lib/jsonStore';
+import { claimLegacyData, createStarterPortfolio } from '@/lib/portfoliosStore';
+
+const STORE = 'users';
+
+const USERNAME_PATTERN = /^[a-z0-9][a-z0-9._-]{2,31}$/;
+const MIN_PASSWORD_LENGTH = 8;
+const KEY_LENGTH = 64;
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// `scrypt$<salt>$<key>`, both base64
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${key.toString('base64')}`;
+}
+
+export async function verifyPassword(password: string, stored: string | null): Promise<boolean> {
+  const [scheme, salt, key] = (stored || '').split('$');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+  const expected = Buffer.from(key, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+export type Registration = { username: string; name: string; password: string };
+
+/** Validate a sign-up body: `username`, `password` and an optional display `name`. */
+export function validateRegistration(
+  input: unknown
+): { value: Registration; errors?: undefined } | { value?: undefined; errors: string[] } {
+  if (!input || typeof input !== 'object') return { errors: ['Body must be a JSON object'] };
+  const body = input as Record<string, unknown>;
+  const errors: string[] = [];
+  const username = typeof body.username === 'string' ? body.username.trim().toLowerCase() : '';
+  if (!USERNAME_PATTERN.test(username)) errors.push('username must be 3-32 lowercase letters, digits, ., _ or -');
+  const password = typeof body.password === 'string' ? body.password : '';
+  if (password.length < MIN_PASSWORD_LENGTH) errors.push(`password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  const name = typeof body.name === 'string' && body.name.trim() ? body.name.trim() : username;
+  if (name.length > 60) errors.push('name must be at most 60 characters');
+  if (errors.length) return { errors };
+  return { value: { username, name, password } };
+}
+
+export async function listUsers(): Promise<User[]> {
+  return readJson<User[]>(STORE, () => []);
+}
+
+export async function getUser(id: string): Promise<User | undefined> {
+  return (await listUsers()).find((u) => u.id === id);
+}
+
+export async function findUserByUsername(username: string): Promise<User | undefined> {
+  const wanted = username.trim().toLowerCase();
+  return (await listUsers()).find((u) => u.username === wanted);
+}
+
+/** Sign-up stays open until the first account exists, and afterwards only with AUTH_ALLOW_SIGNUP=true. */
+export async function signupOpen(): Promise<boolean> {
+  return process.env.AUTH_ALLOW_SIGNUP === 'true' || (await listUsers()).length === 0;
+}
+
+export const toAccount = (user: User): Account => ({
+  id: user.id,
+  username: user.username,
+  name: user.name,
+  provider: user.passwordHash ? 'local' : 'oidc',
+});
+
+// The first account takes over the data from before there were accounts; later ones start empty
+async function addUser(build: (current: User[]) => User | null): Promise<User | null> {
+  const added = await updateJson(STORE, () => [] as User[], (current) => {
+    const user = build(current);
+    return user ? { next: [...current, user], result: { user, first: current.length === 0 } } : { next: current, result: null };
+  });
+  if (!added) return null;
+  if (added.first) await claimLegacyData(added.user.id);
+  else await createStarterPortfolio(added.user.id);
+  return added.user;
+}
+
+const newUserId = () => `u${randomBytes(4).toString('hex')}`;
+
+/** Create a local account; null when the username is taken. */
+export async function createUser(input: Registration): Promise<User | null> {
+  const passwordHash = await hashPassword(input.password);
+  return addUser((current) =>
+    current.some((u) => u.username === input.username)
+      ? null
+      : { id: newUserId(), username: input.username, name: input.name, passwordHash, oidc: null, createdAt: new Date().toISOString() }
+  );
+}
+
+/**
+ * The account linked to an OIDC identity, created on its first sign-in. The username comes from
+ * the provider's `preferred_username` (or the email's local part), with a suffix when it is taken.
+ */
+export async function findOrCreateOidcUser(
+  issuer: string,
+  subject: string,
+  profile: { username?: string; name?: string }
+): Promise<User> {
+  const isLinked = (u: User) => u.oidc?.issuer === issuer && u.oidc.subject === subject;
+  const linked = (await listUsers()).find(isLinked);
+  if (linked) return linked;
+  const base = (profile.username || subject).toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^[^a-z0-9]+/, '').slice(0, 28) || 'user';
+  const created = await addUser((current) => {
+    // A concurrent callback for the same identity may have created it in the meantime
+    if (current.some(isLinked)) return null;
+    const taken = new Set(current.map((u) => u.username));
+    let username = base.length >= 3 ? base : `${base}-id`;
+    for (let n = 2; taken.has(username); n += 1) username = `${base}-${n}`;
+    return {
+      id: newUserId(),
+      username,
+      name: profile.name || username,
+      passwordHash: null,
+      oidc: { issuer, subject },
+      createdAt: new Date().toISOString(),
+    };
+  });
+  return created ?? (await listUsers()).find(isLinked)!;
+}
@@ -0,0 +1,102 @@
+import { WatchlistEntry } from '@/types/watchlist';
+import { readJson, updateJson } from '@/lib/jsonStore';
+import { userStore } from '@/lib/portfoliosStore';
+import { EXCHANGES, SYMBOL_PATTERN, currencyForExchange } from '@/lib/holdingsStore';
+
+const STORE = 'watchlist';
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+const MAX_NOTE_LENGTH = 200;
+
+export type WatchlistInput = Omit<WatchlistEntry, 'addedAt'>;
+
+/**
+ * Validate a watchlist body. Only symbol and exchange are required; the company name defaults to
+ * the symbol and the sector to Uncategorized, as in imports. With `base` the body is a partial update.
+ */
+export function validateWatchlistEntry(
+  input: unknown,
+  base?: WatchlistEntry
+): { value: WatchlistInput; errors?: undefined } | { value?: undefined; errors: string[] } {
+  if (!input || typeof input !== 'object') return { errors: ['Body must be a JSON object'] };
+  const body = input as Record<string, unknown>;
+  const errors: string[] = [];
+  const text = (field: string) => (typeof body[field] === 'string' ? (body[field] as string).trim() : undefined);
+
+  const symbol = text('symbol')?.toUpperCase() || base?.symbol || '';
+  if (!symbol) errors.push('symbol is required');
+  else if (!SYMBOL_PATTERN.test(symbol)) errors.push('symbol must be 1-20 letters, digits or . & -');
+  if (base && symbol !== base.symbol) errors.push('symbol cannot be changed');
+
+  const exchange = text('exchange')?.toUpperCase() || base?.exchange || '';
+  if (!exchange) errors.push('exchange is required');
+  else if (!EXCHANGES.includes(exchange)) errors.push(`exchange must be one of ${EXCHANGES.join(', ')}`);
+
+  // A changed exchange re-derives the currency unless one is given explicitly
+  const currency = text('currency')?.toUpperCase() || (base && exchange === base.exchange ? base.currency : currencyForExchange(exchange));
+  if (!CURRENCY_PATTERN.test(currency)) errors.push('currency must be a 3-letter ISO code');
+
+  // null or an empty string clears the target
+  let targetPrice = base ? base.targetPrice : null;
+  if (body.targetPrice === null || body.targetPrice === '') targetPrice = null;
+  else if (body.targetPrice !== undefined) {
+    const n = Number(body.targetPrice);
+    if (!Number.isFinite(n) || n <= 0) errors.push('targetPrice must be a positive number');
+    else targetPrice = n;
+  }
+
+  const note = text('note') ?? base?.note ?? '';
+  if (note.length > MAX_NOTE_LENGTH) errors.push(`note must be at most ${MAX_NOTE_LENGTH} characters`);
+
+  if (errors.length) return { errors };
+  return {
+    value: {
+      symbol,
+      companyName: text('companyName') || base?.companyName || symbol,
+      sector: text('sector') || base?.sector || 'Uncategorized',
+      exchange,
+      currency,
+      targetPrice,
+      note,
+    },
+  };
+}
+
+export async function listWatchlist(userId: string): Promise<WatchlistEntry[]> {
+  return readJson<WatchlistEntry[]>(userStore(STORE, userId), () => []);
+}
+
+export async function getWatchlistEntry(userId: string, symbol: string): Promise<WatchlistEntry | undefined> {
+  return (await listWatchlist(userId)).find((e) => e.symbol === symbol);
+}
+
+export async function addToWatchlist(userId: string, input: WatchlistInput): Promise<WatchlistEntry | null> {
+  return updateJson(userStore(STORE, userId), () => [] as WatchlistEntry[], (current) => {
+    if (current.some((e) => e.symbol === input.symbol)) return { next: current, result: null };
+    const entry: WatchlistEntry = { ...input, addedAt: new Date().toISOString() };
+    return { next: [...current, entry], result: entry };
+  });
+}
+
+/** Apply a validated update; returns null when the symbol is not watched. */
+export async function updateWatchlistEntry(
+  userId: string,
+  symbol: string,
+  body: unknown
+): Promise<ReturnType<typeof validateWatchlistEntry> | null> {
+  return updateJson<WatchlistEntry[], ReturnType<typeof validateWatchlistEntry> | null>(userStore(STORE, userId), () => [], (current) => {
+    const idx = current.findIndex((e) => e.symbol === symbol);
+    if (idx === -1) return { next: current, result: null };
+    const validated = validateWatchlistEntry(body, current[idx]);
+    if (!validated.value) return { next: current, result: validated };
+    const next = [...current];
+    next[idx] = { ...validated.value, addedAt: current[idx].addedAt };
+    return { next, result: validated };
+  });
+}
+
+export async function removeFromWatchlist(userId: string, symbol: string): Promise<boolean> {
+  return updateJson(userStore(STORE, userId), () => [] as WatchlistEntry[], (current) => {
+    const next = current.filter((e) => e.symbol !== symbol);
+    return { next, result: next.length !== current.length };
+  });
+}
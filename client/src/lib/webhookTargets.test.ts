@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { lookup } from 'dns/promises';
+import { webhookTargetError } from '@/lib/webhookTargets';
+
+vi.mock('dns/promises', () => ({ lookup: vi.fn() }));
+
+const resolvesTo = (...addresses: string[]) =>
+  vi.mocked(lookup).mockResolvedValue(addresses.map((address) => ({ address, family: address.includes(':') ? 6 : 4 })) as never);
+
+afterEach(() => {
+  vi.resetAllMocks();
+  vi.unstubAllEnvs();
+});
+
+describe('webhookTargetError', () => {
+  it('accepts hosts that resolve only to public addresses', async () => {
+    resolvesTo('93.184.216.34', '2606:2800:220:1:248:1893:25c8:1946');
+    expect(await webhookTargetError('https://hooks.example.com/alerts')).toBeNull();
+  });
+
+  it('rejects loopback, private and link-local targets, by name or literal', async () => {
+    resolvesTo('93.184.216.34', '10.0.0.7');
+    expect(await webhookTargetError('https://internal.example.com/')).toMatch(/private/);
+    for (const url of ['http://127.0.0.1:4500/', 'http://[::1]/', 'http://169.254.169.254/latest', 'http://192.168.1.1/', 'http://[::ffff:172.16.0.1]/']) {
+      expect(await webhookTargetError(url)).toMatch(/private/);
+    }
+  });
+
+  it('lets WEBHOOK_ALLOWED_HOSTS through and reports hosts that do not resolve', async () => {
+    vi.stubEnv('WEBHOOK_ALLOWED_HOSTS', 'localhost, receiver.internal');
+    expect(await webhookTargetError('http://localhost:4500/')).toBeNull();
+    expect(await webhookTargetError('http://receiver.internal/hook')).toBeNull();
+    vi.mocked(lookup).mockRejectedValue(new Error('ENOTFOUND'));
+    expect(await webhookTargetError('http://nowhere.invalid/')).toBe('url host nowhere.invalid could not be resolved');
+  });
+});
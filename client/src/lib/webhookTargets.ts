@@ -0,0 +1,52 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+// Loopback, private, link-local and other non-public ranges a webhook could use to reach internal services
+const BLOCKED = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 3],
+] as const) {
+  BLOCKED.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED.addSubnet(network, prefix, 'ipv6');
+}
+
+const allowedHosts = () =>
+  (process.env.WEBHOOK_ALLOWED_HOSTS || '')
+    .split(',')
+    .map((h) => h.trim().toLowerCase())
+    .filter(Boolean);
+
+// BlockList also matches IPv4-mapped IPv6 (::ffff:10.0.0.1) against the IPv4 ranges
+const isBlocked = (address: string) => BLOCKED.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+/**
+ * Why `url` may not receive webhooks, or null when it may. Every address the host resolves to must be
+ * public; hosts listed in WEBHOOK_ALLOWED_HOSTS (comma-separated) skip the check, e.g. `localhost`.
+ */
+export async function webhookTargetError(url: string): Promise<string | null> {
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (allowedHosts().includes(host)) return null;
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((a) => a.address);
+  } catch {
+    return `url host ${host} could not be resolved`;
+  }
+  if (addresses.some(isBlocked)) return 'url must not point at a loopback, private or link-local address';
+  return null;
+}
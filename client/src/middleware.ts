@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, verifySession } from '@/lib/session';
+
+// Paths reachable without a session: the sign-in page and the endpoints it talks to
+const PUBLIC_PATHS = ['/login', '/api/auth/'];
+
+/**
+ * Turns away requests without a valid session before they reach a page or route: API calls get
+ * a 401, pages a redirect to sign-in that comes back afterwards. Every API route outside
+ * /api/auth/ still looks the user up itself with sessionUser, since a valid token can outlive its account.
+ */
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (PUBLIC_PATHS.some((p) => pathname === p || pathname.startsWith(p))) return NextResponse.next();
+  if (await verifySession(request.cookies.get(SESSION_COOKIE)?.value)) return NextResponse.next();
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  const login = new URL('/login', request.url);
+  login.searchParams.set('next', `${pathname}${search}`);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+};
@@ -0,0 +1,54 @@
+// price: CMP in the holding's currency; changePercent: day change; gainLossPercent: gain/loss vs FIFO cost;
+// weight: share of portfolio value. All but price are the same in every base currency.
+export type AlertMetric = 'price' | 'changePercent' | 'gainLossPercent' | 'weight';
+
+export type AlertOperator = 'above' | 'below';
+
+export interface AlertRule {
+  id: string;
+  portfolioId: string; // portfolio whose rows the rule is checked against; `all` for the combined view
+  symbol: string;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+  cooldownMinutes: number; // minimum gap between two alerts from this rule
+  enabled: boolean;
+  note: string;
+  createdAt: string; // ISO
+  lastTriggeredAt: string | null;
+}
+
+export interface Alert {
+  id: string;
+  ruleId: string;
+  symbol: string;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+  value: number; // metric value that crossed the threshold
+  message: string;
+  triggeredAt: string; // ISO
+  read: boolean;
+}
+
+export interface Webhook {
+  id: string;
+  url: string;
+  secret: string; // when set, payloads are signed with HMAC-SHA256 in X-Portfolio-Signature
+  enabled: boolean;
+  createdAt: string;
+  lastDeliveryAt: string | null;
+  lastStatus: number | null; // HTTP status of the last delivery, null when it never connected
+  lastError: string | null;
+}
+
+// Body POSTed to every enabled webhook
+export interface AlertWebhookPayload {
+  event: 'portfolio.alert';
+  alert: Alert;
+}
+
+export interface AlertsResponse {
+  alerts: Alert[];
+  unread: number;
+}
@@ -0,0 +1,57 @@
+// Target weights are portfolio percentages of base-currency present value
+export interface AllocationTargets {
+  holdings: Record<string, number>; // symbol -> target weight
+  sectors: Record<string, number>; // sector -> target weight, shared by its holdings without their own
+  lotSizes: Record<string, number>; // symbol -> shares per tradable lot; 1 when absent
+  tolerance: number; // percentage points a weight may drift from its target
+}
+
+// Per-symbol targets after sector targets are split across their holdings
+export interface ResolvedTargets {
+  holdings: Record<string, number>;
+  sectors: Record<string, number>; // explicit, or the sum of its holdings' targets when every one has one
+  warnings: string[];
+}
+
+export interface RebalanceOptions {
+  cash: number; // new money to invest, in the base currency
+  noSell: boolean; // only buy; overweight holdings are left as they are
+  feePercent: number; // estimated brokerage and charges per trade, percent of trade value
+}
+
+export interface RebalanceTrade {
+  symbol: string;
+  companyName: string;
+  sector: string;
+  action: 'buy' | 'sell';
+  quantity: number; // whole lots
+  lotSize: number;
+  price: number; // CMP in `currency`
+  currency: string;
+  value: number; // quantity x CMP in the base currency
+  fee: number; // base currency
+}
+
+export interface AllocationLine {
+  weight: number; // before trades
+  postWeight: number; // after trades
+  targetWeight: number | null;
+}
+
+export interface RebalancePlan {
+  baseCurrency: string;
+  options: RebalanceOptions;
+  tolerance: number;
+  trades: RebalanceTrade[];
+  totals: {
+    buys: number;
+    sells: number;
+    fees: number;
+    netCash: number; // buys + fees - sell proceeds; negative when the plan frees up cash
+    leftoverCash: number; // new cash and proceeds not spent, e.g. less than a lot
+  };
+  holdings: (AllocationLine & { symbol: string; companyName: string; sector: string; shares: number; postShares: number })[];
+  sectors: (AllocationLine & { sector: string })[];
+  withinTolerance: boolean; // every targeted holding and sector ends within tolerance
+  warnings: string[];
+}
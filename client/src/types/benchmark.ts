@@ -0,0 +1,29 @@
+export type PerformanceRange = '1M' | '3M' | '6M' | '1Y' | '2Y' | '5Y';
+
+export interface BenchmarkIndex {
+  id: string; // e.g. NIFTY50
+  symbol: string; // provider symbol, e.g. ^NSEI
+  name: string;
+  currency: string;
+}
+
+// Cumulative returns since the start of the range, in percent
+export interface PerformancePoint {
+  date: string; // yyyy-mm-dd
+  portfolio: number | null; // null until the portfolio holds anything
+  benchmark: number | null;
+}
+
+export interface BenchmarkComparison {
+  benchmark: BenchmarkIndex & { currentPrice: number; changePercent: number };
+  range: PerformanceRange;
+  baseCurrency: string;
+  interval: string; // bar size of the underlying closes, e.g. 1d or 1wk
+  series: PerformancePoint[];
+  portfolioReturn: number | null; // time-weighted, percent
+  benchmarkReturn: number | null; // price return, percent
+  relativeReturn: number | null; // percentage points
+  beta: number | null;
+  alpha: number | null; // percent over the range
+  warnings: string[];
+}
@@ -0,0 +1,23 @@
+export type HistoryRange = '1D' | '1W' | '1M' | '1Y' | 'ALL';
+
+export interface SnapshotPosition {
+  price: number; // native currency
+  shares: number;
+  presentValue: number; // base currency
+  gainLoss: number; // base currency
+}
+
+export interface PortfolioSnapshot {
+  timestamp: string; // ISO
+  baseCurrency: string;
+  totalValue: number;
+  investment: number;
+  gainLoss: number;
+  positions: Record<string, SnapshotPosition>;
+}
+
+export interface HistoryResponse {
+  range: HistoryRange;
+  baseCurrency: string;
+  snapshots: PortfolioSnapshot[];
+}
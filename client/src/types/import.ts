@@ -0,0 +1,27 @@
+import { Holding } from '@/types/stock';
+
+export type ImportField = keyof Holding;
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportRowReport {
+  row: number; // 1-based spreadsheet row, header is row 1
+  symbol: string; // raw value from the mapped column, kept for error rows
+  holding?: Holding;
+  status: 'new' | 'update' | 'error';
+  errors: string[];
+  warnings: string[]; // importable, but worth a look, e.g. a symbol the backend could not check
+}
+
+export interface ImportReport {
+  headers: string[];
+  mapping: ColumnMapping;
+  rows: ImportRowReport[];
+  summary: { total: number; valid: number; invalid: number; new: number; updated: number };
+}
+
+export interface ImportResponse extends ImportReport {
+  mode: ImportMode;
+  applied: boolean;
+  error?: string;
+}
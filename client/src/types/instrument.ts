@@ -0,0 +1,9 @@
+// One exchange listing from the backend's instrument master
+export interface Instrument {
+  symbol: string;
+  exchange: string;
+  name: string;
+  isin: string;
+  sector: string;
+  currency: string;
+}
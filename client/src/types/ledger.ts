@@ -0,0 +1,80 @@
+export type TransactionType = 'buy' | 'sell';
+
+export interface Transaction {
+  id: string;
+  symbol: string;
+  type: TransactionType;
+  date: string; // ISO yyyy-mm-dd
+  quantity: number;
+  price: number; // per share, excluding fees
+  fees: number;
+}
+
+export type CorporateActionType = 'split' | 'bonus' | 'dividend' | 'rights';
+
+/**
+ * Split, bonus, dividend or rights issue effective from `exDate`. Ratios read as
+ * `numerator` shares for every `denominator` held (a 10:1 split is 10/1, a 1:15 rights issue 1/15).
+ * `amount` is the dividend per share, or the issue price per rights share, in the quote currency.
+ */
+export interface CorporateAction {
+  id: string;
+  symbol: string;
+  type: CorporateActionType;
+  exDate: string; // ISO yyyy-mm-dd; applies to lots bought before this date
+  numerator: number | null;
+  denominator: number | null;
+  amount: number | null;
+  source: 'manual' | 'feed';
+}
+
+// Cash a corporate action moved: dividends received (positive) or rights shares paid for (negative)
+export interface ActionCashFlow {
+  actionId: string;
+  type: 'dividend' | 'rights';
+  date: string;
+  shares: number; // shares the dividend was paid on, or rights shares taken up
+  amount: number;
+}
+
+// Open FIFO lot; cost includes the buy fees allocated to the remaining quantity
+export interface Lot {
+  date: string | null; // the opening lot takes the holding's purchaseDate, null when unknown
+  quantity: number;
+  costPerShare: number;
+}
+
+// Quantity of one lot consumed by a sell; the FIFO matches a tax report is built from
+export interface Disposal {
+  transactionId: string;
+  buyDate: string | null; // date of the consumed lot
+  sellDate: string;
+  quantity: number;
+  costPerShare: number; // including the lot's buy fees
+  proceedsPerShare: number; // net of the sell fees
+}
+
+// Running state after each ledger entry, used to show how a position was derived
+export interface LedgerStep {
+  transaction: Transaction | null; // null for the opening lot and corporate actions
+  action: CorporateAction | null;
+  shares: number;
+  averageCost: number;
+  fifoCost: number;
+  realizedFifo: number; // realized P&L contributed by this step
+  realizedAverage: number;
+}
+
+export interface Position {
+  shares: number;
+  averageCost: number; // weighted-average cost per share
+  averageInvestment: number; // averageCost * shares
+  fifoInvestment: number; // cost of open FIFO lots
+  realizedFifo: number;
+  realizedAverage: number;
+  dividendIncome: number;
+  lots: Lot[];
+  disposals: Disposal[];
+  actionCashFlows: ActionCashFlow[];
+  steps: LedgerStep[];
+}
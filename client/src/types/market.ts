@@ -0,0 +1,21 @@
+export type MarketState = 'open' | 'pre-open' | 'closed';
+
+// One market from the backend's exchange calendar; NSE and BSE share a calendar, as do NASDAQ and NYSE
+export interface MarketStatus {
+  market: string; // calendar id, e.g. NSE
+  name: string; // e.g. NSE / BSE
+  exchanges: string[];
+  timeZone: string; // IANA zone the sessions are defined in
+  state: MarketState;
+  holiday: string | null; // today's holiday in the market's time zone, if any
+  weekend: boolean;
+  nextChange: string | null; // ISO time the state next changes; null past the end of the calendar
+  opensAt?: string | null; // next regular open, when not open
+  closesAt?: string; // today's close, while open
+}
+
+export interface MarketStatusResponse {
+  markets: MarketStatus[];
+  at: string;
+  asOf: string | null; // date the calendar was published
+}
@@ -0,0 +1,6 @@
+export interface Portfolio {
+  id: string; // generated from the name (slug plus random suffix); used in URLs and store names
+  name: string;
+  ownerId?: string; // user id; unset only on data from before accounts, until the first user claims it
+  createdAt: string; // ISO
+}
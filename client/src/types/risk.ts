@@ -0,0 +1,43 @@
+import { PerformanceRange } from '@/types/benchmark';
+
+// Percentages are annualized where noted; null when there is too little history
+export interface RiskMetrics {
+  return: number | null; // over the range, percent
+  volatility: number | null; // annualized standard deviation of period returns, percent
+  beta: number | null; // to the benchmark
+  maxDrawdown: number | null; // worst peak-to-trough fall, percent (negative)
+  sharpe: number | null; // annualized excess return over volatility
+}
+
+export interface HoldingRisk extends RiskMetrics {
+  symbol: string;
+  exchange: string;
+  currency: string;
+  companyName: string;
+  sector: string;
+  weight: number;
+}
+
+export interface Concentration {
+  top: { count: number; weight: number }[]; // combined weight of the largest 1, 3, 5 and 10 holdings
+  holdingHhi: number; // Herfindahl-Hirschman index of holding weights, 0-10000
+  effectiveHoldings: number; // 10000 / HHI: how many equal positions the spread is worth
+  sectorHhi: number;
+  effectiveSectors: number;
+  largestHolding: { symbol: string; weight: number } | null;
+  largestSector: { sector: string; weight: number } | null;
+}
+
+export interface RiskReport {
+  range: PerformanceRange;
+  baseCurrency: string;
+  benchmark: { id: string; name: string };
+  interval: string;
+  periodsPerYear: number;
+  riskFreeRate: number; // annual, percent
+  portfolio: RiskMetrics;
+  holdings: HoldingRisk[];
+  correlation: { keys: string[]; labels: string[]; matrix: (number | null)[][] }; // keys are rowKeys; labels add the listing only where a symbol repeats
+  concentration: Concentration;
+  warnings: string[];
+}
@@ -0,0 +1,51 @@
+import { PortfolioSummary, StockData } from '@/types/stock';
+
+// A hypothetical trade dated today. Held symbols default to their CMP; a symbol not held yet needs
+// a price and opens a new position with the listing details given here.
+export interface ScenarioTrade {
+  symbol: string;
+  action: 'buy' | 'sell';
+  quantity: number; // whole shares
+  price: number | null; // per share in the listing's currency; null trades at the current CMP
+  exchange: string | null; // only used for symbols not held
+  companyName: string | null;
+  sector: string | null;
+}
+
+// Price moves applied after the trades: percentages compound, a symbol's target price wins
+export type PriceShock =
+  | { type: 'all'; percent: number }
+  | { type: 'sector'; sector: string; percent: number }
+  | { type: 'symbol'; symbol: string; price: number };
+
+export interface Scenario {
+  id: string;
+  name: string;
+  trades: ScenarioTrade[];
+  shocks: PriceShock[];
+  createdAt: string; // ISO
+  updatedAt: string;
+}
+
+export interface ScenarioLine {
+  presentValue: number;
+  gainLoss: number;
+  weight: number;
+}
+
+export interface ScenarioEvaluation {
+  baseCurrency: string;
+  rows: StockData[]; // the portfolio as it would be, shaped like /api/portfolio rows
+  cash: number; // sell proceeds minus buy cost in the base currency; negative when the trades need money
+  holdings: { symbol: string; companyName: string; sector: string; current: ScenarioLine & { shares: number }; scenario: ScenarioLine & { shares: number } }[];
+  sectors: { sector: string; current: ScenarioLine; scenario: ScenarioLine }[];
+  warnings: string[];
+}
+
+// Saved scenarios next to the current state, for the comparison table
+export interface ScenarioComparison {
+  baseCurrency: string;
+  current: PortfolioSummary & { investment: number; sectors: Record<string, number> }; // sector -> weight
+  scenarios: (PortfolioSummary & { id: string; name: string; investment: number; cash: number; sectors: Record<string, number> })[];
+  warnings: string[]; // scenarios left out because their trades no longer fit the holdings
+}
@@ -15,15 +15,82 @@ export interface StockData {
     revenue: number;
   };
   // Portfolio-specific fields
-  purchasePrice: number; // Purchase Price
+  // Per-share prices (purchasePrice, averageCost, currentPrice, previousClose, change) are in `currency`;
+  // aggregate amounts (investment, presentValue, totalValue, gainLoss, realizedGainLoss) are in `baseCurrency`
+  currency: string;
+  baseCurrency: string;
+  fxRate: number; // multiply a `currency` amount by this to get `baseCurrency`
+  purchasePrice: number; // FIFO cost per remaining share
   shares: number; // Quantity
   exchange: string; // NSE/BSE
   // Computed fields
-  investment: number; // purchasePrice * shares
+  investment: number; // FIFO cost of open lots (purchasePrice * shares without a ledger)
+  averageCost: number; // weighted-average cost per share
+  realizedGainLoss: number; // FIFO realized P&L from sells
+  dividendIncome: number; // dividends received from corporate actions, in `baseCurrency`
+  transactionCount: number; // ledger entries on top of the opening lot
   totalValue: number; // alias: presentValue
   presentValue: number; // currentPrice * shares
   gainLoss: number; // presentValue - investment
-  weight: number; // portfolio percentage
+  weight: number; // portfolio percentage of base-currency presentValue
+  native: {
+    investment: number;
+    presentValue: number;
+    gainLoss: number;
+  };
+  // Returns; percentages, null when a purchase date is missing or the rate cannot be solved
+  purchaseDate: string | null; // date of the opening lot
+  totalInvested: number; // every buy including lots since sold, in `baseCurrency`
+  absoluteReturnPercent: number; // (presentValue + sell proceeds + dividends - buy cost) / buy cost
+  cagr: number | null; // annualized growth of the open lots over their cost-weighted holding period
+  xirr: number | null; // money-weighted annual return of every buy, sell and the current value
+  holdingDays: number | null; // cost-weighted age of the open lots
+  cashFlows: CashFlow[]; // dated buys (negative) and sells (positive) in `currency`, excluding current value
+  meta: RowMeta;
+}
+
+export interface CashFlow {
+  date: string; // ISO yyyy-mm-dd
+  amount: number;
+}
+
+export type QuoteField = 'cmp' | 'pe' | 'earnings';
+
+// Where one quote field came from; `error` is set when this refresh failed to fetch it
+export interface FieldMeta {
+  source: string | null; // provider name, 'last-known', 'cost' or 'synthetic'
+  fetchedAt: string | null; // ISO time the value was fetched upstream
+  cache: 'hit' | 'miss' | null;
+  stale: boolean;
+  error?: string;
+}
+
+// live: fresh CMP; stale: CMP is a last known price; failed: no price at all, valued at cost;
+// synthetic: no backend configured, prices are made up
+export type RowStatus = 'live' | 'stale' | 'failed' | 'synthetic';
+
+export interface RowMeta {
+  status: RowStatus;
+  fields: Record<QuoteField, FieldMeta>;
+}
+
+export interface FxRates {
+  base: string;
+  rates: Record<string, number>; // units of each currency per 1 base
+  asOf: string;
+  source: string;
+}
+
+// Stored position; StockData rows are built from these plus live quotes
+export interface Holding {
+  symbol: string;
+  companyName: string;
+  sector: string;
+  purchasePrice: number;
+  shares: number;
+  exchange: string;
+  currency: string; // ISO code prices are quoted in
+  purchaseDate: string | null; // ISO yyyy-mm-dd of the opening lot; null when unknown
 }
 
 export interface PortfolioSummary {
@@ -31,6 +98,7 @@ export interface PortfolioSummary {
   totalChange: number;
   totalChangePercent: number;
   totalGainLoss: number;
+  totalDividendIncome: number;
   numberOfStocks: number;
 }
 
@@ -0,0 +1,52 @@
+import { Lot } from '@/types/ledger';
+
+export type PriceRange = '1D' | '5D' | '1M' | '6M' | '1Y' | '5Y';
+
+// One reported quarter; null where the provider has no figure
+export interface EarningsQuarter {
+  period: string; // fiscal quarter end, yyyy-mm
+  date: string | null; // when it was reported
+  eps: number | null;
+  epsEstimate: number | null;
+  revenue: number | null;
+}
+
+// The symbol as held in one portfolio; prices are in `currency`
+export interface StockPosition {
+  portfolioId: string;
+  portfolioName: string;
+  shares: number;
+  averageCost: number;
+  fifoCost: number; // FIFO cost per open share, the table's purchase price
+  realizedGainLoss: number; // FIFO
+  dividendIncome: number;
+  lots: Lot[]; // open FIFO lots, oldest first
+}
+
+export interface StockDetail {
+  symbol: string;
+  companyName: string; // the symbol itself when it is neither held nor watched
+  sector: string | null;
+  exchange: string | null;
+  currency: string | null;
+  quote: {
+    currentPrice: number;
+    previousClose: number;
+    change: number;
+    changePercent: number;
+    volume: number;
+    source: string | null;
+  } | null;
+  fundamentals: { peRatio: number | null; eps: number | null; marketCap: number | null; source: string | null } | null;
+  earnings: EarningsQuarter[];
+  positions: StockPosition[];
+  warnings: string[]; // market data that could not be loaded
+}
+
+export interface StockPriceHistory {
+  symbol: string;
+  range: PriceRange;
+  interval: string;
+  points: { time: string; close: number; volume: number }[];
+  source: string | null;
+}
@@ -0,0 +1,19 @@
+import { StockData } from '@/types/stock';
+
+// Rows are identified by rowKey (symbol, exchange and currency), since the combined view can list a symbol twice
+export interface RowDiff {
+  key: string;
+  changes: Partial<StockData>; // only the fields whose value changed
+}
+
+export interface PortfolioDiff {
+  updated: RowDiff[];
+  added: StockData[];
+  removed: string[]; // row keys
+  order: string[]; // row keys in server order after the diff
+}
+
+export type StreamEvent =
+  | { type: 'snapshot'; data: StockData[] }
+  | { type: 'diff'; data: PortfolioDiff }
+  | { type: 'failure'; data: { message: string } }; // refresh failed; the connection stays open
@@ -0,0 +1,51 @@
+export type GainTerm = 'short' | 'long' | 'unknown'; // unknown when the lot has no purchase date
+
+// One FIFO lot match (realized) or one open lot valued at CMP (unrealized), in INR
+export interface CapitalGainEntry {
+  symbol: string;
+  exchange: string;
+  quantity: number;
+  buyDate: string | null;
+  sellDate: string | null; // null for open lots
+  financialYear: string | null; // FY of the sale, e.g. "2024-25"; null for open lots
+  term: GainTerm;
+  cost: number; // actual cost including buy fees
+  taxCost: number; // cost after grandfathering; equals `cost` for lots bought from Feb 2018
+  grandfathered: boolean; // cost was stepped up to the 31 Jan 2018 FMV
+  value: number; // sale proceeds net of fees, or quantity x CMP for open lots
+  gain: number; // value - taxCost
+  rate: number | null; // tax rate in percent for the sale (or for a sale today), before surcharge and cess
+  longTermFrom: string | null; // first sale date that counts as long-term
+}
+
+export interface LossBalance {
+  short: number;
+  long: number;
+}
+
+export interface FinancialYearSummary {
+  financialYear: string;
+  shortTermGains: number;
+  shortTermLosses: number;
+  longTermGains: number;
+  longTermLosses: number;
+  lossesBroughtForward: LossBalance;
+  exemptionLimit: number; // LTCG exempt each year under section 112A
+  exemptionUsed: number;
+  taxableShortTerm: number; // after loss set-off
+  taxableLongTerm: number; // after loss set-off and the exemption
+  estimatedTax: number;
+  lossesCarriedForward: LossBalance;
+}
+
+export interface CapitalGainsReport {
+  generatedAt: string;
+  currency: 'INR';
+  financialYears: string[]; // every FY with a sale, oldest first
+  summaries: FinancialYearSummary[];
+  realized: CapitalGainEntry[];
+  unrealized: CapitalGainEntry[];
+  unrealizedSummary: Record<GainTerm, number>;
+  excluded: { symbol: string; reason: string }[];
+  warnings: string[];
+}
@@ -0,0 +1,23 @@
+export interface User {
+  id: string; // short random id; names the account's stores
+  username: string; // lowercase sign-in name
+  name: string;
+  passwordHash: string | null; // scrypt; null for accounts that only sign in through OIDC
+  oidc: { issuer: string; subject: string } | null;
+  createdAt: string; // ISO
+}
+
+// What the API tells a signed-in user about their account
+export interface Account {
+  id: string;
+  username: string;
+  name: string;
+  provider: 'local' | 'oidc';
+}
+
+export interface SessionClaims {
+  sub: string; // user id
+  name: string;
+  iat: number; // seconds since the epoch
+  exp: number;
+}
@@ -0,0 +1,24 @@
+import { RowMeta } from '@/types/stock';
+
+export interface WatchlistEntry {
+  symbol: string;
+  companyName: string;
+  sector: string;
+  exchange: string;
+  currency: string;
+  targetPrice: number | null; // buy at or below this, in `currency`
+  note: string;
+  addedAt: string; // ISO
+}
+
+// Quote fields are null when no price has ever been fetched for the symbol
+export interface WatchlistRow extends WatchlistEntry {
+  currentPrice: number | null;
+  change: number | null;
+  changePercent: number | null;
+  peRatio: number | null;
+  latestEarnings: { date: string; eps: number; revenue: number } | null;
+  targetGapPercent: number | null; // how far CMP is above (+) or below (-) the target
+  atTarget: boolean;
+  meta: RowMeta;
+}